@@ -0,0 +1,90 @@
+import type { Connect } from 'vite';
+import { resampleLevel } from './audio-analysis';
+import { getAnalysisStatus, subscribeAnalysis } from './analysis-queue';
+import { getWaveformResult } from './youtube-api';
+
+/**
+ * Analysis status middleware - reports the state and progress of a video's
+ * background analysis job so the client can poll while a waveform loads
+ */
+export function analysisStatusMiddleware(): Connect.NextHandleFunction {
+  return (req, res, next) => {
+    // Only handle /api/analysis/status requests
+    if (!req.url?.startsWith('/api/analysis/status')) {
+      return next();
+    }
+
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    const videoId = url.searchParams.get('id');
+
+    if (!videoId) {
+      res.statusCode = 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ error: 'Missing query parameter "id"' }));
+      return;
+    }
+
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Cache-Control', 'no-store');
+    res.end(JSON.stringify({ videoId, ...getAnalysisStatus(videoId) }));
+  };
+}
+
+/**
+ * Analysis stream middleware - Server-Sent Events for a video's waveform
+ * Sends `progress` events (state and 0-1 progress), `partial` events with the
+ * overview measured so far (covering only the start of the track), and one
+ * `result` event with the same body as /api/youtube/waveform before closing.
+ */
+export function analysisStreamMiddleware(): Connect.NextHandleFunction {
+  return async (req, res, next) => {
+    // Only handle /api/analysis/stream requests
+    if (!req.url?.startsWith('/api/analysis/stream')) {
+      return next();
+    }
+
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    const videoId = url.searchParams.get('id');
+    const samples = parseInt(url.searchParams.get('samples') || '1024');
+
+    if (!videoId) {
+      res.statusCode = 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ error: 'Missing query parameter "id"' }));
+      return;
+    }
+
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('Access-Control-Allow-Origin', '*');
+
+    let closed = false;
+    const send = (event: string, data: unknown) => {
+      if (!closed) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const unsubscribe = subscribeAnalysis(videoId, (event) => {
+      if (event.type === 'status') {
+        send('progress', event.status);
+      } else {
+        // Overview buckets for the measured part, at the final overview's bucket size
+        const overview = resampleLevel(event.detail, Math.max(1, Math.round(samples * event.fraction)));
+        send('partial', { overview, fraction: event.fraction });
+      }
+    });
+    req.on('close', () => {
+      closed = true;
+      unsubscribe();
+    });
+
+    send('progress', getAnalysisStatus(videoId));
+    const result = await getWaveformResult(videoId, samples);
+    unsubscribe();
+    send('result', result);
+    res.end();
+  };
+}
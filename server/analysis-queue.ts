@@ -0,0 +1,205 @@
+import { analyzeAudio, type WaveformLevel } from './audio-analysis';
+import { analyzeBeats } from './beat-analysis';
+import { ANALYSIS_VERSION, isValidVideoId, readAnalysis, writeAnalysis, type AnalysisRecord } from './analysis-store';
+import { getTrackProvider } from './providers';
+
+/**
+ * Background analysis jobs
+ *
+ * Downloads (from the track's provider) and analyzes tracks with a
+ * concurrency limit. Concurrent requests for the same video share one job,
+ * finished analyses are served from the on-disk store, and each job's
+ * progress can be polled or subscribed to.
+ */
+
+export type AnalysisState = 'none' | 'queued' | 'downloading' | 'decoding' | 'analyzing' | 'done' | 'error';
+
+export interface AnalysisStatus {
+  state: AnalysisState;
+  progress: number; // 0-1
+  duration?: number; // seconds, once known
+  error?: string;
+}
+
+/** Pushed to subscribers: status changes, and the waveform measured so far */
+export type AnalysisEvent =
+  | { type: 'status'; status: AnalysisStatus }
+  | { type: 'partial'; detail: WaveformLevel; fraction: number }; // fraction of the track in `detail`
+
+export interface AnalysisResult {
+  record: AnalysisRecord;
+  cached: boolean; // Served from the store without analyzing
+}
+
+// Parallel download/analysis jobs (decoding is memory hungry)
+const MAX_CONCURRENT_JOBS = Number(process.env.ANALYSIS_CONCURRENCY) || 2;
+
+// Shares of the progress bar spent downloading and decoding; the rest is analysis
+const DOWNLOAD_SHARE = 0.7;
+const DECODE_SHARE = 0.1;
+
+// Progress changes smaller than this aren't recorded or pushed
+const PROGRESS_STEP = 0.01;
+
+// Failed videos aren't retried for this long (the fallback is served instead)
+const FAILURE_RETRY_MS = 60 * 1000;
+
+// Downloads smaller than this are error pages, not audio
+const MIN_AUDIO_BYTES = 1000;
+
+const statuses = new Map<string, AnalysisStatus & { failedAt?: number }>();
+const inFlight = new Map<string, Promise<AnalysisResult>>();
+const listeners = new Map<string, Set<(event: AnalysisEvent) => void>>();
+
+// Jobs waiting for a slot; a finishing job hands its slot to the next one
+const waiting: (() => void)[] = [];
+let runningJobs = 0;
+
+async function acquireSlot(): Promise<void> {
+  if (runningJobs < MAX_CONCURRENT_JOBS) {
+    runningJobs++;
+    return;
+  }
+  await new Promise<void>((resolve) => waiting.push(resolve));
+}
+
+function releaseSlot(): void {
+  const next = waiting.shift();
+  if (next) {
+    next();
+  } else {
+    runningJobs--;
+  }
+}
+
+function emit(videoId: string, event: AnalysisEvent): void {
+  listeners.get(videoId)?.forEach((listener) => listener(event));
+}
+
+function setStatus(videoId: string, status: AnalysisStatus & { failedAt?: number }): void {
+  const previous = statuses.get(videoId);
+  if (previous?.state === status.state && Math.abs(status.progress - previous.progress) < PROGRESS_STEP) {
+    return;
+  }
+
+  statuses.set(videoId, status);
+  emit(videoId, { type: 'status', status: getAnalysisStatus(videoId) });
+}
+
+async function runJob(videoId: string): Promise<AnalysisResult> {
+  const stored = await readAnalysis(videoId);
+  if (stored) {
+    setStatus(videoId, { state: 'done', progress: 1, duration: stored.duration });
+    return { record: stored, cached: true };
+  }
+
+  setStatus(videoId, { state: 'queued', progress: 0 });
+  await acquireSlot();
+
+  try {
+    const source = await getTrackProvider(videoId).getAnalysisAudio(videoId);
+    const knownDuration = source.duration > 0 ? source.duration : undefined;
+    setStatus(videoId, { state: 'downloading', progress: 0, duration: knownDuration });
+    console.log(`[Analysis] Downloading "${videoId}" (duration: ${knownDuration ?? '?'}s)`);
+
+    const audio = await source.load((fraction) => {
+      setStatus(videoId, { state: 'downloading', progress: fraction * DOWNLOAD_SHARE, duration: knownDuration });
+    });
+    if (audio.length < MIN_AUDIO_BYTES) {
+      throw new Error('Downloaded audio too small, might be an error response');
+    }
+
+    const analysis = await analyzeAudio(audio, (progress) => {
+      if (progress.stage === 'decoding') {
+        setStatus(videoId, { state: 'decoding', progress: DOWNLOAD_SHARE, duration: knownDuration });
+        return;
+      }
+      const analyzed = DOWNLOAD_SHARE + DECODE_SHARE + progress.fraction * (1 - DOWNLOAD_SHARE - DECODE_SHARE);
+      setStatus(videoId, { state: 'analyzing', progress: analyzed, duration: knownDuration });
+      emit(videoId, { type: 'partial', detail: progress.partial, fraction: progress.fraction });
+    });
+    const beatGrid = analyzeBeats(analysis.detail, analysis.duration);
+
+    const record: AnalysisRecord = {
+      version: ANALYSIS_VERSION,
+      videoId,
+      analyzedAt: new Date().toISOString(),
+      duration: analysis.duration,
+      sampleRate: analysis.sampleRate,
+      detail: analysis.detail,
+      ...beatGrid,
+      key: analysis.key,
+      loudness: analysis.loudness,
+    };
+    await writeAnalysis(record);
+
+    console.log(
+      `[Analysis] "${videoId}": ${record.duration.toFixed(1)}s at ${record.sampleRate}Hz, ` +
+        `BPM ${record.bpm || 'unknown'} (confidence: ${record.confidence}), ` +
+        `key ${record.key ? `${record.key.name} / ${record.key.camelot}` : 'unknown'}, ` +
+        `${record.loudness.integratedLufs} LUFS / ${record.loudness.truePeakDb} dBTP`
+    );
+    setStatus(videoId, { state: 'done', progress: 1, duration: record.duration });
+    return { record, cached: false };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const duration = statuses.get(videoId)?.duration;
+    setStatus(videoId, { state: 'error', progress: 0, duration, error: message, failedAt: Date.now() });
+    throw error;
+  } finally {
+    releaseSlot();
+  }
+}
+
+/**
+ * Analysis of a video: from the store, a job already running for it, or a
+ * newly queued job
+ *
+ * @throws Error when the video can't be downloaded or decoded (repeated
+ *   requests fail fast for FAILURE_RETRY_MS)
+ */
+export function requestAnalysis(videoId: string): Promise<AnalysisResult> {
+  if (!isValidVideoId(videoId)) {
+    return Promise.reject(new Error(`Invalid video ID: "${videoId}"`));
+  }
+
+  const pending = inFlight.get(videoId);
+  if (pending) return pending;
+
+  const status = statuses.get(videoId);
+  if (status?.state === 'error' && status.failedAt && Date.now() - status.failedAt < FAILURE_RETRY_MS) {
+    return Promise.reject(new Error(status.error));
+  }
+
+  const job = runJob(videoId).finally(() => inFlight.delete(videoId));
+  inFlight.set(videoId, job);
+  return job;
+}
+
+/**
+ * Receive a video's analysis events until the returned function is called
+ */
+export function subscribeAnalysis(videoId: string, listener: (event: AnalysisEvent) => void): () => void {
+  let videoListeners = listeners.get(videoId);
+  if (!videoListeners) {
+    videoListeners = new Set();
+    listeners.set(videoId, videoListeners);
+  }
+  videoListeners.add(listener);
+
+  return () => {
+    videoListeners.delete(listener);
+    if (videoListeners.size === 0) listeners.delete(videoId);
+  };
+}
+
+/**
+ * Current state of a video's analysis ('none' = never requested since start)
+ */
+export function getAnalysisStatus(videoId: string): AnalysisStatus {
+  const status = statuses.get(videoId);
+  if (!status) return { state: 'none', progress: 0 };
+
+  const { state, progress, duration, error } = status;
+  return { state, progress, duration, error };
+}
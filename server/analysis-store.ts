@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Loudness, WaveformLevel } from './audio-analysis';
+import type { BeatGrid } from './beat-analysis';
+import type { MusicalKey } from './key-analysis';
+
+/**
+ * On-disk analysis cache
+ *
+ * One JSON record per video under DATA_DIR/analysis, so tracks are only
+ * downloaded and analyzed once across restarts.
+ */
+
+/** Bump when analysis output changes; older records are re-analyzed */
+export const ANALYSIS_VERSION = 2;
+
+export interface AnalysisRecord extends BeatGrid {
+  version: number;
+  videoId: string;
+  analyzedAt: string; // ISO date
+  duration: number; // seconds
+  sampleRate: number;
+  detail: WaveformLevel;
+  key: MusicalKey | null;
+  loudness: Loudness;
+}
+
+export const DATA_DIR = process.env.DATA_DIR ?? path.resolve(process.cwd(), 'data');
+const ANALYSIS_DIR = path.join(DATA_DIR, 'analysis');
+
+// Video IDs become file names, so only allow URL-safe characters
+const VALID_ID = /^[\w-]+$/;
+
+export function isValidVideoId(videoId: string): boolean {
+  return VALID_ID.test(videoId);
+}
+
+function recordPath(videoId: string): string {
+  if (!isValidVideoId(videoId)) {
+    throw new Error(`Invalid video ID: "${videoId}"`);
+  }
+  return path.join(ANALYSIS_DIR, `${videoId}.json`);
+}
+
+/**
+ * Read a stored analysis
+ *
+ * @returns The record, or null when missing, unreadable or from an older version
+ */
+export async function readAnalysis(videoId: string): Promise<AnalysisRecord | null> {
+  try {
+    const record = JSON.parse(await fs.readFile(recordPath(videoId), 'utf8')) as AnalysisRecord;
+    return record.version === ANALYSIS_VERSION ? record : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store an analysis (written to a temp file and renamed, so readers never
+ * see a partial record)
+ */
+export async function writeAnalysis(record: AnalysisRecord): Promise<void> {
+  const file = recordPath(record.videoId);
+  const tempFile = `${file}.${process.pid}.tmp`;
+
+  await fs.mkdir(ANALYSIS_DIR, { recursive: true });
+  await fs.writeFile(tempFile, JSON.stringify(record));
+  await fs.rename(tempFile, file);
+}
@@ -0,0 +1,23 @@
+import type { Connect } from 'vite';
+import { youtubeApiMiddleware, youtubeVideoMiddleware, youtubeWaveformMiddleware } from './youtube-api';
+import { trackAudioMiddleware, trackSearchMiddleware } from './tracks-api';
+import { analysisStatusMiddleware, analysisStreamMiddleware } from './analysis-api';
+import { lyricsMiddleware } from './lyrics-api';
+
+/**
+ * All API middlewares, in order
+ * Mounted by the Vite dev server (vite.config.ts) and the production server
+ * (server/index.ts).
+ */
+export function apiMiddlewares(): Connect.NextHandleFunction[] {
+  return [
+    youtubeApiMiddleware(),
+    youtubeVideoMiddleware(),
+    trackSearchMiddleware(),
+    trackAudioMiddleware(),
+    youtubeWaveformMiddleware(),
+    analysisStatusMiddleware(),
+    analysisStreamMiddleware(),
+    lyricsMiddleware(),
+  ];
+}
@@ -0,0 +1,355 @@
+import decode from 'audio-decode';
+import { detectKey, type MusicalKey } from './key-analysis';
+import { measureLoudness, type LoudnessMeasurement } from './loudness-analysis';
+
+/**
+ * Audio analysis for waveforms
+ *
+ * Decodes compressed audio (MP3, AAC/M4A, Opus, ...) to PCM with a JS/WASM
+ * decoder and measures RMS and peak per time bucket of the mono mix, plus
+ * RMS of three frequency bands for colored waveforms. The musical key and
+ * BS.1770 loudness are measured from the same PCM.
+ */
+
+/**
+ * One waveform resolution: RMS and peak per bucket, both 0-1 relative to
+ * the loudest sample in the track, and band RMS, each 0-1 relative to the
+ * loudest bucket of that band (hats are far quieter than kicks)
+ */
+export interface WaveformLevel {
+  bucketSeconds: number;
+  rms: number[];
+  peak: number[];
+  low: number[]; // Below LOW_BAND_HZ (kicks, bass)
+  mid: number[]; // LOW_BAND_HZ - HIGH_BAND_HZ (vocals, snares)
+  high: number[]; // Above HIGH_BAND_HZ (hats, cymbals)
+}
+
+type Band = 'low' | 'mid' | 'high';
+
+const BANDS: Band[] = ['low', 'mid', 'high'];
+
+/** Whole-track levels: plain RMS/peak of the mono mix plus BS.1770 loudness */
+export interface Loudness extends LoudnessMeasurement {
+  rmsDb: number; // dBFS
+  peakDb: number; // dBFS (sample peak)
+}
+
+export interface AudioAnalysis {
+  duration: number; // seconds of decoded audio
+  sampleRate: number;
+  detail: WaveformLevel; // Fixed bucket rate; coarser levels come from resampleLevel
+  key: MusicalKey | null;
+  loudness: Loudness;
+}
+
+/**
+ * Progress of analyzeAudio: decoding (one step), then measuring with the
+ * waveform of the part measured so far
+ */
+export type AudioAnalysisProgress =
+  | { stage: 'decoding' }
+  | { stage: 'measuring'; fraction: number; partial: WaveformLevel };
+
+// Detail resolution (buckets per second): 20ms, fine enough for beat-level zoom
+export const DETAIL_BUCKETS_PER_SECOND = 50;
+
+// Measuring reports progress (and yields to the event loop) after this much audio
+const MEASURE_CHUNK_SECONDS = 20;
+
+// Band split points (Hz)
+const LOW_BAND_HZ = 250;
+const HIGH_BAND_HZ = 4000;
+
+/** Raw per-bucket sums, combined into coarser levels without re-reading PCM */
+interface BucketSums {
+  sumSquares: Float64Array;
+  peak: Float32Array;
+  count: Uint32Array;
+  bands: Record<Band, Float64Array>; // Sum of squares per band
+}
+
+/**
+ * Two cascaded one-pole filters (12 dB/octave), fed one sample at a time
+ */
+function createFilter(type: 'lowpass' | 'highpass', cutoffHz: number, sampleRate: number): (sample: number) => number {
+  const coefficient = 1 - Math.exp((-2 * Math.PI * cutoffHz) / sampleRate);
+  const lowpassed = [0, 0];
+
+  return (sample) => {
+    let value = sample;
+    for (let stage = 0; stage < 2; stage++) {
+      lowpassed[stage] += coefficient * (value - lowpassed[stage]);
+      value = type === 'lowpass' ? lowpassed[stage] : value - lowpassed[stage];
+    }
+    return value;
+  };
+}
+
+/**
+ * Measure the mono mix of decoded channels at the detail bucket rate
+ *
+ * @param onChunk Called after each MEASURE_CHUNK_SECONDS with the number of
+ *   buckets measured so far
+ */
+async function measureBuckets(
+  channelData: Float32Array[],
+  sampleRate: number,
+  onChunk?: (sums: BucketSums, measuredBuckets: number) => void
+): Promise<BucketSums> {
+  const length = channelData[0]?.length ?? 0;
+  const samplesPerBucket = sampleRate / DETAIL_BUCKETS_PER_SECOND;
+  const bucketCount = Math.max(1, Math.ceil(length / samplesPerBucket));
+  const sums: BucketSums = {
+    sumSquares: new Float64Array(bucketCount),
+    peak: new Float32Array(bucketCount),
+    count: new Uint32Array(bucketCount),
+    bands: {
+      low: new Float64Array(bucketCount),
+      mid: new Float64Array(bucketCount),
+      high: new Float64Array(bucketCount),
+    },
+  };
+  const channelCount = channelData.length;
+
+  const lowBand = createFilter('lowpass', LOW_BAND_HZ, sampleRate);
+  const highBand = createFilter('highpass', HIGH_BAND_HZ, sampleRate);
+  const midLowCut = createFilter('highpass', LOW_BAND_HZ, sampleRate);
+  const midHighCut = createFilter('lowpass', HIGH_BAND_HZ, sampleRate);
+
+  const chunkLength = MEASURE_CHUNK_SECONDS * sampleRate;
+
+  for (let i = 0; i < length; i++) {
+    if (onChunk && i > 0 && i % chunkLength === 0) {
+      onChunk(sums, Math.floor(i / samplesPerBucket));
+      // Let pending I/O (progress streams) through between chunks
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    let sample = 0;
+    for (let c = 0; c < channelCount; c++) {
+      sample += channelData[c][i];
+    }
+    sample /= channelCount;
+
+    const bucket = Math.floor(i / samplesPerBucket);
+    const magnitude = Math.abs(sample);
+    sums.sumSquares[bucket] += sample * sample;
+    sums.count[bucket]++;
+    if (magnitude > sums.peak[bucket]) sums.peak[bucket] = magnitude;
+
+    const low = lowBand(sample);
+    const mid = midLowCut(midHighCut(sample));
+    const high = highBand(sample);
+    sums.bands.low[bucket] += low * low;
+    sums.bands.mid[bucket] += mid * mid;
+    sums.bands.high[bucket] += high * high;
+  }
+
+  return sums;
+}
+
+/**
+ * The first `bucketCount` buckets (views, not copies)
+ */
+function sliceSums(sums: BucketSums, bucketCount: number): BucketSums {
+  return {
+    sumSquares: sums.sumSquares.subarray(0, bucketCount),
+    peak: sums.peak.subarray(0, bucketCount),
+    count: sums.count.subarray(0, bucketCount),
+    bands: {
+      low: sums.bands.low.subarray(0, bucketCount),
+      mid: sums.bands.mid.subarray(0, bucketCount),
+      high: sums.bands.high.subarray(0, bucketCount),
+    },
+  };
+}
+
+/**
+ * Loudest sample of the mono mix
+ */
+function measureLoudest(sums: BucketSums): number {
+  let loudest = 0;
+  sums.peak.forEach((value) => {
+    if (value > loudest) loudest = value;
+  });
+  return loudest;
+}
+
+/**
+ * Detail level of measured buckets, normalized to their own loudest sample
+ * and band buckets
+ */
+function buildDetailLevel(sums: BucketSums): WaveformLevel {
+  const loudest = measureLoudest(sums);
+  const bucketCount = sums.count.length;
+  return buildLevel(
+    sums,
+    bucketCount,
+    bucketCount / DETAIL_BUCKETS_PER_SECOND,
+    loudest > 0 ? 1 / loudest : 0,
+    measureBandMaxima(sums)
+  );
+}
+
+/**
+ * Loudest per-bucket RMS of each band, for normalizing
+ */
+function measureBandMaxima(sums: BucketSums): Record<Band, number> {
+  const maxima: Record<Band, number> = { low: 0, mid: 0, high: 0 };
+  for (let i = 0; i < sums.count.length; i++) {
+    if (sums.count[i] === 0) continue;
+    BANDS.forEach((band) => {
+      maxima[band] = Math.max(maxima[band], Math.sqrt(sums.bands[band][i] / sums.count[i]));
+    });
+  }
+  return maxima;
+}
+
+// Three decimals keeps the JSON small without visible loss
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Combine detail buckets into `bucketCount` buckets
+ *
+ * @param scale Multiplier normalizing RMS and peak to 0-1
+ * @param bandMaxima Loudest bucket RMS per band, normalized to 1
+ */
+function buildLevel(
+  sums: BucketSums,
+  bucketCount: number,
+  duration: number,
+  scale: number,
+  bandMaxima: Record<Band, number>
+): WaveformLevel {
+  const sourceCount = sums.count.length;
+  const rms: number[] = [];
+  const peak: number[] = [];
+  const bands: Record<Band, number[]> = { low: [], mid: [], high: [] };
+
+  for (let i = 0; i < bucketCount; i++) {
+    const start = Math.floor((i * sourceCount) / bucketCount);
+    const end = Math.max(start + 1, Math.floor(((i + 1) * sourceCount) / bucketCount));
+
+    let sumSquares = 0;
+    let count = 0;
+    let max = 0;
+    const bandSquares: Record<Band, number> = { low: 0, mid: 0, high: 0 };
+    for (let j = start; j < end && j < sourceCount; j++) {
+      sumSquares += sums.sumSquares[j];
+      count += sums.count[j];
+      if (sums.peak[j] > max) max = sums.peak[j];
+      BANDS.forEach((band) => {
+        bandSquares[band] += sums.bands[band][j];
+      });
+    }
+
+    rms.push(round((count > 0 ? Math.sqrt(sumSquares / count) : 0) * scale));
+    peak.push(round(max * scale));
+    BANDS.forEach((band) => {
+      const bandRms = count > 0 ? Math.sqrt(bandSquares[band] / count) : 0;
+      bands[band].push(bandMaxima[band] > 0 ? round(bandRms / bandMaxima[band]) : 0);
+    });
+  }
+
+  return { bucketSeconds: duration / bucketCount, rms, peak, ...bands };
+}
+
+/**
+ * Whole-track RMS and peak in dBFS (silence is reported as -120)
+ */
+function measureMixLevels(sums: BucketSums, loudest: number): Pick<Loudness, 'rmsDb' | 'peakDb'> {
+  let sumSquares = 0;
+  let count = 0;
+  for (let i = 0; i < sums.count.length; i++) {
+    sumSquares += sums.sumSquares[i];
+    count += sums.count[i];
+  }
+  const toDb = (amplitude: number) =>
+    amplitude > 0 ? Math.max(-120, Math.round(20 * Math.log10(amplitude) * 100) / 100) : -120;
+  return {
+    rmsDb: toDb(count > 0 ? Math.sqrt(sumSquares / count) : 0),
+    peakDb: toDb(loudest),
+  };
+}
+
+/**
+ * Combine a level's buckets into `bucketCount` coarser ones (e.g. an
+ * overview from the detail level); levels already this coarse are returned as-is
+ */
+export function resampleLevel(level: WaveformLevel, bucketCount: number): WaveformLevel {
+  const sourceCount = level.rms.length;
+  if (bucketCount >= sourceCount) return level;
+
+  const resampled: WaveformLevel = {
+    bucketSeconds: (level.bucketSeconds * sourceCount) / bucketCount,
+    rms: [],
+    peak: [],
+    low: [],
+    mid: [],
+    high: [],
+  };
+  // RMS-like series combine as the root of the mean square, peaks as the max
+  const rootMeanSquare = (values: number[], start: number, end: number) => {
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += values[j] * values[j];
+    return round(Math.sqrt(sum / (end - start)));
+  };
+
+  for (let i = 0; i < bucketCount; i++) {
+    const start = Math.floor((i * sourceCount) / bucketCount);
+    const end = Math.max(start + 1, Math.floor(((i + 1) * sourceCount) / bucketCount));
+
+    resampled.rms.push(rootMeanSquare(level.rms, start, end));
+    resampled.peak.push(Math.max(...level.peak.slice(start, end)));
+    BANDS.forEach((band) => resampled[band].push(rootMeanSquare(level[band], start, end)));
+  }
+
+  return resampled;
+}
+
+/**
+ * Decode audio, compute the detail waveform and loudness and detect the key
+ *
+ * @param onProgress Called when decoding starts and while measuring
+ * @throws Error when the audio can't be decoded
+ */
+export async function analyzeAudio(
+  audio: Uint8Array,
+  onProgress?: (progress: AudioAnalysisProgress) => void
+): Promise<AudioAnalysis> {
+  onProgress?.({ stage: 'decoding' });
+  const { channelData, sampleRate } = await decode(audio);
+  const length = channelData[0]?.length ?? 0;
+  if (length === 0 || !sampleRate) {
+    throw new Error('Decoded audio is empty');
+  }
+
+  const duration = length / sampleRate;
+  const sums = await measureBuckets(
+    channelData,
+    sampleRate,
+    onProgress &&
+      ((measured, measuredBuckets) =>
+        onProgress({
+          stage: 'measuring',
+          fraction: measuredBuckets / measured.count.length,
+          partial: buildDetailLevel(sliceSums(measured, measuredBuckets)),
+        }))
+  );
+
+  // Normalize to the loudest sample so quiet masters still fill the display
+  const loudest = measureLoudest(sums);
+  const scale = loudest > 0 ? 1 / loudest : 0;
+  const bandMaxima = measureBandMaxima(sums);
+
+  return {
+    duration,
+    sampleRate,
+    detail: buildLevel(sums, sums.count.length, duration, scale, bandMaxima),
+    key: detectKey(channelData, sampleRate),
+    loudness: { ...measureMixLevels(sums, loudest), ...measureLoudness(channelData, sampleRate) },
+  };
+}
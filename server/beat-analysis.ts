@@ -0,0 +1,224 @@
+import type { WaveformLevel } from './audio-analysis';
+
+/**
+ * Beat grid analysis
+ *
+ * Finds a constant-tempo grid from the detail waveform: tempo by
+ * autocorrelating the onset envelope, refined by folding onsets onto one
+ * beat period; downbeats from where low-band (kick) onsets land in the bar;
+ * phrases every 16 bars from the first downbeat.
+ */
+
+/** Phrase boundary; every other 16-bar boundary also starts a 32-bar phrase */
+export interface PhraseMarker {
+  time: number; // seconds
+  bars: 16 | 32;
+}
+
+export interface BeatGrid {
+  bpm: number; // 0 = unknown
+  firstBeat: number; // seconds
+  firstDownbeat: number; // seconds, first beat of the first bar
+  confidence: number; // 0-1, how strongly onsets line up with the grid
+  beats: number[]; // seconds
+  phrases: PhraseMarker[];
+}
+
+// BPM range to search (60-180 BPM covers most music)
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+
+// Autocorrelation tempo step (BPM)
+const ROUGH_STEP = 0.5;
+
+// Refinement searches ±3% around the autocorrelation tempo in 0.01 BPM steps
+const REFINE_RANGE = 0.03;
+const REFINE_STEP = 0.01;
+
+// Refined tempos this close to a whole number snap to it (most club tracks are)
+const WHOLE_BPM_TOLERANCE = 0.05;
+
+const PHASE_BINS = 64;
+const BEATS_PER_BAR = 4;
+const PHRASE_BARS = 16;
+
+const NO_GRID: BeatGrid = { bpm: 0, firstBeat: 0, firstDownbeat: 0, confidence: 0, beats: [], phrases: [] };
+
+/**
+ * Positive energy rises of a lightly smoothed envelope
+ * onsets[i] is the rise into sample i.
+ */
+function getOnsets(values: number[]): number[] {
+  const smoothed = values.map((_, i) => {
+    const start = Math.max(0, i - 1);
+    const end = Math.min(values.length, i + 2);
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += values[j];
+    return sum / (end - start);
+  });
+
+  return smoothed.map((value, i) => (i === 0 ? 0 : Math.max(0, value - smoothed[i - 1])));
+}
+
+/**
+ * Rough tempo by autocorrelation of the onset envelope
+ * Lags are fractional (interpolated) so tempos between whole-sample lags
+ * aren't smeared at the coarse envelope rate.
+ */
+function estimateTempo(onsets: number[], samplesPerSecond: number): number {
+  let bestBpm = 0;
+  let bestCorrelation = 0;
+
+  for (let bpm = MIN_BPM; bpm <= MAX_BPM; bpm += ROUGH_STEP) {
+    const lag = (60 / bpm) * samplesPerSecond;
+    const whole = Math.floor(lag);
+    const fraction = lag - whole;
+    if (whole + 1 >= onsets.length / 2) continue;
+
+    let correlation = 0;
+    const count = onsets.length - whole - 1;
+    for (let i = 0; i < count; i++) {
+      const lagged = onsets[i + whole] * (1 - fraction) + onsets[i + whole + 1] * fraction;
+      correlation += onsets[i] * lagged;
+    }
+    correlation /= count;
+
+    // Weight towards common tempos (120-130 BPM)
+    const tempoWeight = 1 - Math.abs(bpm - 125) / 200;
+    correlation *= 1 + tempoWeight * 0.3;
+
+    if (correlation > bestCorrelation) {
+      bestCorrelation = correlation;
+      bestBpm = bpm;
+    }
+  }
+
+  return bestBpm;
+}
+
+/**
+ * Fold onsets onto one beat period
+ *
+ * @returns Beat phase in seconds, and the share of onset energy within a bin
+ *   of it (high when the tempo is right and the track is on a grid)
+ */
+function foldOnsets(onsets: number[], samplesPerSecond: number, bpm: number): { phase: number; strength: number } {
+  const beatPeriod = 60 / bpm;
+  const bins = new Array<number>(PHASE_BINS).fill(0);
+  let total = 0;
+
+  for (let i = 0; i < onsets.length; i++) {
+    const time = i / samplesPerSecond;
+    const phase = (time % beatPeriod) / beatPeriod;
+    bins[Math.floor(phase * PHASE_BINS) % PHASE_BINS] += onsets[i];
+    total += onsets[i];
+  }
+
+  let bestBin = 0;
+  let bestSum = 0;
+  for (let i = 0; i < PHASE_BINS; i++) {
+    const sum = bins[(i + PHASE_BINS - 1) % PHASE_BINS] + bins[i] + bins[(i + 1) % PHASE_BINS];
+    if (sum > bestSum) {
+      bestSum = sum;
+      bestBin = i;
+    }
+  }
+
+  return {
+    phase: ((bestBin + 0.5) / PHASE_BINS) * beatPeriod,
+    strength: total > 0 ? bestSum / total : 0,
+  };
+}
+
+/**
+ * Fine tempo: the BPM near the rough estimate whose folded onsets are tightest
+ */
+function refineTempo(onsets: number[], samplesPerSecond: number, roughBpm: number): number {
+  let bestBpm = roughBpm;
+  let bestStrength = -1;
+
+  const from = roughBpm * (1 - REFINE_RANGE);
+  const to = roughBpm * (1 + REFINE_RANGE);
+  for (let bpm = from; bpm <= to; bpm += REFINE_STEP) {
+    const { strength } = foldOnsets(onsets, samplesPerSecond, bpm);
+    if (strength > bestStrength) {
+      bestStrength = strength;
+      bestBpm = bpm;
+    }
+  }
+
+  const whole = Math.round(bestBpm);
+  return Math.abs(bestBpm - whole) < WHOLE_BPM_TOLERANCE ? whole : Math.round(bestBpm * 100) / 100;
+}
+
+/**
+ * Which beat of the bar (0-3 counted from the first beat) is the downbeat:
+ * the one the strongest low-band onsets land on
+ */
+function findDownbeatIndex(lowOnsets: number[], samplesPerSecond: number, beats: number[]): number {
+  const weights = new Array<number>(BEATS_PER_BAR).fill(0);
+
+  beats.forEach((time, index) => {
+    // Strongest onset within one sample of the beat
+    const center = Math.round(time * samplesPerSecond);
+    let strongest = 0;
+    for (let i = center - 1; i <= center + 1; i++) {
+      if (i >= 0 && i < lowOnsets.length) strongest = Math.max(strongest, lowOnsets[i]);
+    }
+    weights[index % BEATS_PER_BAR] += strongest;
+  });
+
+  return weights.indexOf(Math.max(...weights));
+}
+
+/**
+ * Analyze the beat grid of a track
+ *
+ * @param level Waveform level to analyze (the detail level for accuracy)
+ * @param durationSeconds Track duration
+ */
+export function analyzeBeats(level: WaveformLevel, durationSeconds: number): BeatGrid {
+  if (level.rms.length < 100 || durationSeconds < 10) {
+    return NO_GRID; // Not enough data
+  }
+
+  const samplesPerSecond = level.rms.length / durationSeconds;
+  const onsets = getOnsets(level.rms);
+
+  const roughBpm = estimateTempo(onsets, samplesPerSecond);
+  if (roughBpm <= 0) return NO_GRID;
+
+  const bpm = refineTempo(onsets, samplesPerSecond, roughBpm);
+  const { phase: firstBeat, strength } = foldOnsets(onsets, samplesPerSecond, bpm);
+
+  const beatPeriod = 60 / bpm;
+  const beats: number[] = [];
+  for (let time = firstBeat; time < durationSeconds; time += beatPeriod) {
+    beats.push(Math.round(time * 1000) / 1000);
+  }
+
+  const downbeatIndex = findDownbeatIndex(getOnsets(level.low), samplesPerSecond, beats);
+  const firstDownbeat = firstBeat + downbeatIndex * beatPeriod;
+
+  const phraseLength = PHRASE_BARS * BEATS_PER_BAR * beatPeriod;
+  const phrases: PhraseMarker[] = [];
+  for (let n = 0; firstDownbeat + n * phraseLength < durationSeconds; n++) {
+    phrases.push({
+      time: Math.round((firstDownbeat + n * phraseLength) * 1000) / 1000,
+      bars: n % 2 === 0 ? 32 : 16,
+    });
+  }
+
+  // Share of onset energy near the grid, rescaled so unrelated onsets score 0
+  const chance = 3 / PHASE_BINS;
+  const confidence = Math.max(0, Math.min(1, (strength - chance) / (1 - chance)));
+
+  return {
+    bpm,
+    firstBeat: Math.round(firstBeat * 1000) / 1000,
+    firstDownbeat: Math.round(firstDownbeat * 1000) / 1000,
+    confidence: Math.round(confidence * 100) / 100,
+    beats,
+    phrases,
+  };
+}
@@ -0,0 +1,69 @@
+import http from 'http';
+import { fileURLToPath } from 'url';
+import type { Connect } from 'vite';
+import { apiMiddlewares } from './api';
+import { staticFilesMiddleware } from './static-files';
+
+/**
+ * Production server: the built app (dist/) plus the API middlewares that
+ * the Vite dev server mounts in development
+ *
+ * Configured through environment variables:
+ * - PORT (default 3000)
+ * - HOST (default localhost; 0.0.0.0 to serve other devices on the network)
+ * - DATA_DIR for the analysis cache (default ./data, see ./analysis-store.ts)
+ * - DIST_DIR for the built app (default dist/ next to this server's folder)
+ */
+
+const PORT = Number(process.env.PORT) || 3000;
+const HOST = process.env.HOST || 'localhost';
+const DIST_DIR = process.env.DIST_DIR || fileURLToPath(new URL('../dist', import.meta.url));
+
+const middlewares: Connect.NextHandleFunction[] = [...apiMiddlewares(), staticFilesMiddleware(DIST_DIR)];
+
+/**
+ * Run a request through the middlewares in order (like connect); 404 when
+ * none handles it
+ */
+function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+  let index = 0;
+
+  const next = (error?: unknown) => {
+    if (error) {
+      console.error('[Server] Middleware error:', error);
+      if (!res.headersSent) {
+        res.statusCode = 500;
+        res.end('Internal Server Error');
+      }
+      return;
+    }
+
+    const middleware = middlewares[index++];
+    if (!middleware) {
+      res.statusCode = 404;
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      res.end('Not Found');
+      return;
+    }
+
+    // Middlewares may be async; a rejection is treated like next(error)
+    Promise.resolve(middleware(req, res, next)).catch(next);
+  };
+
+  next();
+}
+
+const server = http.createServer(handleRequest);
+
+server.listen(PORT, HOST, () => {
+  console.log(`[Server] YouRoke running at http://${HOST}:${PORT} (app: ${DIST_DIR})`);
+});
+
+const shutdown = () => {
+  console.log('[Server] Shutting down...');
+  server.close(() => process.exit(0));
+  // Open streams (audio proxy, analysis progress) would keep close() waiting
+  server.closeAllConnections();
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,192 @@
+/**
+ * Musical key detection
+ *
+ * Builds a chroma profile (energy per pitch class) from short-time FFTs of
+ * the decoded audio and correlates it with the Krumhansl-Kessler major and
+ * minor key profiles in all 12 transpositions.
+ */
+
+export interface MusicalKey {
+  name: string; // Standard notation, e.g. "Am", "F#"
+  camelot: string; // Camelot wheel code, e.g. "8A"
+  confidence: number; // 0-1, correlation with the key profile
+}
+
+type Mode = 'major' | 'minor';
+
+// Audio is averaged down to about this rate before the FFT (Hz)
+const ANALYSIS_RATE = 11025;
+const FRAME_SIZE = 4096;
+
+// Frequency range folded into the chroma (A1 to A6)
+const MIN_FREQUENCY = 55;
+const MAX_FREQUENCY = 1760;
+
+// Frames quieter than this (mean magnitude) are skipped
+const SILENCE_THRESHOLD = 1e-4;
+
+const PITCH_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+// Krumhansl-Kessler probe-tone profiles, tonic first
+const KEY_PROFILES: Record<Mode, number[]> = {
+  major: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88],
+  minor: [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17],
+};
+
+/**
+ * Camelot code of a key: majors are "B", minors "A"; neighbouring numbers
+ * are a fifth apart and relative keys share a number
+ */
+function toCamelot(tonic: number, mode: Mode): string {
+  const relativeMajor = mode === 'major' ? tonic : (tonic + 3) % 12;
+  const number = ((7 * relativeMajor + 7) % 12) + 1;
+  return `${number}${mode === 'major' ? 'B' : 'A'}`;
+}
+
+/**
+ * In-place iterative radix-2 FFT (length must be a power of two)
+ */
+function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let twiddleReal = 1;
+      let twiddleImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const productReal = real[b] * twiddleReal - imag[b] * twiddleImag;
+        const productImag = real[b] * twiddleImag + imag[b] * twiddleReal;
+        real[b] = real[a] - productReal;
+        imag[b] = imag[a] - productImag;
+        real[a] += productReal;
+        imag[a] += productImag;
+        const nextReal = twiddleReal * stepReal - twiddleImag * stepImag;
+        twiddleImag = twiddleReal * stepImag + twiddleImag * stepReal;
+        twiddleReal = nextReal;
+      }
+    }
+  }
+}
+
+/**
+ * Mono mix averaged down to about ANALYSIS_RATE
+ */
+function downmix(channelData: Float32Array[], sampleRate: number): { samples: Float64Array; rate: number } {
+  const factor = Math.max(1, Math.floor(sampleRate / ANALYSIS_RATE));
+  const length = Math.floor((channelData[0]?.length ?? 0) / factor);
+  const samples = new Float64Array(length);
+
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    for (let j = i * factor; j < (i + 1) * factor; j++) {
+      for (let c = 0; c < channelData.length; c++) sum += channelData[c][j];
+    }
+    samples[i] = sum / (factor * channelData.length);
+  }
+
+  return { samples, rate: sampleRate / factor };
+}
+
+/**
+ * Energy per pitch class over the whole track (each frame weighted equally)
+ */
+function measureChroma(samples: Float64Array, rate: number): number[] {
+  const chroma = new Array<number>(12).fill(0);
+  const window = Array.from({ length: FRAME_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE));
+
+  // Pitch class of each FFT bin in range (-1 = outside)
+  const binPitch = Array.from({ length: FRAME_SIZE / 2 }, (_, bin) => {
+    const frequency = (bin * rate) / FRAME_SIZE;
+    if (frequency < MIN_FREQUENCY || frequency > MAX_FREQUENCY) return -1;
+    const midi = Math.round(12 * Math.log2(frequency / 440) + 69);
+    return ((midi % 12) + 12) % 12;
+  });
+
+  const real = new Float64Array(FRAME_SIZE);
+  const imag = new Float64Array(FRAME_SIZE);
+  const frame = new Array<number>(12);
+
+  for (let start = 0; start + FRAME_SIZE <= samples.length; start += FRAME_SIZE) {
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      real[i] = samples[start + i] * window[i];
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    frame.fill(0);
+    let total = 0;
+    for (let bin = 1; bin < FRAME_SIZE / 2; bin++) {
+      const pitch = binPitch[bin];
+      if (pitch < 0) continue;
+      const magnitude = Math.hypot(real[bin], imag[bin]);
+      frame[pitch] += magnitude;
+      total += magnitude;
+    }
+
+    if (total / FRAME_SIZE < SILENCE_THRESHOLD) continue;
+    for (let pitch = 0; pitch < 12; pitch++) chroma[pitch] += frame[pitch] / total;
+  }
+
+  return chroma;
+}
+
+/**
+ * Pearson correlation of two equally long series
+ */
+function correlate(a: number[], b: number[]): number {
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < a.length; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+}
+
+/**
+ * Detect the key of decoded audio
+ *
+ * @returns The best matching key, or null for silent/too short audio
+ */
+export function detectKey(channelData: Float32Array[], sampleRate: number): MusicalKey | null {
+  const { samples, rate } = downmix(channelData, sampleRate);
+  const chroma = measureChroma(samples, rate);
+  if (chroma.every((value) => value === 0)) return null;
+
+  let best: { tonic: number; mode: Mode; score: number } | null = null;
+  (Object.keys(KEY_PROFILES) as Mode[]).forEach((mode) => {
+    for (let tonic = 0; tonic < 12; tonic++) {
+      // Rotate the chroma so the candidate tonic comes first
+      const rotated = chroma.map((_, i) => chroma[(i + tonic) % 12]);
+      const score = correlate(rotated, KEY_PROFILES[mode]);
+      if (!best || score > best.score) best = { tonic, mode, score };
+    }
+  });
+  if (!best) return null;
+
+  const { tonic, mode, score } = best;
+  return {
+    name: `${PITCH_NAMES[tonic]}${mode === 'minor' ? 'm' : ''}`,
+    camelot: toCamelot(tonic, mode),
+    confidence: Math.round(Math.max(0, Math.min(1, score)) * 100) / 100,
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Loudness measurement per ITU-R BS.1770
+ *
+ * Integrated loudness: K-weighted (high-shelf + high-pass) mean square over
+ * 400ms blocks with 75% overlap, gated at -70 LUFS and then 10 LU below the
+ * ungated mean. True peak: the signal 4x oversampled with a windowed-sinc
+ * interpolator.
+ */
+
+export interface LoudnessMeasurement {
+  integratedLufs: number; // LUFS, SILENCE_DB for silent/too short audio
+  truePeakDb: number; // dBTP
+}
+
+// Reported for silence (matches the waveform loudness floor)
+export const SILENCE_DB = -120;
+
+// Gating (BS.1770-4): 400ms blocks every 100ms
+const SEGMENT_SECONDS = 0.1;
+const SEGMENTS_PER_BLOCK = 4;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+// True peak: oversampling factor and interpolation taps on each side
+const OVERSAMPLING = 4;
+const INTERPOLATION_TAPS = 8;
+
+// Only samples this close to the sample peak are interpolated: intersample
+// peaks barely exceed their neighbours, so quieter regions can't hold the true peak
+const TRUE_PEAK_SEARCH_RATIO = 0.5;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * K-weighting stages for a sample rate (coefficients derived as in libebur128,
+ * so they match the 48 kHz tables of the standard)
+ */
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  // Stage 1: high shelf, +4 dB above ~1.5 kHz (head effects)
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const shelfVh = Math.pow(10, 3.999843853973347 / 20);
+  const shelfVb = Math.pow(shelfVh, 0.4996667741545416);
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+  const shelf: Biquad = {
+    b0: (shelfVh + (shelfVb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+    b1: (2 * (shelfK * shelfK - shelfVh)) / shelfA0,
+    b2: (shelfVh - (shelfVb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+    a1: (2 * (shelfK * shelfK - 1)) / shelfA0,
+    a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+  };
+
+  // Stage 2: RLB high-pass at ~38 Hz
+  const passK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const passQ = 0.5003270373238773;
+  const passA0 = 1 + passK / passQ + passK * passK;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (passK * passK - 1)) / passA0,
+    a2: (1 - passK / passQ + passK * passK) / passA0,
+  };
+
+  return [shelf, highPass];
+}
+
+/**
+ * Sum of squared K-weighted samples per SEGMENT_SECONDS, over all channels
+ */
+function measureSegments(channelData: Float32Array[], sampleRate: number): Float64Array {
+  const length = channelData[0]?.length ?? 0;
+  const samplesPerSegment = Math.round(sampleRate * SEGMENT_SECONDS);
+  const segments = new Float64Array(Math.floor(length / samplesPerSegment));
+  const filters = kWeightingFilters(sampleRate);
+
+  channelData.forEach((samples) => {
+    // Direct form I state per stage: previous inputs and outputs
+    const state = filters.map(() => ({ x1: 0, x2: 0, y1: 0, y2: 0 }));
+
+    for (let i = 0; i < segments.length * samplesPerSegment; i++) {
+      let value = samples[i];
+      for (let stage = 0; stage < filters.length; stage++) {
+        const { b0, b1, b2, a1, a2 } = filters[stage];
+        const s = state[stage];
+        const output = b0 * value + b1 * s.x1 + b2 * s.x2 - a1 * s.y1 - a2 * s.y2;
+        s.x2 = s.x1;
+        s.x1 = value;
+        s.y2 = s.y1;
+        s.y1 = output;
+        value = output;
+      }
+      segments[Math.floor(i / samplesPerSegment)] += value * value;
+    }
+  });
+
+  return segments.map((sum) => sum / samplesPerSegment);
+}
+
+function toLufs(meanSquare: number): number {
+  return meanSquare > 0 ? -0.691 + 10 * Math.log10(meanSquare) : -Infinity;
+}
+
+/**
+ * Gated integrated loudness in LUFS
+ */
+function measureIntegratedLoudness(channelData: Float32Array[], sampleRate: number): number {
+  const segments = measureSegments(channelData, sampleRate);
+
+  const blocks: number[] = [];
+  for (let start = 0; start + SEGMENTS_PER_BLOCK <= segments.length; start++) {
+    let sum = 0;
+    for (let i = start; i < start + SEGMENTS_PER_BLOCK; i++) sum += segments[i];
+    blocks.push(sum / SEGMENTS_PER_BLOCK);
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const aboveAbsolute = blocks.filter((block) => toLufs(block) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return SILENCE_DB;
+
+  const relativeGate = toLufs(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter((block) => toLufs(block) > relativeGate);
+
+  return gated.length > 0 ? toLufs(mean(gated)) : SILENCE_DB;
+}
+
+/**
+ * Largest absolute value of the 4x oversampled signal, over all channels
+ */
+function measureTruePeak(channelData: Float32Array[]): number {
+  let samplePeak = 0;
+  channelData.forEach((samples) => {
+    for (let i = 0; i < samples.length; i++) {
+      const magnitude = Math.abs(samples[i]);
+      if (magnitude > samplePeak) samplePeak = magnitude;
+    }
+  });
+  if (samplePeak === 0) return 0;
+
+  // Hann-windowed sinc weights for each fractional position between samples
+  const weights = Array.from({ length: OVERSAMPLING - 1 }, (_, phase) => {
+    const fraction = (phase + 1) / OVERSAMPLING;
+    return Array.from({ length: INTERPOLATION_TAPS * 2 }, (_, tap) => {
+      const distance = tap - (INTERPOLATION_TAPS - 1) - fraction;
+      const sinc = Math.sin(Math.PI * distance) / (Math.PI * distance);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * distance) / INTERPOLATION_TAPS);
+      return sinc * window;
+    });
+  });
+
+  const threshold = samplePeak * TRUE_PEAK_SEARCH_RATIO;
+  let truePeak = samplePeak;
+
+  channelData.forEach((samples) => {
+    const last = samples.length - INTERPOLATION_TAPS;
+    for (let i = INTERPOLATION_TAPS - 1; i < last; i++) {
+      // Between samples i and i + 1
+      if (Math.abs(samples[i]) < threshold && Math.abs(samples[i + 1]) < threshold) continue;
+
+      const first = i - (INTERPOLATION_TAPS - 1);
+      for (const phaseWeights of weights) {
+        let value = 0;
+        for (let tap = 0; tap < phaseWeights.length; tap++) {
+          value += samples[first + tap] * phaseWeights[tap];
+        }
+        const magnitude = Math.abs(value);
+        if (magnitude > truePeak) truePeak = magnitude;
+      }
+    }
+  });
+
+  return truePeak;
+}
+
+/**
+ * Integrated loudness and true peak of decoded audio
+ */
+export function measureLoudness(channelData: Float32Array[], sampleRate: number): LoudnessMeasurement {
+  const truePeak = measureTruePeak(channelData);
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    integratedLufs: round(Math.max(SILENCE_DB, measureIntegratedLoudness(channelData, sampleRate))),
+    truePeakDb: truePeak > 0 ? round(Math.max(SILENCE_DB, 20 * Math.log10(truePeak))) : SILENCE_DB,
+  };
+}
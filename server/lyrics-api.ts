@@ -0,0 +1,115 @@
+import type { Connect } from 'vite';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { isValidVideoId } from './analysis-store';
+import { lookupLyrics, writeSavedLyrics } from './lyrics';
+
+/**
+ * Lyrics API: lookup across the lyrics providers, and saving the user's
+ * synced edits (see ./lyrics)
+ */
+
+// Saved LRC larger than this is rejected
+const MAX_LYRICS_BYTES = 256 * 1024;
+
+/**
+ * A request body over MAX_LYRICS_BYTES
+ */
+class PayloadTooLargeError extends Error {
+  constructor() {
+    super(`Lyrics larger than ${MAX_LYRICS_BYTES} bytes`);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Read a request body as text
+ *
+ * @throws PayloadTooLargeError when the body exceeds MAX_LYRICS_BYTES
+ */
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_LYRICS_BYTES) {
+      throw new PayloadTooLargeError();
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Lyrics middleware
+ * - GET /api/lyrics?artist=&title=[&videoId=] responds with
+ *   `{ text, synced, provider, cached }`, or 404 when no provider has them
+ * - PUT /api/lyrics?videoId= stores the LRC in the body as the track's saved
+ *   edit (413 over MAX_LYRICS_BYTES)
+ */
+export function lyricsMiddleware(): Connect.NextHandleFunction {
+  return async (req, res, next) => {
+    // Only handle /api/lyrics requests
+    if (!req.url?.startsWith('/api/lyrics')) {
+      return next();
+    }
+
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    const videoId = url.searchParams.get('videoId');
+
+    if (req.method === 'PUT') {
+      if (!videoId || !isValidVideoId(videoId)) {
+        sendJson(res, 400, { error: 'Missing or invalid query parameter "videoId"' });
+        return;
+      }
+
+      let lrc: string;
+      try {
+        lrc = await readBody(req);
+      } catch (error) {
+        if (error instanceof PayloadTooLargeError) {
+          sendJson(res, 413, { error: error.message });
+        } else {
+          console.error('[Lyrics] Request error:', error);
+          sendJson(res, 400, { error: 'Failed to read lyrics', message: String(error) });
+        }
+        return;
+      }
+
+      try {
+        await writeSavedLyrics(videoId, lrc);
+        res.statusCode = 204;
+        res.end();
+      } catch (error) {
+        console.error('[Lyrics] Save error:', error);
+        sendJson(res, 500, { error: 'Failed to save lyrics', message: String(error) });
+      }
+      return;
+    }
+
+    const artist = url.searchParams.get('artist')?.trim() ?? '';
+    const title = url.searchParams.get('title')?.trim() ?? '';
+
+    if (!title && !videoId) {
+      sendJson(res, 400, { error: 'Missing query parameter "title" or "videoId"' });
+      return;
+    }
+
+    try {
+      const result = await lookupLyrics({ videoId, artist, title });
+      if (!result) {
+        sendJson(res, 404, { error: 'Lyrics not found' });
+        return;
+      }
+      sendJson(res, 200, result);
+    } catch (error) {
+      console.error('[Lyrics] Lookup error:', error);
+      sendJson(res, 500, { error: 'Lyrics lookup failed', message: String(error) });
+    }
+  };
+}
@@ -0,0 +1,80 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DATA_DIR, isValidVideoId } from '../analysis-store';
+import { matchKey } from './match';
+import type { LyricsProviderId, LyricsQuery } from './types';
+
+/**
+ * On-disk lyrics cache
+ *
+ * One JSON record per track ID and one per artist/title under
+ * DATA_DIR/lyrics/cache, so lyrics found online once are there at the next
+ * gig without internet. A track ID record only answers for the artist and
+ * title it was found with, so correcting them looks the lyrics up again.
+ */
+
+export interface CachedLyrics {
+  artist: string;
+  title: string;
+  text: string;
+  provider: LyricsProviderId;
+  cachedAt: string; // ISO date
+}
+
+const CACHE_DIR = path.join(DATA_DIR, 'lyrics', 'cache');
+
+function cachePaths({ videoId, artist, title }: LyricsQuery): { byId: string | null; byTitle: string | null } {
+  const hash = createHash('sha1').update(matchKey(artist, title)).digest('hex').slice(0, 16);
+  return {
+    byId: videoId && isValidVideoId(videoId) ? path.join(CACHE_DIR, `id-${videoId}.json`) : null,
+    byTitle: title ? path.join(CACHE_DIR, `title-${hash}.json`) : null,
+  };
+}
+
+async function readRecord(file: string): Promise<CachedLyrics | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as CachedLyrics;
+  } catch {
+    return null;
+  }
+}
+
+async function writeRecord(file: string, record: CachedLyrics): Promise<void> {
+  const tempFile = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(record));
+  await fs.rename(tempFile, file);
+}
+
+/**
+ * Cached lyrics for a track, by track ID first, then by artist/title
+ *
+ * @returns The record, or null when nothing is cached
+ */
+export async function readCachedLyrics(query: LyricsQuery): Promise<CachedLyrics | null> {
+  const { byId, byTitle } = cachePaths(query);
+  const key = matchKey(query.artist, query.title);
+
+  const record = byId ? await readRecord(byId) : null;
+  if (record && matchKey(record.artist, record.title) === key) {
+    return record;
+  }
+  return byTitle ? readRecord(byTitle) : null;
+}
+
+/**
+ * Cache lyrics under the track ID (if any) and the artist/title
+ */
+export async function writeCachedLyrics(query: LyricsQuery, text: string, provider: LyricsProviderId): Promise<void> {
+  const { byId, byTitle } = cachePaths(query);
+  const record: CachedLyrics = {
+    artist: query.artist,
+    title: query.title,
+    text,
+    provider,
+    cachedAt: new Date().toISOString(),
+  };
+
+  await fs.mkdir(CACHE_DIR, { recursive: true });
+  await Promise.all([byId && writeRecord(byId, record), byTitle && writeRecord(byTitle, record)]);
+}
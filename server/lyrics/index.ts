@@ -0,0 +1,59 @@
+import { readCachedLyrics, writeCachedLyrics } from './cache';
+import { localLyricsProvider } from './local';
+import { isSyncedText } from './match';
+import { remoteLyricsProvider } from './remote';
+import { savedProvider } from './saved';
+import type { LyricsProvider, LyricsQuery, LyricsResult } from './types';
+
+export { writeSavedLyrics } from './saved';
+export type { LyricsProvider, LyricsProviderId, LyricsQuery, LyricsResult } from './types';
+
+/**
+ * Registered lyrics providers, in the order they are asked
+ */
+const PROVIDERS: LyricsProvider[] = [savedProvider, localLyricsProvider, remoteLyricsProvider];
+
+export function getEnabledLyricsProviders(): LyricsProvider[] {
+  return PROVIDERS.filter((provider) => provider.isEnabled());
+}
+
+/**
+ * Look up a track's lyrics
+ * The on-disk cache is checked before the first provider with cacheResults,
+ * whose results are then cached. A failing provider is skipped like a miss.
+ *
+ * @returns The lyrics, or null when no provider has them
+ */
+export async function lookupLyrics(query: LyricsQuery): Promise<LyricsResult | null> {
+  const toResult = (text: string, provider: LyricsProvider['id'], cached: boolean): LyricsResult => ({
+    text,
+    synced: isSyncedText(text),
+    provider,
+    cached,
+  });
+
+  let cacheChecked = false;
+
+  for (const provider of getEnabledLyricsProviders()) {
+    if (provider.cacheResults && !cacheChecked) {
+      cacheChecked = true;
+      const cached = await readCachedLyrics(query);
+      if (cached) return toResult(cached.text, cached.provider, true);
+    }
+
+    try {
+      const text = await provider.find(query);
+      if (!text) continue;
+
+      if (provider.cacheResults) {
+        await writeCachedLyrics(query, text, provider.id).catch((error) =>
+          console.error('[Lyrics] Failed to cache lyrics:', error)
+        );
+      }
+      return toResult(text, provider.id, false);
+    } catch (error) {
+      console.error(`[Lyrics] ${provider.name} failed:`, error);
+    }
+  }
+  return null;
+}
@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { matchKey } from './match';
+import type { LyricsProvider } from './types';
+
+/**
+ * Local lyrics provider: .lrc and .txt files in a folder on the server
+ *
+ * LYRICS_DIR is scanned recursively. Files are matched by name, either the
+ * track ID ("dQw4w9WgXcQ.lrc") or "Artist - Title.lrc"; when both an .lrc
+ * and a .txt match, the synced .lrc wins.
+ */
+
+const LYRICS_DIR = process.env.LYRICS_DIR ? path.resolve(process.env.LYRICS_DIR) : null;
+
+const EXTENSIONS = ['.lrc', '.txt'];
+
+// The folder is rescanned when the index is older than this
+const RESCAN_MS = 60 * 1000;
+
+// File by track ID or matchKey, .lrc files preferred
+let index = new Map<string, string>();
+let indexedAt = 0;
+let scanning: Promise<void> | null = null;
+
+async function scan(lyricsDir: string): Promise<void> {
+  const entries = await fs.readdir(lyricsDir, { recursive: true });
+  const next = new Map<string, string>();
+  let count = 0;
+
+  for (const relativePath of entries) {
+    const extension = path.extname(relativePath).toLowerCase();
+    if (!EXTENSIONS.includes(extension)) continue;
+
+    const file = path.join(lyricsDir, relativePath);
+    count++;
+    const name = path.basename(relativePath, path.extname(relativePath));
+    const separator = name.indexOf(' - ');
+    const keys = separator > 0 ? [name, matchKey(name.slice(0, separator), name.slice(separator + 3))] : [name];
+
+    for (const key of keys) {
+      const existing = next.get(key);
+      if (!existing || (extension === '.lrc' && path.extname(existing).toLowerCase() !== '.lrc')) {
+        next.set(key, file);
+      }
+    }
+  }
+
+  index = next;
+  indexedAt = Date.now();
+  console.log(`[Lyrics] Indexed ${count} lyrics files in ${lyricsDir}`);
+}
+
+/**
+ * The file index, rescanned when stale (concurrent callers share one scan)
+ */
+async function getIndex(lyricsDir: string): Promise<Map<string, string>> {
+  if (Date.now() - indexedAt > RESCAN_MS) {
+    scanning ??= scan(lyricsDir).finally(() => {
+      scanning = null;
+    });
+    await scanning;
+  }
+  return index;
+}
+
+export const localLyricsProvider: LyricsProvider = {
+  id: 'local',
+  name: 'Lyrics Folder',
+  cacheResults: false,
+
+  isEnabled() {
+    return LYRICS_DIR !== null;
+  },
+
+  async find({ videoId, artist, title }) {
+    if (!LYRICS_DIR) return null;
+
+    const files = await getIndex(LYRICS_DIR);
+    const file = (videoId && files.get(videoId)) || files.get(matchKey(artist, title));
+    return file ? fs.readFile(file, 'utf8') : null;
+  },
+};
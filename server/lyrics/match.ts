@@ -0,0 +1,26 @@
+/**
+ * Matching tracks by artist and title, shared by the lyrics folder and cache
+ */
+
+/**
+ * Artist and title reduced to a comparable key: case, accents, punctuation
+ * and spacing are ignored, so "AC/DC - Back In Black" matches "acdc - back in black"
+ */
+export function matchKey(artist: string, title: string): string {
+  const normalize = (text: string) =>
+    text
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  return `${normalize(artist)} - ${normalize(title)}`;
+}
+
+/**
+ * Whether lyrics text has LRC line timestamps
+ */
+export function isSyncedText(text: string): boolean {
+  return /^\s*\[\d+:\d{1,2}(?:[.:]\d{1,3})?\]/m.test(text);
+}
@@ -0,0 +1,37 @@
+import type { LyricsProvider } from './types';
+
+/**
+ * Remote lyrics provider: the lyrics.ovh API (plain text only)
+ *
+ * Requests time out quickly, so a gig without internet falls through to a
+ * miss instead of hanging the lookup.
+ */
+
+const LYRICS_OVH_URL = 'https://api.lyrics.ovh/v1';
+
+const TIMEOUT_MS = 8000;
+
+export const remoteLyricsProvider: LyricsProvider = {
+  id: 'remote',
+  name: 'lyrics.ovh',
+  cacheResults: true,
+
+  isEnabled() {
+    return true;
+  },
+
+  async find({ artist, title }) {
+    if (!artist || !title) return null;
+
+    const response = await fetch(`${LYRICS_OVH_URL}/${encodeURIComponent(artist)}/${encodeURIComponent(title)}`, {
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`lyrics.ovh responded ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { lyrics?: string };
+    return data.lyrics?.trim() ? data.lyrics : null;
+  },
+};
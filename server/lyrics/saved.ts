@@ -0,0 +1,51 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DATA_DIR, isValidVideoId } from '../analysis-store';
+import type { LyricsProvider } from './types';
+
+/**
+ * Saved lyrics provider: LRC the user synced for a track in the sync editor
+ *
+ * One file per track ID under DATA_DIR/lyrics/saved, so edits survive a
+ * cleared browser and reach every device using this server.
+ */
+
+const SAVED_DIR = path.join(DATA_DIR, 'lyrics', 'saved');
+
+function savedPath(videoId: string): string {
+  if (!isValidVideoId(videoId)) {
+    throw new Error(`Invalid video ID: "${videoId}"`);
+  }
+  return path.join(SAVED_DIR, `${videoId}.lrc`);
+}
+
+/**
+ * Store a track's lyrics (temp file and rename, like the analysis store)
+ */
+export async function writeSavedLyrics(videoId: string, lrc: string): Promise<void> {
+  const file = savedPath(videoId);
+  const tempFile = `${file}.${process.pid}.tmp`;
+
+  await fs.mkdir(SAVED_DIR, { recursive: true });
+  await fs.writeFile(tempFile, lrc);
+  await fs.rename(tempFile, file);
+}
+
+export const savedProvider: LyricsProvider = {
+  id: 'saved',
+  name: 'Saved Edits',
+  cacheResults: false,
+
+  isEnabled() {
+    return true;
+  },
+
+  async find({ videoId }) {
+    if (!videoId || !isValidVideoId(videoId)) return null;
+    try {
+      return await fs.readFile(savedPath(videoId), 'utf8');
+    } catch {
+      return null;
+    }
+  },
+};
@@ -0,0 +1,34 @@
+/**
+ * Lyrics providers: sources the lyrics endpoint looks a track's lyrics up in
+ *
+ * Providers are asked in order and the first match wins, so the user's own
+ * edits beat files on the server, which beat the internet.
+ */
+
+export type LyricsProviderId = 'saved' | 'local' | 'remote';
+
+/** What a lookup knows about the track */
+export interface LyricsQuery {
+  videoId: string | null; // Track ID, null for tracks without one
+  artist: string;
+  title: string;
+}
+
+/** Lyrics found for a track, as sent to the lyrics panels */
+export interface LyricsResult {
+  text: string; // Plain text or LRC
+  synced: boolean; // Whether the text has LRC line timestamps
+  provider: LyricsProviderId;
+  cached: boolean; // Served from the on-disk cache
+}
+
+export interface LyricsProvider {
+  id: LyricsProviderId;
+  name: string;
+  /** Slow or online sources: results are cached on disk and the cache is checked first */
+  cacheResults: boolean;
+  /** Disabled providers are skipped */
+  isEnabled(): boolean;
+  /** @returns The lyrics text, or null when the provider has none */
+  find(query: LyricsQuery): Promise<string | null>;
+}
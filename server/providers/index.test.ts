@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidPageTokenError, parseSearchOptions, searchProviders } from '.';
+
+const optionsWithPage = (page: string) => parseSearchOptions(new URLSearchParams({ page }));
+
+describe('searchProviders', () => {
+  it.each([
+    ['not base64 JSON', 'xx'],
+    ['not an object', Buffer.from('123').toString('base64url')],
+    ['empty', Buffer.from('{}').toString('base64url')],
+    ['non-string tokens', Buffer.from('{"local":50}').toString('base64url')],
+  ])('rejects a page token that is %s', async (_, page) => {
+    await expect(searchProviders('song', optionsWithPage(page))).rejects.toBeInstanceOf(InvalidPageTokenError);
+  });
+
+  it('rejects an expired YouTube page', async () => {
+    const page = Buffer.from('{"youtube":"gone"}').toString('base64url');
+    await expect(searchProviders('song', optionsWithPage(page))).rejects.toBeInstanceOf(InvalidPageTokenError);
+  });
+});
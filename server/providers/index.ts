@@ -0,0 +1,98 @@
+import { localProvider } from './local';
+import { InvalidPageTokenError, sortResults } from './search';
+import type { SearchOptions, SearchPage, TrackProvider, TrackProviderId, TrackResult } from './types';
+import { youtubeProvider } from './youtube';
+
+export { InvalidPageTokenError, parseSearchOptions } from './search';
+export type { AnalysisAudio, AudioStream, SearchOptions, SearchPage, TrackProvider, TrackProviderId, TrackResult } from './types';
+
+/**
+ * Registered track providers, in the order their results are merged
+ */
+const PROVIDERS: TrackProvider[] = [localProvider, youtubeProvider];
+
+export function getEnabledProviders(): TrackProvider[] {
+  return PROVIDERS.filter((provider) => provider.isEnabled());
+}
+
+/**
+ * The provider a track ID belongs to
+ *
+ * @throws Error when no provider recognizes the ID
+ */
+export function getTrackProvider(trackId: string): TrackProvider {
+  const provider = PROVIDERS.find((candidate) => candidate.ownsTrack(trackId));
+  if (!provider) {
+    throw new Error(`Unknown track ID: "${trackId}"`);
+  }
+  return provider;
+}
+
+/** Per-provider page tokens, encoded into the merged search's page token */
+type PageTokens = Partial<Record<TrackProviderId, string>>;
+
+function encodePageTokens(tokens: PageTokens): string | null {
+  return Object.keys(tokens).length > 0 ? Buffer.from(JSON.stringify(tokens)).toString('base64url') : null;
+}
+
+/**
+ * @throws InvalidPageTokenError when the token isn't one encodePageTokens made
+ */
+function decodePageTokens(token: string): PageTokens {
+  let tokens: unknown;
+  try {
+    tokens = JSON.parse(Buffer.from(token, 'base64url').toString());
+  } catch {
+    throw new InvalidPageTokenError();
+  }
+
+  const valid =
+    typeof tokens === 'object' &&
+    tokens !== null &&
+    !Array.isArray(tokens) &&
+    Object.keys(tokens).length > 0 &&
+    Object.values(tokens).every((value) => typeof value === 'string');
+  if (!valid) throw new InvalidPageTokenError();
+  return tokens as PageTokens;
+}
+
+/**
+ * Search all enabled providers and interleave their results by rank
+ * The first page asks every provider; later pages (options.pageToken) only
+ * those that had more. A failing provider is skipped; the search only
+ * fails when all of them do.
+ */
+export async function searchProviders(query: string, options: SearchOptions): Promise<SearchPage> {
+  const tokens = options.pageToken ? decodePageTokens(options.pageToken) : null;
+  const providers = getEnabledProviders().filter((provider) => !tokens || tokens[provider.id]);
+  const settled = await Promise.allSettled(
+    providers.map((provider) => provider.search(query, { ...options, pageToken: tokens?.[provider.id] ?? null }))
+  );
+
+  const lists: TrackResult[][] = [];
+  const nextTokens: PageTokens = {};
+  settled.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      lists.push(result.value.results);
+      if (result.value.nextPageToken) nextTokens[providers[i].id] = result.value.nextPageToken;
+    } else {
+      console.warn(`[Tracks] ${providers[i].name} search failed:`, result.reason);
+    }
+  });
+  if (lists.length === 0 && settled.length > 0) {
+    const invalidToken = settled.find(
+      (result): result is PromiseRejectedResult => result.status === 'rejected' && result.reason instanceof InvalidPageTokenError
+    );
+    if (invalidToken) throw invalidToken.reason;
+    throw new Error('All track providers failed');
+  }
+
+  const merged: TrackResult[] = [];
+  const longest = Math.max(0, ...lists.map((list) => list.length));
+  for (let rank = 0; rank < longest; rank++) {
+    for (const list of lists) {
+      if (rank < list.length) merged.push(list[rank]);
+    }
+  }
+  return { results: sortResults(merged, options.sort), nextPageToken: encodePageTokens(nextTokens) };
+}
@@ -0,0 +1,185 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { InvalidPageTokenError, matchesFilters, UPLOAD_DATE_MAX_AGE_MS } from './search';
+import type { SearchOptions, TrackProvider, TrackResult } from './types';
+
+/**
+ * Local music provider: audio files in a folder on the server
+ *
+ * MUSIC_DIR is scanned recursively for MP3/FLAC/OGG files. Titles come from
+ * file names ("Artist - Title.mp3"); files without an artist part are
+ * credited to their folder. The upload date filter applies to the files'
+ * modification times; durations aren't known before analysis, so duration
+ * filters leave local tracks out. Track IDs are `local-` plus a hash of the
+ * file's path within the folder, so they stay stable across rescans and
+ * can't collide with YouTube video IDs.
+ */
+
+const MUSIC_DIR = process.env.MUSIC_DIR ? path.resolve(process.env.MUSIC_DIR) : null;
+
+export const LOCAL_TRACK_PREFIX = 'local-';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.flac': 'audio/flac',
+  '.ogg': 'audio/ogg',
+};
+
+// The folder is rescanned when the index is older than this
+const RESCAN_MS = 60 * 1000;
+
+// Results per page
+const PAGE_SIZE = 50;
+
+interface LocalTrack {
+  file: string; // Absolute path
+  title: string;
+  artist: string;
+  modifiedAt: number; // ms since epoch
+}
+
+let index = new Map<string, LocalTrack>();
+let indexedAt = 0;
+let scanning: Promise<void> | null = null;
+
+function trackId(relativePath: string): string {
+  const hash = createHash('sha1').update(relativePath).digest('hex').slice(0, 16);
+  return `${LOCAL_TRACK_PREFIX}${hash}`;
+}
+
+/**
+ * Title and artist from a file's path within the music folder
+ */
+function describeFile(relativePath: string): Pick<LocalTrack, 'title' | 'artist'> {
+  const name = path.basename(relativePath, path.extname(relativePath));
+  const separator = name.indexOf(' - ');
+  if (separator > 0) {
+    return { artist: name.slice(0, separator).trim(), title: name.slice(separator + 3).trim() };
+  }
+
+  const folder = path.basename(path.dirname(relativePath));
+  return { artist: folder === '.' ? 'Local Music' : folder, title: name };
+}
+
+async function scan(musicDir: string): Promise<void> {
+  const entries = await fs.readdir(musicDir, { recursive: true });
+  const next = new Map<string, LocalTrack>();
+
+  for (const relativePath of entries) {
+    if (!(path.extname(relativePath).toLowerCase() in CONTENT_TYPES)) continue;
+    const file = path.join(musicDir, relativePath);
+    const { mtimeMs } = await fs.stat(file);
+    next.set(trackId(relativePath), { file, ...describeFile(relativePath), modifiedAt: mtimeMs });
+  }
+
+  index = next;
+  indexedAt = Date.now();
+  console.log(`[Local Music] Indexed ${index.size} tracks in ${musicDir}`);
+}
+
+/**
+ * The track index, rescanned when stale (concurrent callers share one scan)
+ */
+async function getIndex(): Promise<Map<string, LocalTrack>> {
+  if (!MUSIC_DIR) {
+    throw new Error('Local music is not configured (set MUSIC_DIR)');
+  }
+
+  if (Date.now() - indexedAt > RESCAN_MS) {
+    scanning ??= scan(MUSIC_DIR).finally(() => {
+      scanning = null;
+    });
+    await scanning;
+  }
+  return index;
+}
+
+async function getTrack(id: string): Promise<LocalTrack> {
+  const track = (await getIndex()).get(id);
+  if (!track) {
+    throw new Error(`Local track not found: "${id}"`);
+  }
+  return track;
+}
+
+function isRecentEnough(track: LocalTrack, options: SearchOptions): boolean {
+  return options.uploaded === 'any' || Date.now() - track.modifiedAt <= UPLOAD_DATE_MAX_AGE_MS[options.uploaded];
+}
+
+function toResult(id: string, track: LocalTrack): TrackResult {
+  return {
+    id,
+    videoId: id,
+    title: track.title,
+    thumbnail: '',
+    duration: '--:--',
+    channel: track.artist,
+    provider: 'local',
+  };
+}
+
+export const localProvider: TrackProvider = {
+  id: 'local',
+  name: 'Local Music',
+
+  isEnabled() {
+    return MUSIC_DIR !== null;
+  },
+
+  ownsTrack(trackId) {
+    return trackId.startsWith(LOCAL_TRACK_PREFIX);
+  },
+
+  async search(query, options) {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const matches: TrackResult[] = [];
+
+    for (const [id, track] of await getIndex()) {
+      const haystack = `${track.artist} ${track.title}`.toLowerCase();
+      if (terms.every((term) => haystack.includes(term)) && isRecentEnough(track, options)) {
+        const result = toResult(id, track);
+        if (matchesFilters(result, options)) matches.push(result);
+      }
+    }
+
+    // Page tokens are offsets into the matches
+    const offset = options.pageToken ? Number(options.pageToken) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new InvalidPageTokenError();
+    }
+    const results = matches.slice(offset, offset + PAGE_SIZE);
+    console.log(`[Local Music] Found ${matches.length} results for "${query}", serving ${offset}-${offset + results.length}`);
+
+    return {
+      results,
+      nextPageToken: offset + PAGE_SIZE < matches.length ? String(offset + PAGE_SIZE) : null,
+    };
+  },
+
+  async getDetails(id) {
+    const track = (await getIndex()).get(id);
+    return track ? toResult(id, track) : null;
+  },
+
+  async getAudioStream(id) {
+    const track = await getTrack(id);
+    return {
+      type: 'file',
+      path: track.file,
+      contentType: CONTENT_TYPES[path.extname(track.file).toLowerCase()],
+    };
+  },
+
+  async getAnalysisAudio(id) {
+    const track = await getTrack(id);
+    return {
+      duration: 0,
+      load: async (onProgress) => {
+        const audio = await fs.readFile(track.file);
+        onProgress(1);
+        return audio;
+      },
+    };
+  },
+};
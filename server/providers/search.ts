@@ -0,0 +1,82 @@
+import { parseDurationText } from '../../shared/search';
+import type { DurationFilter, SearchKeyword, SearchOptions, SearchSort, TrackResult, UploadDateFilter } from './types';
+
+export { parseDurationText, sortResults } from '../../shared/search';
+
+/**
+ * Search options shared by the providers: query parameter parsing and the
+ * filters and sorting applied to result pages
+ */
+
+const DURATION_FILTERS: DurationFilter[] = ['any', 'short', 'medium', 'long'];
+const UPLOAD_DATE_FILTERS: UploadDateFilter[] = ['any', 'hour', 'today', 'week', 'month', 'year'];
+const SEARCH_KEYWORDS: SearchKeyword[] = ['karaoke', 'instrumental'];
+const SEARCH_SORTS: SearchSort[] = ['relevance', 'views', 'duration'];
+
+/** Duration bounds in seconds, [min, max) */
+const DURATION_RANGES: Record<Exclude<DurationFilter, 'any'>, [number, number]> = {
+  short: [0, 4 * 60],
+  medium: [4 * 60, 20 * 60],
+  long: [20 * 60, Infinity],
+};
+
+/** Maximum age of an upload in milliseconds */
+export const UPLOAD_DATE_MAX_AGE_MS: Record<Exclude<UploadDateFilter, 'any'>, number> = {
+  hour: 60 * 60 * 1000,
+  today: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 31 * 24 * 60 * 60 * 1000,
+  year: 366 * 24 * 60 * 60 * 1000,
+};
+
+/** Title patterns per keyword, including common variants */
+const KEYWORD_PATTERNS: Record<SearchKeyword, RegExp> = {
+  karaoke: /karaoke|sing[\s-]?along|カラオケ|노래방/i,
+  instrumental: /instrumental|backing track|off[\s-]?vocal|minus[\s-]?one|no vocals?|inst\.?\b/i,
+};
+
+/**
+ * A search page token that is malformed or has expired; the client should
+ * search again from the first page
+ */
+export class InvalidPageTokenError extends Error {
+  constructor(message = 'Invalid or expired page token, search again') {
+    super(message);
+    this.name = 'InvalidPageTokenError';
+  }
+}
+
+function pick<T extends string>(value: string | null, allowed: T[]): T {
+  return allowed.includes(value as T) ? (value as T) : allowed[0];
+}
+
+/**
+ * Search options from query parameters (duration, uploaded, keywords,
+ * sort, page); unknown values fall back to the defaults
+ */
+export function parseSearchOptions(params: URLSearchParams): SearchOptions {
+  const keywords = (params.get('keywords') ?? '')
+    .split(',')
+    .filter((keyword): keyword is SearchKeyword => SEARCH_KEYWORDS.includes(keyword as SearchKeyword));
+
+  return {
+    duration: pick(params.get('duration'), DURATION_FILTERS),
+    uploaded: pick(params.get('uploaded'), UPLOAD_DATE_FILTERS),
+    keywords: [...new Set(keywords)],
+    sort: pick(params.get('sort'), SEARCH_SORTS),
+    pageToken: params.get('page') || null,
+  };
+}
+
+/**
+ * Whether a result passes the duration and keyword filters
+ * Results of unknown duration fail any duration filter.
+ */
+export function matchesFilters(result: TrackResult, options: SearchOptions): boolean {
+  if (options.duration !== 'any') {
+    const seconds = parseDurationText(result.duration);
+    const [min, max] = DURATION_RANGES[options.duration];
+    if (seconds === null || seconds < min || seconds >= max) return false;
+  }
+  return options.keywords.every((keyword) => KEYWORD_PATTERNS[keyword].test(result.title));
+}
@@ -0,0 +1,74 @@
+import type { SearchSort } from '../../shared/search';
+
+/**
+ * Track providers: sources of tracks the decks can play
+ *
+ * Each provider searches its catalog and serves the audio of its tracks for
+ * playback and analysis. Track IDs are unique across providers, so
+ * everything keyed by ID (analysis store, job queue, waveform endpoint)
+ * works the same for every source.
+ */
+
+export type TrackProviderId = 'youtube' | 'local';
+
+/** A search result or track lookup, as sent to the Track Browser */
+export interface TrackResult {
+  id: string;
+  videoId: string; // Track ID (the name predates non-YouTube sources)
+  title: string;
+  thumbnail: string; // Empty when the source has no artwork
+  duration: string; // "M:SS", or "--:--" when unknown
+  channel: string; // Channel or artist
+  provider: TrackProviderId;
+}
+
+/** Duration ranges: under 4 minutes, 4-20 minutes, over 20 minutes (YouTube's own buckets) */
+export type DurationFilter = 'any' | 'short' | 'medium' | 'long';
+
+export type UploadDateFilter = 'any' | 'hour' | 'today' | 'week' | 'month' | 'year';
+
+/** Title keywords a result must match */
+export type SearchKeyword = 'karaoke' | 'instrumental';
+
+export type { SearchSort };
+
+export interface SearchOptions {
+  duration: DurationFilter;
+  uploaded: UploadDateFilter;
+  keywords: SearchKeyword[];
+  sort: SearchSort;
+  pageToken: string | null; // From the previous page's nextPageToken (null = first page)
+}
+
+/** One page of search results */
+export interface SearchPage {
+  results: TrackResult[];
+  nextPageToken: string | null; // null = no more results
+}
+
+/** Where a track's audio is streamed from */
+export type AudioStream =
+  | { type: 'url'; url: string } // Remote URL, proxied with Range requests forwarded
+  | { type: 'file'; path: string; contentType: string }; // File served from disk
+
+/** A track's audio, resolved for analysis */
+export interface AnalysisAudio {
+  duration: number; // seconds, 0 if unknown before decoding
+  /** @param onProgress Called with the loaded fraction (0-1, 0 while the size is unknown) */
+  load(onProgress: (fraction: number) => void): Promise<Buffer>;
+}
+
+export interface TrackProvider {
+  id: TrackProviderId;
+  name: string;
+  /** Disabled providers are left out of searches */
+  isEnabled(): boolean;
+  /** Whether a track ID belongs to this provider */
+  ownsTrack(trackId: string): boolean;
+  /** Providers apply the filters they can; results a filter can't be checked for are left out */
+  search(query: string, options: SearchOptions): Promise<SearchPage>;
+  /** @returns The track, or null when it doesn't exist */
+  getDetails(trackId: string): Promise<TrackResult | null>;
+  getAudioStream(trackId: string): Promise<AudioStream>;
+  getAnalysisAudio(trackId: string): Promise<AnalysisAudio>;
+}
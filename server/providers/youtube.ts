@@ -0,0 +1,212 @@
+import { randomUUID } from 'crypto';
+import youtubeSearch from 'youtube-search-api';
+import { downloadAudio, resolveAudioDownload } from '../youtube-audio';
+import { InvalidPageTokenError, matchesFilters, sortResults } from './search';
+import type { DurationFilter, SearchOptions, TrackProvider, TrackResult, UploadDateFilter } from './types';
+
+/**
+ * YouTube provider: search via youtube-search-api, audio via the MP3
+ * download resolved in ../youtube-audio.ts
+ *
+ * Duration, upload date and view count sorting are applied by YouTube;
+ * duration buckets and keywords are checked again on each page.
+ */
+
+// Maximum results per page
+const SEARCH_LIMIT = 50;
+
+// YouTube video IDs are always 11 URL-safe characters
+const VIDEO_ID_PATTERN = /^[\w-]{11}$/;
+
+// Next-page cursors are kept server-side (they hold YouTube's client
+// context) and handed out as opaque tokens
+const CURSOR_TTL_MS = 15 * 60 * 1000;
+
+type YouTubeSearchPage = Awaited<ReturnType<typeof youtubeSearch.GetListByKeyword>>;
+type YouTubeCursor = YouTubeSearchPage['nextPage'];
+
+const cursors = new Map<string, { cursor: YouTubeCursor; continuation: unknown; expiresAt: number }>();
+
+/** YouTube search filter protobuf values (the `sp` URL parameter) */
+const UPLOAD_DATE_VALUES: Record<Exclude<UploadDateFilter, 'any'>, number> = {
+  hour: 1,
+  today: 2,
+  week: 3,
+  month: 4,
+  year: 5,
+};
+const DURATION_VALUES: Record<Exclude<DurationFilter, 'any'>, number> = {
+  short: 1,
+  long: 2,
+  medium: 3,
+};
+const SORT_BY_VIEWS = 3;
+const TYPE_VIDEO = 1;
+
+interface YouTubeVideoDetails {
+  title?: string;
+  thumbnail?: {
+    thumbnails?: { url: string }[];
+  };
+  lengthSeconds?: string;
+  channel?: string;
+}
+
+/**
+ * Format seconds to MM:SS
+ */
+function formatSeconds(totalSeconds: number): string {
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+function defaultThumbnail(videoId: string): string {
+  return `https://i.ytimg.com/vi/${videoId}/mqdefault.jpg`;
+}
+
+/**
+ * Encode search filters as YouTube's `sp` parameter: a base64 protobuf of
+ * { 1: sort, 2: { 1: upload date, 2: type, 3: duration } }
+ */
+function encodeSearchFilters(options: SearchOptions): string {
+  const filters: number[] = [];
+  if (options.uploaded !== 'any') filters.push(0x08, UPLOAD_DATE_VALUES[options.uploaded]);
+  filters.push(0x10, TYPE_VIDEO);
+  if (options.duration !== 'any') filters.push(0x18, DURATION_VALUES[options.duration]);
+
+  const message = [...(options.sort === 'views' ? [0x08, SORT_BY_VIEWS] : []), 0x12, filters.length, ...filters];
+  return Buffer.from(message).toString('base64');
+}
+
+/**
+ * The library pastes its keyword into the results URL unescaped, so the
+ * filters ride along as an extra parameter (characters that would end the
+ * query are dropped from the user's text)
+ */
+function searchKeyword(query: string, options: SearchOptions): string {
+  const text = [query.replace(/[&#]/g, ' '), ...options.keywords].join(' ');
+  return `${text}&sp=${encodeSearchFilters(options)}`;
+}
+
+/**
+ * Keep a page's cursor for the next request
+ *
+ * @returns Its token, or null when YouTube reported no further page
+ */
+function storeCursor(cursor: YouTubeCursor, previousToken: string | null): string | null {
+  const now = Date.now();
+  cursors.forEach((entry, token) => {
+    if (entry.expiresAt <= now) cursors.delete(token);
+  });
+
+  const continuation = cursor.nextPageContext?.continuation;
+  const previous = previousToken ? cursors.get(previousToken)?.continuation : undefined;
+  // NextPage leaves the old continuation in place after the last page
+  if (!cursor.nextPageToken || typeof continuation !== 'string' || continuation === previous) {
+    return null;
+  }
+
+  const token = randomUUID();
+  cursors.set(token, { cursor, continuation, expiresAt: now + CURSOR_TTL_MS });
+  return token;
+}
+
+/**
+ * A stored cursor, copied (NextPage updates the cursor it is given)
+ */
+function takeCursor(token: string): YouTubeCursor | null {
+  const entry = cursors.get(token);
+  if (!entry || entry.expiresAt <= Date.now()) return null;
+  return {
+    nextPageToken: entry.cursor.nextPageToken,
+    nextPageContext: { ...entry.cursor.nextPageContext, continuation: entry.continuation },
+  };
+}
+
+export const youtubeProvider: TrackProvider = {
+  id: 'youtube',
+  name: 'YouTube',
+
+  isEnabled() {
+    return true;
+  },
+
+  ownsTrack(trackId) {
+    return VIDEO_ID_PATTERN.test(trackId);
+  },
+
+  async search(query, options) {
+    let page: YouTubeSearchPage;
+    if (options.pageToken) {
+      const cursor = takeCursor(options.pageToken);
+      if (!cursor) {
+        throw new InvalidPageTokenError('Search page expired, search again');
+      }
+      console.log(`[YouTube API] Next page for: "${query}"`);
+      page = await youtubeSearch.NextPage(cursor, false, SEARCH_LIMIT);
+    } else {
+      const keywords = options.keywords.join(' ');
+      console.log(`[YouTube API] Searching for: "${query}"${keywords ? ` + ${keywords}` : ''}`);
+      page = await youtubeSearch.GetListByKeyword(searchKeyword(query, options), false, SEARCH_LIMIT);
+    }
+
+    const videos: TrackResult[] = [];
+
+    for (const item of page.items || []) {
+      try {
+        if (!item.id || item.type !== 'video') continue;
+
+        videos.push({
+          id: item.id,
+          videoId: item.id,
+          title: item.title || 'Unknown Title',
+          thumbnail: item.thumbnail?.thumbnails?.[0]?.url || defaultThumbnail(item.id),
+          duration: item.length?.simpleText || '--:--',
+          channel: item.channelTitle || 'Unknown Channel',
+          provider: 'youtube',
+        });
+      } catch (itemError) {
+        console.warn('[YouTube API] Skipping item due to error:', itemError);
+      }
+    }
+
+    const results = sortResults(
+      videos.filter((video) => matchesFilters(video, options)),
+      options.sort
+    );
+    console.log(`[YouTube API] Found ${results.length} results (${videos.length} before filters)`);
+
+    return { results, nextPageToken: storeCursor(page.nextPage, options.pageToken) };
+  },
+
+  async getDetails(videoId) {
+    console.log(`[YouTube API] Getting video info: "${videoId}"`);
+
+    const video = (await youtubeSearch.GetVideoDetails(videoId)) as YouTubeVideoDetails;
+    if (!video) return null;
+
+    return {
+      id: videoId,
+      videoId: videoId,
+      title: video.title || 'Unknown Title',
+      thumbnail: video.thumbnail?.thumbnails?.[0]?.url || defaultThumbnail(videoId),
+      duration: video.lengthSeconds ? formatSeconds(parseInt(video.lengthSeconds)) : '--:--',
+      channel: video.channel || 'Unknown Channel',
+      provider: 'youtube',
+    };
+  },
+
+  async getAudioStream(videoId) {
+    const download = await resolveAudioDownload(videoId);
+    return { type: 'url', url: download.url };
+  },
+
+  async getAnalysisAudio(videoId) {
+    const download = await resolveAudioDownload(videoId);
+    return {
+      duration: download.duration,
+      load: (onProgress) => downloadAudio(download, onProgress),
+    };
+  },
+};
@@ -0,0 +1,87 @@
+import type { Connect } from 'vite';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Static file middleware for the built app (dist/)
+ *
+ * Serves files under `root`; other GET requests for extensionless paths
+ * outside /api get index.html so client-side routes load the app.
+ */
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+  '.wasm': 'application/wasm',
+  '.txt': 'text/plain; charset=utf-8',
+};
+
+// Vite puts content-hashed bundles here, so they can be cached for good
+const HASHED_ASSETS_PREFIX = '/assets/';
+
+/**
+ * Path of an existing file under `root` for a URL path (null if missing or
+ * outside root)
+ */
+async function resolveFile(root: string, urlPath: string): Promise<string | null> {
+  const file = path.resolve(root, `.${decodeURIComponent(urlPath)}`);
+  if (file !== root && !file.startsWith(root + path.sep)) return null;
+
+  try {
+    const stats = await fs.stat(file);
+    if (stats.isFile()) return file;
+    if (stats.isDirectory()) return resolveFile(root, path.posix.join(urlPath, 'index.html'));
+  } catch {
+    // Missing file
+  }
+  return null;
+}
+
+/**
+ * Serve the built app from `root`
+ */
+export function staticFilesMiddleware(root: string): Connect.NextHandleFunction {
+  const resolvedRoot = path.resolve(root);
+
+  return async (req, res, next) => {
+    if ((req.method !== 'GET' && req.method !== 'HEAD') || !req.url || req.url.startsWith('/api/')) {
+      return next();
+    }
+
+    const urlPath = new URL(req.url, `http://${req.headers.host}`).pathname;
+    let file: string | null;
+    try {
+      file = await resolveFile(resolvedRoot, urlPath);
+      if (!file && !path.extname(urlPath)) {
+        file = await resolveFile(resolvedRoot, '/index.html');
+      }
+    } catch {
+      file = null; // Malformed URL encoding
+    }
+    if (!file) {
+      return next();
+    }
+
+    const stats = await fs.stat(file);
+    res.statusCode = 200;
+    res.setHeader('Content-Type', CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream');
+    res.setHeader('Content-Length', stats.size);
+    res.setHeader(
+      'Cache-Control',
+      urlPath.startsWith(HASHED_ASSETS_PREFIX) ? 'public, max-age=31536000, immutable' : 'no-cache'
+    );
+
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+    createReadStream(file).pipe(res);
+  };
+}
@@ -0,0 +1,177 @@
+import type { Connect } from 'vite';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { createReadStream, promises as fs } from 'fs';
+import { getTrackProvider, InvalidPageTokenError, parseSearchOptions, searchProviders } from './providers';
+
+/**
+ * Track API: search across all enabled providers, and audio streaming for
+ * any provider's tracks (see ./providers)
+ */
+
+/**
+ * Track search middleware - merged results from all enabled providers, each
+ * tagged with its `provider`, one page at a time
+ * Takes the filters and sort of parseSearchOptions; responds with
+ * `{ results, nextPageToken }` (pass the token back as `page`); a malformed
+ * or expired `page` gets a 400.
+ */
+export function trackSearchMiddleware(): Connect.NextHandleFunction {
+  return async (req, res, next) => {
+    // Only handle /api/tracks/search requests
+    if (!req.url?.startsWith('/api/tracks/search')) {
+      return next();
+    }
+
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    const query = url.searchParams.get('q');
+
+    if (!query) {
+      res.statusCode = 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ error: 'Missing query parameter "q"' }));
+      return;
+    }
+
+    try {
+      const page = await searchProviders(query, parseSearchOptions(url.searchParams));
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'application/json');
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      res.end(JSON.stringify(page));
+    } catch (error) {
+      if (error instanceof InvalidPageTokenError) {
+        res.statusCode = 400;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ error: error.message }));
+        return;
+      }
+      console.error('[Tracks] Search error:', error);
+      res.statusCode = 500;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ error: 'Search failed', message: String(error) }));
+    }
+  };
+}
+
+/**
+ * Parse a single-range "bytes=start-end" header against a file size
+ *
+ * @returns The inclusive byte range, or null for a missing or unsupported header
+ */
+function parseRange(header: string | undefined, size: number): { start: number; end: number } | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    return { start: Math.max(0, size - Number(match[2])), end: size - 1 };
+  }
+  const start = Number(match[1]);
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  return { start, end };
+}
+
+/**
+ * Serve a file from disk, honoring Range requests so the <audio> element can seek
+ */
+async function serveFile(req: IncomingMessage, res: ServerResponse, file: string, contentType: string): Promise<void> {
+  const { size } = await fs.stat(file);
+  const range = parseRange(req.headers.range, size);
+
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Accept-Ranges', 'bytes');
+
+  if (range && range.start > range.end) {
+    res.statusCode = 416;
+    res.setHeader('Content-Range', `bytes */${size}`);
+    res.end();
+    return;
+  }
+
+  const { start, end } = range ?? { start: 0, end: size - 1 };
+  res.statusCode = range ? 206 : 200;
+  res.setHeader('Content-Length', end - start + 1);
+  if (range) {
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${size}`);
+  }
+
+  const stream = createReadStream(file, { start, end });
+  req.on('close', () => stream.destroy());
+  stream.pipe(res);
+}
+
+/**
+ * Proxy a remote audio URL, forwarding Range requests so the <audio> element can seek
+ */
+async function proxyUrl(req: IncomingMessage, res: ServerResponse, audioUrl: string): Promise<void> {
+  const headers: Record<string, string> = {};
+  if (req.headers.range) {
+    headers.Range = req.headers.range;
+  }
+
+  const upstream = await fetch(audioUrl, { headers });
+  if (!upstream.ok || !upstream.body) {
+    throw new Error(`Failed to fetch audio: ${upstream.status} ${upstream.statusText}`);
+  }
+
+  res.statusCode = upstream.status;
+  res.setHeader('Content-Type', upstream.headers.get('content-type') || 'audio/mpeg');
+  res.setHeader('Accept-Ranges', 'bytes');
+  for (const header of ['content-length', 'content-range']) {
+    const value = upstream.headers.get(header);
+    if (value) res.setHeader(header, value);
+  }
+
+  const reader = upstream.body.getReader();
+  req.on('close', () => {
+    reader.cancel().catch(() => {});
+  });
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    res.write(value);
+  }
+  res.end();
+}
+
+/**
+ * Track audio middleware - streams a track's audio through the server so the
+ * browser can route it into the Web Audio graph (same-origin, seekable)
+ */
+export function trackAudioMiddleware(): Connect.NextHandleFunction {
+  return async (req, res, next) => {
+    // Only handle /api/tracks/audio requests
+    if (!req.url?.startsWith('/api/tracks/audio')) {
+      return next();
+    }
+
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    const trackId = url.searchParams.get('id');
+
+    if (!trackId) {
+      res.statusCode = 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ error: 'Missing query parameter "id"' }));
+      return;
+    }
+
+    try {
+      const stream = await getTrackProvider(trackId).getAudioStream(trackId);
+      if (stream.type === 'file') {
+        await serveFile(req, res, stream.path, stream.contentType);
+      } else {
+        await proxyUrl(req, res, stream.url);
+      }
+    } catch (error) {
+      console.error('[Tracks] Audio error:', error);
+      if (!res.headersSent) {
+        res.statusCode = 502;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ error: 'Failed to stream audio', message: String(error) }));
+      } else {
+        res.end();
+      }
+    }
+  };
+}
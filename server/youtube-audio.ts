@@ -0,0 +1,115 @@
+// @ts-expect-error - no types available
+import yt from '@vreden/youtube_scraper';
+import { parseDurationText } from '../shared/search';
+
+/**
+ * YouTube audio access: resolving download URLs and downloading whole tracks
+ */
+
+// Cache for resolved audio download URLs (they expire, so keep them short-lived)
+const audioUrlCache = new Map<string, { download: AudioDownload; expiresAt: number }>();
+const AUDIO_URL_TTL_MS = 10 * 60 * 1000;
+
+// Whole-track download limits
+const DOWNLOAD_TIMEOUT_MS = 30000;
+const STALL_CHECK_MS = 2000; // Abort when no bytes arrived within one check
+
+export interface AudioDownload {
+  url: string;
+  duration: number; // seconds, 0 if unknown
+}
+
+/**
+ * Parse a duration reported by the scraper ("3:45", "1:23:45" or seconds)
+ */
+function parseDuration(dur: unknown): number {
+  if (typeof dur === 'number') {
+    return dur;
+  }
+  if (typeof dur === 'string') {
+    return parseDurationText(dur) ?? 0;
+  }
+  return 0;
+}
+
+/**
+ * Resolve a direct MP3 download URL for a video via @vreden/youtube_scraper
+ */
+export async function resolveAudioDownload(videoId: string): Promise<AudioDownload> {
+  const cached = audioUrlCache.get(videoId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.download;
+  }
+
+  console.log(`[YouTube Audio] Resolving MP3 via vreden for: "${videoId}"`);
+  const result = await yt.ytmp3(`https://youtube.com/watch?v=${videoId}`, 128);
+
+  if (!result.status || !result.download?.url) {
+    throw new Error(result.message || 'Failed to get download URL');
+  }
+
+  const download: AudioDownload = {
+    url: result.download.url,
+    duration: parseDuration(result.metadata?.duration),
+  };
+  audioUrlCache.set(videoId, { download, expiresAt: Date.now() + AUDIO_URL_TTL_MS });
+  return download;
+}
+
+/**
+ * Download a resolved track into memory
+ * Aborts on the total timeout or when the download stalls.
+ *
+ * @param onProgress Called with the received fraction (0-1, 0 while the size is unknown)
+ */
+export async function downloadAudio(download: AudioDownload, onProgress: (fraction: number) => void): Promise<Buffer> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => {
+    controller.abort();
+    console.log(`[YouTube Audio] Download timed out after ${DOWNLOAD_TIMEOUT_MS / 1000}s`);
+  }, DOWNLOAD_TIMEOUT_MS);
+
+  let stallCheck: ReturnType<typeof setInterval> | undefined;
+  try {
+    const response = await fetch(download.url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Failed to download audio: ${response.status} ${response.statusText}`);
+    }
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('Failed to get response reader');
+    }
+
+    const contentLength = response.headers.get('content-length');
+    const totalBytes = contentLength ? parseInt(contentLength, 10) : 0;
+
+    const chunks: Uint8Array[] = [];
+    let receivedBytes = 0;
+    let lastReceivedBytes = 0;
+
+    stallCheck = setInterval(() => {
+      if (receivedBytes === lastReceivedBytes && receivedBytes > 0) {
+        console.log('[YouTube Audio] Download appears stuck, aborting...');
+        controller.abort();
+      }
+      lastReceivedBytes = receivedBytes;
+    }, STALL_CHECK_MS);
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      chunks.push(value);
+      receivedBytes += value.length;
+      onProgress(totalBytes > 0 ? Math.min(1, receivedBytes / totalBytes) : 0);
+    }
+
+    const audio = Buffer.concat(chunks.map((chunk) => Buffer.from(chunk)));
+    console.log(`[YouTube Audio] Download complete: ${(audio.length / 1024).toFixed(0)}KB`);
+    return audio;
+  } finally {
+    clearInterval(stallCheck);
+    clearTimeout(timeoutId);
+  }
+}
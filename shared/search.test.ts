@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { parseDurationText, sortResults } from './search';
+
+describe('parseDurationText', () => {
+  it('parses minutes and hours', () => {
+    expect(parseDurationText('3:45')).toBe(225);
+    expect(parseDurationText('1:02:03')).toBe(3723);
+  });
+
+  it('returns null for unknown durations', () => {
+    expect(parseDurationText('--:--')).toBeNull();
+    expect(parseDurationText('')).toBeNull();
+  });
+});
+
+describe('sortResults', () => {
+  const results = [{ duration: '4:00' }, { duration: '--:--' }, { duration: '0:30' }];
+
+  it('sorts by duration with unknown durations last', () => {
+    expect(sortResults(results, 'duration').map((result) => result.duration)).toEqual(['0:30', '4:00', '--:--']);
+  });
+
+  it('keeps the provider order for other sorts', () => {
+    expect(sortResults(results, 'views')).toBe(results);
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Search helpers shared by the server's track providers and the app
+ */
+
+export type SearchSort = 'relevance' | 'views' | 'duration';
+
+/**
+ * Parse a formatted duration ("3:45", "1:02:03") to seconds (null if unknown)
+ */
+export function parseDurationText(text: string): number | null {
+  if (!/^\d+(:\d{1,2}){1,2}$/.test(text)) return null;
+  return text.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+/**
+ * Apply the 'duration' sort to results (other sorts come from the
+ * providers); unknown durations go last
+ */
+export function sortResults<T extends { duration: string }>(results: T[], sort: SearchSort): T[] {
+  if (sort !== 'duration') return results;
+
+  const seconds = (result: T) => parseDurationText(result.duration) ?? Infinity;
+  return [...results].sort((a, b) => seconds(a) - seconds(b));
+}
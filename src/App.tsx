@@ -1,14 +1,38 @@
-import { useEffect, useCallback, useRef } from 'react';
+import { useEffect, useCallback, useRef, useState } from 'react';
 import { VideoMixer } from './components/VideoMixer';
 import { DeckDisplay } from './components/DeckDisplay';
 import { MixerCenter } from './components/MixerCenter';
-import { PlaylistPanel, type Track } from './components/PlaylistPanel';
+import { PlaylistPanel } from './components/PlaylistPanel';
 import { LyricsPanelCompact } from './components/LyricsPanelCompact';
+import { LyricsSyncEditor } from './components/LyricsSyncEditor';
+import { ProjectorLyricsSettingsPanel } from './components/ProjectorLyricsSettingsPanel';
+import { ResumeSessionPrompt } from './components/ResumeSessionPrompt';
+import { MidiLearnBanner, MidiMappingPanel } from './components/MidiMappingPanel';
 import { useMidiController } from './hooks/useMidiController';
 import { useBroadcastChannel } from './hooks/useBroadcastChannel';
-import { useDJStore, getStoreState } from './stores/djStore';
+import { useAudioEngine } from './hooks/useAudioEngine';
+import { useBeatSync } from './hooks/useBeatSync';
+import { useDJStore, getProjectorState, hasProjectorStateChanged } from './stores/djStore';
 import { useYouTubeMetadata } from './hooks/useYouTubeMetadata';
 import { Button } from '@/components/ui/button';
+import { clearedCues } from './utils/cues';
+import { clearedSync } from './utils/beatSync';
+import { clearedLoop } from './utils/loops';
+import { clearedLoudness } from './utils/autoGain';
+import { loadedLyrics } from './utils/lyrics';
+import { isYouTubeTrack } from './utils/trackProviders';
+import { getTrackSource, releaseDeckSource } from './utils/deckSource';
+import type { Track, WaveformColorScheme } from './types';
+
+/** Labels of the waveform color schemes in the top bar */
+const WAVEFORM_SCHEME_LABELS: Record<WaveformColorScheme, string> = {
+  mono: 'MONO',
+  rgb: 'RGB',
+  stacked: '3-BAND',
+};
+
+/** Auto gain targets offered in the top bar (LUFS) */
+const AUTO_GAIN_TARGET_OPTIONS = [-23, -18, -16, -14, -11, -9];
 
 /**
  * Main App component - YouRoke DJ Mixer
@@ -16,55 +40,43 @@ import { Button } from '@/components/ui/button';
  */
 function App() {
   const projectorWindowRef = useRef<Window | null>(null);
+  const [showMidiMapping, setShowMidiMapping] = useState(false);
+  const [lyricsSyncDeck, setLyricsSyncDeck] = useState<'A' | 'B' | null>(null);
+  const [showProjectorLyrics, setShowProjectorLyrics] = useState(false);
 
   // Store actions
-  const setCrossfader = useDJStore((state) => state.setCrossfader);
-  const toggleDeckAPlay = useDJStore((state) => state.toggleDeckAPlay);
-  const toggleDeckBPlay = useDJStore((state) => state.toggleDeckBPlay);
-  const setMidiConnected = useDJStore((state) => state.setMidiConnected);
   const updateDeckA = useDJStore((state) => state.updateDeckA);
   const updateDeckB = useDJStore((state) => state.updateDeckB);
   const audioEngineStarted = useDJStore((state) => state.audioEngineStarted);
   const startAudioEngine = useDJStore((state) => state.startAudioEngine);
+  const waveformColorScheme = useDJStore((state) => state.waveformColorScheme);
+  const projectorLyricsEnabled = useDJStore((state) => state.projectorLyrics.enabled);
+  const setWaveformColorScheme = useDJStore((state) => state.setWaveformColorScheme);
+  const autoGainEnabled = useDJStore((state) => state.autoGainEnabled);
+  const autoGainTarget = useDJStore((state) => state.autoGainTarget);
+  const setAutoGainEnabled = useDJStore((state) => state.setAutoGainEnabled);
+  const setAutoGainTarget = useDJStore((state) => state.setAutoGainTarget);
 
   // YouTube metadata fetcher
   const { fetchMetadata } = useYouTubeMetadata();
 
-  // MIDI callbacks
-  const handleCrossfaderChange = useCallback(
-    (value: number) => {
-      setCrossfader(value);
-    },
-    [setCrossfader]
-  );
-
-  const handleDeckAPlayToggle = useCallback(() => {
-    toggleDeckAPlay();
-  }, [toggleDeckAPlay]);
+  // Initialize MIDI devices (each is dispatched through its own mapping preset)
+  const { isMidiConnected } = useMidiController();
 
-  const handleDeckBPlayToggle = useCallback(() => {
-    toggleDeckBPlay();
-  }, [toggleDeckBPlay]);
+  // Route deck audio through the Web Audio engine (EQ, gain, filter, master)
+  useAudioEngine();
 
-  // Initialize MIDI controller
-  const { isMidiConnected } = useMidiController({
-    onCrossfaderChange: handleCrossfaderChange,
-    onDeckAPlayToggle: handleDeckAPlayToggle,
-    onDeckBPlayToggle: handleDeckBPlayToggle,
-  });
-
-  // Update store with MIDI connection status
-  useEffect(() => {
-    setMidiConnected(isMidiConnected);
-  }, [isMidiConnected, setMidiConnected]);
+  // Keep sync followers tempo-locked to the sync master
+  useBeatSync();
 
   // Broadcast channel for projector sync
   const { postMessage } = useBroadcastChannel();
 
-  // Broadcast state changes to projector
+  // Broadcast changes the projector shows
   useEffect(() => {
-    const unsubscribe = useDJStore.subscribe(() => {
-      const state = getStoreState();
+    const unsubscribe = useDJStore.subscribe((current, previous) => {
+      if (!hasProjectorStateChanged(current, previous)) return;
+      const state = getProjectorState();
       postMessage({ type: 'FULL_STATE', payload: state });
     });
 
@@ -75,13 +87,22 @@ function App() {
    * Load track to Deck A
    */
   const handleLoadToDeckA = useCallback(async (track: Track) => {
+    releaseDeckSource(useDJStore.getState().deckA.source);
     updateDeckA({ 
       videoId: track.videoId, 
+      source: getTrackSource(track),
       title: track.title,
-      artist: track.channel 
+      artist: track.channel,
+      key: track.key ?? null,
+      ...clearedCues(),
+      ...clearedSync(),
+      ...clearedLoop(),
+      ...clearedLoudness(),
+      ...loadedLyrics(useDJStore.getState().syncedLyrics[track.videoId]),
     });
     
-    // Try to fetch better metadata
+    // Try to fetch better metadata (YouTube titles only)
+    if (!isYouTubeTrack(track.videoId)) return;
     const metadata = await fetchMetadata(track.videoId);
     if (metadata && metadata.artist) {
       updateDeckA({
@@ -95,13 +116,22 @@ function App() {
    * Load track to Deck B
    */
   const handleLoadToDeckB = useCallback(async (track: Track) => {
+    releaseDeckSource(useDJStore.getState().deckB.source);
     updateDeckB({ 
       videoId: track.videoId, 
+      source: getTrackSource(track),
       title: track.title,
-      artist: track.channel 
+      artist: track.channel,
+      key: track.key ?? null,
+      ...clearedCues(),
+      ...clearedSync(),
+      ...clearedLoop(),
+      ...clearedLoudness(),
+      ...loadedLyrics(useDJStore.getState().syncedLyrics[track.videoId]),
     });
     
-    // Try to fetch better metadata
+    // Try to fetch better metadata (YouTube titles only)
+    if (!isYouTubeTrack(track.videoId)) return;
     const metadata = await fetchMetadata(track.videoId);
     if (metadata && metadata.artist) {
       updateDeckB({
@@ -129,7 +159,7 @@ function App() {
     if (projectorWindow) {
       projectorWindowRef.current = projectorWindow;
       setTimeout(() => {
-        const state = getStoreState();
+        const state = getProjectorState();
         postMessage({ type: 'FULL_STATE', payload: state });
       }, 1000);
     }
@@ -146,6 +176,15 @@ function App() {
 
   return (
     <div className="h-screen bg-neutral-950 text-white flex flex-col overflow-hidden">
+      {/* Offer to resume the session saved before the last reload */}
+      <ResumeSessionPrompt />
+
+      {/* MIDI mapping editor and on-screen learn mode */}
+      {showMidiMapping && <MidiMappingPanel onClose={() => setShowMidiMapping(false)} />}
+      {lyricsSyncDeck && <LyricsSyncEditor deck={lyricsSyncDeck} onClose={() => setLyricsSyncDeck(null)} />}
+      {showProjectorLyrics && <ProjectorLyricsSettingsPanel onClose={() => setShowProjectorLyrics(false)} />}
+      <MidiLearnBanner />
+
       {/* Top Bar */}
       <header className="flex-shrink-0 flex items-center justify-between px-6 py-3 bg-black/80 border-b border-neutral-800/50 backdrop-blur-sm">
         <div className="flex items-center gap-4">
@@ -173,9 +212,54 @@ function App() {
             <span className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${audioEngineStarted ? 'bg-green-900/40 text-green-400 border border-green-700/30' : 'bg-neutral-800/50 text-neutral-500 border border-neutral-700/30'}`}>
               {audioEngineStarted ? '🔊 AUDIO ON' : '🔇 AUDIO OFF'}
             </span>
-            <span className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${isMidiConnected ? 'bg-green-900/40 text-green-400 border border-green-700/30' : 'bg-neutral-800/50 text-neutral-500 border border-neutral-700/30'}`}>
+            <button
+              type="button"
+              onClick={() => setShowMidiMapping(true)}
+              title="Edit MIDI mapping"
+              className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all hover:brightness-125 ${isMidiConnected ? 'bg-green-900/40 text-green-400 border border-green-700/30' : 'bg-neutral-800/50 text-neutral-500 border border-neutral-700/30'}`}
+            >
               {isMidiConnected ? '🎛️ MIDI ON' : '🎛️ NO MIDI'}
-            </span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowProjectorLyrics(true)}
+              title="Projector lyrics settings"
+              className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all hover:brightness-125 ${projectorLyricsEnabled ? 'bg-sky-900/40 text-sky-300 border border-sky-700/30' : 'bg-neutral-800/50 text-neutral-500 border border-neutral-700/30'}`}
+            >
+              {projectorLyricsEnabled ? '🎤 LYRICS ON' : '🎤 LYRICS OFF'}
+            </button>
+            <select
+              value={waveformColorScheme}
+              onChange={(e) => setWaveformColorScheme(e.target.value as WaveformColorScheme)}
+              title="Waveform colors"
+              className="px-2 py-1.5 rounded-lg text-xs font-medium bg-neutral-800/50 text-neutral-300 border border-neutral-700/30 focus:outline-none"
+            >
+              {Object.entries(WAVEFORM_SCHEME_LABELS).map(([scheme, label]) => (
+                <option key={scheme} value={scheme}>
+                  〰️ {label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={autoGainEnabled ? String(autoGainTarget) : 'off'}
+              onChange={(e) => {
+                if (e.target.value === 'off') {
+                  setAutoGainEnabled(false);
+                } else {
+                  setAutoGainTarget(Number(e.target.value));
+                  setAutoGainEnabled(true);
+                }
+              }}
+              title="Auto gain: normalize loaded tracks to a target loudness"
+              className="px-2 py-1.5 rounded-lg text-xs font-medium bg-neutral-800/50 text-neutral-300 border border-neutral-700/30 focus:outline-none"
+            >
+              <option value="off">📢 AUTO GAIN OFF</option>
+              {AUTO_GAIN_TARGET_OPTIONS.map((lufs) => (
+                <option key={lufs} value={lufs}>
+                  📢 {lufs} LUFS
+                </option>
+              ))}
+            </select>
           </div>
 
           {/* Projector Button */}
@@ -223,7 +307,7 @@ function App() {
           </div>
 
           {/* Lyrics Panel */}
-          <LyricsPanelCompact className="w-80 flex-shrink-0" />
+          <LyricsPanelCompact className="w-80 flex-shrink-0" onOpenSyncEditor={setLyricsSyncDeck} />
         </div>
       </main>
     </div>
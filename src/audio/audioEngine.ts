@@ -0,0 +1,254 @@
+import type { EQSettings } from '../types';
+
+// ============================================================================
+// YouRoke - Web Audio Engine
+// ============================================================================
+//
+// Signal flow per deck:
+//   <audio> → MediaElementSource → trim (gain) → low → mid → high → filter → fader ─┐
+//                                                                                    │
+// Master bus:                                                                        │
+//   input ← ──────────────────────────────────────────────────────────────────────────┘
+//   input → low → mid → high → volume → destination
+
+/**
+ * Nodes making up a single deck channel strip
+ */
+export interface DeckChannel {
+  trim: GainNode;
+  low: BiquadFilterNode;
+  mid: BiquadFilterNode;
+  high: BiquadFilterNode;
+  filter: BiquadFilterNode;
+  fader: GainNode;
+  element: HTMLMediaElement | null;
+  source: MediaElementAudioSourceNode | null;
+}
+
+/**
+ * Master bus nodes
+ */
+export interface MasterBus {
+  input: GainNode;
+  low: BiquadFilterNode;
+  mid: BiquadFilterNode;
+  high: BiquadFilterNode;
+  volume: GainNode;
+}
+
+export interface AudioEngine {
+  context: AudioContext;
+  master: MasterBus;
+  decks: Record<'A' | 'B', DeckChannel>;
+}
+
+// EQ band centre/shelf frequencies (Hz), matching a typical DJ mixer
+const LOW_SHELF_HZ = 250;
+const MID_PEAK_HZ = 1000;
+const HIGH_SHELF_HZ = 4000;
+
+// EQ gain range: full cut ≈ kill, full boost = +6dB
+const EQ_MAX_BOOST_DB = 6;
+const EQ_MAX_CUT_DB = -26;
+
+// Bipolar filter sweep range (Hz)
+const FILTER_MIN_HZ = 40;
+const FILTER_MAX_HZ = 20000;
+const FILTER_DEAD_ZONE = 0.02;
+const FILTER_Q = 1.2;
+
+// Smoothing time constant for parameter changes (seconds)
+const PARAM_SMOOTHING = 0.015;
+
+let engine: AudioEngine | null = null;
+
+/**
+ * Convert an EQ knob value (-1 to 1) to a filter gain in dB
+ * Cuts are deeper than boosts so a fully turned-down knob acts as a kill
+ */
+export function eqValueToDb(value: number): number {
+  const clamped = Math.max(-1, Math.min(1, value));
+  return clamped >= 0 ? clamped * EQ_MAX_BOOST_DB : -clamped * EQ_MAX_CUT_DB;
+}
+
+/**
+ * Convert a bipolar filter value (-1 LPF to 1 HPF) to a cutoff frequency
+ * Sweeps exponentially so the knob feels even across the audible range
+ */
+export function filterValueToFrequency(value: number): number {
+  const amount = Math.min(1, Math.abs(value));
+  const ratio = FILTER_MAX_HZ / FILTER_MIN_HZ;
+
+  if (value < 0) {
+    // LPF: 20kHz → 40Hz as the knob turns left
+    return FILTER_MAX_HZ / Math.pow(ratio, amount);
+  }
+  // HPF: 40Hz → 20kHz as the knob turns right
+  return FILTER_MIN_HZ * Math.pow(ratio, amount);
+}
+
+function createEQBands(context: AudioContext) {
+  const low = context.createBiquadFilter();
+  low.type = 'lowshelf';
+  low.frequency.value = LOW_SHELF_HZ;
+
+  const mid = context.createBiquadFilter();
+  mid.type = 'peaking';
+  mid.frequency.value = MID_PEAK_HZ;
+  mid.Q.value = 0.7;
+
+  const high = context.createBiquadFilter();
+  high.type = 'highshelf';
+  high.frequency.value = HIGH_SHELF_HZ;
+
+  low.connect(mid);
+  mid.connect(high);
+
+  return { low, mid, high };
+}
+
+function createDeckChannel(context: AudioContext, destination: AudioNode): DeckChannel {
+  const trim = context.createGain();
+  const { low, mid, high } = createEQBands(context);
+  const filter = context.createBiquadFilter();
+  filter.type = 'allpass';
+  filter.Q.value = FILTER_Q;
+  const fader = context.createGain();
+
+  trim.connect(low);
+  high.connect(filter);
+  filter.connect(fader);
+  fader.connect(destination);
+
+  return { trim, low, mid, high, filter, fader, element: null, source: null };
+}
+
+function createMasterBus(context: AudioContext): MasterBus {
+  const input = context.createGain();
+  const { low, mid, high } = createEQBands(context);
+  const volume = context.createGain();
+
+  input.connect(low);
+  high.connect(volume);
+  volume.connect(context.destination);
+
+  return { input, low, mid, high, volume };
+}
+
+/**
+ * Get the shared audio engine, creating the AudioContext and graph on first use
+ */
+export function getAudioEngine(): AudioEngine {
+  if (engine) return engine;
+
+  const context = new (window.AudioContext ||
+    (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+  const master = createMasterBus(context);
+
+  engine = {
+    context,
+    master,
+    decks: {
+      A: createDeckChannel(context, master.input),
+      B: createDeckChannel(context, master.input),
+    },
+  };
+
+  console.log('[Audio] Engine graph created');
+  return engine;
+}
+
+/**
+ * Whether the engine has been created (without creating it)
+ */
+export function hasAudioEngine(): boolean {
+  return engine !== null;
+}
+
+function setParam(param: AudioParam, value: number) {
+  const { context } = getAudioEngine();
+  param.setTargetAtTime(value, context.currentTime, PARAM_SMOOTHING);
+}
+
+function applyEQBands(bands: { low: BiquadFilterNode; mid: BiquadFilterNode; high: BiquadFilterNode }, eq: EQSettings) {
+  setParam(bands.low.gain, eqValueToDb(eq.low));
+  setParam(bands.mid.gain, eqValueToDb(eq.mid));
+  setParam(bands.high.gain, eqValueToDb(eq.high));
+}
+
+/**
+ * Apply deck EQ (-1 to 1 per band)
+ */
+export function applyDeckEQ(deck: 'A' | 'B', eq: EQSettings): void {
+  applyEQBands(getAudioEngine().decks[deck], eq);
+}
+
+/**
+ * Apply deck trim gain (linear, 1 = unity: the manual trim times auto gain)
+ */
+export function applyDeckGain(deck: 'A' | 'B', gain: number): void {
+  setParam(getAudioEngine().decks[deck].trim.gain, gain);
+}
+
+/**
+ * Apply bipolar deck filter (-1 LPF to 1 HPF, 0 = off)
+ */
+export function applyDeckFilter(deck: 'A' | 'B', value: number): void {
+  const { filter } = getAudioEngine().decks[deck];
+
+  if (Math.abs(value) < FILTER_DEAD_ZONE) {
+    filter.type = 'allpass';
+    return;
+  }
+
+  filter.type = value < 0 ? 'lowpass' : 'highpass';
+  setParam(filter.frequency, filterValueToFrequency(value));
+}
+
+/**
+ * Apply crossfader-derived deck volume (0 to 1)
+ */
+export function applyDeckFader(deck: 'A' | 'B', volume: number): void {
+  setParam(getAudioEngine().decks[deck].fader.gain, volume);
+}
+
+/**
+ * Apply master EQ (-1 to 1 per band)
+ */
+export function applyMasterEQ(eq: EQSettings): void {
+  applyEQBands(getAudioEngine().master, eq);
+}
+
+/**
+ * Apply master volume (0 to 1)
+ */
+export function applyMasterVolume(volume: number): void {
+  setParam(getAudioEngine().master.volume.gain, volume);
+}
+
+/**
+ * Route a media element into a deck channel
+ * A MediaElementSource can only be created once per element, so the element
+ * is kept for the lifetime of the deck and only its src changes.
+ */
+export function attachMediaElement(deck: 'A' | 'B', element: HTMLMediaElement): void {
+  const { context, decks } = getAudioEngine();
+  const channel = decks[deck];
+
+  if (channel.element === element) return;
+
+  channel.source?.disconnect();
+  channel.source = context.createMediaElementSource(element);
+  channel.source.connect(channel.trim);
+  channel.element = element;
+}
+
+/**
+ * Resume the AudioContext (must be called from a user gesture)
+ */
+export async function resumeAudioEngine(): Promise<void> {
+  const { context } = getAudioEngine();
+  if (context.state !== 'running') {
+    await context.resume();
+  }
+}
@@ -0,0 +1,179 @@
+import { useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { applyCurve } from '../utils/crossfaderCurve';
+import type { CrossfaderCurve, CurvePoint } from '../types';
+
+interface CrossfaderCurveEditorProps {
+  curve: CrossfaderCurve;
+  cutIn: number;
+  customPoints: CurvePoint[];
+  onCurveChange: (curve: CrossfaderCurve) => void;
+  onCutInChange: (cutIn: number) => void;
+  onCustomPointsChange: (points: CurvePoint[]) => void;
+  className?: string;
+}
+
+const CURVE_OPTIONS: { value: CrossfaderCurve; label: string; title: string }[] = [
+  { value: 'constant-power', label: 'PWR', title: 'Constant power (-3dB center)' },
+  { value: 'linear', label: 'LIN', title: 'Linear (-6dB center)' },
+  { value: 'center-full', label: 'FULL', title: 'Both decks full in the center' },
+  { value: 'cut', label: 'CUT', title: 'Scratch/cut with adjustable cut-in' },
+  { value: 'custom', label: 'USER', title: 'User-defined curve (drag points, click to add, double-click to remove)' },
+];
+
+// Preview plot size (SVG units)
+const PLOT_WIDTH = 120;
+const PLOT_HEIGHT = 48;
+const PLOT_STEPS = 60;
+
+/**
+ * CrossfaderCurveEditor - curve selector with live preview
+ *
+ * Features:
+ * - Curve type buttons
+ * - Preview of Deck A (blue) and Deck B (red) volume across the fader travel
+ * - Cut-in width slider for the 'cut' curve
+ * - Draggable control points for the 'custom' curve
+ */
+export function CrossfaderCurveEditor({
+  curve,
+  cutIn,
+  customPoints,
+  onCurveChange,
+  onCutInChange,
+  onCustomPointsChange,
+  className = '',
+}: CrossfaderCurveEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // Sample both deck volumes across the fader travel
+  const paths = useMemo(() => {
+    let deckA = '';
+    let deckB = '';
+    for (let i = 0; i <= PLOT_STEPS; i++) {
+      const x = i / PLOT_STEPS;
+      const output = applyCurve(x, curve, { cutIn, customPoints });
+      const px = x * PLOT_WIDTH;
+      deckA += `${i === 0 ? 'M' : 'L'}${px.toFixed(1)},${((1 - output.deckAVolume) * PLOT_HEIGHT).toFixed(1)} `;
+      deckB += `${i === 0 ? 'M' : 'L'}${px.toFixed(1)},${((1 - output.deckBVolume) * PLOT_HEIGHT).toFixed(1)} `;
+    }
+    return { deckA, deckB };
+  }, [curve, cutIn, customPoints]);
+
+  /**
+   * Convert a pointer position to curve coordinates (0-1)
+   */
+  const toCurvePoint = (clientX: number, clientY: number): CurvePoint | null => {
+    const svg = svgRef.current;
+    if (!svg) return null;
+    const rect = svg.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, 1 - (clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const point = toCurvePoint(e.clientX, e.clientY);
+    if (!point) return;
+
+    // Endpoints stay pinned to the edges; inner points can't pass their neighbours
+    const isEndpoint = dragIndex === 0 || dragIndex === customPoints.length - 1;
+    const next = customPoints.map((p, i) => {
+      if (i !== dragIndex) return p;
+      if (isEndpoint) return { x: p.x, y: point.y };
+      const minX = customPoints[i - 1].x;
+      const maxX = customPoints[i + 1].x;
+      return { x: Math.max(minX, Math.min(maxX, point.x)), y: point.y };
+    });
+    onCustomPointsChange(next);
+  };
+
+  const handleBackgroundClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (curve !== 'custom' || e.target !== e.currentTarget) return;
+    const point = toCurvePoint(e.clientX, e.clientY);
+    if (point) {
+      onCustomPointsChange([...customPoints, point]);
+    }
+  };
+
+  const handleRemovePoint = (index: number) => {
+    if (index === 0 || index === customPoints.length - 1) return;
+    onCustomPointsChange(customPoints.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className={`flex flex-col gap-2 w-full ${className}`}>
+      {/* Curve type selector */}
+      <div className="flex gap-1 p-0.5 bg-neutral-800/50 rounded-md">
+        {CURVE_OPTIONS.map((option) => (
+          <Button
+            key={option.value}
+            variant="ghost"
+            onClick={() => onCurveChange(option.value)}
+            title={option.title}
+            className={`flex-1 h-6 px-1 text-[9px] font-semibold rounded transition-all ${
+              curve === option.value
+                ? 'bg-red-600 text-white shadow-lg shadow-red-600/30 hover:bg-red-600'
+                : 'text-neutral-500 hover:text-white'
+            }`}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {/* Curve preview */}
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`}
+        preserveAspectRatio="none"
+        className={`w-full h-12 bg-neutral-950/80 rounded border border-neutral-800 ${
+          curve === 'custom' ? 'cursor-crosshair' : ''
+        }`}
+        onClick={handleBackgroundClick}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragIndex(null)}
+        onPointerLeave={() => setDragIndex(null)}
+      >
+        <path d={paths.deckA} fill="none" stroke="rgb(59, 130, 246)" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        <path d={paths.deckB} fill="none" stroke="rgb(239, 68, 68)" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        {curve === 'custom' &&
+          customPoints.map((point, index) => (
+            <circle
+              key={index}
+              cx={point.x * PLOT_WIDTH}
+              cy={(1 - point.y) * PLOT_HEIGHT}
+              r={3}
+              className="fill-white stroke-blue-500 cursor-grab"
+              onPointerDown={(e) => {
+                e.stopPropagation();
+                setDragIndex(index);
+              }}
+              onDoubleClick={() => handleRemovePoint(index)}
+            />
+          ))}
+      </svg>
+
+      {/* Cut-in width */}
+      {curve === 'cut' && (
+        <label className="flex items-center gap-2 text-[10px] text-neutral-500">
+          <span className="uppercase tracking-wider">Cut-in</span>
+          <input
+            type="range"
+            min={0.005}
+            max={0.5}
+            step={0.005}
+            value={cutIn}
+            onChange={(e) => onCutInChange(parseFloat(e.target.value))}
+            aria-label="Crossfader cut-in width"
+            className="flex-1 accent-red-500"
+          />
+          <span className="font-mono w-8 text-right">{Math.round(cutIn * 100)}%</span>
+        </label>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,13 @@ import { useState, useCallback } from 'react';
 import { useDJStore } from '../stores/djStore';
 import { useYouTubeMetadata, extractVideoId } from '../hooks/useYouTubeMetadata';
 import { applyCurve } from '../utils/crossfaderCurve';
+import { clearedCues } from '../utils/cues';
+import { clearedSync } from '../utils/beatSync';
+import { clearedLoop } from '../utils/loops';
+import { clearedLoudness } from '../utils/autoGain';
+import { loadedLyrics } from '../utils/lyrics';
+import { releaseDeckSource } from '../utils/deckSource';
+import { YOUTUBE_DECK_SOURCE } from '../types';
 
 interface DeckControlsProps {
   deck: 'A' | 'B';
@@ -31,12 +38,17 @@ export function DeckControls({ deck, className = '' }: DeckControlsProps) {
   );
   const crossfaderValue = useDJStore((state) => state.crossfaderValue);
   const crossfaderCurve = useDJStore((state) => state.crossfaderCurve);
+  const crossfaderCutIn = useDJStore((state) => state.crossfaderCutIn);
+  const crossfaderCustomCurve = useDJStore((state) => state.crossfaderCustomCurve);
 
   // YouTube metadata fetcher
   const { fetchMetadata, loading: metadataLoading } = useYouTubeMetadata();
 
   // Calculate current volume for this deck
-  const mixValues = applyCurve(crossfaderValue, crossfaderCurve);
+  const mixValues = applyCurve(crossfaderValue, crossfaderCurve, {
+    cutIn: crossfaderCutIn,
+    customPoints: crossfaderCustomCurve,
+  });
   const currentVolume = deck === 'A' ? mixValues.deckAVolume : mixValues.deckBVolume;
 
   /**
@@ -51,7 +63,17 @@ export function DeckControls({ deck, className = '' }: DeckControlsProps) {
     }
 
     // Update video ID in store
-    updateDeck({ videoId });
+    releaseDeckSource(deckState.source);
+    updateDeck({
+      videoId,
+      source: YOUTUBE_DECK_SOURCE,
+      key: null,
+      ...clearedCues(),
+      ...clearedSync(),
+      ...clearedLoop(),
+      ...clearedLoudness(),
+      ...loadedLyrics(useDJStore.getState().syncedLyrics[videoId]),
+    });
 
     // Fetch metadata
     const metadata = await fetchMetadata(videoId);
@@ -64,7 +86,7 @@ export function DeckControls({ deck, className = '' }: DeckControlsProps) {
 
     // Clear input
     setInputValue('');
-  }, [inputValue, updateDeck, fetchMetadata]);
+  }, [inputValue, deckState.source, updateDeck, fetchMetadata]);
 
   /**
    * Handle Enter key in input
@@ -3,6 +3,14 @@ import { useDJStore } from '../stores/djStore';
 import { applyCurve } from '../utils/crossfaderCurve';
 import { Button } from '@/components/ui/button';
 import { WaveformSeekBar } from './WaveformSeekBar';
+import { clearedLoudness, formatDb, gainToDb } from '../utils/autoGain';
+import { clearedCues } from '../utils/cues';
+import { clearedSync } from '../utils/beatSync';
+import { clearedLoop, formatBeats } from '../utils/loops';
+import { loadedLyrics } from '../utils/lyrics';
+import { fileDeckState, getFileMediaKind, isAnalyzableSource, releaseDeckSource } from '../utils/deckSource';
+import { BEAT_GRID_SHIFT_SECONDS, HOT_CUE_COLORS, LOOP_BEAT_OPTIONS } from '../types';
+import type { DeckState, HotCue } from '../types';
 
 interface DeckDisplayProps {
   deck: 'A' | 'B';
@@ -16,12 +24,14 @@ function TempoSlider({
   value, 
   onChange, 
   accentColor,
-  baseBpm 
+  baseBpm,
+  midiPrefix,
 }: { 
   value: number; 
   onChange: (value: number) => void;
   accentColor: string;
   baseBpm: number;
+  midiPrefix: string;
 }) {
   // Range: -8% to +8%
   const minPercent = -8;
@@ -57,6 +67,7 @@ function TempoSlider({
           onChange={handleChange}
           onDoubleClick={handleDoubleClick}
           aria-label="Tempo adjustment"
+          data-midi-action={`${midiPrefix}.tempo`}
           title={`Tempo: ${value > 0 ? '+' : ''}${value.toFixed(1)}%`}
           className="tempo-slider"
           style={{
@@ -117,15 +128,335 @@ function TempoSlider({
   );
 }
 
+/**
+ * Start a held press on a pad: the pad captures the pointer, so its release
+ * arrives wherever the pointer goes meanwhile
+ */
+function capturePress(e: React.PointerEvent) {
+  e.currentTarget.setPointerCapture(e.pointerId);
+}
+
+/**
+ * Whether a pointer up/cancel ends a press this pad started (hovering out,
+ * or releasing a press from elsewhere, must not end a held MIDI preview)
+ */
+function endsPress(e: React.PointerEvent): boolean {
+  return e.currentTarget.hasPointerCapture(e.pointerId);
+}
+
+/**
+ * Row of hot cue pads
+ * - Press an empty pad to store a hot cue, press a set pad to jump (hold to preview when paused)
+ * - Right-click to delete, Ctrl/Cmd-click to cycle color, Alt-click to rename
+ */
+function HotCuePads({
+  hotCues,
+  disabled,
+  onPress,
+  onRelease,
+  onDelete,
+  onEdit,
+  midiPrefix,
+}: {
+  hotCues: (HotCue | null)[];
+  disabled: boolean;
+  onPress: (index: number) => void;
+  onRelease: (index: number) => void;
+  onDelete: (index: number) => void;
+  onEdit: (index: number, updates: Partial<Omit<HotCue, 'time'>>) => void;
+  midiPrefix: string;
+}) {
+  const handlePointerDown = (index: number, e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    const hotCue = hotCues[index];
+
+    if (hotCue && (e.ctrlKey || e.metaKey)) {
+      const colorIndex = HOT_CUE_COLORS.indexOf(hotCue.color as (typeof HOT_CUE_COLORS)[number]);
+      onEdit(index, { color: HOT_CUE_COLORS[(colorIndex + 1) % HOT_CUE_COLORS.length] });
+      return;
+    }
+
+    if (hotCue && e.altKey) {
+      const label = window.prompt('Hot cue label', hotCue.label);
+      if (label !== null) onEdit(index, { label: label.trim() });
+      return;
+    }
+
+    capturePress(e);
+    onPress(index);
+  };
+
+  const handlePointerUp = (index: number, e: React.PointerEvent) => {
+    if (endsPress(e)) onRelease(index);
+  };
+
+  return (
+    <div className="grid grid-cols-8 gap-1 px-4 py-2 bg-black/20 border-b border-neutral-700/50">
+      {hotCues.map((hotCue, index) => (
+        <button
+          key={index}
+          type="button"
+          disabled={disabled}
+          data-midi-action={`${midiPrefix}.hotCue.${index + 1}`}
+          onPointerDown={(e) => handlePointerDown(index, e)}
+          onPointerUp={(e) => handlePointerUp(index, e)}
+          onPointerCancel={(e) => handlePointerUp(index, e)}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            onDelete(index);
+          }}
+          title={
+            hotCue
+              ? `${hotCue.label || `Hot cue ${index + 1}`} @ ${hotCue.time.toFixed(2)}s\nRight-click: delete · Ctrl-click: color · Alt-click: rename`
+              : `Set hot cue ${index + 1}`
+          }
+          className="h-6 rounded text-[9px] font-bold truncate px-1 border transition-all disabled:opacity-30 select-none"
+          style={
+            hotCue
+              ? {
+                  backgroundColor: hotCue.color,
+                  borderColor: hotCue.color,
+                  color: '#000',
+                  boxShadow: `0 0 6px ${hotCue.color}`,
+                }
+              : { backgroundColor: 'rgba(38, 38, 38, 0.8)', borderColor: 'rgba(82, 82, 82, 0.5)', color: '#737373' }
+          }
+        >
+          {hotCue?.label || index + 1}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Loop section
+ * - IN/OUT set a manual loop, RELOOP/EXIT toggles it, ½ and ×2 resize it
+ * - Beat buttons start a beat-snapped auto-loop (press again to exit)
+ * - With ROLL on, beat buttons are momentary loop rolls
+ */
+function LoopControls({
+  deckState,
+  onLoopIn,
+  onLoopOut,
+  onToggle,
+  onHalve,
+  onDouble,
+  onAutoLoop,
+  onRollStart,
+  onRollEnd,
+  midiPrefix,
+}: {
+  deckState: DeckState;
+  onLoopIn: () => void;
+  onLoopOut: () => void;
+  onToggle: () => void;
+  onHalve: () => void;
+  onDouble: () => void;
+  onAutoLoop: (beats: number) => void;
+  onRollStart: (beats: number) => void;
+  onRollEnd: () => void;
+  midiPrefix: string;
+}) {
+  const [rollMode, setRollMode] = useState(false);
+  const disabled = !deckState.videoId;
+  const hasLoop = deckState.loopIn !== null && deckState.loopOut !== null;
+  const beatsDisabled = disabled || deckState.bpm <= 0;
+
+  const buttonClass =
+    'h-6 rounded text-[9px] font-bold px-1 border transition-all disabled:opacity-30 select-none';
+  const idleClass = 'bg-neutral-800/80 border-neutral-600/50 text-neutral-400 hover:text-white';
+  const litClass = 'bg-green-500/20 border-green-500 text-green-400';
+
+  return (
+    <div className="flex flex-col gap-1 px-4 py-2 bg-black/20 border-b border-neutral-700/50">
+      <div className="grid grid-cols-6 gap-1">
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={onLoopIn}
+          data-midi-action={`${midiPrefix}.loopIn`}
+          className={`${buttonClass} ${idleClass}`}
+        >
+          IN
+        </button>
+        <button
+          type="button"
+          disabled={disabled || deckState.loopIn === null}
+          onClick={onLoopOut}
+          data-midi-action={`${midiPrefix}.loopOut`}
+          className={`${buttonClass} ${idleClass}`}
+        >
+          OUT
+        </button>
+        <button
+          type="button"
+          disabled={disabled || !hasLoop}
+          onClick={onToggle}
+          data-midi-action={`${midiPrefix}.reloop`}
+          className={`${buttonClass} ${deckState.loopActive ? litClass : idleClass}`}
+        >
+          {deckState.loopActive ? 'EXIT' : 'RELOOP'}
+        </button>
+        <button
+          type="button"
+          disabled={disabled || !hasLoop}
+          onClick={onHalve}
+          data-midi-action={`${midiPrefix}.loopHalve`}
+          title="Halve loop"
+          className={`${buttonClass} ${idleClass}`}
+        >
+          ½
+        </button>
+        <button
+          type="button"
+          disabled={disabled || !hasLoop}
+          onClick={onDouble}
+          data-midi-action={`${midiPrefix}.loopDouble`}
+          title="Double loop"
+          className={`${buttonClass} ${idleClass}`}
+        >
+          ×2
+        </button>
+        <button
+          type="button"
+          disabled={beatsDisabled}
+          onClick={() => setRollMode((on) => !on)}
+          title="Beat buttons act as momentary loop rolls"
+          className={`${buttonClass} ${rollMode ? 'bg-amber-500/20 border-amber-400 text-amber-400' : idleClass}`}
+        >
+          ROLL
+        </button>
+      </div>
+      <div className="grid grid-cols-8 gap-1">
+        {LOOP_BEAT_OPTIONS.map((beats, index) => {
+          const lit = deckState.loopActive && deckState.loopBeats === beats;
+          return (
+            <button
+              key={beats}
+              type="button"
+              disabled={beatsDisabled}
+              data-midi-action={`${midiPrefix}.${rollMode ? 'loopRoll' : 'beatLoop'}.${index + 1}`}
+              onClick={rollMode ? undefined : () => onAutoLoop(beats)}
+              onPointerDown={rollMode ? () => onRollStart(beats) : undefined}
+              onPointerUp={rollMode ? onRollEnd : undefined}
+              onPointerLeave={rollMode && deckState.loopRoll ? onRollEnd : undefined}
+              title={rollMode ? `Hold for a ${formatBeats(beats)} beat roll` : `${formatBeats(beats)} beat loop`}
+              className={`${buttonClass} ${lit ? (deckState.loopRoll ? 'bg-amber-500/20 border-amber-400 text-amber-400' : litClass) : idleClass}`}
+            >
+              {formatBeats(beats)}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Beat grid section
+ * - ◀/▶ nudge the grid earlier/later
+ * - DOWNBEAT makes the beat under the playhead the start of a bar and phrase
+ * - ½/×2 halve or double the grid tempo
+ * Corrections are saved for the track and reused next time it's loaded.
+ */
+function BeatGridControls({
+  deckState,
+  onShift,
+  onDownbeat,
+  onHalveBpm,
+  onDoubleBpm,
+  midiPrefix,
+}: {
+  deckState: DeckState;
+  onShift: (seconds: number) => void;
+  onDownbeat: () => void;
+  onHalveBpm: () => void;
+  onDoubleBpm: () => void;
+  midiPrefix: string;
+}) {
+  const disabled = !deckState.videoId || deckState.bpm <= 0;
+  const buttonClass =
+    'h-6 rounded text-[9px] font-bold px-1 border transition-all disabled:opacity-30 select-none bg-neutral-800/80 border-neutral-600/50 text-neutral-400 hover:text-white';
+
+  return (
+    <div className="grid grid-cols-6 gap-1 px-4 py-2 bg-black/20 border-b border-neutral-700/50">
+      <span
+        className="h-6 flex items-center justify-center text-[9px] font-bold text-neutral-500"
+        title="How well the analyzed grid matches the track's onsets"
+      >
+        GRID {deckState.beatGridConfidence > 0 ? `${Math.round(deckState.beatGridConfidence * 100)}%` : ''}
+      </span>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => onShift(-BEAT_GRID_SHIFT_SECONDS)}
+        data-midi-action={`${midiPrefix}.gridShiftEarlier`}
+        title="Shift grid earlier"
+        className={buttonClass}
+      >
+        ◀
+      </button>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => onShift(BEAT_GRID_SHIFT_SECONDS)}
+        data-midi-action={`${midiPrefix}.gridShiftLater`}
+        title="Shift grid later"
+        className={buttonClass}
+      >
+        ▶
+      </button>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={onDownbeat}
+        data-midi-action={`${midiPrefix}.gridDownbeat`}
+        title="Set the downbeat at the playhead"
+        className={buttonClass}
+      >
+        DOWNBEAT
+      </button>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={onHalveBpm}
+        data-midi-action={`${midiPrefix}.gridBpmHalve`}
+        title="Halve BPM"
+        className={buttonClass}
+      >
+        BPM ½
+      </button>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={onDoubleBpm}
+        data-midi-action={`${midiPrefix}.gridBpmDouble`}
+        title="Double BPM"
+        className={buttonClass}
+      >
+        BPM ×2
+      </button>
+    </div>
+  );
+}
+
 /**
  * DeckDisplay component - Professional DJ deck UI
  *
  * Features:
  * - Real YouTube waveform visualization with seeking
  * - Track info display with BPM
- * - Play/pause/cue controls
+ * - Play/pause/cue controls (CDJ-style cue: hold to preview, release to return)
+ * - 8 hot cue pads with colors and labels
  * - Volume/level meters
  * - Tempo slider for pitch adjustment (actually slows/speeds up playback)
+ * - Beat sync to the other deck, with master/follower indicator
+ * - Manual, auto (beat-snapped) and roll loops
+ * - Beat grid (beats, bars, phrases) with grid correction
+ * - Detected key (standard and Camelot)
+ * - Auto gain applied from the track's measured loudness
+ * - Drag-and-drop of local media files (MP4, MP3, ...) onto the deck
  */
 export function DeckDisplay({ deck, className = '' }: DeckDisplayProps) {
   const deckState = useDJStore((state) => (deck === 'A' ? state.deckA : state.deckB));
@@ -138,16 +469,91 @@ export function DeckDisplay({ deck, className = '' }: DeckDisplayProps) {
   const seekDeck = useDJStore((state) =>
     deck === 'A' ? state.seekDeckA : state.seekDeckB
   );
+  const pressCue = useDJStore((state) =>
+    deck === 'A' ? state.pressDeckACue : state.pressDeckBCue
+  );
+  const releaseCue = useDJStore((state) =>
+    deck === 'A' ? state.releaseDeckACue : state.releaseDeckBCue
+  );
+  const pressHotCue = useDJStore((state) =>
+    deck === 'A' ? state.pressDeckAHotCue : state.pressDeckBHotCue
+  );
+  const releaseHotCue = useDJStore((state) =>
+    deck === 'A' ? state.releaseDeckAHotCue : state.releaseDeckBHotCue
+  );
+  const editHotCue = useDJStore((state) =>
+    deck === 'A' ? state.editDeckAHotCue : state.editDeckBHotCue
+  );
+  const deleteHotCue = useDJStore((state) =>
+    deck === 'A' ? state.deleteDeckAHotCue : state.deleteDeckBHotCue
+  );
+  const setLoopIn = useDJStore((state) =>
+    deck === 'A' ? state.setDeckALoopIn : state.setDeckBLoopIn
+  );
+  const setLoopOut = useDJStore((state) =>
+    deck === 'A' ? state.setDeckALoopOut : state.setDeckBLoopOut
+  );
+  const toggleLoop = useDJStore((state) =>
+    deck === 'A' ? state.toggleDeckALoop : state.toggleDeckBLoop
+  );
+  const halveLoop = useDJStore((state) =>
+    deck === 'A' ? state.halveDeckALoop : state.halveDeckBLoop
+  );
+  const doubleLoop = useDJStore((state) =>
+    deck === 'A' ? state.doubleDeckALoop : state.doubleDeckBLoop
+  );
+  const setAutoLoop = useDJStore((state) =>
+    deck === 'A' ? state.setDeckAAutoLoop : state.setDeckBAutoLoop
+  );
+  const startLoopRoll = useDJStore((state) =>
+    deck === 'A' ? state.startDeckALoopRoll : state.startDeckBLoopRoll
+  );
+  const endLoopRoll = useDJStore((state) =>
+    deck === 'A' ? state.endDeckALoopRoll : state.endDeckBLoopRoll
+  );
+  const loadBeatGrid = useDJStore((state) =>
+    deck === 'A' ? state.loadDeckABeatGrid : state.loadDeckBBeatGrid
+  );
+  const shiftBeatGrid = useDJStore((state) =>
+    deck === 'A' ? state.shiftDeckABeatGrid : state.shiftDeckBBeatGrid
+  );
+  const setDownbeat = useDJStore((state) =>
+    deck === 'A' ? state.setDeckADownbeat : state.setDeckBDownbeat
+  );
+  const halveBpm = useDJStore((state) =>
+    deck === 'A' ? state.halveDeckABpm : state.halveDeckBBpm
+  );
+  const doubleBpm = useDJStore((state) =>
+    deck === 'A' ? state.doubleDeckABpm : state.doubleDeckBBpm
+  );
+  const setKey = useDJStore((state) =>
+    deck === 'A' ? state.setDeckAKey : state.setDeckBKey
+  );
+  const setLoudness = useDJStore((state) =>
+    deck === 'A' ? state.setDeckALoudness : state.setDeckBLoudness
+  );
+  const syncDeck = useDJStore((state) =>
+    deck === 'A' ? state.syncDeckA : state.syncDeckB
+  );
+  const syncMaster = useDJStore((state) => state.syncMaster);
+  const setSyncMaster = useDJStore((state) => state.setSyncMaster);
   const crossfaderValue = useDJStore((state) => state.crossfaderValue);
   const crossfaderCurve = useDJStore((state) => state.crossfaderCurve);
-  
-  const [bpm, setBpm] = useState<number>(0);
+  const crossfaderCutIn = useDJStore((state) => state.crossfaderCutIn);
+  const crossfaderCustomCurve = useDJStore((state) => state.crossfaderCustomCurve);
+  const waveformColorScheme = useDJStore((state) => state.waveformColorScheme);
+
+  const bpm = deckState.bpm;
+  const isSyncMaster = syncMaster === deck;
 
   // Convert playbackRate from store to tempo percentage for display
   // playbackRate 1.0 = 0%, 0.92 = -8%, 1.08 = +8%
   const tempoAdjust = (deckState.playbackRate - 1) * 100;
 
-  const mixValues = applyCurve(crossfaderValue, crossfaderCurve);
+  const mixValues = applyCurve(crossfaderValue, crossfaderCurve, {
+    cutIn: crossfaderCutIn,
+    customPoints: crossfaderCustomCurve,
+  });
   const currentVolume = deck === 'A' ? mixValues.deckAVolume : mixValues.deckBVolume;
 
   // Deck accent colors
@@ -156,25 +562,70 @@ export function DeckDisplay({ deck, className = '' }: DeckDisplayProps) {
   const accentClass = deck === 'A' ? 'text-blue-500' : 'text-red-500';
   const bgAccent = deck === 'A' ? 'bg-blue-500' : 'bg-red-500';
 
+  // MIDI learn target ids for this deck's controls (see midi/midiActions.ts)
+  const midiPrefix = `deck${deck}`;
+
   const handleSeek = (time: number) => {
     seekDeck(time);
   };
   
-  const handleBpmDetected = useCallback((detectedBpm: number) => {
-    setBpm(detectedBpm);
-  }, []);
-  
   // Handle tempo adjustment - convert percentage to playback rate and update store
   const handleTempoChange = useCallback((percentValue: number) => {
     // Convert percentage to playback rate: 0% = 1.0, +8% = 1.08, -8% = 0.92
     const newPlaybackRate = 1 + (percentValue / 100);
     // Clamp to reasonable bounds (YouTube supports 0.25 to 2.0)
     const clampedRate = Math.max(0.5, Math.min(2.0, newPlaybackRate));
-    updateDeck({ playbackRate: clampedRate });
-  }, [updateDeck]);
+    // Moving a follower's tempo by hand drops it out of sync
+    updateDeck({ playbackRate: clampedRate, syncEnabled: isSyncMaster && deckState.syncEnabled });
+  }, [updateDeck, isSyncMaster, deckState.syncEnabled]);
+
+  const handleMasterClick = () => {
+    setSyncMaster(isSyncMaster ? null : deck);
+  };
+
+  // Media files dragged in from the desktop load straight onto the deck
+  const [dragOver, setDragOver] = useState(false);
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setDragOver(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setDragOver(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragOver(false);
+
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    const mediaKind = getFileMediaKind(file);
+    if (!mediaKind) {
+      console.warn(`[Deck ${deck}] Not a media file: ${file.name}`);
+      return;
+    }
+
+    releaseDeckSource(deckState.source);
+    const loaded = fileDeckState(file, mediaKind);
+    updateDeck({
+      ...loaded,
+      ...clearedCues(),
+      ...clearedSync(),
+      ...clearedLoop(),
+      ...clearedLoudness(),
+      ...loadedLyrics(useDJStore.getState().syncedLyrics[loaded.videoId!]),
+    });
+    console.log(`[Deck ${deck}] Loaded ${mediaKind} file: ${file.name}`);
+  };
   
-  // Calculate adjusted BPM
-  const adjustedBpm = bpm > 0 ? Math.round(bpm * (1 + tempoAdjust / 100)) : 0;
+  // Calculate adjusted BPM (grids can have fractional tempos)
+  const adjustedBpm = bpm > 0 ? (bpm * (1 + tempoAdjust / 100)).toFixed(1) : '0';
 
   // Tempo slider component
   const tempoSlider = (
@@ -184,12 +635,28 @@ export function DeckDisplay({ deck, className = '' }: DeckDisplayProps) {
         onChange={handleTempoChange}
         accentColor={accentColor}
         baseBpm={bpm}
+        midiPrefix={midiPrefix}
       />
     </div>
   );
 
   return (
-    <div className={`flex ${deck === 'B' ? 'flex-row' : 'flex-row-reverse'} bg-neutral-900/95 border border-neutral-700/50 rounded-xl shadow-2xl backdrop-blur-sm overflow-hidden ${className}`}>
+    <div
+      className={`relative flex ${deck === 'B' ? 'flex-row' : 'flex-row-reverse'} bg-neutral-900/95 border border-neutral-700/50 rounded-xl shadow-2xl backdrop-blur-sm overflow-hidden ${className}`}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {/* Drop target highlight */}
+      {dragOver && (
+        <div
+          className="absolute inset-0 z-30 flex items-center justify-center bg-black/70 border-2 border-dashed rounded-xl pointer-events-none"
+          style={{ borderColor: accentColor }}
+        >
+          <span className={`text-sm font-bold ${accentClass}`}>DROP TO LOAD ON DECK {deck}</span>
+        </div>
+      )}
+
       {/* Tempo Slider */}
       {tempoSlider}
       
@@ -207,6 +674,32 @@ export function DeckDisplay({ deck, className = '' }: DeckDisplayProps) {
             />
           </div>
           <div className="flex items-center gap-3">
+            {/* Sync master toggle */}
+            <button
+              type="button"
+              onClick={handleMasterClick}
+              disabled={bpm <= 0}
+              title={isSyncMaster ? 'Sync master (click to release)' : 'Make this deck the sync master'}
+              className={`text-[10px] font-bold px-1.5 py-0.5 rounded border disabled:opacity-30 ${
+                isSyncMaster
+                  ? 'border-amber-400 text-amber-400'
+                  : 'border-neutral-700 text-neutral-500 hover:text-white'
+              }`}
+            >
+              MASTER
+            </button>
+            {/* Key Display - standard and Camelot notation */}
+            {deckState.videoId && deckState.key && (
+              <div
+                className="flex items-center gap-1"
+                title={`Detected key (confidence ${Math.round(deckState.key.confidence * 100)}%)`}
+              >
+                <span className="text-sm font-bold text-white">{deckState.key.name}</span>
+                <span className="text-[10px] font-bold font-mono text-neutral-400 bg-neutral-800/80 px-1 rounded">
+                  {deckState.key.camelot}
+                </span>
+              </div>
+            )}
             {/* BPM Display - shows adjusted BPM */}
             {bpm > 0 && (
               <div className={`flex items-center gap-1 ${accentClass}`}>
@@ -214,6 +707,18 @@ export function DeckDisplay({ deck, className = '' }: DeckDisplayProps) {
                 <span className="text-xs text-neutral-400">BPM</span>
               </div>
             )}
+            {/* Auto gain - loudness normalization applied under the manual trim */}
+            {deckState.videoId && deckState.loudness && (
+              <span
+                className="text-[10px] font-bold font-mono text-neutral-400 bg-neutral-800/80 px-1 rounded"
+                title={
+                  `Track loudness ${deckState.loudness.integratedLufs} LUFS, true peak ${deckState.loudness.truePeakDb} dBTP` +
+                  ` - auto gain ${formatDb(gainToDb(deckState.autoGain))}, manual trim ${formatDb(gainToDb(deckState.gain))}`
+                }
+              >
+                AG {formatDb(gainToDb(deckState.autoGain))}
+              </span>
+            )}
             <span className="text-xs text-neutral-400 font-mono bg-neutral-800/50 px-2 py-0.5 rounded">
               {Math.round(currentVolume * 100)}%
             </span>
@@ -224,13 +729,25 @@ export function DeckDisplay({ deck, className = '' }: DeckDisplayProps) {
         <div className="relative h-20 bg-neutral-950/80 border-b border-neutral-700/50">
           <WaveformSeekBar
             videoId={deckState.videoId || null}
+            analyze={isAnalyzableSource(deckState.source)}
             currentTime={deckState.currentTime}
             duration={deckState.duration}
             color={accentColor}
             playedColor={playedColor}
             height={80}
             onSeek={handleSeek}
-            onBpmDetected={handleBpmDetected}
+            onBeatGridDetected={loadBeatGrid}
+            onKeyDetected={setKey}
+            onLoudnessDetected={setLoudness}
+            cuePoint={deckState.videoId ? deckState.cuePoint : undefined}
+            hotCues={deckState.hotCues}
+            loopIn={deckState.videoId ? deckState.loopIn : null}
+            loopOut={deckState.videoId ? deckState.loopOut : null}
+            loopActive={deckState.loopActive}
+            colorScheme={waveformColorScheme}
+            bpm={deckState.videoId ? bpm : 0}
+            firstBeatOffset={deckState.firstBeatOffset}
+            downbeatOffset={deckState.downbeatOffset}
             className="h-full"
           />
         </div>
@@ -251,13 +768,59 @@ export function DeckDisplay({ deck, className = '' }: DeckDisplayProps) {
           )}
         </div>
 
+        {/* Hot Cue Pads */}
+        <HotCuePads
+          hotCues={deckState.hotCues}
+          disabled={!deckState.videoId}
+          onPress={pressHotCue}
+          onRelease={releaseHotCue}
+          onDelete={deleteHotCue}
+          onEdit={editHotCue}
+          midiPrefix={midiPrefix}
+        />
+
+        {/* Loop Controls */}
+        <LoopControls
+          deckState={deckState}
+          onLoopIn={setLoopIn}
+          onLoopOut={setLoopOut}
+          onToggle={toggleLoop}
+          onHalve={halveLoop}
+          onDouble={doubleLoop}
+          onAutoLoop={setAutoLoop}
+          onRollStart={startLoopRoll}
+          onRollEnd={endLoopRoll}
+          midiPrefix={midiPrefix}
+        />
+
+        {/* Beat Grid Controls */}
+        <BeatGridControls
+          deckState={deckState}
+          onShift={shiftBeatGrid}
+          onDownbeat={setDownbeat}
+          onHalveBpm={halveBpm}
+          onDoubleBpm={doubleBpm}
+          midiPrefix={midiPrefix}
+        />
+
         {/* Transport Controls */}
         <div className="flex items-center justify-center gap-3 p-4 bg-black/20">
           {/* Cue Button */}
           <Button
             variant="ghost"
             disabled={!deckState.videoId}
-            className="w-14 h-14 rounded-xl bg-neutral-800/80 hover:bg-neutral-700 disabled:opacity-30 border border-neutral-600/50 text-neutral-400 hover:text-white shadow-lg"
+            onPointerDown={(e) => {
+              capturePress(e);
+              pressCue();
+            }}
+            onPointerUp={(e) => endsPress(e) && releaseCue()}
+            onPointerCancel={(e) => endsPress(e) && releaseCue()}
+            data-midi-action={`${midiPrefix}.cue`}
+            className={`w-14 h-14 rounded-xl bg-neutral-800/80 hover:bg-neutral-700 disabled:opacity-30 border shadow-lg select-none ${
+              deckState.cuePreviewReturn !== null
+                ? 'border-amber-400 text-amber-400'
+                : 'border-neutral-600/50 text-neutral-400 hover:text-white'
+            }`}
           >
             <span className="text-xs font-bold">CUE</span>
           </Button>
@@ -267,6 +830,7 @@ export function DeckDisplay({ deck, className = '' }: DeckDisplayProps) {
             variant="ghost"
             onClick={togglePlay}
             disabled={!deckState.videoId}
+            data-midi-action={`${midiPrefix}.play`}
             className={`w-16 h-16 rounded-full ${
               deckState.playing ? bgAccent : 'bg-neutral-800/80 hover:bg-neutral-700'
             } disabled:opacity-30 border-2 ${
@@ -290,8 +854,15 @@ export function DeckDisplay({ deck, className = '' }: DeckDisplayProps) {
           {/* Sync Button */}
           <Button
             variant="ghost"
-            disabled={!deckState.videoId}
-            className="w-14 h-14 rounded-xl bg-neutral-800/80 hover:bg-neutral-700 disabled:opacity-30 border border-neutral-600/50 text-neutral-400 hover:text-white shadow-lg"
+            onClick={syncDeck}
+            disabled={!deckState.videoId || bpm <= 0}
+            data-midi-action={`${midiPrefix}.sync`}
+            title={deckState.syncEnabled ? 'Sync on (click to turn off)' : 'Match tempo and beat phase to the other deck'}
+            className={`w-14 h-14 rounded-xl bg-neutral-800/80 hover:bg-neutral-700 disabled:opacity-30 border shadow-lg ${
+              deckState.syncEnabled
+                ? 'border-amber-400 text-amber-400'
+                : 'border-neutral-600/50 text-neutral-400 hover:text-white'
+            }`}
           >
             <span className="text-xs font-bold">SYNC</span>
           </Button>
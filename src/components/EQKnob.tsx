@@ -6,6 +6,7 @@ interface EQKnobProps {
   onChange: (value: number) => void;
   size?: 'sm' | 'md' | 'lg';
   color?: 'red' | 'blue' | 'neutral';
+  midiAction?: string; // MIDI learn target id
   className?: string;
 }
 
@@ -24,6 +25,7 @@ export function EQKnob({
   onChange,
   size = 'md',
   color = 'red',
+  midiAction,
   className = '',
 }: EQKnobProps) {
   const knobRef = useRef<HTMLDivElement>(null);
@@ -123,6 +125,7 @@ export function EQKnob({
       {/* Knob */}
       <div
         ref={knobRef}
+        data-midi-action={midiAction}
         onMouseDown={handleMouseDown}
         onDoubleClick={handleDoubleClick}
         className={`
@@ -170,6 +173,7 @@ export function EQKnob({
 
 /**
  * EQKnobGroup - A group of HI/MID/LOW knobs for a channel
+ * Optionally shows a TRIM knob above and a bipolar FILTER knob below
  */
 interface EQKnobGroupProps {
   label: string;
@@ -179,7 +183,12 @@ interface EQKnobGroupProps {
   onHighChange: (value: number) => void;
   onMidChange: (value: number) => void;
   onLowChange: (value: number) => void;
+  trim?: number; // -1 to 1 knob position
+  onTrimChange?: (value: number) => void;
+  filter?: number; // -1 (LPF) to 1 (HPF)
+  onFilterChange?: (value: number) => void;
   color?: 'red' | 'blue' | 'neutral';
+  midiActionPrefix?: string; // e.g. "deckA" → "deckA.eq.high"
   className?: string;
 }
 
@@ -191,16 +200,29 @@ export function EQKnobGroup({
   onHighChange,
   onMidChange,
   onLowChange,
+  trim,
+  onTrimChange,
+  filter,
+  onFilterChange,
   color = 'neutral',
+  midiActionPrefix,
   className = '',
 }: EQKnobGroupProps) {
+  const midiAction = (control: string) => (midiActionPrefix ? `${midiActionPrefix}.${control}` : undefined);
+
   return (
     <div className={`flex flex-col items-center gap-2 ${className}`}>
       <span className="text-[10px] text-neutral-500 uppercase tracking-wider">{label}</span>
       <div className="flex flex-col gap-1">
-        <EQKnob label="HI" value={high} onChange={onHighChange} size="sm" color={color} />
-        <EQKnob label="MID" value={mid} onChange={onMidChange} size="sm" color={color} />
-        <EQKnob label="LOW" value={low} onChange={onLowChange} size="sm" color={color} />
+        {trim !== undefined && onTrimChange && (
+          <EQKnob label="TRIM" value={trim} onChange={onTrimChange} size="sm" color={color} midiAction={midiAction('trim')} />
+        )}
+        <EQKnob label="HI" value={high} onChange={onHighChange} size="sm" color={color} midiAction={midiAction('eq.high')} />
+        <EQKnob label="MID" value={mid} onChange={onMidChange} size="sm" color={color} midiAction={midiAction('eq.mid')} />
+        <EQKnob label="LOW" value={low} onChange={onLowChange} size="sm" color={color} midiAction={midiAction('eq.low')} />
+        {filter !== undefined && onFilterChange && (
+          <EQKnob label="FILTER" value={filter} onChange={onFilterChange} size="sm" color={color} midiAction={midiAction('filter')} />
+        )}
       </div>
     </div>
   );
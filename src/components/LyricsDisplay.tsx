@@ -0,0 +1,100 @@
+import { useEffect, useRef } from 'react';
+import { usePlaybackTime } from '../hooks/usePlaybackTime';
+import { getActiveLineIndex, getWordFills } from '../utils/lyrics';
+import type { DeckState, LyricsLine } from '../types';
+
+interface LyricsDisplayProps {
+  deck: Pick<DeckState, 'lyrics' | 'currentTime' | 'playing' | 'playbackRate'>;
+  wordFill?: boolean; // Fill word-timed lines word by word
+  className?: string;
+}
+
+/**
+ * LyricsDisplay component - scrolling lyrics following a deck's position
+ *
+ * Synced (LRC) lyrics highlight the current line and keep it centered;
+ * lines with word timings fill word by word. Plain-text lyrics are shown
+ * as-is.
+ */
+export function LyricsDisplay({ deck, wordFill = true, className = '' }: LyricsDisplayProps) {
+  const { lyrics } = deck;
+  const time = usePlaybackTime(deck);
+  const activeIndex = getActiveLineIndex(lyrics, time);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeLineRef = useRef<HTMLDivElement>(null);
+
+  // Keep the current line centered
+  useEffect(() => {
+    const container = containerRef.current;
+    const line = activeLineRef.current;
+    if (!container || !line) return;
+    container.scrollTo({
+      top: line.offsetTop - container.clientHeight / 2 + line.clientHeight / 2,
+      behavior: 'smooth',
+    });
+  }, [activeIndex]);
+
+  if (!lyrics.synced) {
+    return (
+      <div ref={containerRef} className={`overflow-y-auto ${className}`}>
+        <pre className="text-neutral-300 text-sm whitespace-pre-wrap font-sans leading-relaxed">
+          {lyrics.source}
+        </pre>
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} className={`relative overflow-y-auto ${className}`}>
+      {/* Padding lets the first and last lines reach the center */}
+      <div className="py-[40%] space-y-2">
+        {lyrics.lines.map((line, i) => {
+          const active = i === activeIndex;
+          return (
+            <div
+              key={i}
+              ref={active ? activeLineRef : undefined}
+              className={`text-sm leading-relaxed transition-all duration-200 ${
+                active
+                  ? 'text-white font-semibold scale-105 origin-left'
+                  : i < activeIndex
+                    ? 'text-neutral-500'
+                    : 'text-neutral-400'
+              }`}
+            >
+              {active && wordFill && line.words.length > 0 ? (
+                <FilledWords line={line} lineEnd={lyrics.lines[i + 1]?.time ?? null} time={time} />
+              ) : (
+                line.text || '♪'
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The current line with each word filled as far as it has been sung
+ */
+function FilledWords({ line, lineEnd, time }: { line: LyricsLine; lineEnd: number | null; time: number }) {
+  const fills = getWordFills(line, lineEnd, time);
+
+  return (
+    <>
+      {line.words.map((word, i) => (
+        <span
+          key={i}
+          className="bg-clip-text text-transparent whitespace-pre-wrap"
+          style={{
+            backgroundImage: `linear-gradient(90deg, #ef4444 ${fills[i] * 100}%, #737373 ${fills[i] * 100}%)`,
+          }}
+        >
+          {word.text}
+        </span>
+      ))}
+    </>
+  );
+}
@@ -1,78 +1,48 @@
-import { useState, useCallback } from 'react';
+import { useState } from 'react';
 import { useDJStore } from '../stores/djStore';
+import { LyricsDisplay } from './LyricsDisplay';
+import { useLyrics } from '../hooks/useLyrics';
+import { describeLyricsLookup, parseLyrics } from '../utils/lyrics';
 
 interface LyricsPanelProps {
   className?: string;
+  /** Open the tap-to-sync editor for a deck */
+  onOpenSyncEditor?: (deck: 'A' | 'B') => void;
 }
 
 /**
  * LyricsPanel component - fetch and display lyrics with manual fallback
  *
  * Features:
- * - Auto-fetch from lyrics.ovh API
+ * - Fetch from the server's lyrics providers (saved edits, lyrics folder,
+ *   lyrics.ovh)
  * - Manual artist/title input
- * - Fallback textarea for manual lyrics entry
+ * - Fallback textarea for manual lyrics entry (plain text or LRC)
+ * - Synced lyrics follow the deck's position; timings can be tapped in
+ *   with the sync editor
  * - Collapsible UI
  */
-export function LyricsPanel({ className = '' }: LyricsPanelProps) {
+export function LyricsPanel({ className = '', onOpenSyncEditor }: LyricsPanelProps) {
   const deckA = useDJStore((state) => state.deckA);
   const deckB = useDJStore((state) => state.deckB);
   const updateDeckA = useDJStore((state) => state.updateDeckA);
   const updateDeckB = useDJStore((state) => state.updateDeckB);
 
   const [activeDeck, setActiveDeck] = useState<'A' | 'B'>('A');
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   const [manualMode, setManualMode] = useState(false);
   const [isCollapsed, setIsCollapsed] = useState(false);
 
   // Get current deck data based on active selection
   const currentDeck = activeDeck === 'A' ? deckA : deckB;
   const updateCurrentDeck = activeDeck === 'A' ? updateDeckA : updateDeckB;
+  const { loading, error, found, fetchLyrics } = useLyrics(activeDeck);
 
   /**
-   * Fetch lyrics from lyrics.ovh API
+   * Fetch lyrics, switching to manual entry when none are found
    */
-  const fetchLyrics = useCallback(async () => {
-    const artist = currentDeck.artist.trim();
-    const title = currentDeck.title.trim();
-
-    if (!artist || !title) {
-      setError('Please enter both artist and title');
-      return;
-    }
-
-    setLoading(true);
-    setError(null);
-
-    try {
-      const response = await fetch(
-        `https://api.lyrics.ovh/v1/${encodeURIComponent(artist)}/${encodeURIComponent(title)}`
-      );
-
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new Error('Lyrics not found. Try manual entry.');
-        }
-        throw new Error(`HTTP ${response.status}`);
-      }
-
-      const data = await response.json();
-
-      if (data.lyrics) {
-        updateCurrentDeck({ lyrics: data.lyrics });
-        setManualMode(false);
-      } else {
-        throw new Error('No lyrics in response');
-      }
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to fetch lyrics';
-      setError(message);
-      setManualMode(true);
-    } finally {
-      setLoading(false);
-    }
-  }, [currentDeck.artist, currentDeck.title, updateCurrentDeck]);
+  const handleFetch = async () => {
+    setManualMode(!(await fetchLyrics()));
+  };
 
   /**
    * Handle artist input change
@@ -92,7 +62,7 @@ export function LyricsPanel({ className = '' }: LyricsPanelProps) {
    * Handle manual lyrics input
    */
   const handleLyricsChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    updateCurrentDeck({ lyrics: e.target.value });
+    updateCurrentDeck({ lyrics: parseLyrics(e.target.value) });
   };
 
   if (isCollapsed) {
@@ -170,7 +140,7 @@ export function LyricsPanel({ className = '' }: LyricsPanelProps) {
         {/* Fetch button */}
         <div className="flex gap-2">
           <button
-            onClick={fetchLyrics}
+            onClick={handleFetch}
             disabled={loading}
             className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm rounded transition-colors"
           >
@@ -186,8 +156,18 @@ export function LyricsPanel({ className = '' }: LyricsPanelProps) {
           >
             Manual Entry
           </button>
+          {onOpenSyncEditor && currentDeck.lyrics.lines.length > 0 && (
+            <button
+              onClick={() => onOpenSyncEditor(activeDeck)}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded transition-colors"
+            >
+              Sync Timings
+            </button>
+          )}
         </div>
 
+        {found && !manualMode && <div className="text-gray-500 text-xs">{describeLyricsLookup(found)}</div>}
+
         {/* Error message */}
         {error && (
           <div className="text-red-400 text-sm bg-red-900/30 px-3 py-2 rounded">
@@ -199,16 +179,12 @@ export function LyricsPanel({ className = '' }: LyricsPanelProps) {
         {manualMode ? (
           <textarea
             placeholder="Paste lyrics here..."
-            value={currentDeck.lyrics}
+            value={currentDeck.lyrics.source}
             onChange={handleLyricsChange}
             className="w-full h-48 px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white placeholder-gray-500 text-sm resize-none focus:outline-none focus:border-blue-500"
           />
-        ) : currentDeck.lyrics ? (
-          <div className="h-48 overflow-y-auto bg-gray-900/50 rounded p-3">
-            <pre className="text-gray-300 text-sm whitespace-pre-wrap font-sans leading-relaxed">
-              {currentDeck.lyrics}
-            </pre>
-          </div>
+        ) : currentDeck.lyrics.lines.length > 0 ? (
+          <LyricsDisplay deck={currentDeck} className="h-48 bg-gray-900/50 rounded p-3" />
         ) : (
           <div className="h-48 flex items-center justify-center bg-gray-900/50 rounded text-gray-500 text-sm">
             No lyrics loaded. Fetch from API or enter manually.
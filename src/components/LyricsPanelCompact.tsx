@@ -1,66 +1,40 @@
-import { useState, useCallback } from 'react';
+import { useState } from 'react';
 import { useDJStore } from '../stores/djStore';
 import { Button } from '@/components/ui/button';
+import { LyricsDisplay } from './LyricsDisplay';
+import { useLyrics } from '../hooks/useLyrics';
+import { describeLyricsLookup, hasWordTimings, parseLyrics } from '../utils/lyrics';
 
 interface LyricsPanelCompactProps {
   className?: string;
+  /** Open the tap-to-sync editor for a deck */
+  onOpenSyncEditor?: (deck: 'A' | 'B') => void;
 }
 
 /**
  * LyricsPanelCompact - Compact lyrics panel for side placement
+ * Synced (LRC) lyrics follow the deck's position, optionally word by word.
  */
-export function LyricsPanelCompact({ className = '' }: LyricsPanelCompactProps) {
+export function LyricsPanelCompact({ className = '', onOpenSyncEditor }: LyricsPanelCompactProps) {
   const deckA = useDJStore((state) => state.deckA);
   const deckB = useDJStore((state) => state.deckB);
   const updateDeckA = useDJStore((state) => state.updateDeckA);
   const updateDeckB = useDJStore((state) => state.updateDeckB);
 
   const [activeDeck, setActiveDeck] = useState<'A' | 'B'>('A');
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   const [manualMode, setManualMode] = useState(false);
+  const [wordFill, setWordFill] = useState(true);
 
   const currentDeck = activeDeck === 'A' ? deckA : deckB;
   const updateCurrentDeck = activeDeck === 'A' ? updateDeckA : updateDeckB;
+  const { loading, error, found, fetchLyrics } = useLyrics(activeDeck);
 
-  const fetchLyrics = useCallback(async () => {
-    const artist = currentDeck.artist.trim();
-    const title = currentDeck.title.trim();
-
-    if (!artist || !title) {
-      setError('Enter artist & title');
-      return;
-    }
-
-    setLoading(true);
-    setError(null);
-
-    try {
-      const response = await fetch(
-        `https://api.lyrics.ovh/v1/${encodeURIComponent(artist)}/${encodeURIComponent(title)}`
-      );
-
-      if (!response.ok) {
-        throw new Error(response.status === 404 ? 'Not found' : `Error ${response.status}`);
-      }
-
-      const data = await response.json();
-      if (data.lyrics) {
-        updateCurrentDeck({ lyrics: data.lyrics });
-        setManualMode(false);
-      } else {
-        throw new Error('No lyrics');
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed');
-      setManualMode(true);
-    } finally {
-      setLoading(false);
-    }
-  }, [currentDeck.artist, currentDeck.title, updateCurrentDeck]);
+  const handleFetch = async () => {
+    setManualMode(!(await fetchLyrics()));
+  };
 
   const handleLyricsChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    updateCurrentDeck({ lyrics: e.target.value });
+    updateCurrentDeck({ lyrics: parseLyrics(e.target.value) });
   };
 
   return (
@@ -106,12 +80,15 @@ export function LyricsPanelCompact({ className = '' }: LyricsPanelCompactProps)
             ? `${currentDeck.artist} - ${currentDeck.title}`
             : 'No track loaded'}
         </div>
+        {found && !manualMode && (
+          <div className="mt-0.5 text-[10px] text-neutral-500">{describeLyricsLookup(found)}</div>
+        )}
       </div>
 
       {/* Actions */}
       <div className="flex gap-2 p-3 border-b border-neutral-700/50">
         <Button
-          onClick={fetchLyrics}
+          onClick={handleFetch}
           disabled={loading}
           className="flex-1 py-2 text-xs bg-red-600 hover:bg-red-500 disabled:bg-neutral-700 text-white font-semibold shadow-lg shadow-red-600/20 disabled:shadow-none"
         >
@@ -135,6 +112,33 @@ export function LyricsPanelCompact({ className = '' }: LyricsPanelCompactProps)
         >
           {manualMode ? 'SAVE' : 'EDIT'}
         </Button>
+        {onOpenSyncEditor && currentDeck.lyrics.lines.length > 0 && (
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setManualMode(false);
+              onOpenSyncEditor(activeDeck);
+            }}
+            title="Tap in line or word timings while the deck plays"
+            className="px-3 py-2 text-xs font-semibold rounded-lg bg-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-700 border border-neutral-700/50"
+          >
+            SYNC
+          </Button>
+        )}
+        {!manualMode && hasWordTimings(currentDeck.lyrics) && (
+          <Button
+            variant="ghost"
+            onClick={() => setWordFill(!wordFill)}
+            title="Fill the current line word by word"
+            className={`px-3 py-2 text-xs font-semibold rounded-lg transition-all ${
+              wordFill
+                ? 'bg-red-600/20 text-red-300 border border-red-500/50 hover:bg-red-600/30'
+                : 'bg-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-700 border border-neutral-700/50'
+            }`}
+          >
+            WORDS
+          </Button>
+        )}
       </div>
 
       {/* Error */}
@@ -151,17 +155,17 @@ export function LyricsPanelCompact({ className = '' }: LyricsPanelCompactProps)
       <div className="flex-1 overflow-y-auto min-h-0 scrollbar-thin scrollbar-thumb-neutral-700 scrollbar-track-transparent">
         {manualMode ? (
           <textarea
-            placeholder="Paste or type lyrics here..."
-            value={currentDeck.lyrics}
+            placeholder="Paste or type lyrics here (plain text or LRC)..."
+            value={currentDeck.lyrics.source}
             onChange={handleLyricsChange}
             className="w-full h-full p-4 bg-transparent text-neutral-300 text-sm resize-none focus:outline-none leading-relaxed"
           />
-        ) : currentDeck.lyrics ? (
-          <div className="p-4">
-            <pre className="text-neutral-300 text-sm whitespace-pre-wrap font-sans leading-relaxed">
-              {currentDeck.lyrics}
-            </pre>
-          </div>
+        ) : currentDeck.lyrics.lines.length > 0 ? (
+          <LyricsDisplay
+            deck={currentDeck}
+            wordFill={wordFill}
+            className="h-full p-4 scrollbar-thin scrollbar-thumb-neutral-700 scrollbar-track-transparent"
+          />
         ) : (
           <div className="flex flex-col items-center justify-center h-full text-neutral-500 p-6 text-center">
             <svg className="w-10 h-10 mb-3 text-neutral-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
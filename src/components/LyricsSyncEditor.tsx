@@ -0,0 +1,374 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useDJStore } from '../stores/djStore';
+import { usePlaybackTime } from '../hooks/usePlaybackTime';
+import { useLyrics } from '../hooks/useLyrics';
+import { WaveformSeekBar, type WaveformMarker } from './WaveformSeekBar';
+import { isAnalyzableSource } from '../utils/deckSource';
+import { hasWordTimings } from '../utils/lyrics';
+import {
+  formatLrcTimestamp,
+  getSyncTime,
+  nudgeAt,
+  onLyricsTap,
+  shiftAll,
+  tapAt,
+  toLrc,
+  toSyncLines,
+  untap,
+  type SyncLine,
+  type SyncMode,
+  type SyncPosition,
+} from '../utils/lyricsSync';
+
+interface LyricsSyncEditorProps {
+  deck: 'A' | 'B';
+  onClose: () => void;
+}
+
+interface SyncEdit {
+  lines: SyncLine[];
+  cursor: SyncPosition; // Where the next tap lands
+  selected: SyncPosition | null; // Timestamp the nudge controls move
+}
+
+// Nudge steps (seconds): fine, and coarse with Shift
+const NUDGE_FINE = 0.01;
+const NUDGE_COARSE = 0.1;
+
+// Jumping to a timestamp starts playback this much earlier (seconds)
+const JUMP_PREROLL = 2;
+
+// Seconds of audio visible on the editor's waveform
+const WAVEFORM_ZOOM_SECONDS = 8;
+
+/**
+ * LyricsSyncEditor - tap-to-sync editor producing LRC timings
+ *
+ * Play the deck and tap (Space, the TAP button or a MIDI pad mapped to
+ * "Lyrics Sync Tap") at the start of each line, or each word in word mode.
+ * Timestamps can then be nudged against the waveform and the whole sync
+ * shifted by a global offset. SAVE stores the LRC for the track's videoId so
+ * it is loaded with the track next time; EXPORT downloads a .lrc file.
+ */
+export function LyricsSyncEditor({ deck, onClose }: LyricsSyncEditorProps) {
+  const deckState = useDJStore((state) => (deck === 'A' ? state.deckA : state.deckB));
+  const togglePlay = useDJStore((state) => (deck === 'A' ? state.toggleDeckAPlay : state.toggleDeckBPlay));
+  const seekDeck = useDJStore((state) => (deck === 'A' ? state.seekDeckA : state.seekDeckB));
+  const { saveLyrics } = useLyrics(deck);
+
+  const [mode, setMode] = useState<SyncMode>(() => (hasWordTimings(deckState.lyrics) ? 'word' : 'line'));
+  const [edit, setEdit] = useState<SyncEdit>(() => {
+    const lines = toSyncLines(deckState.lyrics);
+    const firstUntimed = lines.findIndex((line) => line.time === null);
+    return { lines, cursor: { line: firstUntimed === -1 ? lines.length : firstUntimed, word: 0 }, selected: null };
+  });
+  const [totalShift, setTotalShift] = useState(0);
+
+  const time = usePlaybackTime(deckState);
+  // Taps read the latest position without re-binding the key handler
+  const timeRef = useRef(time);
+  useEffect(() => {
+    timeRef.current = time;
+  }, [time]);
+
+  const cursorRef = useRef<HTMLDivElement>(null);
+
+  const tap = useCallback(() => {
+    const tapTime = timeRef.current;
+    setEdit(({ lines, cursor, selected }) => {
+      if (cursor.line >= lines.length) return { lines, cursor, selected };
+      const tapped = tapAt(lines, cursor, mode, tapTime);
+      return { lines: tapped.lines, cursor: tapped.next, selected: cursor };
+    });
+  }, [mode]);
+
+  const undo = useCallback(() => {
+    setEdit(({ lines, cursor }) => {
+      const undone = untap(lines, cursor, mode);
+      return { lines: undone.lines, cursor: undone.previous, selected: null };
+    });
+  }, [mode]);
+
+  const nudge = useCallback(
+    (seconds: number) => {
+      setEdit((current) =>
+        current.selected ? { ...current, lines: nudgeAt(current.lines, current.selected, mode, seconds) } : current
+      );
+    },
+    [mode]
+  );
+
+  const handleShiftAll = (seconds: number) => {
+    setEdit((current) => ({ ...current, lines: shiftAll(current.lines, seconds) }));
+    setTotalShift((total) => total + seconds);
+  };
+
+  const handleModeChange = (nextMode: SyncMode) => {
+    setMode(nextMode);
+    setEdit((current) => ({ ...current, cursor: { line: current.cursor.line, word: 0 }, selected: null }));
+  };
+
+  /**
+   * Select a line or word: nudges apply to it and the next tap lands on it
+   */
+  const select = (position: SyncPosition) => {
+    setEdit((current) => ({ ...current, cursor: position, selected: position }));
+  };
+
+  // MIDI pads mapped to this deck's lyrics tap
+  useEffect(() => onLyricsTap(deck, tap), [deck, tap]);
+
+  // Keyboard: Space tap, Backspace undo, arrows nudge, P play/pause
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) {
+        return;
+      }
+      if (e.code === 'Space') tap();
+      else if (e.key === 'Backspace') undo();
+      else if (e.key === 'ArrowLeft') nudge(e.shiftKey ? -NUDGE_COARSE : -NUDGE_FINE);
+      else if (e.key === 'ArrowRight') nudge(e.shiftKey ? NUDGE_COARSE : NUDGE_FINE);
+      else if (e.key === 'p' || e.key === 'P') togglePlay();
+      else if (e.key === 'Escape') onClose();
+      else return;
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [tap, undo, nudge, togglePlay, onClose]);
+
+  // Keep the line about to be tapped in view
+  useEffect(() => {
+    cursorRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [edit.cursor.line]);
+
+  const { lines, cursor, selected } = edit;
+  const selectedTime = selected ? getSyncTime(lines, selected, mode) : null;
+  const timedLines = lines.filter((line) => line.time !== null).length;
+  const lrc = toLrc(lines, deckState.artist, deckState.title);
+
+  const markers: WaveformMarker[] = lines.flatMap((line, i) => {
+    const isSelected = (word: number) => selected?.line === i && (mode === 'line' || selected.word === word);
+    if (mode === 'word' && line.words.length > 0) {
+      return line.words.flatMap((word, w) =>
+        word.time === null
+          ? []
+          : [{ time: word.time, color: isSelected(w) ? '#f59e0b' : '#d4d4d4', label: word.text.trim() }]
+      );
+    }
+    return line.time === null
+      ? []
+      : [{ time: line.time, color: isSelected(0) ? '#f59e0b' : '#d4d4d4', label: `${i + 1}` }];
+  });
+
+  const handleSave = () => {
+    saveLyrics(lrc);
+    console.log(`[Lyrics] Saved ${timedLines} synced lines for Deck ${deck} (${deckState.videoId})`);
+    onClose();
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([lrc], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${[deckState.artist, deckState.title].filter(Boolean).join(' - ').replace(/[\\/:*?"<>|]+/g, '_') || 'lyrics'}.lrc`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const deckButtonClass = deck === 'A' ? 'bg-blue-600 hover:bg-blue-500' : 'bg-red-600 hover:bg-red-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-[44rem] max-h-[85vh] flex flex-col bg-neutral-900 border border-neutral-700/50 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-neutral-700/50">
+          <span className="text-xs font-semibold text-neutral-300 uppercase tracking-wider">Lyrics Sync · Deck {deck}</span>
+          <span className="text-xs text-neutral-500 truncate">
+            {deckState.artist && deckState.title ? `${deckState.artist} - ${deckState.title}` : 'No track loaded'}
+          </span>
+          <Button variant="ghost" onClick={onClose} className="ml-auto h-7 px-2 text-xs text-neutral-400 hover:text-white">
+            ✕
+          </Button>
+        </div>
+
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-neutral-700/50">
+          <div className="flex gap-1 p-0.5 bg-neutral-800/50 rounded-md">
+            {(['line', 'word'] as SyncMode[]).map((option) => (
+              <Button
+                key={option}
+                variant="ghost"
+                onClick={() => handleModeChange(option)}
+                className={`h-7 px-2.5 text-[10px] font-semibold rounded ${
+                  mode === option ? 'bg-neutral-600 text-white hover:bg-neutral-600' : 'text-neutral-400 hover:text-white'
+                }`}
+              >
+                {option === 'line' ? 'LINES' : 'WORDS'}
+              </Button>
+            ))}
+          </div>
+          <Button
+            variant="ghost"
+            onClick={togglePlay}
+            className="h-7 px-3 text-[10px] font-semibold bg-neutral-800 text-neutral-300 hover:text-white hover:bg-neutral-700"
+          >
+            {deckState.playing ? '❚❚ PAUSE' : '▶ PLAY'}
+          </Button>
+          <Button
+            onClick={tap}
+            disabled={cursor.line >= lines.length}
+            data-midi-action={`deck${deck}.lyricsTap`}
+            className={`h-7 px-5 text-[10px] font-bold text-white disabled:bg-neutral-700 ${deckButtonClass}`}
+          >
+            TAP
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={undo}
+            className="h-7 px-3 text-[10px] font-semibold bg-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-700"
+          >
+            UNDO
+          </Button>
+          <span className="ml-auto text-[10px] text-neutral-500">
+            {timedLines}/{lines.length} lines timed
+          </span>
+        </div>
+
+        {/* Waveform around the playhead with the timestamps */}
+        <div className="px-4 pt-3">
+          <WaveformSeekBar
+            videoId={deckState.videoId || null}
+            analyze={isAnalyzableSource(deckState.source)}
+            currentTime={deckState.currentTime}
+            duration={deckState.duration}
+            color={deck === 'A' ? 'rgb(59, 130, 246)' : 'rgb(239, 68, 68)'}
+            playedColor={deck === 'A' ? 'rgb(96, 165, 250)' : 'rgb(248, 113, 113)'}
+            height={64}
+            zoomSeconds={WAVEFORM_ZOOM_SECONDS}
+            onSeek={seekDeck}
+            markers={markers}
+          />
+        </div>
+
+        {/* Nudge and offset */}
+        <div className="flex flex-wrap items-center gap-1.5 px-4 py-2 border-b border-neutral-700/50 text-[10px]">
+          <span className="text-neutral-500 uppercase tracking-wider">Selected</span>
+          <span className="w-16 font-mono text-neutral-300">
+            {selectedTime !== null ? formatLrcTimestamp(selectedTime) : '--:--.--'}
+          </span>
+          {[-NUDGE_COARSE, -NUDGE_FINE, NUDGE_FINE, NUDGE_COARSE].map((step) => (
+            <NudgeButton key={step} seconds={step} disabled={selectedTime === null} onClick={() => nudge(step)} />
+          ))}
+          <Button
+            variant="ghost"
+            disabled={selectedTime === null}
+            onClick={() => selectedTime !== null && seekDeck(Math.max(0, selectedTime - JUMP_PREROLL))}
+            className="h-6 px-2 text-[10px] font-semibold bg-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-700"
+            title={`Jump to ${JUMP_PREROLL}s before the selected timestamp`}
+          >
+            JUMP
+          </Button>
+
+          <span className="ml-auto text-neutral-500 uppercase tracking-wider">Offset all</span>
+          {[-NUDGE_COARSE, -NUDGE_FINE, NUDGE_FINE, NUDGE_COARSE].map((step) => (
+            <NudgeButton key={step} seconds={step} disabled={timedLines === 0} onClick={() => handleShiftAll(step)} />
+          ))}
+          <span className="w-14 text-right font-mono text-neutral-300">
+            {totalShift >= 0 ? '+' : ''}
+            {Math.round(totalShift * 1000)} ms
+          </span>
+        </div>
+
+        {/* Lines */}
+        <div className="flex-1 min-h-0 overflow-y-auto px-4 py-2 space-y-0.5 scrollbar-thin scrollbar-thumb-neutral-700 scrollbar-track-transparent">
+          {lines.length === 0 && (
+            <div className="py-8 text-center text-xs text-neutral-500">
+              No lyrics on this deck. Add them in the Lyrics panel (EDIT) first.
+            </div>
+          )}
+          {lines.map((line, i) => {
+            const isCursorLine = i === cursor.line;
+            return (
+              <div
+                key={i}
+                ref={isCursorLine ? cursorRef : undefined}
+                onClick={() => select({ line: i, word: 0 })}
+                className={`flex items-baseline gap-3 px-2 py-1 rounded cursor-pointer ${
+                  isCursorLine ? 'bg-neutral-800 ring-1 ring-neutral-600' : 'hover:bg-neutral-800/50'
+                } ${selected?.line === i && mode === 'line' ? 'ring-1 ring-amber-500/70' : ''}`}
+              >
+                <span className={`w-16 flex-shrink-0 font-mono text-[10px] ${line.time === null ? 'text-neutral-600' : 'text-neutral-400'}`}>
+                  {line.time === null ? '--:--.--' : formatLrcTimestamp(line.time)}
+                </span>
+                <span className={`text-sm ${line.time === null ? 'text-neutral-500' : 'text-neutral-200'}`}>
+                  {mode === 'word' && line.words.length > 0
+                    ? line.words.map((word, w) => (
+                        <span
+                          key={w}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            select({ line: i, word: w });
+                          }}
+                          className={`whitespace-pre-wrap rounded ${word.time === null ? 'text-neutral-500' : 'text-neutral-100'} ${
+                            isCursorLine && cursor.word === w ? 'underline decoration-2 underline-offset-4' : ''
+                          } ${selected?.line === i && selected.word === w ? 'bg-amber-500/30' : ''}`}
+                        >
+                          {word.text}
+                        </span>
+                      ))
+                    : line.text || '♪'}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center gap-2 px-4 py-3 border-t border-neutral-700/50">
+          <span className="text-[10px] text-neutral-500">
+            Space tap · Backspace undo · ←/→ nudge 10 ms (Shift 100 ms) · P play/pause
+          </span>
+          <Button
+            variant="ghost"
+            onClick={handleExport}
+            disabled={timedLines === 0}
+            className="ml-auto h-7 px-3 text-[10px] font-semibold bg-neutral-800 text-neutral-300 hover:text-white hover:bg-neutral-700"
+          >
+            EXPORT .LRC
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={timedLines === 0 || !deckState.videoId}
+            className="h-7 px-4 text-[10px] font-semibold bg-green-600 hover:bg-green-500 disabled:bg-neutral-700 text-white"
+            title="Save for this track; it loads synced next time"
+          >
+            SAVE
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Button moving a timestamp by a signed step
+ */
+function NudgeButton({ seconds, disabled, onClick }: { seconds: number; disabled: boolean; onClick: () => void }) {
+  return (
+    <Button
+      variant="ghost"
+      disabled={disabled}
+      onClick={onClick}
+      className="h-6 px-1.5 text-[10px] font-mono bg-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-700"
+    >
+      {seconds > 0 ? '+' : '−'}
+      {Math.round(Math.abs(seconds) * 1000)}
+    </Button>
+  );
+}
@@ -0,0 +1,344 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useDJStore } from '../stores/djStore';
+import { MIDI_ACTIONS, getMidiAction } from '../midi/midiActions';
+import { describeMapping, exportMidiPreset, importMidiPreset } from '../midi/midiMapping';
+import { BUILTIN_MIDI_PRESETS } from '../midi/presets';
+import type { MidiDevice, MidiMapping, MidiPreset } from '../types';
+
+interface MidiMappingPanelProps {
+  onClose: () => void;
+}
+
+/**
+ * Device row: connection state, enable toggle and preset assignment
+ */
+function MidiDeviceRow({ device, presets }: { device: MidiDevice; presets: Record<string, MidiPreset> }) {
+  const setMidiDeviceEnabled = useDJStore((state) => state.setMidiDeviceEnabled);
+  const setMidiDevicePreset = useDJStore((state) => state.setMidiDevicePreset);
+  const connected = device.inputConnected || device.outputConnected;
+
+  return (
+    <div className="flex items-center gap-2 py-1">
+      <div
+        className={`w-2 h-2 rounded-full flex-shrink-0 ${connected ? 'bg-green-500' : 'bg-neutral-600'}`}
+        title={connected ? 'Connected' : 'Disconnected'}
+      />
+      <span className="flex-1 text-xs text-neutral-300 truncate" title={device.manufacturer || device.name}>
+        {device.name}
+      </span>
+      <span className="text-[9px] font-mono text-neutral-500">
+        {device.inputConnected ? 'IN' : '--'} {device.outputConnected ? 'OUT' : '---'}
+      </span>
+      <select
+        value={device.presetId}
+        onChange={(e) => setMidiDevicePreset(device.name, e.target.value)}
+        aria-label={`Preset for ${device.name}`}
+        className="h-6 max-w-40 px-1 text-[10px] bg-neutral-800/80 border border-neutral-700 rounded text-neutral-300"
+      >
+        {Object.entries(presets).map(([id, preset]) => (
+          <option key={id} value={id}>
+            {preset.name}
+          </option>
+        ))}
+      </select>
+      <label className="flex items-center gap-1 text-[10px] text-neutral-400">
+        <input
+          type="checkbox"
+          checked={device.enabled}
+          onChange={(e) => setMidiDeviceEnabled(device.name, e.target.checked)}
+        />
+        ON
+      </label>
+    </div>
+  );
+}
+
+/**
+ * MidiMappingPanel - MIDI devices and mapping presets
+ *
+ * Features:
+ * - Every input/output device with enable toggle and preset assignment
+ * - Every mappable action with its bindings in the selected preset
+ * - Per-action LEARN (next hardware control binds to it, in that device's preset)
+ * - On-screen learn mode (pick a control, then move a hardware control)
+ * - JSON import/export (bindings and LED feedback) and reset to the DDJ-200 preset
+ */
+export function MidiMappingPanel({ onClose }: MidiMappingPanelProps) {
+  const midiDevices = useDJStore((state) => state.midiDevices);
+  const midiPresets = useDJStore((state) => state.midiPresets);
+  const midiLearn = useDJStore((state) => state.midiLearn);
+  const setMidiPreset = useDJStore((state) => state.setMidiPreset);
+  const removeMidiMapping = useDJStore((state) => state.removeMidiMapping);
+  const resetMidiPreset = useDJStore((state) => state.resetMidiPreset);
+  const setMidiLearnActive = useDJStore((state) => state.setMidiLearnActive);
+  const setMidiLearnTarget = useDJStore((state) => state.setMidiLearnTarget);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [filter, setFilter] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // Start on the preset of the first connected device
+  const [presetId, setPresetId] = useState(
+    () =>
+      Object.values(midiDevices).find((device) => device.inputConnected)?.presetId ??
+      Object.keys(midiPresets)[0] ??
+      'ddj200'
+  );
+  const preset = midiPresets[presetId];
+  const devices = Object.values(midiDevices).sort(
+    (a, b) => Number(b.inputConnected || b.outputConnected) - Number(a.inputConnected || a.outputConnected)
+  );
+
+  // Bindings grouped by action id
+  const mappingsByAction = useMemo(() => {
+    const grouped = new Map<string, MidiMapping[]>();
+    preset?.mappings.forEach((mapping) => {
+      grouped.set(mapping.action, [...(grouped.get(mapping.action) ?? []), mapping]);
+    });
+    return grouped;
+  }, [preset]);
+
+  const visibleActions = MIDI_ACTIONS.filter((action) =>
+    action.label.toLowerCase().includes(filter.trim().toLowerCase())
+  );
+
+  const handleLearn = (actionId: string) => {
+    setMidiLearnActive(true);
+    setMidiLearnTarget(actionId);
+  };
+
+  const handleLearnOnScreen = () => {
+    setMidiLearnActive(true);
+    onClose();
+  };
+
+  const handleExport = () => {
+    if (!preset) return;
+    const json = exportMidiPreset(preset.name, preset.mappings, preset.feedback);
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${preset.name.replace(/[^\w-]+/g, '-').toLowerCase()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = importMidiPreset(await file.text());
+      setMidiPreset(presetId, imported);
+      setImportError(null);
+      console.log(
+        `[MIDI] Imported "${imported.name}" into "${presetId}" ` +
+          `(${imported.mappings.length} mappings, ${imported.feedback.length} lights)`
+      );
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Import failed');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-[36rem] max-h-[80vh] flex flex-col bg-neutral-900 border border-neutral-700/50 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-neutral-700/50">
+          <span className="text-xs font-semibold text-neutral-300 uppercase tracking-wider">MIDI</span>
+          <Button variant="ghost" onClick={onClose} className="ml-auto h-7 px-2 text-xs text-neutral-400 hover:text-white">
+            ✕
+          </Button>
+        </div>
+
+        {/* Devices */}
+        <div className="px-4 py-2 border-b border-neutral-700/50">
+          <div className="text-[10px] text-neutral-500 uppercase tracking-wider mb-1">Devices</div>
+          {devices.length === 0 ? (
+            <div className="text-xs text-neutral-500 italic py-1">No MIDI devices found</div>
+          ) : (
+            devices.map((device) => <MidiDeviceRow key={device.name} device={device} presets={midiPresets} />)
+          )}
+        </div>
+
+        {/* Preset being edited */}
+        <div className="flex items-center gap-2 px-4 pt-3">
+          <span className="text-[10px] text-neutral-500 uppercase tracking-wider">Preset</span>
+          <select
+            value={presetId}
+            onChange={(e) => setPresetId(e.target.value)}
+            aria-label="Preset to edit"
+            className="h-7 px-2 text-xs bg-neutral-800/80 border border-neutral-700 rounded text-white"
+          >
+            {Object.entries(midiPresets).map(([id, entry]) => (
+              <option key={id} value={id}>
+                {entry.name}
+              </option>
+            ))}
+          </select>
+          {preset && (
+            <span className="text-[10px] text-neutral-500">
+              {preset.mappings.length} bindings · {preset.feedback.length} lights
+            </span>
+          )}
+        </div>
+
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-neutral-700/50">
+          <Button
+            onClick={handleLearnOnScreen}
+            className="h-7 px-3 text-[10px] font-semibold bg-amber-600 hover:bg-amber-500 text-white"
+          >
+            LEARN ON SCREEN
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => fileInputRef.current?.click()}
+            className="h-7 px-3 text-[10px] font-semibold bg-neutral-800/80 text-neutral-300 hover:text-white"
+          >
+            IMPORT
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={handleExport}
+            className="h-7 px-3 text-[10px] font-semibold bg-neutral-800/80 text-neutral-300 hover:text-white"
+          >
+            EXPORT
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => resetMidiPreset(presetId)}
+            title={BUILTIN_MIDI_PRESETS[presetId] ? 'Restore the built-in preset' : 'Clear all bindings'}
+            className="h-7 px-3 text-[10px] font-semibold bg-neutral-800/80 text-neutral-300 hover:text-white"
+          >
+            RESET
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <input
+            type="search"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter actions"
+            aria-label="Filter actions"
+            className="ml-auto h-7 w-36 px-2 text-xs bg-neutral-800/80 border border-neutral-700 rounded text-white placeholder-neutral-500"
+          />
+          {importError && <div className="w-full text-xs text-red-400">{importError}</div>}
+        </div>
+
+        {/* Action list */}
+        <div className="flex-1 overflow-y-auto divide-y divide-neutral-800">
+          {visibleActions.map((action) => {
+            const bindings = mappingsByAction.get(action.id) ?? [];
+            const isLearning = midiLearn.active && midiLearn.target === action.id;
+
+            return (
+              <div key={action.id} className="flex items-center gap-2 px-4 py-1.5">
+                <span className="w-48 flex-shrink-0 text-xs text-neutral-300 truncate" title={action.id}>
+                  {action.label}
+                </span>
+                <div className="flex-1 flex flex-wrap gap-1">
+                  {bindings.map((mapping) => (
+                    <span
+                      key={mapping.id}
+                      className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-mono bg-neutral-800 text-neutral-400 rounded"
+                    >
+                      {describeMapping(mapping)}
+                      <button
+                        type="button"
+                        onClick={() => removeMidiMapping(presetId, mapping.id)}
+                        title="Remove binding"
+                        className="text-neutral-500 hover:text-red-400"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                <Button
+                  variant="ghost"
+                  onClick={() => (isLearning ? setMidiLearnActive(false) : handleLearn(action.id))}
+                  className={`h-6 px-2 text-[9px] font-bold border ${
+                    isLearning
+                      ? 'border-amber-400 text-amber-400 animate-pulse'
+                      : 'border-neutral-700 text-neutral-500 hover:text-white'
+                  }`}
+                >
+                  {isLearning ? 'MOVE A CONTROL…' : 'LEARN'}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * MidiLearnBanner - on-screen MIDI learn mode
+ *
+ * While active, clicking any control tagged with `data-midi-action` picks it
+ * as the learn target (without operating it); the next hardware control that
+ * moves is bound to it.
+ */
+export function MidiLearnBanner() {
+  const midiLearn = useDJStore((state) => state.midiLearn);
+  const setMidiLearnActive = useDJStore((state) => state.setMidiLearnActive);
+  const setMidiLearnTarget = useDJStore((state) => state.setMidiLearnTarget);
+
+  useEffect(() => {
+    if (!midiLearn.active) return;
+
+    const handlePick = (e: Event) => {
+      const element = (e.target as Element | null)?.closest?.('[data-midi-action]');
+      if (!element) return;
+
+      // Swallow the event so picking a control doesn't also operate it
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.type === 'pointerdown') {
+        setMidiLearnTarget(element.getAttribute('data-midi-action'));
+      }
+    };
+
+    const events = ['pointerdown', 'mousedown', 'click'];
+    events.forEach((type) => document.addEventListener(type, handlePick, true));
+    return () => events.forEach((type) => document.removeEventListener(type, handlePick, true));
+  }, [midiLearn.active, setMidiLearnTarget]);
+
+  if (!midiLearn.active) return null;
+
+  const target = midiLearn.target ? getMidiAction(midiLearn.target) : undefined;
+
+  return (
+    <>
+      <style>{`
+        [data-midi-action] { outline: 1px dashed rgba(245, 158, 11, 0.6); outline-offset: 2px; }
+        ${midiLearn.target ? `[data-midi-action="${midiLearn.target}"] { outline: 2px solid rgb(245, 158, 11); }` : ''}
+      `}</style>
+      <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-2 bg-neutral-900 border border-amber-500/50 rounded-xl shadow-2xl">
+        <span className="text-xs font-bold text-amber-400">MIDI LEARN</span>
+        <span className="text-xs text-neutral-300">
+          {target ? `Move a hardware control to bind "${target.label}"` : 'Click a control on screen'}
+        </span>
+        <Button
+          onClick={() => setMidiLearnActive(false)}
+          className="h-7 px-3 text-[10px] font-semibold bg-amber-600 hover:bg-amber-500 text-white"
+        >
+          DONE
+        </Button>
+      </div>
+    </>
+  );
+}
@@ -1,5 +1,9 @@
 import { useDJStore } from '../stores/djStore';
+import { hasConnectedMidiDevice } from '../midi/midiDevices';
 import { EQKnobGroup } from './EQKnob';
+import { CrossfaderCurveEditor } from './CrossfaderCurveEditor';
+import { applyCurve } from '../utils/crossfaderCurve';
+import { gainToKnob, knobToGain } from '../utils/knobs';
 import { Button } from '@/components/ui/button';
 
 interface MixerCenterProps {
@@ -10,21 +14,37 @@ interface MixerCenterProps {
  * MixerCenter component - Central mixer controls
  *
  * Features:
- * - Horizontal crossfader
+ * - Horizontal crossfader with selectable curve
  * - MIDI status
  * - Functional EQ knobs for each deck and master
+ * - Trim and bipolar filter knobs per deck
  */
 export function MixerCenter({ className = '' }: MixerCenterProps) {
   const crossfaderValue = useDJStore((state) => state.crossfaderValue);
-  const isMidiConnected = useDJStore((state) => state.isMidiConnected);
+  const crossfaderCurve = useDJStore((state) => state.crossfaderCurve);
+  const crossfaderCutIn = useDJStore((state) => state.crossfaderCutIn);
+  const crossfaderCustomCurve = useDJStore((state) => state.crossfaderCustomCurve);
+  const isMidiConnected = useDJStore(hasConnectedMidiDevice);
   const deckA = useDJStore((state) => state.deckA);
   const deckB = useDJStore((state) => state.deckB);
   const master = useDJStore((state) => state.master);
   const setCrossfader = useDJStore((state) => state.setCrossfader);
+  const setCurve = useDJStore((state) => state.setCurve);
+  const setCrossfaderCutIn = useDJStore((state) => state.setCrossfaderCutIn);
+  const setCrossfaderCustomCurve = useDJStore((state) => state.setCrossfaderCustomCurve);
   const setDeckAEQ = useDJStore((state) => state.setDeckAEQ);
   const setDeckBEQ = useDJStore((state) => state.setDeckBEQ);
+  const setDeckAGain = useDJStore((state) => state.setDeckAGain);
+  const setDeckBGain = useDJStore((state) => state.setDeckBGain);
+  const setDeckAFilter = useDJStore((state) => state.setDeckAFilter);
+  const setDeckBFilter = useDJStore((state) => state.setDeckBFilter);
   const setMasterEQ = useDJStore((state) => state.setMasterEQ);
 
+  const mixValues = applyCurve(crossfaderValue, crossfaderCurve, {
+    cutIn: crossfaderCutIn,
+    customPoints: crossfaderCustomCurve,
+  });
+
   const handleCrossfaderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setCrossfader(parseFloat(e.target.value));
   };
@@ -60,7 +80,12 @@ export function MixerCenter({ className = '' }: MixerCenterProps) {
           onHighChange={(v) => setDeckAEQ({ high: v })}
           onMidChange={(v) => setDeckAEQ({ mid: v })}
           onLowChange={(v) => setDeckAEQ({ low: v })}
+          trim={gainToKnob(deckA.gain)}
+          onTrimChange={(v) => setDeckAGain(knobToGain(v))}
+          filter={deckA.filter}
+          onFilterChange={setDeckAFilter}
           color="blue"
+          midiActionPrefix="deckA"
         />
 
         {/* Master EQ */}
@@ -73,6 +98,7 @@ export function MixerCenter({ className = '' }: MixerCenterProps) {
           onMidChange={(v) => setMasterEQ({ mid: v })}
           onLowChange={(v) => setMasterEQ({ low: v })}
           color="red"
+          midiActionPrefix="master"
         />
 
         {/* Deck B EQ */}
@@ -84,7 +110,12 @@ export function MixerCenter({ className = '' }: MixerCenterProps) {
           onHighChange={(v) => setDeckBEQ({ high: v })}
           onMidChange={(v) => setDeckBEQ({ mid: v })}
           onLowChange={(v) => setDeckBEQ({ low: v })}
+          trim={gainToKnob(deckB.gain)}
+          onTrimChange={(v) => setDeckBGain(knobToGain(v))}
+          filter={deckB.filter}
+          onFilterChange={setDeckBFilter}
           color="red"
+          midiActionPrefix="deckB"
         />
       </div>
 
@@ -101,6 +132,7 @@ export function MixerCenter({ className = '' }: MixerCenterProps) {
             value={crossfaderValue}
             onChange={handleCrossfaderChange}
             aria-label="Crossfader"
+            data-midi-action="crossfader"
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
           />
           {/* Custom thumb */}
@@ -112,10 +144,20 @@ export function MixerCenter({ className = '' }: MixerCenterProps) {
 
         {/* Value display */}
         <div className="text-sm font-mono font-medium flex gap-4">
-          <span className="text-blue-400">A: {Math.round((crossfaderValue <= 0.5 ? 1 : 1 - (crossfaderValue - 0.5) * 2) * 100)}%</span>
-          <span className="text-red-400">B: {Math.round((crossfaderValue >= 0.5 ? 1 : crossfaderValue * 2) * 100)}%</span>
+          <span className="text-blue-400">A: {Math.round(mixValues.deckAVolume * 100)}%</span>
+          <span className="text-red-400">B: {Math.round(mixValues.deckBVolume * 100)}%</span>
         </div>
 
+        {/* Curve selection */}
+        <CrossfaderCurveEditor
+          curve={crossfaderCurve}
+          cutIn={crossfaderCutIn}
+          customPoints={crossfaderCustomCurve}
+          onCurveChange={setCurve}
+          onCutInChange={setCrossfaderCutIn}
+          onCustomPointsChange={setCrossfaderCustomCurve}
+        />
+
         {/* Quick position buttons */}
         <div className="flex gap-2 w-full mt-1">
           <Button
@@ -1,4 +1,5 @@
 import { useDJStore } from '../stores/djStore';
+import { hasConnectedMidiDevice } from '../midi/midiDevices';
 import { DeckControls } from './DeckControls';
 import type { CrossfaderCurve } from '../types';
 
@@ -6,19 +7,27 @@ interface MixerControlsProps {
   className?: string;
 }
 
+const CURVE_LABELS: { value: CrossfaderCurve; label: string }[] = [
+  { value: 'constant-power', label: 'Power' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'center-full', label: 'Full' },
+  { value: 'cut', label: 'Cut' },
+  { value: 'custom', label: 'Custom' },
+];
+
 /**
  * MixerControls component - main DJ mixer interface
  *
  * Features:
  * - Dual deck controls (A and B)
  * - Visual crossfader slider (mouse control)
- * - Crossfader curve selection (linear/cut)
+ * - Crossfader curve selection
  * - MIDI connection status indicator
  */
 export function MixerControls({ className = '' }: MixerControlsProps) {
   const crossfaderValue = useDJStore((state) => state.crossfaderValue);
   const crossfaderCurve = useDJStore((state) => state.crossfaderCurve);
-  const isMidiConnected = useDJStore((state) => state.isMidiConnected);
+  const isMidiConnected = useDJStore(hasConnectedMidiDevice);
   const setCrossfader = useDJStore((state) => state.setCrossfader);
   const setCurve = useDJStore((state) => state.setCurve);
 
@@ -124,27 +133,20 @@ export function MixerControls({ className = '' }: MixerControlsProps) {
           {/* Curve selector */}
           <div className="w-full">
             <div className="text-xs text-gray-500 mb-2 text-center">CURVE</div>
-            <div className="flex gap-1">
-              <button
-                onClick={() => handleCurveChange('linear')}
-                className={`flex-1 px-3 py-2 text-xs rounded transition-colors ${
-                  crossfaderCurve === 'linear'
-                    ? 'bg-purple-600 text-white'
-                    : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
-                }`}
-              >
-                Linear
-              </button>
-              <button
-                onClick={() => handleCurveChange('cut')}
-                className={`flex-1 px-3 py-2 text-xs rounded transition-colors ${
-                  crossfaderCurve === 'cut'
-                    ? 'bg-purple-600 text-white'
-                    : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
-                }`}
-              >
-                Cut
-              </button>
+            <div className="flex flex-wrap gap-1">
+              {CURVE_LABELS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => handleCurveChange(value)}
+                  className={`flex-1 px-3 py-2 text-xs rounded transition-colors ${
+                    crossfaderCurve === value
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
           </div>
 
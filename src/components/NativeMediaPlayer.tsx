@@ -0,0 +1,200 @@
+import { useEffect, useRef, useCallback } from 'react';
+import type { MediaKind } from '../types';
+
+// Max allowed drift from the audio engine's clock before the player is pulled back (seconds)
+const CLOCK_DRIFT_THRESHOLD = 0.3;
+
+interface NativeMediaPlayerProps {
+  src: string;
+  mediaKind: MediaKind;
+  opacity: number;
+  volume: number; // 0-1 normalized
+  playing: boolean;
+  seekTo?: number | null; // Target time to seek to
+  playbackRate?: number; // Playback speed (0.5-2.0, default 1.0)
+  loop?: { start: number; end: number } | null; // Active loop region (seconds)
+  clockTime?: number | null; // Position to follow while the audio engine is the clock (null = report own time)
+  onTimeUpdate?: (currentTime: number, duration: number) => void;
+  onSeekComplete?: () => void;
+  className?: string;
+}
+
+/**
+ * NativeMediaPlayer component - <video>/<audio> element player for deck
+ * sources that aren't YouTube (dropped files, provider audio streams)
+ *
+ * Takes the same playback props as VideoPlayer (play state, seeking, rate,
+ * volume, opacity, loop) and reports time the same way, so decks behave
+ * identically whatever the track's source, including following the audio
+ * engine's clock. Audio-only media shows a placeholder in the video mix.
+ */
+export function NativeMediaPlayer({
+  src,
+  mediaKind,
+  opacity,
+  volume,
+  playing,
+  seekTo,
+  playbackRate = 1.0,
+  loop = null,
+  clockTime = null,
+  onTimeUpdate,
+  onSeekComplete,
+  className = '',
+}: NativeMediaPlayerProps) {
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  // Latest seek target, applied once the media's metadata has loaded
+  const pendingSeekRef = useRef<number | null>(null);
+  // Audio engine position being followed (null = this player is the clock)
+  const clockTimeRef = useRef<number | null>(null);
+
+  // One ref for either element type
+  const setMediaElement = useCallback((element: HTMLMediaElement | null) => {
+    mediaRef.current = element;
+  }, []);
+
+  const reportTime = useCallback(() => {
+    const media = mediaRef.current;
+    if (!media || clockTimeRef.current !== null) return;
+    onTimeUpdate?.(media.currentTime, Number.isFinite(media.duration) ? media.duration : 0);
+  }, [onTimeUpdate]);
+
+  /**
+   * Apply a pending seek and the current props once the media is loaded
+   */
+  const handleLoadedMetadata = useCallback(() => {
+    const media = mediaRef.current;
+    if (!media) return;
+
+    const pendingSeek = pendingSeekRef.current;
+    if (pendingSeek !== null) {
+      media.currentTime = pendingSeek;
+      console.log(`[NativePlayer] Applying pending seek to ${pendingSeek}s`);
+      onSeekComplete?.();
+    }
+    media.playbackRate = playbackRate;
+    media.volume = Math.max(0, Math.min(1, volume));
+    if (playing) {
+      media.play().catch((error) => console.error('[NativePlayer] Playback error:', error));
+    }
+    reportTime();
+  }, [playing, playbackRate, volume, onSeekComplete, reportTime]);
+
+  /**
+   * Handle seeking
+   */
+  useEffect(() => {
+    pendingSeekRef.current = seekTo ?? null;
+    const media = mediaRef.current;
+    if (seekTo === null || seekTo === undefined || !media) return;
+    if (media.readyState < HTMLMediaElement.HAVE_METADATA) return;
+
+    media.currentTime = seekTo;
+    console.log(`[NativePlayer] Seeking to ${seekTo}s`);
+    onSeekComplete?.();
+  }, [seekTo, onSeekComplete]);
+
+  /**
+   * Control playback based on playing prop
+   */
+  useEffect(() => {
+    const media = mediaRef.current;
+    if (!media || media.readyState < HTMLMediaElement.HAVE_METADATA) return;
+
+    if (playing) {
+      media.play().catch((error) => console.error('[NativePlayer] Playback error:', error));
+    } else {
+      media.pause();
+    }
+  }, [playing]);
+
+  /**
+   * Control volume based on volume prop
+   */
+  useEffect(() => {
+    if (mediaRef.current) {
+      mediaRef.current.volume = Math.max(0, Math.min(1, volume));
+    }
+  }, [volume]);
+
+  /**
+   * Control playback rate (tempo/speed) based on playbackRate prop
+   */
+  useEffect(() => {
+    if (mediaRef.current) {
+      mediaRef.current.playbackRate = playbackRate;
+    }
+  }, [playbackRate]);
+
+  /**
+   * Loop-back scheduling, every animation frame while a loop is active
+   * (timeupdate events are too coarse for short loops)
+   */
+  const loopStart = loop?.start ?? null;
+  const loopEnd = loop?.end ?? null;
+
+  useEffect(() => {
+    if (!playing || loopStart === null || loopEnd === null) return;
+
+    let frameId: number;
+    const checkLoop = () => {
+      const media = mediaRef.current;
+      if (media && media.currentTime >= loopEnd) {
+        media.currentTime = loopStart;
+        reportTime();
+      }
+      frameId = requestAnimationFrame(checkLoop);
+    };
+
+    frameId = requestAnimationFrame(checkLoop);
+    return () => cancelAnimationFrame(frameId);
+  }, [playing, loopStart, loopEnd, reportTime]);
+
+  /**
+   * Follow the audio engine's clock, pulling the (muted) player back when it
+   * drifts from the engine's position
+   */
+  useEffect(() => {
+    clockTimeRef.current = clockTime;
+    const media = mediaRef.current;
+    if (clockTime === null || !media || media.readyState < HTMLMediaElement.HAVE_METADATA) return;
+
+    if (Math.abs(media.currentTime - clockTime) > CLOCK_DRIFT_THRESHOLD) {
+      media.currentTime = clockTime;
+    }
+  }, [clockTime]);
+
+  return (
+    <div
+      className={`absolute inset-0 transition-opacity duration-100 ${className}`}
+      style={{ opacity }}
+    >
+      {mediaKind === 'video' ? (
+        <video
+          ref={setMediaElement}
+          src={src}
+          preload="auto"
+          playsInline
+          onLoadedMetadata={handleLoadedMetadata}
+          onTimeUpdate={reportTime}
+          onDurationChange={reportTime}
+          className="w-full h-full object-contain bg-black"
+        />
+      ) : (
+        <>
+          <audio
+            ref={setMediaElement}
+            src={src}
+            preload="auto"
+            onLoadedMetadata={handleLoadedMetadata}
+            onTimeUpdate={reportTime}
+            onDurationChange={reportTime}
+          />
+          <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-neutral-900 to-black text-neutral-600">
+            <span className="text-6xl">♪</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,37 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { useDJStore } from '../stores/djStore';
+import { SingerRotationPanel } from './SingerRotationPanel';
+import { getHarmonicRelation, HARMONIC_RELATION_LABELS, type HarmonicRelation } from '../utils/harmonic';
+import { getProviderOfTrack, TRACK_PROVIDER_LABELS } from '../utils/trackProviders';
+import {
+  appendSearchPage,
+  buildSearchUrl,
+  countActiveFilters,
+  SEARCH_DURATION_LABELS,
+  SEARCH_KEYWORD_LABELS,
+  SEARCH_SORT_LABELS,
+  SEARCH_UPLOAD_DATE_LABELS,
+} from '../utils/trackSearch';
+import {
+  DEFAULT_SEARCH_FILTERS,
+  type MusicalKey,
+  type SearchDurationFilter,
+  type SearchFilters,
+  type SearchKeyword,
+  type SearchPage,
+  type SearchSort,
+  type SearchUploadDateFilter,
+  type Track,
+  type TrackProviderId,
+} from '../types';
 
-interface Track {
-  id: string;
-  videoId: string;
-  title: string;
-  thumbnail: string;
-  duration: string;
-  channel: string;
+/** A playing deck a queued track mixes into harmonically */
+interface HarmonicMatch {
+  deck: 'A' | 'B';
+  key: MusicalKey;
+  relation: HarmonicRelation;
 }
 
 interface PlaylistPanelProps {
@@ -18,13 +41,19 @@ interface PlaylistPanelProps {
 }
 
 /**
- * PlaylistPanel component - YouTube search and playlist management
+ * PlaylistPanel component - track search and playlist management
  *
  * Features:
- * - YouTube search via local Vite server API (using youtube-sr)
- * - Search results display with thumbnails
+ * - Search across all enabled track providers (YouTube, the server's local
+ *   music folder) via the local server API, results merged
+ * - Filter chips (karaoke/instrumental, duration, upload date) and sorting
+ * - Search results display with thumbnails and a source badge, more pages
+ *   loading as the list is scrolled to the end
  * - Load to Deck A/B buttons
- * - Playlist queue management
+ * - Playlist queue management (kept in the store so it survives reloads)
+ * - Karaoke singer rotation, with search results added to a singer's requests
+ * - Detected keys, with queue tracks that mix harmonically into a playing
+ *   deck marked
  */
 export function PlaylistPanel({
   onLoadToDeckA,
@@ -33,20 +62,37 @@ export function PlaylistPanel({
 }: PlaylistPanelProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<Track[]>([]);
-  const [playlist, setPlaylist] = useState<Track[]>([]);
+  const [filters, setFilters] = useState<SearchFilters>(DEFAULT_SEARCH_FILTERS);
+  // Query of the listed results and the token of their next page
+  const [searchedQuery, setSearchedQuery] = useState('');
+  const [nextPageToken, setNextPageToken] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const playlist = useDJStore((state) => state.queue);
+  const addToQueue = useDJStore((state) => state.addToQueue);
+  const removeFromQueue = useDJStore((state) => state.removeFromQueue);
+  const addSingerRequest = useDJStore((state) => state.addSingerRequest);
+  const singers = useDJStore((state) => state.singerRotation.singers);
+  const playingKeyA = useDJStore((state) => (state.deckA.playing ? state.deckA.key : null));
+  const playingKeyB = useDJStore((state) => (state.deckB.playing ? state.deckB.key : null));
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'search' | 'playlist'>('search');
+  const [activeTab, setActiveTab] = useState<'search' | 'playlist' | 'singers'>('search');
+  // Singer whose requests search results are added to, instead of the queue
+  const [requestSingerId, setRequestSingerId] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Bumped per search so responses of superseded searches are dropped
+  const searchIdRef = useRef(0);
 
   /**
-   * Search YouTube using local API server
+   * Search all track providers using local API server
    */
-  const searchYouTube = async (query: string): Promise<Track[]> => {
-    const response = await fetch(`/api/youtube/search?q=${encodeURIComponent(query)}`);
+  const searchTracks = async (query: string, searchFilters: SearchFilters, pageToken: string | null = null): Promise<SearchPage> => {
+    const response = await fetch(buildSearchUrl(query, searchFilters, pageToken));
     
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.message || `Search failed: ${response.status}`);
+      throw new Error(errorData.message || errorData.error || `Search failed: ${response.status}`);
     }
     
     const data = await response.json();
@@ -93,21 +139,24 @@ export function PlaylistPanel({
   };
 
   /**
-   * Handle search action
+   * Search for a query with the given filters, replacing the results
    */
-  const handleSearch = useCallback(async () => {
-    if (!searchQuery.trim()) return;
+  const runSearch = useCallback(async (query: string, searchFilters: SearchFilters) => {
+    if (!query.trim()) return;
 
+    const searchId = ++searchIdRef.current;
     setLoading(true);
     setError(null);
+    setNextPageToken(null);
 
     try {
       // First, check if input is a YouTube URL or video ID
-      const videoId = extractVideoId(searchQuery.trim());
+      const videoId = extractVideoId(query.trim());
       
       if (videoId) {
         // Direct video lookup
         const track = await lookupVideoById(videoId);
+        if (searchId !== searchIdRef.current) return;
         if (track) {
           setSearchResults([track]);
         } else {
@@ -119,25 +168,98 @@ export function PlaylistPanel({
             thumbnail: `https://i.ytimg.com/vi/${videoId}/mqdefault.jpg`,
             duration: '--:--',
             channel: 'YouTube',
+            provider: 'youtube',
           }]);
         }
       } else {
         // Regular search
-        const tracks = await searchYouTube(searchQuery);
-        setSearchResults(tracks);
+        const page = await searchTracks(query, searchFilters);
+        if (searchId !== searchIdRef.current) return;
+        setSearchResults(page.results);
+        setSearchedQuery(query);
+        setNextPageToken(page.nextPageToken);
+        listRef.current?.scrollTo({ top: 0 });
         
-        if (tracks.length === 0) {
-          setError('No results found. Try different keywords.');
+        if (page.results.length === 0) {
+          setError(countActiveFilters(searchFilters) > 0
+            ? 'No results found. Try different keywords or fewer filters.'
+            : 'No results found. Try different keywords.');
         }
       }
     } catch (err) {
+      if (searchId !== searchIdRef.current) return;
       console.error('Search error:', err);
       setError(err instanceof Error ? err.message : 'Search failed. Please try again.');
       setSearchResults([]);
     } finally {
-      setLoading(false);
+      if (searchId === searchIdRef.current) {
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  /**
+   * Handle search action
+   */
+  const handleSearch = () => {
+    runSearch(searchQuery, filters);
+  };
+
+  /**
+   * Change the filters, searching again when there is a query
+   */
+  const updateFilters = (changes: Partial<SearchFilters>) => {
+    const nextFilters = { ...filters, ...changes };
+    setFilters(nextFilters);
+    runSearch(searchQuery, nextFilters);
+  };
+
+  const toggleKeyword = (keyword: SearchKeyword) => {
+    updateFilters({
+      keywords: filters.keywords.includes(keyword)
+        ? filters.keywords.filter((k) => k !== keyword)
+        : [...filters.keywords, keyword],
+    });
+  };
+
+  /**
+   * Load the next page of the current search onto the results
+   */
+  const loadMore = useCallback(async () => {
+    if (!nextPageToken || loading || loadingMore) return;
+
+    const searchId = searchIdRef.current;
+    setLoadingMore(true);
+
+    try {
+      const page = await searchTracks(searchedQuery, filters, nextPageToken);
+      if (searchId !== searchIdRef.current) return;
+      setSearchResults((results) => appendSearchPage(results, page.results, filters.sort));
+      setNextPageToken(page.nextPageToken);
+    } catch (err) {
+      if (searchId !== searchIdRef.current) return;
+      console.error('Search error:', err);
+      setError(err instanceof Error ? err.message : 'Loading more results failed.');
+      setNextPageToken(null);
+    } finally {
+      setLoadingMore(false);
     }
-  }, [searchQuery]);
+  }, [nextPageToken, loading, loadingMore, searchedQuery, filters]);
+
+  // Load the next page when the end of the results scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || activeTab !== 'search' || !nextPageToken) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) loadMore();
+      },
+      { root: listRef.current, rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [activeTab, nextPageToken, loadMore]);
 
   /**
    * Handle Enter key in search input
@@ -148,22 +270,49 @@ export function PlaylistPanel({
     }
   };
 
+  const requestSinger = singers.find((singer) => singer.id === requestSingerId);
+
   /**
-   * Add track to playlist
+   * Add track to playlist, or to the picked singer's requests
    */
   const addToPlaylist = (track: Track) => {
-    setPlaylist((prev) => [...prev, { ...track, id: `${track.videoId}-${Date.now()}` }]);
+    if (requestSinger) {
+      addSingerRequest(requestSinger.id, track);
+      return;
+    }
+    addToQueue(track);
+  };
+
+  /**
+   * Add search results for a singer from now on
+   */
+  const addSongsFor = (singerId: string) => {
+    setRequestSingerId(singerId);
+    setActiveTab('search');
   };
 
   /**
    * Remove track from playlist
    */
   const removeFromPlaylist = (trackId: string) => {
-    setPlaylist((prev) => prev.filter((t) => t.id !== trackId));
+    removeFromQueue(trackId);
   };
 
   const displayTracks = activeTab === 'search' ? searchResults : playlist;
 
+  /**
+   * Playing decks a queued track is harmonically compatible with
+   */
+  const getHarmonicMatches = (track: Track): HarmonicMatch[] => {
+    if (!track.key) return [];
+    const trackKey = track.key;
+    const playing: [HarmonicMatch['deck'], MusicalKey | null][] = [['A', playingKeyA], ['B', playingKeyB]];
+    return playing.flatMap(([deck, key]) => {
+      const relation = key ? getHarmonicRelation(key, trackKey) : null;
+      return key && relation ? [{ deck, key, relation }] : [];
+    });
+  };
+
   return (
     <div className={`flex flex-col bg-neutral-900/95 border border-neutral-700/50 rounded-xl shadow-2xl backdrop-blur-sm ${className}`}>
       {/* Header with search */}
@@ -177,11 +326,11 @@ export function PlaylistPanel({
         </div>
 
         {/* Search Input */}
-        <div className="flex gap-2 mb-4">
+        <div className="flex gap-2 mb-3">
           <div className="relative flex-1">
             <Input
               type="text"
-              placeholder="Search YouTube or paste video URL..."
+              placeholder="Search tracks or paste a YouTube URL..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               onKeyDown={handleKeyDown}
@@ -204,6 +353,61 @@ export function PlaylistPanel({
           </Button>
         </div>
 
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-1.5 mb-4">
+          {(Object.keys(SEARCH_KEYWORD_LABELS) as SearchKeyword[]).map((keyword) => (
+            <FilterChip
+              key={keyword}
+              active={filters.keywords.includes(keyword)}
+              onClick={() => toggleKeyword(keyword)}
+              title={`Only ${SEARCH_KEYWORD_LABELS[keyword].toLowerCase()} versions`}
+            >
+              {SEARCH_KEYWORD_LABELS[keyword]}
+            </FilterChip>
+          ))}
+          <span className="w-px h-4 mx-0.5 bg-neutral-700" />
+          {(Object.keys(SEARCH_DURATION_LABELS) as SearchDurationFilter[])
+            .filter((duration) => duration !== 'any')
+            .map((duration) => (
+              <FilterChip
+                key={duration}
+                active={filters.duration === duration}
+                onClick={() => updateFilters({ duration: filters.duration === duration ? 'any' : duration })}
+                title="Filter by length"
+              >
+                {SEARCH_DURATION_LABELS[duration]}
+              </FilterChip>
+            ))}
+          <select
+            value={filters.uploaded}
+            onChange={(e) => updateFilters({ uploaded: e.target.value as SearchUploadDateFilter })}
+            title="Upload date"
+            className={`ml-auto px-1.5 py-0.5 rounded-full text-[10px] font-semibold bg-neutral-800/50 border focus:outline-none ${
+              filters.uploaded !== 'any' ? 'border-red-500/60 text-red-300' : 'border-neutral-700/50 text-neutral-400'
+            }`}
+          >
+            {Object.entries(SEARCH_UPLOAD_DATE_LABELS).map(([uploaded, label]) => (
+              <option key={uploaded} value={uploaded}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.sort}
+            onChange={(e) => updateFilters({ sort: e.target.value as SearchSort })}
+            title="Sort results"
+            className={`px-1.5 py-0.5 rounded-full text-[10px] font-semibold bg-neutral-800/50 border focus:outline-none ${
+              filters.sort !== 'relevance' ? 'border-red-500/60 text-red-300' : 'border-neutral-700/50 text-neutral-400'
+            }`}
+          >
+            {Object.entries(SEARCH_SORT_LABELS).map(([sort, label]) => (
+              <option key={sort} value={sort}>
+                ↕ {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
         {/* Tabs */}
         <div className="flex gap-2 p-1 bg-neutral-800/50 rounded-lg">
           <Button
@@ -215,7 +419,7 @@ export function PlaylistPanel({
                 : 'text-neutral-400 hover:text-white hover:bg-neutral-700/50'
             }`}
           >
-            SEARCH ({searchResults.length})
+            SEARCH ({searchResults.length}{nextPageToken ? '+' : ''})
           </Button>
           <Button
             variant="ghost"
@@ -228,11 +432,22 @@ export function PlaylistPanel({
           >
             QUEUE ({playlist.length})
           </Button>
+          <Button
+            variant="ghost"
+            onClick={() => setActiveTab('singers')}
+            className={`flex-1 px-4 py-2 text-xs font-semibold rounded-md transition-all ${
+              activeTab === 'singers'
+                ? 'bg-red-600 text-white shadow-lg shadow-red-600/30 hover:bg-red-600'
+                : 'text-neutral-400 hover:text-white hover:bg-neutral-700/50'
+            }`}
+          >
+            SINGERS ({singers.length})
+          </Button>
         </div>
       </div>
 
       {/* Track list */}
-      <div className="flex-1 overflow-y-auto min-h-0 scrollbar-thin scrollbar-thumb-neutral-700 scrollbar-track-transparent">
+      <div ref={listRef} className="flex-1 overflow-y-auto min-h-0 scrollbar-thin scrollbar-thumb-neutral-700 scrollbar-track-transparent">
         {error && (
           <div className="mx-4 mt-3 px-3 py-2.5 text-xs text-amber-300 bg-amber-900/30 border border-amber-700/30 rounded-lg flex items-center gap-2">
             <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -241,7 +456,27 @@ export function PlaylistPanel({
             {error}
           </div>
         )}
-        {displayTracks.length === 0 ? (
+        {activeTab === 'search' && requestSinger && (
+          <div className="mx-3 mt-3 px-3 py-2 text-xs text-red-300 bg-red-900/20 border border-red-700/30 rounded-lg flex items-center gap-2">
+            🎤 Adding songs for <span className="font-semibold text-white">{requestSinger.name}</span>
+            <button
+              type="button"
+              onClick={() => setRequestSingerId(null)}
+              title="Add to the queue instead"
+              className="ml-auto text-neutral-400 hover:text-white"
+            >
+              ✕
+            </button>
+          </div>
+        )}
+        {activeTab === 'singers' ? (
+          <SingerRotationPanel
+            onLoadToDeckA={onLoadToDeckA}
+            onLoadToDeckB={onLoadToDeckB}
+            requestSingerId={requestSinger ? requestSinger.id : null}
+            onAddSongsFor={addSongsFor}
+          />
+        ) : displayTracks.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full text-neutral-500 p-8">
             <svg className="w-12 h-12 mb-3 text-neutral-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
@@ -268,13 +503,20 @@ export function PlaylistPanel({
                 onAddToPlaylist={
                   activeTab === 'search' ? () => addToPlaylist(track) : undefined
                 }
+                addTitle={requestSinger ? `Add for ${requestSinger.name}` : 'Add to queue'}
                 onRemove={
                   activeTab === 'playlist'
                     ? () => removeFromPlaylist(track.id)
                     : undefined
                 }
+                harmonicMatches={activeTab === 'playlist' ? getHarmonicMatches(track) : []}
               />
             ))}
+            {activeTab === 'search' && nextPageToken && (
+              <div ref={loadMoreRef} className="py-3 text-center text-xs text-neutral-500">
+                {loadingMore ? 'Loading more...' : ''}
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -282,6 +524,42 @@ export function PlaylistPanel({
   );
 }
 
+/**
+ * Toggleable search filter chip
+ */
+function FilterChip({
+  active,
+  onClick,
+  title,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={title}
+      className={`px-2 py-0.5 rounded-full text-[10px] font-semibold border transition-all ${
+        active
+          ? 'bg-red-600/20 border-red-500/60 text-red-300'
+          : 'bg-neutral-800/50 border-neutral-700/50 text-neutral-400 hover:text-white hover:border-neutral-500'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/** Source badge colors per provider */
+const PROVIDER_BADGE_CLASSES: Record<TrackProviderId, string> = {
+  youtube: 'bg-red-600/90 text-white',
+  local: 'bg-emerald-600/90 text-white',
+};
+
 /**
  * Individual track item component
  */
@@ -290,26 +568,42 @@ function TrackItem({
   onLoadToDeckA,
   onLoadToDeckB,
   onAddToPlaylist,
+  addTitle,
   onRemove,
+  harmonicMatches,
 }: {
   track: Track;
   onLoadToDeckA: () => void;
   onLoadToDeckB: () => void;
   onAddToPlaylist?: () => void;
+  addTitle: string;
   onRemove?: () => void;
+  harmonicMatches: HarmonicMatch[];
 }) {
+  const provider = getProviderOfTrack(track);
+
   return (
     <div className="flex items-center gap-3 p-2.5 bg-neutral-800/40 hover:bg-neutral-800/80 rounded-lg transition-all group cursor-pointer border border-transparent hover:border-neutral-700/50">
       {/* Thumbnail */}
       <div className="relative w-20 h-14 flex-shrink-0 bg-neutral-900 rounded-md overflow-hidden shadow-md">
-        <img
-          src={track.thumbnail}
-          alt={track.title}
-          className="w-full h-full object-cover"
-          onError={(e) => {
-            (e.target as HTMLImageElement).src = `https://i.ytimg.com/vi/${track.videoId}/default.jpg`;
-          }}
-        />
+        {track.thumbnail ? (
+          <img
+            src={track.thumbnail}
+            alt={track.title}
+            className="w-full h-full object-cover"
+            onError={(e) => {
+              (e.target as HTMLImageElement).src = `https://i.ytimg.com/vi/${track.videoId}/default.jpg`;
+            }}
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-2xl text-neutral-600">♪</div>
+        )}
+        <span
+          className={`absolute top-1 left-1 px-1 rounded text-[9px] font-bold uppercase tracking-wide ${PROVIDER_BADGE_CLASSES[provider]}`}
+          title={`Source: ${TRACK_PROVIDER_LABELS[provider]}`}
+        >
+          {TRACK_PROVIDER_LABELS[provider]}
+        </span>
         <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent" />
         <span className="absolute bottom-1 right-1 px-1.5 py-0.5 bg-black/90 text-[10px] text-white font-medium rounded">
           {track.duration}
@@ -322,6 +616,27 @@ function TrackItem({
           {track.title}
         </div>
         <div className="text-xs text-neutral-400 truncate mt-0.5">{track.channel}</div>
+        {(track.key || harmonicMatches.length > 0) && (
+          <div className="flex items-center gap-1 mt-1">
+            {track.key && (
+              <span
+                className="px-1 rounded bg-neutral-900/80 text-[10px] font-bold font-mono text-neutral-300"
+                title={`Key: ${track.key.name} (${track.key.camelot})`}
+              >
+                {track.key.name} · {track.key.camelot}
+              </span>
+            )}
+            {harmonicMatches.map(({ deck, key, relation }) => (
+              <span
+                key={deck}
+                className="px-1 rounded bg-green-900/40 border border-green-700/40 text-[10px] font-bold text-green-400"
+                title={`${HARMONIC_RELATION_LABELS[relation]} to Deck ${deck} (${key.name} / ${key.camelot})`}
+              >
+                ♪ MIXES WITH {deck}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Actions */}
@@ -332,7 +647,7 @@ function TrackItem({
             size="icon-sm"
             onClick={(e) => { e.stopPropagation(); onAddToPlaylist(); }}
             className="p-2 text-neutral-400 hover:text-white bg-neutral-700/50 hover:bg-neutral-600"
-            title="Add to queue"
+            title={addTitle}
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
@@ -370,5 +685,3 @@ function TrackItem({
     </div>
   );
 }
-
-export type { Track };
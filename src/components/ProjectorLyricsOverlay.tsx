@@ -0,0 +1,89 @@
+import type { CSSProperties } from 'react';
+import { usePlaybackTime } from '../hooks/usePlaybackTime';
+import { getActiveLineIndex, getWipeSegments } from '../utils/lyrics';
+import type { DeckState, LyricsOverlayFont, LyricsOverlayPosition, ProjectorLyricsSettings } from '../types';
+
+interface ProjectorLyricsOverlayProps {
+  deck: Pick<DeckState, 'lyrics' | 'currentTime' | 'playing' | 'playbackRate'>;
+  settings: ProjectorLyricsSettings;
+  className?: string;
+}
+
+const LYRICS_FONT_FAMILIES: Record<LyricsOverlayFont, string> = {
+  sans: 'ui-sans-serif, system-ui, sans-serif',
+  serif: 'Georgia, Cambria, "Times New Roman", serif',
+  rounded: '"Arial Rounded MT Bold", "Nunito", ui-rounded, system-ui, sans-serif',
+  condensed: 'Impact, Haettenschweiler, "Arial Narrow Bold", sans-serif',
+};
+
+const POSITION_CLASSES: Record<LyricsOverlayPosition, string> = {
+  top: 'top-[6%]',
+  middle: 'top-1/2 -translate-y-1/2',
+  bottom: 'bottom-[8%]',
+};
+
+/**
+ * Outline drawn with text shadows in eight directions (works with the
+ * clipped wipe layer, unlike text-stroke)
+ */
+function outlineShadow(width: number): string | undefined {
+  if (width <= 0) return undefined;
+  const offsets = [-1, 0, 1].flatMap((x) => [-1, 0, 1].map((y) => [x, y])).filter(([x, y]) => x || y);
+  return offsets.map(([x, y]) => `${x * width}px ${y * width}px 0 #000`).join(', ');
+}
+
+/**
+ * ProjectorLyricsOverlay - karaoke lyrics over the projector video
+ *
+ * Shows the current line with a color wipe (word by word for word-timed
+ * lyrics) and the next line below it. Only synced lyrics are shown.
+ */
+export function ProjectorLyricsOverlay({ deck, settings, className = '' }: ProjectorLyricsOverlayProps) {
+  const time = usePlaybackTime(deck);
+  const { lines } = deck.lyrics;
+  const activeIndex = getActiveLineIndex(deck.lyrics, time);
+  const current = lines[activeIndex];
+  const next = lines[activeIndex + 1];
+
+  if (!deck.lyrics.synced || (!current && !next)) return null;
+
+  const textStyle: CSSProperties = {
+    fontFamily: LYRICS_FONT_FAMILIES[settings.font],
+    textShadow: outlineShadow(settings.outline),
+  };
+
+  return (
+    <div
+      className={`absolute left-1/2 -translate-x-1/2 w-[90%] flex flex-col items-center gap-[0.4em] px-[0.8em] py-[0.4em] rounded-2xl text-center font-bold leading-tight pointer-events-none ${POSITION_CLASSES[settings.position]} ${className}`}
+      style={{ fontSize: `${settings.size}vh`, backgroundColor: `rgba(0, 0, 0, ${settings.background})` }}
+    >
+      {/* Current line (instrumental breaks show a note) */}
+      <div style={textStyle}>
+        {current &&
+          (current.text ? (
+            getWipeSegments(current, next?.time ?? null, time).map((segment, i) => (
+              <span key={i} className="relative inline-block whitespace-pre">
+                <span style={{ color: settings.textColor }}>{segment.text}</span>
+                <span
+                  aria-hidden
+                  className="absolute inset-y-0 left-0 overflow-hidden whitespace-pre"
+                  style={{ width: `${segment.fill * 100}%`, color: settings.wipeColor }}
+                >
+                  {segment.text}
+                </span>
+              </span>
+            ))
+          ) : (
+            <span style={{ color: settings.textColor }}>♪</span>
+          ))}
+      </div>
+
+      {/* Next line */}
+      {next?.text && (
+        <div className="text-[0.75em] opacity-70" style={{ ...textStyle, color: settings.textColor }}>
+          {next.text}
+        </div>
+      )}
+    </div>
+  );
+}
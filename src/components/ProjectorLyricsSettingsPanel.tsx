@@ -0,0 +1,174 @@
+import { Button } from '@/components/ui/button';
+import { useDJStore } from '../stores/djStore';
+import { DEFAULT_PROJECTOR_LYRICS } from '../types';
+import type { LyricsOverlayFont, LyricsOverlayPosition } from '../types';
+
+interface ProjectorLyricsSettingsPanelProps {
+  onClose: () => void;
+}
+
+const FONT_LABELS: Record<LyricsOverlayFont, string> = {
+  sans: 'Sans',
+  serif: 'Serif',
+  rounded: 'Rounded',
+  condensed: 'Condensed',
+};
+
+const POSITION_LABELS: Record<LyricsOverlayPosition, string> = {
+  top: 'Top',
+  middle: 'Middle',
+  bottom: 'Bottom',
+};
+
+/**
+ * ProjectorLyricsSettingsPanel - look of the karaoke lyrics on the projector
+ *
+ * Changes reach the projector window live through the broadcast sync.
+ */
+export function ProjectorLyricsSettingsPanel({ onClose }: ProjectorLyricsSettingsPanelProps) {
+  const settings = useDJStore((state) => state.projectorLyrics);
+  const setProjectorLyrics = useDJStore((state) => state.setProjectorLyrics);
+
+  const optionClass = (active: boolean) =>
+    `h-7 px-2.5 text-[10px] font-semibold rounded ${
+      active ? 'bg-red-600 text-white hover:bg-red-600' : 'bg-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-700'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-[26rem] flex flex-col bg-neutral-900 border border-neutral-700/50 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-neutral-700/50">
+          <span className="text-xs font-semibold text-neutral-300 uppercase tracking-wider">Projector Lyrics</span>
+          <Button variant="ghost" onClick={onClose} className="ml-auto h-7 px-2 text-xs text-neutral-400 hover:text-white">
+            ✕
+          </Button>
+        </div>
+
+        <div className="flex flex-col gap-3 px-4 py-4 text-xs text-neutral-300">
+          <SettingRow label="Show">
+            <Button variant="ghost" onClick={() => setProjectorLyrics({ enabled: !settings.enabled })} className={optionClass(settings.enabled)}>
+              {settings.enabled ? 'ON' : 'OFF'}
+            </Button>
+          </SettingRow>
+
+          <SettingRow label="Font">
+            {(Object.keys(FONT_LABELS) as LyricsOverlayFont[]).map((font) => (
+              <Button key={font} variant="ghost" onClick={() => setProjectorLyrics({ font })} className={optionClass(settings.font === font)}>
+                {FONT_LABELS[font]}
+              </Button>
+            ))}
+          </SettingRow>
+
+          <SettingRow label="Position">
+            {(Object.keys(POSITION_LABELS) as LyricsOverlayPosition[]).map((position) => (
+              <Button
+                key={position}
+                variant="ghost"
+                onClick={() => setProjectorLyrics({ position })}
+                className={optionClass(settings.position === position)}
+              >
+                {POSITION_LABELS[position]}
+              </Button>
+            ))}
+          </SettingRow>
+
+          <SettingRow label="Size">
+            <RangeSetting value={settings.size} min={3} max={12} step={0.5} onChange={(size) => setProjectorLyrics({ size })} format={(v) => `${v}%`} />
+          </SettingRow>
+
+          <SettingRow label="Outline">
+            <RangeSetting value={settings.outline} min={0} max={8} step={1} onChange={(outline) => setProjectorLyrics({ outline })} format={(v) => `${v}px`} />
+          </SettingRow>
+
+          <SettingRow label="Background">
+            <RangeSetting
+              value={settings.background}
+              min={0}
+              max={1}
+              step={0.05}
+              onChange={(background) => setProjectorLyrics({ background })}
+              format={(v) => `${Math.round(v * 100)}%`}
+            />
+          </SettingRow>
+
+          <SettingRow label="Colors">
+            <label className="flex items-center gap-1.5 text-[10px] text-neutral-400">
+              <input
+                type="color"
+                value={settings.textColor}
+                onChange={(e) => setProjectorLyrics({ textColor: e.target.value })}
+                className="w-7 h-6 bg-transparent border border-neutral-700 rounded cursor-pointer"
+              />
+              Text
+            </label>
+            <label className="flex items-center gap-1.5 text-[10px] text-neutral-400">
+              <input
+                type="color"
+                value={settings.wipeColor}
+                onChange={(e) => setProjectorLyrics({ wipeColor: e.target.value })}
+                className="w-7 h-6 bg-transparent border border-neutral-700 rounded cursor-pointer"
+              />
+              Wipe
+            </label>
+          </SettingRow>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center gap-2 px-4 py-3 border-t border-neutral-700/50">
+          <span className="text-[10px] text-neutral-500">Synced lyrics of the deck the crossfader favors</span>
+          <Button
+            variant="ghost"
+            onClick={() => setProjectorLyrics(DEFAULT_PROJECTOR_LYRICS)}
+            className="ml-auto h-7 px-3 text-[10px] font-semibold bg-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-700"
+          >
+            RESET
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SettingRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-20 text-[10px] text-neutral-500 uppercase tracking-wider">{label}</span>
+      <div className="flex flex-1 items-center gap-1.5">{children}</div>
+    </div>
+  );
+}
+
+function RangeSetting({
+  value,
+  min,
+  max,
+  step,
+  onChange,
+  format,
+}: {
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+  format: (value: number) => string;
+}) {
+  return (
+    <>
+      <input
+        type="range"
+        value={value}
+        min={min}
+        max={max}
+        step={step}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="flex-1 accent-red-500"
+      />
+      <span className="w-10 text-right font-mono text-[10px] text-neutral-400">{format(value)}</span>
+    </>
+  );
+}
@@ -1,9 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
 import { VideoPlayer } from './VideoPlayer';
+import { ProjectorLyricsOverlay } from './ProjectorLyricsOverlay';
 import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
 import { applyCurve } from '../utils/crossfaderCurve';
+import { getAudibleLyricsDeck } from '../utils/lyrics';
 import { DEFAULT_DJ_STATE } from '../types';
-import type { DJStoreState, BroadcastMessage } from '../types';
+import type { BroadcastMessage, ProjectorState } from '../types';
 
 /**
  * ProjectorView component - fullscreen display for external monitor
@@ -15,12 +17,13 @@ import type { DJStoreState, BroadcastMessage } from '../types';
  * Features:
  * - Fullscreen video display (user presses F11)
  * - Dual YouTube players with crossfade
+ * - Karaoke lyrics of the audible deck (following the crossfader)
  * - No UI controls - pure visual output
  * - Syncs state from main window
  */
 export function ProjectorView() {
   // Local state that mirrors the main store
-  const [state, setState] = useState<DJStoreState>(DEFAULT_DJ_STATE);
+  const [state, setState] = useState<ProjectorState>(DEFAULT_DJ_STATE);
 
   /**
    * Handle incoming broadcast messages
@@ -52,7 +55,13 @@ export function ProjectorView() {
   }, [postMessage]);
 
   // Calculate mix values
-  const mixValues = applyCurve(state.crossfaderValue, state.crossfaderCurve);
+  const mixValues = applyCurve(state.crossfaderValue, state.crossfaderCurve, {
+    cutIn: state.crossfaderCutIn,
+    customPoints: state.crossfaderCustomCurve,
+  });
+
+  // Lyrics belong to whichever deck the audience hears
+  const lyricsDeck = getAudibleLyricsDeck(state.deckA, state.deckB, mixValues);
 
   return (
     <div className="w-screen h-screen bg-black overflow-hidden">
@@ -61,8 +70,9 @@ export function ProjectorView() {
         {/* Deck A */}
         <VideoPlayer
           videoId={state.deckA.videoId}
+          source={state.deckA.source}
           opacity={mixValues.deckAOpacity}
-          volume={mixValues.deckAVolume}
+          volume={state.deckA.audioSource === 'engine' ? 0 : mixValues.deckAVolume}
           playing={state.deckA.playing}
           className="z-10"
         />
@@ -70,11 +80,21 @@ export function ProjectorView() {
         {/* Deck B */}
         <VideoPlayer
           videoId={state.deckB.videoId}
+          source={state.deckB.source}
           opacity={mixValues.deckBOpacity}
-          volume={mixValues.deckBVolume}
+          volume={state.deckB.audioSource === 'engine' ? 0 : mixValues.deckBVolume}
           playing={state.deckB.playing}
           className="z-20"
         />
+
+        {state.projectorLyrics.enabled && lyricsDeck && (
+          <ProjectorLyricsOverlay
+            key={lyricsDeck}
+            deck={lyricsDeck === 'A' ? state.deckA : state.deckB}
+            settings={state.projectorLyrics}
+            className="z-30"
+          />
+        )}
       </div>
 
       {/* Minimal status indicator (fades out after a few seconds) */}
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useDJStore } from '../stores/djStore';
+
+interface SavedDeck {
+  deck: 'A' | 'B';
+  title: string;
+  time: number;
+}
+
+/**
+ * Format seconds as m:ss
+ */
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Snapshot the decks restored from the saved session
+ * Taken once on mount, before the players report their own position.
+ */
+function getSavedDecks(): SavedDeck[] {
+  const { deckA, deckB } = useDJStore.getState();
+  const saved: SavedDeck[] = [];
+  if (deckA.videoId) saved.push({ deck: 'A', title: deckA.title || deckA.videoId, time: deckA.currentTime });
+  if (deckB.videoId) saved.push({ deck: 'B', title: deckB.title || deckB.videoId, time: deckB.currentTime });
+  return saved;
+}
+
+/**
+ * ResumeSessionPrompt - offers to pick up the last session after a reload
+ *
+ * Resume seeks both decks back to where they were; Start fresh unloads them.
+ * The queue and mixer settings are kept either way.
+ */
+export function ResumeSessionPrompt() {
+  const [savedDecks, setSavedDecks] = useState<SavedDeck[]>(getSavedDecks);
+  const seekDeckA = useDJStore((state) => state.seekDeckA);
+  const seekDeckB = useDJStore((state) => state.seekDeckB);
+  const discardSession = useDJStore((state) => state.discardSession);
+
+  if (savedDecks.length === 0) return null;
+
+  const handleResume = () => {
+    savedDecks.forEach(({ deck, time }) => {
+      if (deck === 'A') seekDeckA(time);
+      else seekDeckB(time);
+    });
+    console.log('[Session] Resumed last session');
+    setSavedDecks([]);
+  };
+
+  const handleStartFresh = () => {
+    discardSession();
+    console.log('[Session] Discarded last session');
+    setSavedDecks([]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="w-96 p-6 bg-neutral-900 border border-neutral-700/50 rounded-xl shadow-2xl space-y-4">
+        <h2 className="text-lg font-bold text-white">Resume last session?</h2>
+        <ul className="space-y-2">
+          {savedDecks.map(({ deck, title, time }) => (
+            <li key={deck} className="flex items-center gap-2 text-sm">
+              <span className={`font-bold ${deck === 'A' ? 'text-blue-500' : 'text-red-500'}`}>DECK {deck}</span>
+              <span className="flex-1 truncate text-neutral-300">{title}</span>
+              <span className="font-mono text-xs text-neutral-500">{formatTime(time)}</span>
+            </li>
+          ))}
+        </ul>
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            onClick={handleStartFresh}
+            className="text-xs text-neutral-400 hover:text-white"
+          >
+            START FRESH
+          </Button>
+          <Button
+            onClick={handleResume}
+            className="bg-red-600 hover:bg-red-500 text-white text-xs font-semibold shadow-lg shadow-red-600/30"
+          >
+            RESUME
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,354 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useDJStore } from '../stores/djStore';
+import { getIdleDeck, getNextTurn } from '../utils/singerRotation';
+import type { Singer, Track } from '../types';
+
+interface SingerRotationPanelProps {
+  onLoadToDeckA: (track: Track) => void;
+  onLoadToDeckB: (track: Track) => void;
+  /** Singer whose requests search results are added to (null = the queue) */
+  requestSingerId: string | null;
+  /** Pick the singer to add search results for */
+  onAddSongsFor: (singerId: string) => void;
+}
+
+/** What is being dragged: a singer, or a request within a singer's list */
+type DragItem = { kind: 'singer'; index: number } | { kind: 'request'; singerId: string; index: number };
+
+function formatClock(ms: number): string {
+  return new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * SingerRotationPanel - karaoke night singer queue
+ *
+ * Singers sign up and request songs; the rotation decides who is next (see
+ * utils/singerRotation.ts). The next singer's song loads onto the idle deck,
+ * or is preloaded on deck while someone sings, and turns are marked sung or
+ * skipped into the night's history. Singers and their songs reorder by drag
+ * and drop.
+ */
+export function SingerRotationPanel({ onLoadToDeckA, onLoadToDeckB, requestSingerId, onAddSongsFor }: SingerRotationPanelProps) {
+  const rotation = useDJStore((state) => state.singerRotation);
+  const idleDeck = useDJStore((state) =>
+    getIdleDeck(state.deckA, state.deckB, state.singerRotation.up?.deck ?? null)
+  );
+  const addSinger = useDJStore((state) => state.addSinger);
+  const removeSinger = useDJStore((state) => state.removeSinger);
+  const moveSinger = useDJStore((state) => state.moveSinger);
+  const removeSingerRequest = useDJStore((state) => state.removeSingerRequest);
+  const moveSingerRequest = useDJStore((state) => state.moveSingerRequest);
+  const loadSingerTurn = useDJStore((state) => state.loadSingerTurn);
+  const finishSingerTurn = useDJStore((state) => state.finishSingerTurn);
+  const startNewNight = useDJStore((state) => state.startNewNight);
+
+  const [newSinger, setNewSinger] = useState('');
+  const [dragging, setDragging] = useState<DragItem | null>(null);
+  const [confirmNewNight, setConfirmNewNight] = useState(false);
+
+  const next = getNextTurn(rotation);
+  const upSinger = rotation.up ? rotation.singers.find((singer) => singer.id === rotation.up!.singerId) : undefined;
+  const upRequest = upSinger?.requests.find((request) => request.id === rotation.up!.requestId);
+  const onDeckSinger = rotation.onDeck ? rotation.singers.find((singer) => singer.id === rotation.onDeck!.singerId) : undefined;
+  const onDeckRequest = onDeckSinger?.requests.find((request) => request.id === rotation.onDeck!.requestId);
+  // Only one singer waits preloaded at a time
+  const canLoad = next !== null && idleDeck !== null && !rotation.onDeck;
+
+  const handleAddSinger = () => {
+    addSinger(newSinger);
+    setNewSinger('');
+  };
+
+  /**
+   * Load the next singer's song onto the idle deck: they are up, or on
+   * deck while the current singer finishes
+   */
+  const handleLoadNext = () => {
+    if (!canLoad) return;
+    (idleDeck === 'A' ? onLoadToDeckA : onLoadToDeckB)(next.request);
+    loadSingerTurn({ singerId: next.singer.id, requestId: next.request.id, deck: idleDeck });
+    console.log(`[Singers] ${next.singer.name} ${rotation.up ? 'on deck' : 'is up'} on Deck ${idleDeck}: ${next.request.title}`);
+  };
+
+  const handleDrop = (target: DragItem) => {
+    if (dragging?.kind === 'singer' && target.kind === 'singer') {
+      moveSinger(dragging.index, target.index);
+    } else if (dragging?.kind === 'request' && target.kind === 'request' && dragging.singerId === target.singerId) {
+      moveSingerRequest(target.singerId, dragging.index, target.index);
+    }
+    setDragging(null);
+  };
+
+  const handleNewNight = () => {
+    if (!confirmNewNight) {
+      setConfirmNewNight(true);
+      return;
+    }
+    startNewNight();
+    setConfirmNewNight(false);
+  };
+
+  return (
+    <div className="p-3 space-y-3">
+      {/* Sign-up */}
+      <div className="flex gap-2">
+        <Input
+          type="text"
+          placeholder="Singer name..."
+          value={newSinger}
+          onChange={(e) => setNewSinger(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddSinger()}
+          className="h-9 !p-3 bg-neutral-800/80 border-neutral-600/50 text-white placeholder-neutral-500 focus:border-red-500/70 focus:ring-red-500/20"
+        />
+        <Button
+          onClick={handleAddSinger}
+          disabled={!newSinger.trim()}
+          className="h-9 px-4 text-xs bg-red-600 hover:bg-red-500 disabled:bg-neutral-700 text-white font-semibold"
+        >
+          ADD
+        </Button>
+      </div>
+
+      {/* Up now */}
+      {rotation.up && upSinger && upRequest && (
+        <div className="p-2.5 rounded-lg bg-green-900/20 border border-green-700/40">
+          <div className="text-[10px] font-semibold text-green-400 uppercase tracking-wider">
+            Singing on Deck {rotation.up.deck}
+          </div>
+          <div className="flex items-center gap-2 mt-1">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm text-white font-medium truncate">{upSinger.name}</div>
+              <div className="text-xs text-neutral-400 truncate">{upRequest.title}</div>
+            </div>
+            <Button
+              onClick={() => finishSingerTurn(upSinger.id, upRequest.id, 'sung')}
+              className="h-7 px-3 text-[10px] font-semibold bg-green-600 hover:bg-green-500 text-white"
+            >
+              SUNG
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => finishSingerTurn(upSinger.id, upRequest.id, 'skipped')}
+              className="h-7 px-3 text-[10px] font-semibold bg-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-700"
+            >
+              SKIP
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Next up */}
+      <div className="flex items-center gap-2 p-2.5 rounded-lg bg-neutral-800/40 border border-neutral-700/50">
+        <div className="flex-1 min-w-0">
+          <div className="text-[10px] font-semibold text-neutral-500 uppercase tracking-wider">
+            {rotation.onDeck ? `On Deck ${rotation.onDeck.deck}` : 'Next'}
+          </div>
+          {rotation.onDeck && onDeckSinger && onDeckRequest ? (
+            <div className="text-xs text-neutral-300 truncate">
+              <span className="text-white font-medium">{onDeckSinger.name}</span> · {onDeckRequest.title}
+            </div>
+          ) : next ? (
+            <div className="text-xs text-neutral-300 truncate">
+              <span className="text-white font-medium">{next.singer.name}</span> · {next.request.title}
+            </div>
+          ) : (
+            <div className="text-xs text-neutral-500">No requests waiting</div>
+          )}
+        </div>
+        <Button
+          onClick={handleLoadNext}
+          disabled={!canLoad}
+          title={
+            rotation.onDeck
+              ? 'A singer is already on deck'
+              : idleDeck
+                ? `Load the next singer's song onto Deck ${idleDeck}`
+                : 'No free deck'
+          }
+          className={`h-8 px-3 text-[10px] font-bold text-white disabled:bg-neutral-700 ${
+            idleDeck === 'B' ? 'bg-red-600 hover:bg-red-500' : 'bg-blue-600 hover:bg-blue-500'
+          }`}
+        >
+          LOAD {idleDeck && !rotation.onDeck ? `→ DECK ${idleDeck}` : ''}
+        </Button>
+      </div>
+
+      {/* Rotation */}
+      {rotation.singers.length === 0 ? (
+        <div className="py-6 text-center text-xs text-neutral-500">Add singers to start the rotation</div>
+      ) : (
+        <div className="space-y-1.5">
+          {rotation.singers.map((singer, index) => (
+            <SingerItem
+              key={singer.id}
+              singer={singer}
+              position={index + 1}
+              isUp={rotation.up?.singerId === singer.id}
+              loadedRequestIds={[rotation.up?.requestId, rotation.onDeck?.requestId]}
+              isRequestTarget={requestSingerId === singer.id}
+              onDragStart={() => setDragging({ kind: 'singer', index })}
+              onDrop={() => handleDrop({ kind: 'singer', index })}
+              onRequestDragStart={(requestIndex) => setDragging({ kind: 'request', singerId: singer.id, index: requestIndex })}
+              onRequestDrop={(requestIndex) => handleDrop({ kind: 'request', singerId: singer.id, index: requestIndex })}
+              onAddSongs={() => onAddSongsFor(singer.id)}
+              onRemove={() => removeSinger(singer.id)}
+              onRemoveRequest={(requestId) => removeSingerRequest(singer.id, requestId)}
+              onSkip={(requestId) => finishSingerTurn(singer.id, requestId, 'skipped')}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* History */}
+      <div className="pt-2 border-t border-neutral-700/50">
+        <div className="flex items-center gap-2 mb-1.5">
+          <span className="text-[10px] font-semibold text-neutral-500 uppercase tracking-wider">
+            Tonight{rotation.startedAt ? ` since ${formatClock(rotation.startedAt)}` : ''} · {rotation.history.length} turns
+          </span>
+          <Button
+            variant="ghost"
+            onClick={handleNewNight}
+            onBlur={() => setConfirmNewNight(false)}
+            className={`ml-auto h-6 px-2 text-[10px] font-semibold ${
+              confirmNewNight ? 'bg-red-600 text-white hover:bg-red-500' : 'bg-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-700'
+            }`}
+            title="Clear singers and history"
+          >
+            {confirmNewNight ? 'CONFIRM NEW NIGHT' : 'NEW NIGHT'}
+          </Button>
+        </div>
+        {[...rotation.history].reverse().map((entry) => (
+          <div key={entry.id} className="flex items-center gap-2 py-0.5 text-[11px]">
+            <span className="font-mono text-neutral-600">{formatClock(entry.at)}</span>
+            <span className="text-neutral-300 font-medium truncate">{entry.singerName}</span>
+            <span className="flex-1 text-neutral-500 truncate">{entry.track.title}</span>
+            <span className={entry.outcome === 'sung' ? 'text-green-500' : 'text-neutral-600'}>
+              {entry.outcome === 'sung' ? 'SUNG' : 'SKIPPED'}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * A singer in the rotation with their requested songs
+ */
+function SingerItem({
+  singer,
+  position,
+  isUp,
+  loadedRequestIds,
+  isRequestTarget,
+  onDragStart,
+  onDrop,
+  onRequestDragStart,
+  onRequestDrop,
+  onAddSongs,
+  onRemove,
+  onRemoveRequest,
+  onSkip,
+}: {
+  singer: Singer;
+  position: number;
+  isUp: boolean;
+  loadedRequestIds: (string | undefined)[]; // Requests up or on deck
+  isRequestTarget: boolean;
+  onDragStart: () => void;
+  onDrop: () => void;
+  onRequestDragStart: (index: number) => void;
+  onRequestDrop: (index: number) => void;
+  onAddSongs: () => void;
+  onRemove: () => void;
+  onRemoveRequest: (requestId: string) => void;
+  onSkip: (requestId: string) => void;
+}) {
+  return (
+    <div
+      draggable
+      onDragStart={onDragStart}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop();
+      }}
+      className={`p-2 rounded-lg border group cursor-grab ${
+        isUp ? 'bg-green-900/10 border-green-700/40' : 'bg-neutral-800/40 border-transparent hover:border-neutral-700/50'
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        <span className="w-5 text-center font-mono text-xs text-neutral-500">{position}</span>
+        <span className="flex-1 min-w-0 text-sm text-white font-medium truncate">{singer.name}</span>
+        <span
+          className={`px-1 rounded text-[9px] font-bold ${singer.turns === 0 ? 'bg-amber-600/80 text-white' : 'bg-neutral-900/80 text-neutral-400'}`}
+          title={`${singer.turns} turns tonight`}
+        >
+          {singer.turns === 0 ? 'NEW' : `×${singer.turns}`}
+        </span>
+        <Button
+          variant="ghost"
+          onClick={onAddSongs}
+          title="Add songs from search results for this singer"
+          className={`h-6 px-2 text-[10px] font-semibold ${
+            isRequestTarget ? 'bg-red-600 text-white hover:bg-red-600' : 'bg-neutral-700/50 text-neutral-400 hover:text-white hover:bg-neutral-600'
+          }`}
+        >
+          + SONGS
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={onRemove}
+          title="Remove singer"
+          className="opacity-0 group-hover:opacity-100 text-neutral-400 hover:text-red-400 hover:bg-red-900/50"
+        >
+          ✕
+        </Button>
+      </div>
+
+      {singer.requests.map((request, index) => (
+        <div
+          key={request.id}
+          draggable
+          onDragStart={(e) => {
+            e.stopPropagation();
+            onRequestDragStart(index);
+          }}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onRequestDrop(index);
+          }}
+          className="flex items-center gap-2 mt-1 ml-7 px-2 py-1 rounded bg-neutral-900/50 text-xs group/request"
+        >
+          <span className={`flex-1 min-w-0 truncate ${index === 0 ? 'text-neutral-200' : 'text-neutral-500'}`} title={request.title}>
+            {loadedRequestIds.includes(request.id) ? '▶ ' : ''}
+            {request.title}
+          </span>
+          {index === 0 && !loadedRequestIds.includes(request.id) && (
+            <button
+              type="button"
+              onClick={() => onSkip(request.id)}
+              title="Singer not here: skip their turn"
+              className="opacity-0 group-hover/request:opacity-100 text-[10px] font-semibold text-neutral-500 hover:text-white"
+            >
+              SKIP
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => onRemoveRequest(request.id)}
+            title="Remove song"
+            className="opacity-0 group-hover/request:opacity-100 text-neutral-500 hover:text-red-400"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
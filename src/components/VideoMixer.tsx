@@ -2,6 +2,7 @@ import { useMemo, useCallback } from 'react';
 import { VideoPlayer } from './VideoPlayer';
 import { useDJStore } from '../stores/djStore';
 import { applyCurve } from '../utils/crossfaderCurve';
+import { getActiveLoop } from '../utils/loops';
 
 interface VideoMixerProps {
   className?: string;
@@ -10,12 +11,18 @@ interface VideoMixerProps {
 /**
  * VideoMixer component - the core visual mixing engine
  *
- * Contains two overlapping YouTube players with opacity and volume
+ * Contains two overlapping deck players (YouTube embeds, or native players
+ * for files and media URLs) with opacity and volume
  * controlled by the crossfader position and curve type.
+ * When a deck's audio runs through the Web Audio engine, its player is muted
+ * and follows the engine's clock, and the engine applies the crossfader
+ * volume instead.
  */
 export function VideoMixer({ className = '' }: VideoMixerProps) {
   const crossfaderValue = useDJStore((state) => state.crossfaderValue);
   const crossfaderCurve = useDJStore((state) => state.crossfaderCurve);
+  const crossfaderCutIn = useDJStore((state) => state.crossfaderCutIn);
+  const crossfaderCustomCurve = useDJStore((state) => state.crossfaderCustomCurve);
   const deckA = useDJStore((state) => state.deckA);
   const deckB = useDJStore((state) => state.deckB);
   const updateDeckA = useDJStore((state) => state.updateDeckA);
@@ -25,8 +32,12 @@ export function VideoMixer({ className = '' }: VideoMixerProps) {
 
   // Calculate opacity and volume based on crossfader
   const mixValues = useMemo(
-    () => applyCurve(crossfaderValue, crossfaderCurve),
-    [crossfaderValue, crossfaderCurve]
+    () =>
+      applyCurve(crossfaderValue, crossfaderCurve, {
+        cutIn: crossfaderCutIn,
+        customPoints: crossfaderCustomCurve,
+      }),
+    [crossfaderValue, crossfaderCurve, crossfaderCutIn, crossfaderCustomCurve]
   );
 
   // Time update handlers
@@ -43,11 +54,14 @@ export function VideoMixer({ className = '' }: VideoMixerProps) {
       {/* Deck A - Bottom layer */}
       <VideoPlayer
         videoId={deckA.videoId}
+        source={deckA.source}
         opacity={mixValues.deckAOpacity}
-        volume={mixValues.deckAVolume}
+        volume={deckA.audioSource === 'engine' ? 0 : mixValues.deckAVolume}
         playing={deckA.playing}
         seekTo={deckA.seekTo}
         playbackRate={deckA.playbackRate}
+        loop={getActiveLoop(deckA)}
+        clockTime={deckA.audioSource === 'engine' ? deckA.currentTime : null}
         onTimeUpdate={handleDeckATimeUpdate}
         onSeekComplete={clearSeekA}
         className="z-10"
@@ -56,11 +70,14 @@ export function VideoMixer({ className = '' }: VideoMixerProps) {
       {/* Deck B - Top layer */}
       <VideoPlayer
         videoId={deckB.videoId}
+        source={deckB.source}
         opacity={mixValues.deckBOpacity}
-        volume={mixValues.deckBVolume}
+        volume={deckB.audioSource === 'engine' ? 0 : mixValues.deckBVolume}
         playing={deckB.playing}
         seekTo={deckB.seekTo}
         playbackRate={deckB.playbackRate}
+        loop={getActiveLoop(deckB)}
+        clockTime={deckB.audioSource === 'engine' ? deckB.currentTime : null}
         onTimeUpdate={handleDeckBTimeUpdate}
         onSeekComplete={clearSeekB}
         className="z-20"
@@ -1,22 +1,43 @@
 import { useEffect, useRef, useCallback } from 'react';
 import YouTube, { type YouTubeEvent, type YouTubePlayer } from 'react-youtube';
+import { NativeMediaPlayer } from './NativeMediaPlayer';
+import type { DeckSource } from '../types';
+
+// Max allowed drift from the audio engine's clock before the player is pulled back (seconds)
+const CLOCK_DRIFT_THRESHOLD = 0.3;
 
 interface VideoPlayerProps {
   videoId: string;
+  source: DeckSource;
   opacity: number;
   volume: number; // 0-1 normalized
   playing: boolean;
   seekTo?: number | null; // Target time to seek to
   playbackRate?: number; // Playback speed (0.5-2.0, default 1.0)
-  onReady?: (player: YouTubePlayer) => void;
-  onStateChange?: (state: number) => void;
+  loop?: { start: number; end: number } | null; // Active loop region (seconds)
+  clockTime?: number | null; // Position to follow while the audio engine is the clock (null = report own time)
+  onReady?: (player: YouTubePlayer) => void; // YouTube sources only
+  onStateChange?: (state: number) => void; // YouTube sources only
   onTimeUpdate?: (currentTime: number, duration: number) => void;
   onSeekComplete?: () => void;
   className?: string;
 }
 
 /**
- * VideoPlayer component - wrapper around react-youtube
+ * VideoPlayer component - a deck's player
+ *
+ * YouTube sources play in the YouTube player; files and media URLs in a
+ * NativeMediaPlayer, which takes the same playback props.
+ */
+export function VideoPlayer({ source, ...props }: VideoPlayerProps) {
+  if (props.videoId && source.type !== 'youtube' && source.url) {
+    return <NativeMediaPlayer src={source.url} mediaKind={source.mediaKind} {...props} />;
+  }
+  return <YouTubeVideoPlayer {...props} />;
+}
+
+/**
+ * YouTubeVideoPlayer component - wrapper around react-youtube
  *
  * Handles:
  * - YouTube IFrame player embedding
@@ -24,23 +45,41 @@ interface VideoPlayerProps {
  * - Volume control via props
  * - Opacity styling for visual crossfade
  * - Time tracking and seeking
+ * - Frame-accurate loop-back while a loop is active
+ * - Following the audio engine's clock while its audio plays the deck
  */
-export function VideoPlayer({
+function YouTubeVideoPlayer({
   videoId,
   opacity,
   volume,
   playing,
   seekTo,
   playbackRate = 1.0,
+  loop = null,
+  clockTime = null,
   onReady,
   onStateChange,
   onTimeUpdate,
   onSeekComplete,
   className = '',
-}: VideoPlayerProps) {
+}: Omit<VideoPlayerProps, 'source'>) {
   const playerRef = useRef<YouTubePlayer | null>(null);
   const isReadyRef = useRef(false);
   const timeUpdateIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Latest seek target, applied once the player is ready (e.g. resumed sessions)
+  const pendingSeekRef = useRef<number | null>(null);
+  // Audio engine position being followed (null = this player is the clock)
+  const clockTimeRef = useRef<number | null>(null);
+
+  /**
+   * Report the player's time, unless the audio engine is the clock
+   */
+  const reportTime = useCallback(
+    (currentTime: number, duration: number) => {
+      if (clockTimeRef.current === null) onTimeUpdate?.(currentTime, duration);
+    },
+    [onTimeUpdate]
+  );
 
   /**
    * Start time tracking interval
@@ -56,12 +95,12 @@ export function VideoPlayer({
       try {
         const currentTime = playerRef.current.getCurrentTime() || 0;
         const duration = playerRef.current.getDuration() || 0;
-        onTimeUpdate?.(currentTime, duration);
+        reportTime(currentTime, duration);
       } catch (error) {
         // Player might not be ready
       }
     }, 250); // Update 4 times per second
-  }, [onTimeUpdate]);
+  }, [reportTime]);
 
   /**
    * Stop time tracking interval
@@ -84,16 +123,24 @@ export function VideoPlayer({
       // Set initial volume
       event.target.setVolume(Math.round(volume * 100));
 
+      // Apply a seek requested before the player was ready
+      const pendingSeek = pendingSeekRef.current;
+      if (pendingSeek !== null) {
+        event.target.seekTo(pendingSeek, true);
+        console.log(`[VideoPlayer] Applying pending seek to ${pendingSeek}s`);
+        onSeekComplete?.();
+      }
+
       // Get initial duration
       const duration = event.target.getDuration() || 0;
-      onTimeUpdate?.(0, duration);
+      reportTime(pendingSeek ?? 0, duration);
 
       // Start time tracking
       startTimeTracking();
 
       onReady?.(event.target);
     },
-    [volume, onReady, onTimeUpdate, startTimeTracking]
+    [volume, onReady, reportTime, onSeekComplete, startTimeTracking]
   );
 
   /**
@@ -108,19 +155,20 @@ export function VideoPlayer({
         try {
           const currentTime = playerRef.current.getCurrentTime() || 0;
           const duration = playerRef.current.getDuration() || 0;
-          onTimeUpdate?.(currentTime, duration);
+          reportTime(currentTime, duration);
         } catch (error) {
           // Ignore
         }
       }
     },
-    [onStateChange, onTimeUpdate]
+    [onStateChange, reportTime]
   );
 
   /**
    * Handle seeking
    */
   useEffect(() => {
+    pendingSeekRef.current = seekTo ?? null;
     if (seekTo === null || seekTo === undefined) return;
     if (!playerRef.current || !isReadyRef.current) return;
 
@@ -172,7 +220,8 @@ export function VideoPlayer({
 
     try {
       // YouTube API supports playback rates: 0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2
-      // For DJ purposes, we'll set any rate and let YouTube round to nearest supported
+      // and rounds to the nearest supported one, so with exact tempo changes
+      // the player drifts from the audio engine (see clock following below)
       playerRef.current.setPlaybackRate(playbackRate);
       console.log(`[VideoPlayer] Playback rate set to ${playbackRate}`);
     } catch (error) {
@@ -180,6 +229,57 @@ export function VideoPlayer({
     }
   }, [playbackRate]);
 
+  /**
+   * Loop-back scheduling
+   * The 250ms time tracking interval is too coarse for short loops, so while
+   * a loop is active the position is checked every animation frame.
+   */
+  const loopStart = loop?.start ?? null;
+  const loopEnd = loop?.end ?? null;
+
+  useEffect(() => {
+    if (!playing || loopStart === null || loopEnd === null) return;
+
+    let frameId: number;
+    const checkLoop = () => {
+      const player = playerRef.current;
+      if (player && isReadyRef.current) {
+        try {
+          const currentTime = player.getCurrentTime() || 0;
+          if (currentTime >= loopEnd) {
+            player.seekTo(loopStart, true);
+            reportTime(loopStart, player.getDuration() || 0);
+          }
+        } catch {
+          // Player might not be ready
+        }
+      }
+      frameId = requestAnimationFrame(checkLoop);
+    };
+
+    frameId = requestAnimationFrame(checkLoop);
+    return () => cancelAnimationFrame(frameId);
+  }, [playing, loopStart, loopEnd, reportTime]);
+
+  /**
+   * Follow the audio engine's clock
+   * The engine plays exact tempo rates while YouTube's are rounded, so the
+   * (muted) player is pulled back to the engine's position when it drifts.
+   */
+  useEffect(() => {
+    clockTimeRef.current = clockTime;
+    const player = playerRef.current;
+    if (clockTime === null || !player || !isReadyRef.current) return;
+
+    try {
+      if (Math.abs((player.getCurrentTime() || 0) - clockTime) > CLOCK_DRIFT_THRESHOLD) {
+        player.seekTo(clockTime, true);
+      }
+    } catch {
+      // Player might not be ready
+    }
+  }, [clockTime]);
+
   /**
    * Cleanup time tracking on unmount
    */
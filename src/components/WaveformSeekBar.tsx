@@ -1,7 +1,12 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import type { BeatGridAnalysis, HotCue, MusicalKey, TrackLoudness, WaveformColorScheme } from '../types';
+import { BEATS_PER_BAR } from '../types';
+import { getGridLines, type GridLineKind } from '../utils/beatGrid';
 
 interface WaveformSeekBarProps {
   videoId: string | null;
+  /** Whether the server can analyze the track (false for dropped files: no waveform, seeking only) */
+  analyze?: boolean;
   currentTime: number;
   duration: number;
   color: string;
@@ -9,17 +14,96 @@ interface WaveformSeekBarProps {
   backgroundColor?: string;
   height?: number;
   onSeek: (time: number) => void;
-  onBpmDetected?: (bpm: number) => void;
+  /** Called with the analyzed beat grid once the waveform loads */
+  onBeatGridDetected?: (analysis: BeatGridAnalysis) => void;
+  /** Called with the detected musical key once the waveform loads */
+  onKeyDetected?: (key: MusicalKey) => void;
+  /** Called with the measured loudness once the waveform loads */
+  onLoudnessDetected?: (loudness: TrackLoudness) => void;
   className?: string;
   /** Zoom level - how many seconds of audio visible on screen (default: 30) */
   zoomSeconds?: number;
+  /** Main cue point in seconds (drawn as an orange marker) */
+  cuePoint?: number;
+  /** Hot cues drawn as colored markers */
+  hotCues?: (HotCue | null)[];
+  /** Loop start in seconds (null = not set) */
+  loopIn?: number | null;
+  /** Loop end in seconds (null = not set) */
+  loopOut?: number | null;
+  /** Whether the loop is engaged (drawn brighter) */
+  loopActive?: boolean;
+  /** How the waveform is colored (default: deck color) */
+  colorScheme?: WaveformColorScheme;
+  /** Beat grid tempo (0 = no grid drawn) */
+  bpm?: number;
+  /** First beat of the grid in seconds */
+  firstBeatOffset?: number;
+  /** A bar's first beat in seconds; bars and phrases count from here */
+  downbeatOffset?: number;
+  /** Extra labeled markers (e.g. lyric timestamps) */
+  markers?: WaveformMarker[];
+}
+
+/** A labeled marker line on the waveform */
+export interface WaveformMarker {
+  time: number; // seconds
+  color: string;
+  label: string;
+}
+
+/** One resolution from the waveform API: RMS, peak and band RMS (0-1) per bucket */
+interface WaveformLevel {
+  bucketSeconds: number;
+  rms: number[];
+  peak: number[];
+  low: number[];
+  mid: number[];
+  high: number[];
 }
 
+type WaveformSeries = 'rms' | 'peak' | 'low' | 'mid' | 'high';
+
+/** Grid line look: faint beats, brighter bars, amber phrase starts */
+const GRID_LINE_STYLES: Record<GridLineKind, { color: string; alpha: number; lineWidth: number }> = {
+  beat: { color: '#ffffff', alpha: 0.12, lineWidth: 1 },
+  bar: { color: '#ffffff', alpha: 0.3, lineWidth: 1 },
+  phrase16: { color: '#f59e0b', alpha: 0.7, lineWidth: 1.5 },
+  phrase32: { color: '#f59e0b', alpha: 0.95, lineWidth: 2.5 },
+};
+
+// Beat and bar lines closer than this are left out (px)
+const MIN_GRID_SPACING_PX = 4;
+
+/** Layer colors of the 'stacked' scheme, drawn back to front */
+const STACKED_BANDS: { series: WaveformSeries; color: string }[] = [
+  { series: 'low', color: '#2563eb' },
+  { series: 'mid', color: '#f59e0b' },
+  { series: 'high', color: '#f5f5f5' },
+];
+
+/** Analysis stages reported by /api/analysis/stream */
+type LoadingStage = 'queued' | 'downloading' | 'decoding' | 'analyzing';
+
+/** Overlay text while the server works on the track */
+const LOADING_STAGE_LABELS: Record<LoadingStage, string> = {
+  queued: 'Waiting to analyze...',
+  downloading: 'Downloading audio...',
+  decoding: 'Decoding audio...',
+  analyzing: 'Analyzing audio...',
+};
+
 interface WaveformData {
   videoId: string;
-  waveform: number[];
+  overview: WaveformLevel; // Whole track
+  detail: WaveformLevel; // Fixed bucket rate for zoomed-in views
   duration: number;
   bpm?: number;
+  firstBeat?: number;
+  firstDownbeat?: number;
+  confidence?: number;
+  key?: MusicalKey | null;
+  loudness?: TrackLoudness | null;
   cached: boolean;
   synthetic?: boolean;
 }
@@ -30,10 +114,15 @@ type LoadingState = 'idle' | 'loading' | 'loaded' | 'error';
  * WaveformSeekBar - DJ-style scrolling waveform visualization
  * 
  * The playhead stays fixed in the center while the waveform scrolls past.
+ * Peak envelope is drawn faint behind the RMS body; the resolution (overview
+ * or detail) is picked to suit the zoom level. The body is drawn in the deck
+ * color, colored by frequency content (RGB), or as stacked band layers.
+ * Beat grid lines mark beats, bars and 16/32-bar phrases.
  * Click anywhere to seek to that position.
  */
 export function WaveformSeekBar({
   videoId,
+  analyze = true,
   currentTime,
   duration,
   color,
@@ -41,15 +130,29 @@ export function WaveformSeekBar({
   backgroundColor = 'transparent',
   height = 60,
   onSeek,
-  onBpmDetected,
+  onBeatGridDetected,
+  onKeyDetected,
+  onLoudnessDetected,
   className = '',
   zoomSeconds = 30,
+  cuePoint,
+  hotCues,
+  markers,
+  loopIn = null,
+  loopOut = null,
+  loopActive = false,
+  colorScheme = 'mono',
+  bpm = 0,
+  firstBeatOffset = 0,
+  downbeatOffset = 0,
 }: WaveformSeekBarProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [waveformData, setWaveformData] = useState<number[]>([]);
+  const [waveformLevels, setWaveformLevels] = useState<WaveformLevel[]>([]);
   const [loadingState, setLoadingState] = useState<LoadingState>('idle');
   const [loadingProgress, setLoadingProgress] = useState(0);
+  const [loadingStage, setLoadingStage] = useState<LoadingStage>('queued');
+  const [streamedVideoId, setStreamedVideoId] = useState<string | null>(null);
   const animationRef = useRef<number | undefined>(undefined);
   const [containerWidth, setContainerWidth] = useState(300);
   
@@ -57,8 +160,8 @@ export function WaveformSeekBar({
   const smoothTimeRef = useRef(0);
   const lastFrameTimeRef = useRef(0);
 
-  // Very high sample count for detailed waveform
-  const sampleCount = 8000;
+  // Overview resolution requested from the API (detail comes at a fixed rate)
+  const overviewSamples = 1024;
 
   // Cubic interpolation for smooth analog wave
   const cubicInterpolate = useCallback((p0: number, p1: number, p2: number, p3: number, t: number): number => {
@@ -106,80 +209,97 @@ export function WaveformSeekBar({
     return () => observer.disconnect();
   }, []);
 
-  // Fetch waveform data when videoId changes
+  // Reset while rendering a new track, before the stream below reports anything
+  if (videoId !== streamedVideoId) {
+    setStreamedVideoId(videoId);
+    setWaveformLevels([]);
+    setLoadingState(!videoId ? 'idle' : analyze ? 'loading' : 'error');
+    setLoadingStage('queued');
+    setLoadingProgress(0);
+  }
+
+  // Stream waveform analysis when videoId changes: progress and a partial
+  // overview while the server works, then the full result
   useEffect(() => {
-    if (!videoId) {
-      setWaveformData([]);
-      setLoadingState('idle');
-      return;
-    }
+    if (!videoId || !analyze) return;
 
-    const fetchWaveform = async () => {
-      setLoadingState('loading');
-      setLoadingProgress(0);
+    const events = new EventSource(`/api/analysis/stream?id=${videoId}&samples=${overviewSamples}`);
 
-      // Simulate progress while loading
-      const progressInterval = setInterval(() => {
-        setLoadingProgress(prev => Math.min(prev + Math.random() * 10, 90));
-      }, 500);
+    events.addEventListener('progress', (event) => {
+      const status: { state: string; progress: number } = JSON.parse(event.data);
+      if (status.state in LOADING_STAGE_LABELS) {
+        setLoadingStage(status.state as LoadingStage);
+      }
+      setLoadingProgress(status.progress * 100);
+    });
 
-      try {
-        const response = await fetch(`/api/youtube/waveform?id=${videoId}&samples=${sampleCount}`);
-        
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
+    events.addEventListener('partial', (event) => {
+      const partial: { overview: WaveformLevel } = JSON.parse(event.data);
+      setWaveformLevels([partial.overview]);
+    });
 
-        const data: WaveformData = await response.json();
-        
-        clearInterval(progressInterval);
-        setLoadingProgress(100);
-        setWaveformData(data.waveform);
-        setLoadingState('loaded');
-        
-        // Notify parent of detected BPM
-        if (data.bpm && onBpmDetected) {
-          onBpmDetected(data.bpm);
-        }
-        
-        // Debug: log waveform statistics
-        const minVal = Math.min(...data.waveform);
-        const maxVal = Math.max(...data.waveform);
-        const avgVal = data.waveform.reduce((a, b) => a + b, 0) / data.waveform.length;
-        console.log(`[Waveform] Loaded ${data.waveform.length} samples for ${videoId} (cached: ${data.cached}, synthetic: ${data.synthetic}, bpm: ${data.bpm || 'unknown'})`);
-        console.log(`[Waveform] Stats - min: ${minVal.toFixed(3)}, max: ${maxVal.toFixed(3)}, avg: ${avgVal.toFixed(3)}`);
-      } catch (error) {
-        console.error('[Waveform] Failed to load:', error);
-        clearInterval(progressInterval);
-        setLoadingState('error');
-        // Generate fallback animated waveform
-        setWaveformData([]);
+    events.addEventListener('result', (event) => {
+      events.close();
+      const data: WaveformData = JSON.parse(event.data);
+
+      setLoadingProgress(100);
+      setWaveformLevels([data.overview, data.detail]);
+      setLoadingState('loaded');
+
+      // Notify parent of the detected beat grid
+      if (data.bpm && onBeatGridDetected) {
+        onBeatGridDetected({
+          bpm: data.bpm,
+          firstBeat: data.firstBeat ?? 0,
+          firstDownbeat: data.firstDownbeat ?? data.firstBeat ?? 0,
+          confidence: data.confidence ?? 0,
+        });
+      }
+      if (data.key && onKeyDetected) {
+        onKeyDetected(data.key);
+      }
+      if (data.loudness && onLoudnessDetected) {
+        onLoudnessDetected({
+          integratedLufs: data.loudness.integratedLufs,
+          truePeakDb: data.loudness.truePeakDb,
+        });
       }
-    };
-
-    fetchWaveform();
-  }, [videoId, onBpmDetected]);
 
-  // Normalize and enhance waveform data for better visualization
-  const enhancedWaveform = useCallback((data: number[]): number[] => {
-    if (data.length === 0) return [];
-    
-    // Find min and max for normalization
-    const min = Math.min(...data);
-    const max = Math.max(...data);
-    const range = max - min || 1;
-    
-    return data.map(val => {
-      // Normalize to 0-1 range (0 = quiet, 1 = loud)
-      let normalized = (val - min) / range;
-      
-      // Apply power curve to emphasize differences
-      // Using 0.7 expands the visual difference between loud and quiet
-      normalized = Math.pow(normalized, 0.7);
-      
-      return normalized;
+      console.log(
+        `[Waveform] Loaded ${data.overview.rms.length} overview / ${data.detail.rms.length} detail buckets ` +
+          `for ${videoId} (cached: ${data.cached}, synthetic: ${data.synthetic}, bpm: ${data.bpm || 'unknown'}, ` +
+          `key: ${data.key?.camelot ?? 'unknown'}, loudness: ${data.loudness?.integratedLufs ?? '?'} LUFS)`
+      );
     });
-  }, []);
+
+    // The stream closes itself after `result`; anything else is a failure
+    // (EventSource would otherwise reconnect and restart the stream)
+    events.onerror = () => {
+      console.error('[Waveform] Analysis stream failed');
+      events.close();
+      setLoadingState('error');
+      setWaveformLevels([]);
+    };
+
+    return () => events.close();
+  }, [videoId, analyze, onBeatGridDetected, onKeyDetected, onLoudnessDetected]);
+
+  // Display levels, coarsest first. Values are already 0-1 relative to the
+  // track's peak; a power curve (0.7) lifts quiet passages for visibility.
+  const displayLevels = useMemo(
+    () =>
+      waveformLevels
+        .map((level) => ({
+          ...level,
+          rms: level.rms.map((value) => Math.pow(value, 0.7)),
+          peak: level.peak.map((value) => Math.pow(value, 0.7)),
+          low: level.low.map((value) => Math.pow(value, 0.7)),
+          mid: level.mid.map((value) => Math.pow(value, 0.7)),
+          high: level.high.map((value) => Math.pow(value, 0.7)),
+        }))
+        .sort((a, b) => b.bucketSeconds - a.bucketSeconds),
+    [waveformLevels]
+  );
 
   // Draw waveform - DJ style with smooth scrolling
   const draw = useCallback((timestamp: number) => {
@@ -212,50 +332,55 @@ export function WaveformSeekBar({
     ctx.fillStyle = backgroundColor;
     ctx.fillRect(0, 0, width, actualHeight);
 
-    // Enhance waveform for better visualization
-    const displayData = waveformData.length > 0 ? enhancedWaveform(waveformData) : [];
-    
-    const totalSamples = displayData.length || 100;
-    // Use smoothed time for fluid scrolling
-    const smoothProgress = duration > 0 ? smoothTimeRef.current / duration : 0;
-    
     // Calculate visible range based on zoom
     const visibleRatio = Math.min(1, zoomSeconds / (duration || zoomSeconds));
-    const visibleSamples = totalSamples * visibleRatio;
+    const visibleDuration = duration > 0 ? visibleRatio * duration : zoomSeconds;
     
     // Playhead is fixed at center
     const playheadX = width / 2;
     const centerY = actualHeight / 2;
     
-    // Calculate which samples are visible (centered on current position)
-    const currentSample = smoothProgress * totalSamples;
-    const halfVisible = visibleSamples / 2;
-    const startSample = currentSample - halfVisible;
+    // Use smoothed time for fluid scrolling; time at the left edge of the view
+    const startTime = smoothTimeRef.current - visibleDuration / 2;
+    
+    // Coarsest level that still has a bucket per pixel, else the finest
+    const level =
+      displayLevels.find((candidate) => visibleDuration / candidate.bucketSeconds >= width) ??
+      displayLevels[displayLevels.length - 1];
     
     // Number of points to draw per pixel for smoothness
     const pointsPerPixel = 2;
     
-    // Helper to get value at any sample position with interpolation
-    const getValueAt = (samplePos: number): number => {
-      if (displayData.length === 0) {
+    // Helper to get a level's value at any time with interpolation
+    const getValueAt = (time: number, series: WaveformSeries): number => {
+      if (!level) {
         if (loadingState === 'loading') {
           // Loading animation
-          const wave = Math.sin(Date.now() * 0.003 + samplePos * 0.1) * 0.3 + 0.5;
-          return wave * (loadingProgress / 100);
+          const wave = Math.sin(Date.now() * 0.003 + time * 3) * 0.3 + 0.5;
+          return wave * (loadingProgress / 100) * (series === 'peak' ? 1 : 0.6);
         }
         return 0; // No data = no amplitude
       }
       
+      const data = level[series];
+      const position = time / level.bucketSeconds;
+      
       // Out of range = silence (no amplitude)
-      if (samplePos < 0 || samplePos >= totalSamples) {
+      if (position < 0 || position >= data.length) {
         return 0;
       }
       
-      return getInterpolatedValue(displayData, samplePos);
+      return Math.max(0, getInterpolatedValue(data, position));
     };
     
     // Draw filled waveform (mirrored top and bottom like analog)
-    const drawWaveformSection = (startX: number, endX: number, isPlayed: boolean) => {
+    const drawWaveformSection = (
+      startX: number,
+      endX: number,
+      isPlayed: boolean,
+      series: WaveformSeries,
+      fillColor?: string
+    ) => {
       if (startX >= endX) return;
       
       ctx.beginPath();
@@ -263,8 +388,8 @@ export function WaveformSeekBar({
       // Draw top half - value is 0-1 representing amplitude (loudness)
       let firstPoint = true;
       for (let px = startX; px <= endX; px += 1 / pointsPerPixel) {
-        const samplePos = startSample + (px / width) * visibleSamples;
-        const value = getValueAt(samplePos);
+        const time = startTime + (px / width) * visibleDuration;
+        const value = getValueAt(time, series);
         
         // Value is 0-1 where 1 is loudest - convert to height from center
         // Multiply by 0.9 to leave some padding
@@ -281,8 +406,8 @@ export function WaveformSeekBar({
       
       // Draw bottom half (mirror)
       for (let px = endX; px >= startX; px -= 1 / pointsPerPixel) {
-        const samplePos = startSample + (px / width) * visibleSamples;
-        const value = getValueAt(samplePos);
+        const time = startTime + (px / width) * visibleDuration;
+        const value = getValueAt(time, series);
         
         const amplitude = value * actualHeight * 0.45;
         const y = centerY + amplitude;
@@ -294,8 +419,9 @@ export function WaveformSeekBar({
       
       // Fill with gradient for analog look
       const gradient = ctx.createLinearGradient(0, 0, 0, actualHeight);
-      const baseColor = isPlayed ? (playedColor || color) : color;
-      const alpha = isPlayed ? 1 : 0.5;
+      const baseColor = fillColor ?? (isPlayed ? (playedColor || color) : color);
+      // Peak envelope is a faint halo around the RMS body
+      const alpha = (isPlayed ? 1 : 0.5) * (series === 'peak' ? 0.35 : 1);
       
       // Parse color and add alpha
       ctx.globalAlpha = alpha;
@@ -312,11 +438,41 @@ export function WaveformSeekBar({
       ctx.stroke();
     };
     
-    // Draw played section (left of center)
-    drawWaveformSection(0, playheadX, true);
+    // RGB body: one column per pixel, colored by the mix of band energies
+    const drawRgbSection = (startX: number, endX: number, isPlayed: boolean) => {
+      ctx.globalAlpha = isPlayed ? 1 : 0.5;
+      for (let px = Math.floor(startX); px < endX; px++) {
+        const time = startTime + ((px + 0.5) / width) * visibleDuration;
+        const amplitude = getValueAt(time, 'rms') * actualHeight * 0.45;
+        if (amplitude < 0.5) continue;
+
+        // Scale so the strongest band is at full brightness
+        const low = getValueAt(time, 'low');
+        const mid = getValueAt(time, 'mid');
+        const high = getValueAt(time, 'high');
+        const strongest = Math.max(low, mid, high, 0.001);
+        const channel = (value: number) => Math.round((value / strongest) * 255);
+
+        ctx.fillStyle = `rgb(${channel(low)}, ${channel(mid)}, ${channel(high)})`;
+        ctx.fillRect(px, centerY - amplitude, 1, amplitude * 2);
+      }
+    };
     
-    // Draw unplayed section (right of center)
-    drawWaveformSection(playheadX, width, false);
+    // Draw played section (left of center), then unplayed (right of center)
+    drawWaveformSection(0, playheadX, true, 'peak');
+    drawWaveformSection(playheadX, width, false, 'peak');
+    if (colorScheme === 'rgb' && level) {
+      drawRgbSection(0, playheadX, true);
+      drawRgbSection(playheadX, width, false);
+    } else if (colorScheme === 'stacked' && level) {
+      STACKED_BANDS.forEach(({ series, color: bandColor }) => {
+        drawWaveformSection(0, playheadX, true, series, bandColor);
+        drawWaveformSection(playheadX, width, false, series, bandColor);
+      });
+    } else {
+      drawWaveformSection(0, playheadX, true, 'rms');
+      drawWaveformSection(playheadX, width, false, 'rms');
+    }
     
     ctx.globalAlpha = 1;
     
@@ -330,6 +486,87 @@ export function WaveformSeekBar({
     ctx.stroke();
     ctx.globalAlpha = 1;
 
+    // Draw cue markers (time → x relative to the fixed center playhead)
+    if (duration > 0) {
+      const timeToX = (time: number) =>
+        playheadX + ((time - smoothTimeRef.current) / visibleDuration) * width;
+
+      // Beat grid, thinned out when zoomed far out
+      const beatSpacing = bpm > 0 ? (60 / bpm / visibleDuration) * width : 0;
+      getGridLines({ bpm, firstBeatOffset, downbeatOffset }, startTime, startTime + visibleDuration).forEach(
+        ({ time, kind }) => {
+          if (kind === 'beat' && beatSpacing < MIN_GRID_SPACING_PX) return;
+          if (kind === 'bar' && beatSpacing * BEATS_PER_BAR < MIN_GRID_SPACING_PX) return;
+
+          const style = GRID_LINE_STYLES[kind];
+          const x = timeToX(time);
+          ctx.strokeStyle = style.color;
+          ctx.globalAlpha = style.alpha;
+          ctx.lineWidth = style.lineWidth;
+          ctx.beginPath();
+          ctx.moveTo(x, 0);
+          ctx.lineTo(x, actualHeight);
+          ctx.stroke();
+        }
+      );
+      ctx.globalAlpha = 1;
+
+      // Loop region (green while engaged, grey when set but inactive)
+      if (loopIn !== null) {
+        const inX = timeToX(loopIn);
+        const loopColor = loopActive ? 'rgb(34, 197, 94)' : 'rgb(115, 115, 115)';
+        ctx.fillStyle = loopColor;
+
+        if (loopOut !== null) {
+          const outX = timeToX(loopOut);
+          ctx.globalAlpha = loopActive ? 0.2 : 0.1;
+          ctx.fillRect(inX, 0, outX - inX, actualHeight);
+          ctx.globalAlpha = 1;
+          ctx.fillRect(outX - 1, 0, 2, actualHeight);
+        }
+        ctx.fillRect(inX - 1, 0, 2, actualHeight);
+      }
+
+      hotCues?.forEach((hotCue, index) => {
+        if (!hotCue) return;
+        const x = timeToX(hotCue.time);
+        if (x < -20 || x > width + 20) return;
+
+        ctx.fillStyle = hotCue.color;
+        ctx.globalAlpha = 0.8;
+        ctx.fillRect(x - 0.5, 0, 1, actualHeight);
+        ctx.globalAlpha = 1;
+        ctx.fillRect(x, 0, 12, 11);
+        ctx.fillStyle = '#000';
+        ctx.font = 'bold 9px sans-serif';
+        ctx.fillText(String(index + 1), x + 3, 9);
+      });
+
+      markers?.forEach((marker) => {
+        const x = timeToX(marker.time);
+        if (x < -60 || x > width + 10) return;
+
+        ctx.fillStyle = marker.color;
+        ctx.fillRect(x - 0.5, 0, 1, actualHeight);
+        ctx.font = 'bold 9px sans-serif';
+        ctx.fillText(marker.label, x + 3, actualHeight - 4);
+      });
+
+      if (cuePoint !== undefined) {
+        const x = timeToX(cuePoint);
+        if (x >= -10 && x <= width + 10) {
+          ctx.fillStyle = 'rgb(251, 146, 60)';
+          ctx.fillRect(x - 0.5, 0, 1, actualHeight);
+          ctx.beginPath();
+          ctx.moveTo(x - 5, actualHeight);
+          ctx.lineTo(x + 5, actualHeight);
+          ctx.lineTo(x, actualHeight - 7);
+          ctx.closePath();
+          ctx.fill();
+        }
+      }
+    }
+
     // Draw center playhead line
     ctx.fillStyle = playedColor || color;
     ctx.shadowColor = playedColor || color;
@@ -352,7 +589,7 @@ export function WaveformSeekBar({
     ctx.closePath();
     ctx.fill();
 
-  }, [waveformData, currentTime, duration, color, playedColor, backgroundColor, height, containerWidth, loadingState, loadingProgress, enhancedWaveform, zoomSeconds, getInterpolatedValue]);
+  }, [displayLevels, currentTime, duration, color, playedColor, backgroundColor, height, containerWidth, loadingState, loadingProgress, zoomSeconds, getInterpolatedValue, cuePoint, hotCues, markers, loopIn, loopOut, loopActive, colorScheme, bpm, firstBeatOffset, downbeatOffset]);
 
   // Animation loop with timestamp for smooth interpolation
   useEffect(() => {
@@ -405,7 +642,11 @@ export function WaveformSeekBar({
     <div ref={containerRef} className={`relative w-full ${className}`}>
       {/* Loading overlay */}
       {loadingState === 'loading' && (
-        <div className="absolute inset-0 flex items-center justify-center bg-black/50 rounded z-10">
+        <div
+          className={`absolute inset-0 flex items-center justify-center rounded z-10 ${
+            waveformLevels.length > 0 ? 'bg-black/20' : 'bg-black/50'
+          }`}
+        >
           <div className="flex flex-col items-center gap-2">
             <div className="w-24 h-1 bg-neutral-700 rounded-full overflow-hidden">
               <div 
@@ -413,7 +654,9 @@ export function WaveformSeekBar({
                 style={{ width: `${loadingProgress}%`, color }}
               />
             </div>
-            <span className="text-xs text-neutral-400">Analyzing audio...</span>
+            <span className="text-xs text-neutral-400">
+              {LOADING_STAGE_LABELS[loadingStage]} {Math.round(loadingProgress)}%
+            </span>
           </div>
         </div>
       )}
@@ -0,0 +1,200 @@
+import { useEffect } from 'react';
+import { useDJStore } from '../stores/djStore';
+import { applyCurve } from '../utils/crossfaderCurve';
+import { getActiveLoop } from '../utils/loops';
+import { getDeckAudioUrl } from '../utils/deckSource';
+import {
+  attachMediaElement,
+  applyDeckEQ,
+  applyDeckFader,
+  applyDeckFilter,
+  applyDeckGain,
+  applyMasterEQ,
+  applyMasterVolume,
+} from '../audio/audioEngine';
+import type { DJStore, DeckState } from '../types';
+
+// Max allowed drift between the proxied audio and the deck's player (seconds)
+const DRIFT_THRESHOLD = 0.3;
+
+/**
+ * Hook that drives the Web Audio engine from the DJ store
+ *
+ * Once the audio engine is started, each deck gets a hidden <audio> element
+ * playing the proxied track audio through its channel strip (trim → EQ →
+ * filter → fader → master). The audio element follows the deck's play
+ * state, seeks and rate, and once it plays the deck (`audioSource` 'engine')
+ * it is the deck's clock: its position is reported to the store and the
+ * muted player (the YouTube iframe, or the native player for other
+ * providers) follows it. YouTube rounds playback rates to its supported
+ * steps, so only the audio element plays exact tempo changes in time.
+ * Active loops are enforced on the audio element's own clock every
+ * animation frame.
+ *
+ * While a deck's proxied audio is not playable, `audioSource` stays 'iframe'
+ * so the deck's player keeps providing sound and stays the clock.
+ */
+export function useAudioEngine() {
+  const audioEngineStarted = useDJStore((state) => state.audioEngineStarted);
+
+  useEffect(() => {
+    if (!audioEngineStarted) return;
+
+    const elements = {
+      A: new Audio(),
+      B: new Audio(),
+    };
+
+    const updaters = {
+      A: useDJStore.getState().updateDeckA,
+      B: useDJStore.getState().updateDeckB,
+    };
+
+    const getDeck = (deck: 'A' | 'B') => (deck === 'A' ? useDJStore.getState().deckA : useDJStore.getState().deckB);
+
+    (['A', 'B'] as const).forEach((deck) => {
+      const element = elements[deck];
+      element.crossOrigin = 'anonymous';
+      element.preload = 'auto';
+
+      element.addEventListener('canplay', () => {
+        const current = getDeck(deck);
+        if (current.audioSource === 'engine') return;
+        // Take over the clock from the player's position
+        if (Math.abs(element.currentTime - current.currentTime) > DRIFT_THRESHOLD) {
+          element.currentTime = current.currentTime;
+        }
+        updaters[deck]({ audioSource: 'engine' });
+      });
+      element.addEventListener('timeupdate', () => {
+        if (getDeck(deck).audioSource !== 'engine') return;
+        updaters[deck]({
+          currentTime: element.currentTime,
+          duration: Number.isFinite(element.duration) ? element.duration : 0,
+        });
+      });
+      element.addEventListener('error', () => {
+        console.warn(`[Audio] Deck ${deck} proxied audio unavailable, using the player's audio`);
+        updaters[deck]({ audioSource: 'iframe' });
+      });
+
+      attachMediaElement(deck, element);
+    });
+
+    /**
+     * Sync a single deck's media element and channel strip
+     */
+    const syncDeck = (deck: 'A' | 'B', current: DeckState, previous: DeckState | null) => {
+      const element = elements[deck];
+
+      const audioUrl = getDeckAudioUrl(current);
+      if (!previous || audioUrl !== getDeckAudioUrl(previous)) {
+        if (audioUrl) {
+          element.src = audioUrl;
+          element.load();
+        } else {
+          element.removeAttribute('src');
+          element.load();
+        }
+        if (current.audioSource !== 'iframe') {
+          updaters[deck]({ audioSource: 'iframe' });
+        }
+      }
+
+      if (current.seekTo !== null && current.seekTo !== previous?.seekTo) {
+        element.currentTime = current.seekTo;
+      }
+
+      if (!previous || current.playbackRate !== previous.playbackRate) {
+        element.playbackRate = current.playbackRate;
+      }
+
+      if (current.playing && element.paused && current.videoId) {
+        element.play().catch((error) => {
+          console.warn(`[Audio] Deck ${deck} play failed:`, error);
+        });
+      } else if (!current.playing && !element.paused) {
+        element.pause();
+      }
+
+      // Until the audio element is the clock, keep it locked to the player's
+      if (
+        previous &&
+        current.audioSource !== 'engine' &&
+        current.playing &&
+        current.currentTime !== previous.currentTime &&
+        Math.abs(element.currentTime - current.currentTime) > DRIFT_THRESHOLD
+      ) {
+        element.currentTime = current.currentTime;
+      }
+
+      if (!previous || current.eq !== previous.eq) {
+        applyDeckEQ(deck, current.eq);
+      }
+      // Manual trim on top of loudness normalization
+      if (!previous || current.gain !== previous.gain || current.autoGain !== previous.autoGain) {
+        applyDeckGain(deck, current.gain * current.autoGain);
+      }
+      if (!previous || current.filter !== previous.filter) {
+        applyDeckFilter(deck, current.filter);
+      }
+    };
+
+    const sync = (state: DJStore, previous: DJStore | null) => {
+      syncDeck('A', state.deckA, previous?.deckA ?? null);
+      syncDeck('B', state.deckB, previous?.deckB ?? null);
+
+      if (
+        !previous ||
+        state.crossfaderValue !== previous.crossfaderValue ||
+        state.crossfaderCurve !== previous.crossfaderCurve ||
+        state.crossfaderCutIn !== previous.crossfaderCutIn ||
+        state.crossfaderCustomCurve !== previous.crossfaderCustomCurve
+      ) {
+        const mixValues = applyCurve(state.crossfaderValue, state.crossfaderCurve, {
+          cutIn: state.crossfaderCutIn,
+          customPoints: state.crossfaderCustomCurve,
+        });
+        applyDeckFader('A', mixValues.deckAVolume);
+        applyDeckFader('B', mixValues.deckBVolume);
+      }
+
+      if (!previous || state.master.eq !== previous.master.eq) {
+        applyMasterEQ(state.master.eq);
+      }
+      if (!previous || state.master.volume !== previous.master.volume) {
+        applyMasterVolume(state.master.volume);
+      }
+    };
+
+    sync(useDJStore.getState(), null);
+    const unsubscribe = useDJStore.subscribe(sync);
+
+    // Loop-back on the audio elements, mirroring VideoPlayer's loop scheduling
+    let frameId: number;
+    const checkLoops = () => {
+      const state = useDJStore.getState();
+      (['A', 'B'] as const).forEach((deck) => {
+        const element = elements[deck];
+        const loop = getActiveLoop(deck === 'A' ? state.deckA : state.deckB);
+        if (loop && !element.paused && element.currentTime >= loop.end) {
+          element.currentTime = loop.start;
+        }
+      });
+      frameId = requestAnimationFrame(checkLoops);
+    };
+    frameId = requestAnimationFrame(checkLoops);
+
+    return () => {
+      unsubscribe();
+      cancelAnimationFrame(frameId);
+      (['A', 'B'] as const).forEach((deck) => {
+        elements[deck].pause();
+        elements[deck].removeAttribute('src');
+        elements[deck].load();
+      });
+      updaters.A({ audioSource: 'iframe' });
+      updaters.B({ audioSource: 'iframe' });
+    };
+  }, [audioEngineStarted]);
+}
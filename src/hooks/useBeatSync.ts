@@ -0,0 +1,41 @@
+import { useEffect } from 'react';
+import { useDJStore } from '../stores/djStore';
+import { getEffectiveBpm, matchTempoRate } from '../utils/beatSync';
+import type { DJStore } from '../types';
+
+/**
+ * Hook that keeps sync followers tempo-locked to the sync master
+ *
+ * Whenever the master deck's effective BPM changes (tempo slider, MIDI,
+ * new BPM detected), every follower with SYNC on gets its playback rate
+ * recalculated. Phase is only aligned when SYNC is pressed.
+ */
+export function useBeatSync() {
+  useEffect(() => {
+    const lockFollower = (state: DJStore, previous: DJStore) => {
+      const masterId = state.syncMaster;
+      if (!masterId) return;
+
+      const master = masterId === 'A' ? state.deckA : state.deckB;
+      const previousMaster = masterId === 'A' ? previous.deckA : previous.deckB;
+      const follower = masterId === 'A' ? state.deckB : state.deckA;
+      const previousFollower = masterId === 'A' ? previous.deckB : previous.deckA;
+
+      if (!follower.syncEnabled) return;
+
+      const masterChanged =
+        state.syncMaster !== previous.syncMaster ||
+        getEffectiveBpm(master) !== getEffectiveBpm(previousMaster);
+      const followerBpmChanged = follower.bpm !== previousFollower.bpm;
+      if (!masterChanged && !followerBpmChanged) return;
+
+      const rate = matchTempoRate(follower, master);
+      if (rate === null || rate === follower.playbackRate) return;
+
+      const updateFollower = masterId === 'A' ? state.updateDeckB : state.updateDeckA;
+      updateFollower({ playbackRate: rate });
+    };
+
+    return useDJStore.subscribe(lockFollower);
+  }, []);
+}
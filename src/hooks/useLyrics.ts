@@ -0,0 +1,86 @@
+import { useState, useCallback } from 'react';
+import { useDJStore } from '../stores/djStore';
+import { parseLyrics } from '../utils/lyrics';
+import type { LyricsLookup } from '../types';
+
+interface UseLyricsReturn {
+  loading: boolean;
+  error: string | null;
+  /** Where the deck's lyrics were found (null once they are edited or replaced) */
+  found: LyricsLookup | null;
+  /** @returns Whether lyrics were found and loaded onto the deck */
+  fetchLyrics: () => Promise<boolean>;
+  /** Save synced LRC for the deck's track, locally and on the server */
+  saveLyrics: (lrc: string) => void;
+}
+
+/**
+ * Hook to look up and save a deck's lyrics through /api/lyrics
+ * The server tries the user's saved edits, the lyrics folder and the
+ * remote API (cached on disk); LRC results load synced, anything else as
+ * plain text.
+ */
+export function useLyrics(deck: 'A' | 'B'): UseLyricsReturn {
+  const updateDeck = useDJStore((state) => (deck === 'A' ? state.updateDeckA : state.updateDeckB));
+  const saveDeckLyrics = useDJStore((state) => (deck === 'A' ? state.saveDeckALyrics : state.saveDeckBLyrics));
+  const lyricsSource = useDJStore((state) => (deck === 'A' ? state.deckA : state.deckB).lyrics.source);
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [found, setFound] = useState<LyricsLookup | null>(null);
+
+  const fetchLyrics = useCallback(async (): Promise<boolean> => {
+    const { videoId, artist, title } = useDJStore.getState()[deck === 'A' ? 'deckA' : 'deckB'];
+
+    if (!artist.trim() || !title.trim()) {
+      setError('Enter artist and title');
+      return false;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ artist: artist.trim(), title: title.trim() });
+      if (videoId) params.set('videoId', videoId);
+
+      const response = await fetch(`/api/lyrics?${params}`);
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'Lyrics not found' : `Error ${response.status}`);
+      }
+
+      const lookup: LyricsLookup = await response.json();
+      updateDeck({ lyrics: parseLyrics(lookup.text) });
+      setFound(lookup);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch lyrics');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }, [deck, updateDeck]);
+
+  const saveLyrics = useCallback(
+    (lrc: string) => {
+      const { videoId } = useDJStore.getState()[deck === 'A' ? 'deckA' : 'deckB'];
+      saveDeckLyrics(lrc);
+      if (!videoId) return;
+
+      fetch(`/api/lyrics?videoId=${encodeURIComponent(videoId)}`, { method: 'PUT', body: lrc })
+        .then((response) => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        })
+        .catch((err) => console.error('[Lyrics] Failed to save lyrics on the server:', err));
+    },
+    [deck, saveDeckLyrics]
+  );
+
+  return {
+    loading,
+    error,
+    found: found?.text === lyricsSource ? found : null,
+    fetchLyrics,
+    saveLyrics,
+  };
+}
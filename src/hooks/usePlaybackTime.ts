@@ -0,0 +1,38 @@
+import { useEffect, useRef, useState } from 'react';
+import type { DeckState } from '../types';
+
+// Stop extrapolating this long after the last reported time (stalled player)
+const MAX_EXTRAPOLATION_SECONDS = 1;
+
+/**
+ * Hook that returns a deck's playback position, smoothed between updates
+ *
+ * Players report currentTime a few times a second (4 Hz for the YouTube
+ * embed), too coarse for word-by-word lyrics. While the deck plays, the
+ * position advances every animation frame from the last reported time at
+ * the deck's playbackRate; when paused it is currentTime as-is.
+ */
+export function usePlaybackTime(deck: Pick<DeckState, 'currentTime' | 'playing' | 'playbackRate'>): number {
+  const { currentTime, playing, playbackRate } = deck;
+  // Extrapolated position and the reported time it was extrapolated from
+  const [smoothed, setSmoothed] = useState<{ from: number; time: number } | null>(null);
+  const anchorRef = useRef({ time: currentTime, at: 0 });
+
+  useEffect(() => {
+    anchorRef.current = { time: currentTime, at: performance.now() };
+  }, [currentTime]);
+
+  useEffect(() => {
+    if (!playing) return;
+
+    let frame = requestAnimationFrame(function tick(now) {
+      const anchor = anchorRef.current;
+      const elapsed = Math.min((now - anchor.at) / 1000, MAX_EXTRAPOLATION_SECONDS);
+      setSmoothed({ from: anchor.time, time: anchor.time + Math.max(0, elapsed) * playbackRate });
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [playing, playbackRate]);
+
+  return playing && smoothed?.from === currentTime ? smoothed.time : currentTime;
+}
@@ -0,0 +1,358 @@
+import { useDJStore } from '../stores/djStore';
+import { BEAT_GRID_SHIFT_SECONDS, HOT_CUE_COUNT, LOOP_BEAT_OPTIONS } from '../types';
+import type { DeckState, PadMode } from '../types';
+import { bipolarToUnipolar, gainToKnob, knobToGain, unipolarToBipolar } from '../utils/knobs';
+import { formatBeats } from '../utils/loops';
+import { tapLyrics } from '../utils/lyricsSync';
+
+/**
+ * Registry of store actions that MIDI controls can be mapped to
+ *
+ * Action ids are stable strings (e.g. "deckA.eq.high") used in mappings and
+ * exported presets, and as `data-midi-action` attributes on on-screen
+ * controls for MIDI learn.
+ */
+
+/** Continuous control (fader, knob): position 0 to 1 */
+interface RangeAction {
+  kind: 'range';
+  id: string;
+  label: string;
+  get: () => number;
+  set: (value: number) => void;
+}
+
+/** Momentary control (button, pad) */
+interface ButtonAction {
+  kind: 'button';
+  id: string;
+  label: string;
+  press: () => void;
+  release?: () => void;
+}
+
+/** Endless control (jog wheel, encoder): signed ticks */
+interface JogAction {
+  kind: 'jog';
+  id: string;
+  label: string;
+  nudge: (ticks: number) => void;
+}
+
+export type MidiAction = RangeAction | ButtonAction | JogAction;
+
+type Deck = 'A' | 'B';
+
+// Tempo slider range (±8%, same as the on-screen slider)
+const TEMPO_RANGE = 0.08;
+
+// Jog wheel movement per tick (seconds): fine nudge while playing, scrub while paused
+const JOG_NUDGE_SECONDS = 0.01;
+const JOG_SCRUB_SECONDS = 0.05;
+
+const PAD_MODE_LABELS: Record<PadMode, string> = {
+  hotCue: 'Hot cue',
+  beatLoop: 'Beat loop',
+  loopRoll: 'Loop roll',
+};
+
+/**
+ * Actions for one deck
+ */
+function createDeckActions(deck: Deck): MidiAction[] {
+  const store = () => useDJStore.getState();
+  const getDeck = (): DeckState => (deck === 'A' ? store().deckA : store().deckB);
+  const updateDeck = (updates: Partial<DeckState>) =>
+    deck === 'A' ? store().updateDeckA(updates) : store().updateDeckB(updates);
+  const prefix = `deck${deck}`;
+  const name = `Deck ${deck}`;
+
+  const pads = Array.from({ length: HOT_CUE_COUNT }, (_, index) => index);
+  const loopPads = pads.slice(0, LOOP_BEAT_OPTIONS.length);
+
+  const pressHotCue = (index: number) =>
+    deck === 'A' ? store().pressDeckAHotCue(index) : store().pressDeckBHotCue(index);
+  const releaseHotCue = (index: number) =>
+    deck === 'A' ? store().releaseDeckAHotCue(index) : store().releaseDeckBHotCue(index);
+  const setAutoLoop = (beats: number) =>
+    deck === 'A' ? store().setDeckAAutoLoop(beats) : store().setDeckBAutoLoop(beats);
+  const startLoopRoll = (beats: number) =>
+    deck === 'A' ? store().startDeckALoopRoll(beats) : store().startDeckBLoopRoll(beats);
+  const endLoopRoll = () => (deck === 'A' ? store().endDeckALoopRoll() : store().endDeckBLoopRoll());
+  const shiftBeatGrid = (seconds: number) =>
+    deck === 'A' ? store().shiftDeckABeatGrid(seconds) : store().shiftDeckBBeatGrid(seconds);
+
+  const eqAction = (band: 'high' | 'mid' | 'low', label: string): RangeAction => ({
+    kind: 'range',
+    id: `${prefix}.eq.${band}`,
+    label: `${name} EQ ${label}`,
+    get: () => bipolarToUnipolar(getDeck().eq[band]),
+    set: (value) => {
+      const eq = { [band]: unipolarToBipolar(value) };
+      if (deck === 'A') store().setDeckAEQ(eq);
+      else store().setDeckBEQ(eq);
+    },
+  });
+
+  return [
+    {
+      kind: 'button',
+      id: `${prefix}.play`,
+      label: `${name} Play/Pause`,
+      press: () => (deck === 'A' ? store().toggleDeckAPlay() : store().toggleDeckBPlay()),
+    },
+    {
+      kind: 'button',
+      id: `${prefix}.cue`,
+      label: `${name} Cue`,
+      press: () => (deck === 'A' ? store().pressDeckACue() : store().pressDeckBCue()),
+      release: () => (deck === 'A' ? store().releaseDeckACue() : store().releaseDeckBCue()),
+    },
+    {
+      kind: 'button',
+      id: `${prefix}.sync`,
+      label: `${name} Sync`,
+      press: () => (deck === 'A' ? store().syncDeckA() : store().syncDeckB()),
+    },
+    {
+      kind: 'range',
+      id: `${prefix}.tempo`,
+      label: `${name} Tempo`,
+      get: () => bipolarToUnipolar((getDeck().playbackRate - 1) / TEMPO_RANGE),
+      set: (value) => {
+        // Moving a follower's tempo by hand drops it out of sync
+        const isSyncMaster = store().syncMaster === deck;
+        updateDeck({
+          playbackRate: 1 + unipolarToBipolar(value) * TEMPO_RANGE,
+          syncEnabled: isSyncMaster && getDeck().syncEnabled,
+        });
+      },
+    },
+    {
+      kind: 'jog',
+      id: `${prefix}.jog`,
+      label: `${name} Jog`,
+      nudge: (ticks) => {
+        const current = getDeck();
+        if (!current.videoId) return;
+        const step = current.playing ? JOG_NUDGE_SECONDS : JOG_SCRUB_SECONDS;
+        const time = Math.max(0, current.currentTime + ticks * step);
+        updateDeck({ seekTo: time, currentTime: time });
+      },
+    },
+    {
+      kind: 'range',
+      id: `${prefix}.trim`,
+      label: `${name} Trim`,
+      get: () => bipolarToUnipolar(gainToKnob(getDeck().gain)),
+      set: (value) => {
+        const gain = knobToGain(unipolarToBipolar(value));
+        if (deck === 'A') store().setDeckAGain(gain);
+        else store().setDeckBGain(gain);
+      },
+    },
+    eqAction('high', 'High'),
+    eqAction('mid', 'Mid'),
+    eqAction('low', 'Low'),
+    {
+      kind: 'range',
+      id: `${prefix}.filter`,
+      label: `${name} Filter`,
+      get: () => bipolarToUnipolar(getDeck().filter),
+      set: (value) => {
+        const filter = unipolarToBipolar(value);
+        if (deck === 'A') store().setDeckAFilter(filter);
+        else store().setDeckBFilter(filter);
+      },
+    },
+
+    // Loops
+    {
+      kind: 'button',
+      id: `${prefix}.loopIn`,
+      label: `${name} Loop In`,
+      press: () => (deck === 'A' ? store().setDeckALoopIn() : store().setDeckBLoopIn()),
+    },
+    {
+      kind: 'button',
+      id: `${prefix}.loopOut`,
+      label: `${name} Loop Out`,
+      press: () => (deck === 'A' ? store().setDeckALoopOut() : store().setDeckBLoopOut()),
+    },
+    {
+      kind: 'button',
+      id: `${prefix}.reloop`,
+      label: `${name} Reloop/Exit`,
+      press: () => (deck === 'A' ? store().toggleDeckALoop() : store().toggleDeckBLoop()),
+    },
+    {
+      kind: 'button',
+      id: `${prefix}.loopHalve`,
+      label: `${name} Loop ½`,
+      press: () => (deck === 'A' ? store().halveDeckALoop() : store().halveDeckBLoop()),
+    },
+    {
+      kind: 'button',
+      id: `${prefix}.loopDouble`,
+      label: `${name} Loop ×2`,
+      press: () => (deck === 'A' ? store().doubleDeckALoop() : store().doubleDeckBLoop()),
+    },
+
+    // Beat grid
+    {
+      kind: 'button',
+      id: `${prefix}.gridShiftEarlier`,
+      label: `${name} Grid Earlier`,
+      press: () => shiftBeatGrid(-BEAT_GRID_SHIFT_SECONDS),
+    },
+    {
+      kind: 'button',
+      id: `${prefix}.gridShiftLater`,
+      label: `${name} Grid Later`,
+      press: () => shiftBeatGrid(BEAT_GRID_SHIFT_SECONDS),
+    },
+    {
+      kind: 'button',
+      id: `${prefix}.gridDownbeat`,
+      label: `${name} Set Downbeat`,
+      press: () => (deck === 'A' ? store().setDeckADownbeat() : store().setDeckBDownbeat()),
+    },
+    {
+      kind: 'button',
+      id: `${prefix}.gridBpmHalve`,
+      label: `${name} BPM ½`,
+      press: () => (deck === 'A' ? store().halveDeckABpm() : store().halveDeckBBpm()),
+    },
+    {
+      kind: 'button',
+      id: `${prefix}.gridBpmDouble`,
+      label: `${name} BPM ×2`,
+      press: () => (deck === 'A' ? store().doubleDeckABpm() : store().doubleDeckBBpm()),
+    },
+
+    // Lyrics sync editor
+    {
+      kind: 'button',
+      id: `${prefix}.lyricsTap`,
+      label: `${name} Lyrics Sync Tap`,
+      press: () => tapLyrics(deck),
+    },
+
+    // Pad modes
+    ...(Object.keys(PAD_MODE_LABELS) as PadMode[]).map(
+      (padMode): ButtonAction => ({
+        kind: 'button',
+        id: `${prefix}.padMode.${padMode}`,
+        label: `${name} Pad Mode: ${PAD_MODE_LABELS[padMode]}`,
+        press: () => updateDeck({ padMode }),
+      })
+    ),
+
+    // Pads following the selected pad mode (for controllers without per-mode notes)
+    ...pads.map(
+      (pad): ButtonAction => ({
+        kind: 'button',
+        id: `${prefix}.pad.${pad + 1}`,
+        label: `${name} Pad ${pad + 1}`,
+        press: () => {
+          const padMode = getDeck().padMode;
+          const beats = LOOP_BEAT_OPTIONS[pad];
+          if (padMode === 'hotCue') pressHotCue(pad);
+          else if (padMode === 'beatLoop' && beats !== undefined) setAutoLoop(beats);
+          else if (padMode === 'loopRoll' && beats !== undefined) startLoopRoll(beats);
+        },
+        release: () => {
+          const padMode = getDeck().padMode;
+          if (padMode === 'hotCue') releaseHotCue(pad);
+          else if (padMode === 'loopRoll') endLoopRoll();
+        },
+      })
+    ),
+
+    // Mode-specific pads
+    ...pads.map(
+      (pad): ButtonAction => ({
+        kind: 'button',
+        id: `${prefix}.hotCue.${pad + 1}`,
+        label: `${name} Hot Cue ${pad + 1}`,
+        press: () => pressHotCue(pad),
+        release: () => releaseHotCue(pad),
+      })
+    ),
+    ...pads.map(
+      (pad): ButtonAction => ({
+        kind: 'button',
+        id: `${prefix}.hotCueDelete.${pad + 1}`,
+        label: `${name} Delete Hot Cue ${pad + 1}`,
+        press: () => (deck === 'A' ? store().deleteDeckAHotCue(pad) : store().deleteDeckBHotCue(pad)),
+      })
+    ),
+    ...loopPads.map(
+      (pad): ButtonAction => ({
+        kind: 'button',
+        id: `${prefix}.beatLoop.${pad + 1}`,
+        label: `${name} ${formatBeats(LOOP_BEAT_OPTIONS[pad])} Beat Loop`,
+        press: () => setAutoLoop(LOOP_BEAT_OPTIONS[pad]),
+      })
+    ),
+    ...loopPads.map(
+      (pad): ButtonAction => ({
+        kind: 'button',
+        id: `${prefix}.loopRoll.${pad + 1}`,
+        label: `${name} ${formatBeats(LOOP_BEAT_OPTIONS[pad])} Beat Roll`,
+        press: () => startLoopRoll(LOOP_BEAT_OPTIONS[pad]),
+        release: endLoopRoll,
+      })
+    ),
+  ];
+}
+
+/**
+ * Mixer-wide actions
+ */
+function createMixerActions(): MidiAction[] {
+  const store = () => useDJStore.getState();
+
+  const masterEqAction = (band: 'high' | 'mid' | 'low', label: string): RangeAction => ({
+    kind: 'range',
+    id: `master.eq.${band}`,
+    label: `Master EQ ${label}`,
+    get: () => bipolarToUnipolar(store().master.eq[band]),
+    set: (value) => store().setMasterEQ({ [band]: unipolarToBipolar(value) }),
+  });
+
+  return [
+    {
+      kind: 'range',
+      id: 'crossfader',
+      label: 'Crossfader',
+      get: () => store().crossfaderValue,
+      set: (value) => store().setCrossfader(value),
+    },
+    {
+      kind: 'range',
+      id: 'master.volume',
+      label: 'Master Volume',
+      get: () => store().master.volume,
+      set: (value) => store().setMasterVolume(value),
+    },
+    masterEqAction('high', 'High'),
+    masterEqAction('mid', 'Mid'),
+    masterEqAction('low', 'Low'),
+  ];
+}
+
+export const MIDI_ACTIONS: MidiAction[] = [
+  ...createMixerActions(),
+  ...createDeckActions('A'),
+  ...createDeckActions('B'),
+];
+
+const actionsById = new Map(MIDI_ACTIONS.map((action) => [action.id, action]));
+
+/**
+ * Look up an action by id
+ */
+export function getMidiAction(id: string): MidiAction | undefined {
+  return actionsById.get(id);
+}
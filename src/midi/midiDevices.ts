@@ -0,0 +1,120 @@
+import { useDJStore } from '../stores/djStore';
+import type { DJStoreState } from '../types';
+import { parseMidiMessage } from './midiMapping';
+import { handleMidiInput } from './midiInput';
+import { startMidiFeedback } from './midiOutput';
+
+/**
+ * MIDI device manager
+ *
+ * Binds every input and output port to the device it belongs to (ports are
+ * grouped by name), reports connection state to the store and follows
+ * hot-plug one port at a time. Whether a device is used and which preset it
+ * runs on is decided per message/update from the store, so toggling a
+ * device never rebinds ports.
+ */
+
+/**
+ * Device a port belongs to
+ */
+function getDeviceName(port: MIDIPort): string {
+  return port.name || port.id;
+}
+
+/**
+ * Whether any enabled device has a connected input
+ */
+export function hasConnectedMidiDevice(state: DJStoreState): boolean {
+  return Object.values(state.midiDevices).some((device) => device.enabled && device.inputConnected);
+}
+
+/**
+ * Start managing the ports of a MIDIAccess
+ *
+ * @returns Detach function that unbinds every port and turns lights off
+ */
+export function attachMidiAccess(midiAccess: MIDIAccess): () => void {
+  const inputs = new Map<string, MIDIInput>(); // By port id
+  const outputs = new Map<string, { deviceName: string; stopFeedback: () => void }>(); // By port id
+
+  const bindInput = (input: MIDIInput) => {
+    const deviceName = getDeviceName(input);
+
+    input.onmidimessage = (event: MIDIMessageEvent) => {
+      if (!event.data) return;
+      const message = parseMidiMessage(event.data);
+      if (!message) return;
+
+      // Log all incoming MIDI for debugging/mapping
+      console.log(
+        `[MIDI] "${deviceName}" Status: 0x${message.status.toString(16).toUpperCase()} ` +
+          `(Type: ${message.type}, Ch: ${message.channel + 1}) ` +
+          `Data1: ${message.data1} Data2: ${message.data2}`
+      );
+
+      handleMidiInput(message, deviceName);
+    };
+    inputs.set(input.id, input);
+  };
+
+  /**
+   * Bring one port in line with its current state
+   */
+  const syncPort = (port: MIDIPort) => {
+    const deviceName = getDeviceName(port);
+    const connected = port.state === 'connected';
+    const { updateMidiDevicePorts } = useDJStore.getState();
+
+    if (port.type === 'input') {
+      const bound = inputs.get(port.id);
+      if (connected && !bound) {
+        bindInput(port as MIDIInput);
+        updateMidiDevicePorts(deviceName, { manufacturer: port.manufacturer ?? '', inputConnected: true });
+        console.log(`[MIDI] Input connected: "${deviceName}"`);
+      } else if (!connected && bound) {
+        bound.onmidimessage = null;
+        inputs.delete(port.id);
+        updateMidiDevicePorts(deviceName, { inputConnected: false });
+        console.log(`[MIDI] Input disconnected: "${deviceName}"`);
+      }
+      return;
+    }
+
+    const bound = outputs.get(port.id);
+    if (connected && !bound) {
+      outputs.set(port.id, { deviceName, stopFeedback: startMidiFeedback(port as MIDIOutput, deviceName) });
+      updateMidiDevicePorts(deviceName, { manufacturer: port.manufacturer ?? '', outputConnected: true });
+    } else if (!connected && bound) {
+      bound.stopFeedback();
+      outputs.delete(port.id);
+      updateMidiDevicePorts(deviceName, { outputConnected: false });
+    }
+  };
+
+  midiAccess.inputs.forEach(syncPort);
+  midiAccess.outputs.forEach(syncPort);
+
+  // Hot-plug: only the port that changed is touched
+  midiAccess.onstatechange = (event: MIDIConnectionEvent) => {
+    if (event.port) syncPort(event.port);
+  };
+
+  if (inputs.size === 0) {
+    console.log('[MIDI] No MIDI input devices found');
+  }
+
+  return () => {
+    const { updateMidiDevicePorts } = useDJStore.getState();
+    midiAccess.onstatechange = null;
+    inputs.forEach((input) => {
+      input.onmidimessage = null;
+      updateMidiDevicePorts(getDeviceName(input), { inputConnected: false });
+    });
+    inputs.clear();
+    outputs.forEach(({ deviceName, stopFeedback }) => {
+      stopFeedback();
+      updateMidiDevicePorts(deviceName, { outputConnected: false });
+    });
+    outputs.clear();
+  };
+}
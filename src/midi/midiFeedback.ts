@@ -0,0 +1,134 @@
+import { HOT_CUE_COUNT, LOOP_BEAT_OPTIONS } from '../types';
+import type { DJStoreState, DeckState, MidiFeedback, PadMode } from '../types';
+
+/**
+ * Registry of store state that can drive controller LEDs and pad lights
+ *
+ * Source ids mirror the action ids in ./midiActions.ts (e.g. "deckA.play"
+ * lights the button mapped to the "deckA.play" action).
+ */
+
+type Deck = 'A' | 'B';
+
+interface FeedbackSource {
+  id: string;
+  deck: Deck | null; // Deck whose beat a `blink: 'beat'` binding follows
+  lit: (state: DJStoreState) => boolean;
+  color?: (state: DJStoreState) => string | null; // For 'color' bindings
+}
+
+// Velocity sent for a lit 'color' binding whose source has no color
+const DEFAULT_COLOR_VELOCITY = 127;
+
+/**
+ * Sources for one deck
+ */
+function createDeckSources(deck: Deck): FeedbackSource[] {
+  const getDeck = (state: DJStoreState): DeckState => (deck === 'A' ? state.deckA : state.deckB);
+  const prefix = `deck${deck}`;
+  const pads = Array.from({ length: HOT_CUE_COUNT }, (_, index) => index);
+
+  const source = (
+    id: string,
+    lit: (deckState: DeckState) => boolean,
+    color?: (deckState: DeckState) => string | null
+  ): FeedbackSource => ({
+    id: `${prefix}.${id}`,
+    deck,
+    lit: (state) => lit(getDeck(state)),
+    color: color && ((state) => color(getDeck(state))),
+  });
+
+  const beatLoopLit = (deckState: DeckState, pad: number) =>
+    deckState.loopActive && !deckState.loopRoll && deckState.loopBeats === LOOP_BEAT_OPTIONS[pad];
+  const loopRollLit = (deckState: DeckState, pad: number) =>
+    deckState.loopRoll !== null && deckState.loopBeats === LOOP_BEAT_OPTIONS[pad];
+
+  return [
+    source('play', (d) => d.playing),
+    // Lit while previewing from the cue, or parked on it
+    source(
+      'cue',
+      (d) =>
+        d.cuePreviewReturn !== null ||
+        (!!d.videoId && !d.playing && Math.abs(d.currentTime - d.cuePoint) < 0.05)
+    ),
+    source('sync', (d) => d.syncEnabled),
+    source('loopIn', (d) => d.loopActive),
+    source('loopOut', (d) => d.loopActive),
+    source('reloop', (d) => d.loopActive),
+    ...(['hotCue', 'beatLoop', 'loopRoll'] as PadMode[]).map((padMode) =>
+      source(`padMode.${padMode}`, (d) => d.padMode === padMode)
+    ),
+
+    // Pads following the selected pad mode
+    ...pads.map((pad) =>
+      source(
+        `pad.${pad + 1}`,
+        (d) =>
+          d.padMode === 'hotCue' ? d.hotCues[pad] !== null : d.padMode === 'beatLoop' ? beatLoopLit(d, pad) : loopRollLit(d, pad),
+        (d) => (d.padMode === 'hotCue' ? (d.hotCues[pad]?.color ?? null) : null)
+      )
+    ),
+
+    // Mode-specific pads
+    ...pads.map((pad) =>
+      source(
+        `hotCue.${pad + 1}`,
+        (d) => d.hotCues[pad] !== null,
+        (d) => d.hotCues[pad]?.color ?? null
+      )
+    ),
+    ...pads.slice(0, LOOP_BEAT_OPTIONS.length).map((pad) => source(`beatLoop.${pad + 1}`, (d) => beatLoopLit(d, pad))),
+    ...pads.slice(0, LOOP_BEAT_OPTIONS.length).map((pad) => source(`loopRoll.${pad + 1}`, (d) => loopRollLit(d, pad))),
+  ];
+}
+
+export const MIDI_FEEDBACK_SOURCES: FeedbackSource[] = [...createDeckSources('A'), ...createDeckSources('B')];
+
+const sourcesById = new Map(MIDI_FEEDBACK_SOURCES.map((source) => [source.id, source]));
+
+/**
+ * Nearest velocity on the hue-wheel pad palette used by RGB pad controllers
+ * (1-63 around the hue circle, 127 for white/grey)
+ */
+export function colorToVelocity(color: string): number {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  if (!match) return DEFAULT_COLOR_VELOCITY;
+
+  const [r, g, b] = match.slice(1).map((hex) => parseInt(hex, 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  if (delta < 0.1) return DEFAULT_COLOR_VELOCITY;
+
+  let hue: number;
+  if (max === r) hue = ((g - b) / delta + 6) % 6;
+  else if (max === g) hue = (b - r) / delta + 2;
+  else hue = (r - g) / delta + 4;
+
+  return 1 + Math.round((hue / 6) * 62);
+}
+
+/**
+ * Value to send for a feedback binding
+ *
+ * @param beatOn Whether a deck is in the first half of its current beat
+ */
+export function resolveFeedbackValue(
+  feedback: MidiFeedback,
+  state: DJStoreState,
+  beatOn: (deck: Deck) => boolean
+): number {
+  const off = feedback.off ?? 0;
+  const source = sourcesById.get(feedback.source);
+  if (!source || !source.lit(state)) return off;
+
+  if (feedback.blink === 'beat' && source.deck && !beatOn(source.deck)) return off;
+
+  if (feedback.transform === 'color') {
+    const color = source.color?.(state);
+    return color ? colorToVelocity(color) : (feedback.on ?? DEFAULT_COLOR_VELOCITY);
+  }
+  return feedback.on ?? 127;
+}
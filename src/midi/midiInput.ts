@@ -0,0 +1,142 @@
+import { useDJStore } from '../stores/djStore';
+import type { MidiMapping, MidiMessage } from '../types';
+import { getMidiAction, type MidiAction } from './midiActions';
+import { getMappingId, matchesMapping, resolveMidiValue, type MidiInputValue } from './midiMapping';
+
+/**
+ * Incoming MIDI handling: MIDI learn, then dispatch through the sending
+ * device's mapping preset
+ */
+
+// Position change per encoder tick when a range action is mapped relative
+const RELATIVE_STEP = 1 / 128;
+
+// How long learn waits for the LSB half of a 14-bit CC pair (ms)
+const LEARN_14BIT_WINDOW_MS = 100;
+
+let pendingLearn: { message: MidiMessage; presetId: string; timer: ReturnType<typeof setTimeout> } | null = null;
+
+/**
+ * Store a learned mapping in a preset and leave the learn target
+ */
+function commitLearnedMapping(presetId: string, mapping: Omit<MidiMapping, 'id'>): void {
+  const store = useDJStore.getState();
+  const learned = { ...mapping, id: getMappingId(mapping) };
+  store.bindMidiMapping(presetId, learned);
+  store.setMidiLearnTarget(null);
+  console.log(
+    `[MIDI] Learned ${learned.action} → ${learned.type.toUpperCase()} ${learned.control} (${learned.transform}) in "${presetId}"`
+  );
+}
+
+/**
+ * Bind the learn target to the control that sent `message`
+ * CCs below 32 wait briefly for a matching LSB (CC + 32) to detect 14-bit controls.
+ */
+function learnFromMessage(message: MidiMessage, action: MidiAction, presetId: string): void {
+  const commit = (mapping: Omit<MidiMapping, 'id'>) => commitLearnedMapping(presetId, mapping);
+
+  if (message.type === 'noteOn') {
+    commit({ action: action.id, type: 'note', channel: message.channel, control: message.data1, transform: 'button' });
+    return;
+  }
+  if (message.type !== 'controlChange') return;
+
+  const base = { action: action.id, type: 'cc' as const, channel: message.channel };
+
+  if (action.kind === 'jog') {
+    commit({ ...base, control: message.data1, transform: 'relative', encoding: 'offset' });
+    return;
+  }
+  if (action.kind === 'button') {
+    commit({ ...base, control: message.data1, transform: 'button' });
+    return;
+  }
+
+  if (pendingLearn) {
+    const msb = pendingLearn.message;
+    if (pendingLearn.presetId === presetId && msb.channel === message.channel && message.data1 === msb.data1 + 32) {
+      clearTimeout(pendingLearn.timer);
+      pendingLearn = null;
+      commit({ ...base, control: msb.data1, transform: 'absolute14', lsb: message.data1 });
+    }
+    return;
+  }
+
+  if (message.data1 < 32) {
+    pendingLearn = {
+      message,
+      presetId,
+      timer: setTimeout(() => {
+        pendingLearn = null;
+        commit({ ...base, control: message.data1, transform: 'absolute' });
+      }, LEARN_14BIT_WINDOW_MS),
+    };
+    return;
+  }
+
+  commit({ ...base, control: message.data1, transform: 'absolute' });
+}
+
+/**
+ * Feed a transformed value to an action
+ */
+function applyMidiValue(action: MidiAction, value: MidiInputValue): void {
+  switch (action.kind) {
+    case 'range':
+      if (value.kind === 'absolute') {
+        action.set(value.value);
+      } else if (value.kind === 'delta') {
+        action.set(Math.max(0, Math.min(1, action.get() + value.ticks * RELATIVE_STEP)));
+      }
+      break;
+
+    case 'button':
+      if (value.kind === 'press' || (value.kind === 'absolute' && value.value >= 0.5)) {
+        action.press();
+      } else if (value.kind === 'release' || value.kind === 'absolute') {
+        action.release?.();
+      }
+      break;
+
+    case 'jog':
+      if (value.kind === 'delta' && value.ticks !== 0) {
+        action.nudge(value.ticks);
+      }
+      break;
+  }
+}
+
+/**
+ * Handle a parsed MIDI message from a device
+ * Messages from disabled or unknown devices are ignored.
+ */
+export function handleMidiInput(message: MidiMessage, deviceName: string): void {
+  const { midiDevices, midiPresets, midiLearn } = useDJStore.getState();
+  const device = midiDevices[deviceName];
+  if (!device?.enabled) return;
+
+  // Learn mode with a picked control: the next hardware control binds to it
+  // in the sending device's preset
+  if (midiLearn.active && midiLearn.target) {
+    const action = getMidiAction(midiLearn.target);
+    if (action) learnFromMessage(message, action, device.presetId);
+    return;
+  }
+
+  let handled = false;
+  (midiPresets[device.presetId]?.mappings ?? []).forEach((mapping) => {
+    if (!matchesMapping(mapping, message)) return;
+
+    const action = getMidiAction(mapping.action);
+    if (!action) return;
+
+    handled = true;
+    const value = resolveMidiValue(mapping, message);
+    if (value) applyMidiValue(action, value);
+  });
+
+  if (!handled) {
+    console.log(`[MIDI] Unmapped message from "${deviceName}" - bind it with MIDI learn`);
+  }
+}
@@ -0,0 +1,223 @@
+import type { MidiFeedback, MidiMapping, MidiMessage, MidiPreset, MidiRelativeEncoding } from '../types';
+import { midiToNormalized } from '../utils/crossfaderCurve';
+
+/**
+ * Declarative MIDI mapping engine
+ *
+ * Parses raw MIDI bytes, matches them against mappings and turns the data
+ * byte(s) into a value an action can consume. Dispatching to the store
+ * happens in ./midiInput.ts, LED feedback in ./midiOutput.ts.
+ */
+
+export const MIDI_PRESET_VERSION = 1;
+
+/**
+ * Value produced by a mapping's transform
+ */
+export type MidiInputValue =
+  | { kind: 'press' }
+  | { kind: 'release' }
+  | { kind: 'absolute'; value: number } // 0 to 1
+  | { kind: 'delta'; ticks: number }; // Signed encoder ticks
+
+// Last MSB seen per 14-bit control, combined with the following LSB
+const msbCache = new Map<string, number>();
+
+/**
+ * Parse raw MIDI bytes (note on/off and CC only)
+ */
+export function parseMidiMessage(data: Uint8Array): MidiMessage | null {
+  if (data.length < 2) return null;
+
+  const status = data[0];
+  const messageType = status & 0xf0;
+  const data2 = data.length > 2 ? data[2] : 0;
+
+  let type: MidiMessage['type'] = 'unknown';
+  if (messageType === 0x90) type = data2 > 0 ? 'noteOn' : 'noteOff';
+  else if (messageType === 0x80) type = 'noteOff';
+  else if (messageType === 0xb0) type = 'controlChange';
+
+  return { status, data1: data[1], data2, channel: status & 0x0f, type };
+}
+
+/**
+ * Stable id for a mapping, derived from its action and control
+ */
+export function getMappingId(mapping: Omit<MidiMapping, 'id'>): string {
+  const channel = mapping.channel === null ? '*' : mapping.channel;
+  return `${mapping.action}@${mapping.type}:${channel}:${mapping.control}`;
+}
+
+/**
+ * Stable id for a feedback binding, derived from its source and control
+ */
+export function getFeedbackId(feedback: Omit<MidiFeedback, 'id'>): string {
+  return `${feedback.source}>${feedback.type}:${feedback.channel}:${feedback.control}`;
+}
+
+/**
+ * Whether a message comes from the control a mapping is bound to
+ * 14-bit mappings also match their LSB controller.
+ */
+export function matchesMapping(mapping: MidiMapping, message: MidiMessage): boolean {
+  if (mapping.channel !== null && mapping.channel !== message.channel) return false;
+
+  if (mapping.type === 'note') {
+    return (message.type === 'noteOn' || message.type === 'noteOff') && message.data1 === mapping.control;
+  }
+
+  if (message.type !== 'controlChange') return false;
+  return message.data1 === mapping.control || (mapping.transform === 'absolute14' && message.data1 === mapping.lsb);
+}
+
+/**
+ * Whether two mappings listen to the same hardware control
+ */
+export function isSameControl(a: MidiMapping, b: MidiMapping): boolean {
+  return a.type === b.type && a.channel === b.channel && a.control === b.control;
+}
+
+/**
+ * Decode a relative encoder value into signed ticks
+ */
+function decodeRelative(value: number, encoding: MidiRelativeEncoding = 'offset'): number {
+  if (encoding === 'twos-complement') {
+    return value < 64 ? value : value - 128;
+  }
+  return value - 64;
+}
+
+/**
+ * Apply a mapping's transform to a message
+ *
+ * @returns The value for the mapped action, or null when the message only
+ * carries part of a value (14-bit MSB)
+ */
+export function resolveMidiValue(mapping: MidiMapping, message: MidiMessage): MidiInputValue | null {
+  switch (mapping.transform) {
+    case 'button': {
+      const pressed = mapping.type === 'note' ? message.type === 'noteOn' : message.data2 >= 64;
+      return { kind: pressed ? 'press' : 'release' };
+    }
+
+    case 'absolute': {
+      const value = midiToNormalized(message.data2);
+      return { kind: 'absolute', value: mapping.invert ? 1 - value : value };
+    }
+
+    case 'absolute14': {
+      const key = `${message.channel}:${mapping.control}`;
+      if (message.data1 === mapping.control) {
+        // MSB arrives first; the value is applied when its LSB follows
+        msbCache.set(key, message.data2);
+        return null;
+      }
+      const msb = msbCache.get(key) ?? 0;
+      const value = ((msb << 7) | message.data2) / 16383;
+      return { kind: 'absolute', value: mapping.invert ? 1 - value : value };
+    }
+
+    case 'relative': {
+      const ticks = decodeRelative(message.data2, mapping.encoding);
+      return { kind: 'delta', ticks: mapping.invert ? -ticks : ticks };
+    }
+  }
+}
+
+/**
+ * Human-readable description of the control a mapping listens to
+ */
+export function describeMapping(mapping: MidiMapping): string {
+  const channel = mapping.channel === null ? 'any ch' : `ch ${mapping.channel + 1}`;
+  const control = mapping.type === 'note' ? `Note ${mapping.control}` : `CC ${mapping.control}`;
+  const lsb = mapping.transform === 'absolute14' ? `/${mapping.lsb}` : '';
+  return `${control}${lsb} · ${channel}`;
+}
+
+/**
+ * Serialize mappings and feedback as a shareable preset
+ */
+export function exportMidiPreset(name: string, mappings: MidiMapping[], feedback: MidiFeedback[]): string {
+  const preset: MidiPreset = { name, version: MIDI_PRESET_VERSION, mappings, feedback };
+  return JSON.stringify(preset, null, 2);
+}
+
+/**
+ * Check that an imported value looks like a MidiMapping
+ */
+function isMidiMapping(value: unknown): value is Omit<MidiMapping, 'id'> & { id?: string } {
+  if (!value || typeof value !== 'object') return false;
+  const mapping = value as Record<string, unknown>;
+
+  return (
+    typeof mapping.action === 'string' &&
+    (mapping.type === 'note' || mapping.type === 'cc') &&
+    (mapping.channel === null || (typeof mapping.channel === 'number' && mapping.channel >= 0 && mapping.channel <= 15)) &&
+    typeof mapping.control === 'number' &&
+    ['button', 'absolute', 'absolute14', 'relative'].includes(mapping.transform as string) &&
+    (mapping.transform !== 'absolute14' || typeof mapping.lsb === 'number')
+  );
+}
+
+/**
+ * Check that an imported value looks like a MidiFeedback
+ */
+function isMidiFeedback(value: unknown): value is Omit<MidiFeedback, 'id'> & { id?: string } {
+  if (!value || typeof value !== 'object') return false;
+  const feedback = value as Record<string, unknown>;
+
+  return (
+    typeof feedback.source === 'string' &&
+    (feedback.type === 'note' || feedback.type === 'cc') &&
+    typeof feedback.channel === 'number' &&
+    feedback.channel >= 0 &&
+    feedback.channel <= 15 &&
+    typeof feedback.control === 'number' &&
+    (feedback.transform === 'onOff' || feedback.transform === 'color')
+  );
+}
+
+/**
+ * Parse a preset exported by exportMidiPreset
+ * Presets without a feedback list (input-only) import with no feedback.
+ *
+ * @throws Error describing the first problem found
+ */
+export function importMidiPreset(json: string): MidiPreset {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Preset is not valid JSON');
+  }
+
+  const preset = parsed as Partial<MidiPreset>;
+  if (!preset || !Array.isArray(preset.mappings)) {
+    throw new Error('Preset has no mappings list');
+  }
+  if (typeof preset.version === 'number' && preset.version > MIDI_PRESET_VERSION) {
+    throw new Error(`Preset version ${preset.version} is newer than supported (${MIDI_PRESET_VERSION})`);
+  }
+
+  const mappings = preset.mappings.map((mapping, index) => {
+    if (!isMidiMapping(mapping)) {
+      throw new Error(`Mapping ${index + 1} is invalid`);
+    }
+    return { ...mapping, id: mapping.id ?? getMappingId(mapping) };
+  });
+
+  const feedback = (Array.isArray(preset.feedback) ? preset.feedback : []).map((entry, index) => {
+    if (!isMidiFeedback(entry)) {
+      throw new Error(`Feedback ${index + 1} is invalid`);
+    }
+    return { ...entry, id: entry.id ?? getFeedbackId(entry) };
+  });
+
+  return {
+    name: typeof preset.name === 'string' ? preset.name : 'Imported preset',
+    version: MIDI_PRESET_VERSION,
+    mappings,
+    feedback,
+  };
+}
@@ -0,0 +1,124 @@
+import { useDJStore } from '../stores/djStore';
+import type { DJStoreState, DeckState, MidiFeedback } from '../types';
+import { getBeatPhase } from '../utils/beatSync';
+import { resolveFeedbackValue } from './midiFeedback';
+
+/**
+ * Outgoing MIDI: drives controller LEDs and pad lights from store state
+ */
+
+// How often lights are re-evaluated between store updates, for beat blinking (ms)
+const BEAT_TICK_MS = 30;
+
+type Deck = 'A' | 'B';
+
+/** Last reported position of a deck, for extrapolating between time updates */
+interface DeckClock {
+  time: number;
+  at: number; // performance.now() when `time` was reported
+}
+
+/**
+ * Key identifying the LED a binding drives
+ */
+function getControlKey(feedback: MidiFeedback): string {
+  return `${feedback.type}:${feedback.channel}:${feedback.control}`;
+}
+
+/**
+ * Feedback bindings for a device: its preset's, or none while disabled
+ */
+function getDeviceFeedback(state: DJStoreState, deviceName: string): MidiFeedback[] {
+  const device = state.midiDevices[deviceName];
+  if (!device?.enabled) return [];
+  return state.midiPresets[device.presetId]?.feedback ?? [];
+}
+
+/**
+ * Encode a feedback value as a note-on or CC message
+ */
+function encodeFeedback(feedback: MidiFeedback, value: number): number[] {
+  const status = (feedback.type === 'note' ? 0x90 : 0xb0) | feedback.channel;
+  return [status, feedback.control, Math.max(0, Math.min(127, Math.round(value)))];
+}
+
+/**
+ * Start sending feedback for a device's preset to its output port
+ * Only changed values are sent; all lights are sent once on start.
+ *
+ * @returns Stop function that turns every light off
+ */
+export function startMidiFeedback(output: MIDIOutput, deviceName: string): () => void {
+  const sent = new Map<string, { feedback: MidiFeedback; value: number }>();
+  const clocks: Record<Deck, DeckClock> = {
+    A: { time: 0, at: performance.now() },
+    B: { time: 0, at: performance.now() },
+  };
+
+  const send = (feedback: MidiFeedback, value: number) => {
+    if (output.state !== 'connected') return;
+    try {
+      output.send(encodeFeedback(feedback, value));
+    } catch (error) {
+      console.warn(`[MIDI] Failed to send feedback to "${output.name}":`, error);
+    }
+  };
+
+  // Current deck position, extrapolated from the last time update while playing
+  const beatOn = (state: DJStoreState, deck: Deck): boolean => {
+    const deckState: DeckState = deck === 'A' ? state.deckA : state.deckB;
+    if (!deckState.playing || deckState.bpm <= 0) return true;
+
+    const clock = clocks[deck];
+    const elapsed = ((performance.now() - clock.at) / 1000) * deckState.playbackRate;
+    return getBeatPhase({ ...deckState, currentTime: clock.time + elapsed }) < 0.5;
+  };
+
+  const update = () => {
+    const state = useDJStore.getState();
+
+    // Several bindings may share an LED; the brightest wins
+    const values = new Map<string, { feedback: MidiFeedback; value: number }>();
+    getDeviceFeedback(state, deviceName).forEach((feedback) => {
+      const key = getControlKey(feedback);
+      const value = resolveFeedbackValue(feedback, state, (deck) => beatOn(state, deck));
+      const current = values.get(key);
+      if (!current || value > current.value) values.set(key, { feedback, value });
+    });
+
+    values.forEach((entry, key) => {
+      if (sent.get(key)?.value === entry.value) return;
+      send(entry.feedback, entry.value);
+      sent.set(key, entry);
+    });
+
+    // Bindings removed since the last update: turn their lights off
+    sent.forEach((entry, key) => {
+      if (values.has(key)) return;
+      send(entry.feedback, entry.feedback.off ?? 0);
+      sent.delete(key);
+    });
+  };
+
+  const unsubscribe = useDJStore.subscribe((state, previous) => {
+    const now = performance.now();
+    if (state.deckA.currentTime !== previous.deckA.currentTime) clocks.A = { time: state.deckA.currentTime, at: now };
+    if (state.deckB.currentTime !== previous.deckB.currentTime) clocks.B = { time: state.deckB.currentTime, at: now };
+    update();
+  });
+
+  const { deckA, deckB } = useDJStore.getState();
+  clocks.A.time = deckA.currentTime;
+  clocks.B.time = deckB.currentTime;
+  update();
+
+  const beatTimer = setInterval(update, BEAT_TICK_MS);
+  console.log(`[MIDI] Sending feedback to "${output.name}"`);
+
+  return () => {
+    clearInterval(beatTimer);
+    unsubscribe();
+    sent.forEach((entry) => send(entry.feedback, entry.feedback.off ?? 0));
+    sent.clear();
+  };
+}
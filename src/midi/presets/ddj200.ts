@@ -0,0 +1,164 @@
+import { DDJ200, HOT_CUE_COUNT, LOOP_BEAT_OPTIONS } from '../../types';
+import type { MidiFeedback, MidiFeedbackTransform, MidiMapping, MidiPreset, MidiValueTransform } from '../../types';
+import { getFeedbackId, getMappingId } from '../midiMapping';
+
+/**
+ * Built-in Pioneer DDJ-200 preset
+ *
+ * Deck controls send on MIDI channel 1 (Deck A) / 2 (Deck B), the
+ * performance pads on channel 8 / 10 and the filter knobs on channel 7.
+ * Knobs and the tempo slider are 14-bit (MSB CC n, LSB CC n + 32).
+ * Button and pad LEDs listen on the same note/channel their button sends.
+ * Anything that differs on a particular unit can be rebound with MIDI learn.
+ */
+
+type Deck = 'A' | 'B';
+
+const DECK_CHANNEL: Record<Deck, number> = { A: 0, B: 1 };
+const PAD_CHANNEL: Record<Deck, number> = { A: 7, B: 9 };
+const FX_CHANNEL = 6;
+
+const PLAY_NOTE: Record<Deck, number> = { A: DDJ200.DECK_A_PLAY_NOTE, B: DDJ200.DECK_B_PLAY_NOTE };
+const CUE_NOTE: Record<Deck, number> = { A: DDJ200.DECK_A_CUE_NOTE, B: DDJ200.DECK_B_CUE_NOTE };
+
+// Deck control numbers
+const SYNC_NOTE = 0x58;
+const TEMPO_CC = 0x00;
+const EQ_HIGH_CC = 0x07;
+const EQ_MID_CC = 0x0b;
+const EQ_LOW_CC = 0x0f;
+const JOG_RING_CC = 0x21;
+const JOG_TOP_CC = 0x22;
+const FILTER_CC: Record<Deck, number> = { A: 0x17, B: 0x18 };
+
+// Pad mode buttons (deck channel)
+const PAD_MODE_NOTES = {
+  hotCue: 0x1b,
+  beatLoop: 0x6d,
+  loopRoll: 0x1e,
+} as const;
+
+// First pad note of each pad mode (pad channel)
+const HOT_CUE_PAD_NOTE = 0x00;
+const HOT_CUE_SHIFT_PAD_NOTE = 0x08;
+const LOOP_ROLL_PAD_NOTE = 0x10;
+const BEAT_LOOP_PAD_NOTE = 0x60;
+
+/**
+ * Build a mapping with its derived id
+ */
+function mapping(
+  action: string,
+  type: MidiMapping['type'],
+  channel: number | null,
+  control: number,
+  transform: MidiValueTransform,
+  extra: Partial<MidiMapping> = {}
+): MidiMapping {
+  const base = { action, type, channel, control, transform, ...extra };
+  return { ...base, id: getMappingId(base) };
+}
+
+/**
+ * Build a feedback binding with its derived id
+ */
+function feedback(
+  source: string,
+  channel: number,
+  note: number,
+  transform: MidiFeedbackTransform = 'onOff',
+  extra: Partial<MidiFeedback> = {}
+): MidiFeedback {
+  const base = { source, type: 'note' as const, channel, control: note, transform, ...extra };
+  return { ...base, id: getFeedbackId(base) };
+}
+
+/**
+ * 14-bit knob/slider with the LSB on CC msb + 32
+ */
+function knob14(action: string, channel: number, msb: number): MidiMapping {
+  return mapping(action, 'cc', channel, msb, 'absolute14', { lsb: msb + 0x20 });
+}
+
+/**
+ * All mappings for one deck
+ */
+function deckMappings(deck: Deck): MidiMapping[] {
+  const channel = DECK_CHANNEL[deck];
+  const padChannel = PAD_CHANNEL[deck];
+  const prefix = `deck${deck}`;
+  const pads = Array.from({ length: HOT_CUE_COUNT }, (_, index) => index);
+
+  return [
+    // Transport
+    mapping(`${prefix}.play`, 'note', channel, PLAY_NOTE[deck], 'button'),
+    mapping(`${prefix}.cue`, 'note', channel, CUE_NOTE[deck], 'button'),
+    mapping(`${prefix}.sync`, 'note', channel, SYNC_NOTE, 'button'),
+
+    // Tempo, EQ and filter
+    knob14(`${prefix}.tempo`, channel, TEMPO_CC),
+    knob14(`${prefix}.eq.high`, channel, EQ_HIGH_CC),
+    knob14(`${prefix}.eq.mid`, channel, EQ_MID_CC),
+    knob14(`${prefix}.eq.low`, channel, EQ_LOW_CC),
+    knob14(`${prefix}.filter`, FX_CHANNEL, FILTER_CC[deck]),
+
+    // Jog wheel (ring and touched top plate)
+    mapping(`${prefix}.jog`, 'cc', channel, JOG_RING_CC, 'relative', { encoding: 'offset' }),
+    mapping(`${prefix}.jog`, 'cc', channel, JOG_TOP_CC, 'relative', { encoding: 'offset' }),
+
+    // Pad mode buttons
+    mapping(`${prefix}.padMode.hotCue`, 'note', channel, PAD_MODE_NOTES.hotCue, 'button'),
+    mapping(`${prefix}.padMode.beatLoop`, 'note', channel, PAD_MODE_NOTES.beatLoop, 'button'),
+    mapping(`${prefix}.padMode.loopRoll`, 'note', channel, PAD_MODE_NOTES.loopRoll, 'button'),
+
+    // Pads in each mode
+    ...pads.map((pad) => mapping(`${prefix}.hotCue.${pad + 1}`, 'note', padChannel, HOT_CUE_PAD_NOTE + pad, 'button')),
+    ...pads.map((pad) =>
+      mapping(`${prefix}.hotCueDelete.${pad + 1}`, 'note', padChannel, HOT_CUE_SHIFT_PAD_NOTE + pad, 'button')
+    ),
+    ...pads
+      .slice(0, LOOP_BEAT_OPTIONS.length)
+      .map((pad) => mapping(`${prefix}.beatLoop.${pad + 1}`, 'note', padChannel, BEAT_LOOP_PAD_NOTE + pad, 'button')),
+    ...pads
+      .slice(0, LOOP_BEAT_OPTIONS.length)
+      .map((pad) => mapping(`${prefix}.loopRoll.${pad + 1}`, 'note', padChannel, LOOP_ROLL_PAD_NOTE + pad, 'button')),
+  ];
+}
+
+/**
+ * LED feedback for one deck
+ */
+function deckFeedback(deck: Deck): MidiFeedback[] {
+  const channel = DECK_CHANNEL[deck];
+  const padChannel = PAD_CHANNEL[deck];
+  const prefix = `deck${deck}`;
+  const pads = Array.from({ length: HOT_CUE_COUNT }, (_, index) => index);
+  const loopPads = pads.slice(0, LOOP_BEAT_OPTIONS.length);
+
+  return [
+    // Play pulses on the beat while playing
+    feedback(`${prefix}.play`, channel, PLAY_NOTE[deck], 'onOff', { blink: 'beat' }),
+    feedback(`${prefix}.cue`, channel, CUE_NOTE[deck]),
+    feedback(`${prefix}.sync`, channel, SYNC_NOTE),
+
+    feedback(`${prefix}.padMode.hotCue`, channel, PAD_MODE_NOTES.hotCue),
+    feedback(`${prefix}.padMode.beatLoop`, channel, PAD_MODE_NOTES.beatLoop),
+    feedback(`${prefix}.padMode.loopRoll`, channel, PAD_MODE_NOTES.loopRoll),
+
+    ...pads.map((pad) => feedback(`${prefix}.hotCue.${pad + 1}`, padChannel, HOT_CUE_PAD_NOTE + pad, 'color')),
+    ...loopPads.map((pad) => feedback(`${prefix}.beatLoop.${pad + 1}`, padChannel, BEAT_LOOP_PAD_NOTE + pad)),
+    ...loopPads.map((pad) => feedback(`${prefix}.loopRoll.${pad + 1}`, padChannel, LOOP_ROLL_PAD_NOTE + pad)),
+  ];
+}
+
+export const DDJ200_PRESET: MidiPreset = {
+  name: 'Pioneer DDJ-200',
+  version: 1,
+  mappings: [
+    // Crossfader (7-bit, any channel)
+    mapping('crossfader', 'cc', null, DDJ200.CROSSFADER_CC, 'absolute'),
+    ...deckMappings('A'),
+    ...deckMappings('B'),
+  ],
+  feedback: [...deckFeedback('A'), ...deckFeedback('B')],
+};
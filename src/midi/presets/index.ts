@@ -0,0 +1,39 @@
+import { DDJ200 } from '../../types';
+import type { MidiPreset } from '../../types';
+import { MIDI_PRESET_VERSION } from '../midiMapping';
+import { DDJ200_PRESET } from './ddj200';
+
+/**
+ * Built-in presets, keyed by preset id
+ * Devices whose port name matches `devicePattern` start out on the preset;
+ * any other device gets its own empty preset to fill with MIDI learn.
+ */
+export const BUILTIN_MIDI_PRESETS: Record<string, { preset: MidiPreset; devicePattern: RegExp }> = {
+  ddj200: { preset: DDJ200_PRESET, devicePattern: DDJ200.DEVICE_NAME_PATTERN },
+};
+
+/**
+ * Preset id a newly seen device starts with
+ */
+export function getDefaultPresetId(deviceName: string): string {
+  const builtin = Object.entries(BUILTIN_MIDI_PRESETS).find(([, { devicePattern }]) =>
+    devicePattern.test(deviceName)
+  );
+  return builtin ? builtin[0] : `device:${deviceName}`;
+}
+
+/**
+ * Preset a preset id starts from (and resets to)
+ */
+export function getInitialPreset(presetId: string, name: string): MidiPreset {
+  return (
+    BUILTIN_MIDI_PRESETS[presetId]?.preset ?? { name, version: MIDI_PRESET_VERSION, mappings: [], feedback: [] }
+  );
+}
+
+/**
+ * Built-in presets as the store's initial `midiPresets`
+ */
+export function getBuiltinPresets(): Record<string, MidiPreset> {
+  return Object.fromEntries(Object.entries(BUILTIN_MIDI_PRESETS).map(([id, { preset }]) => [id, preset]));
+}
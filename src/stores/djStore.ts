@@ -1,31 +1,125 @@
 import { create } from 'zustand';
-import type { DJStore, DeckState, CrossfaderCurve, DJStoreState, EQSettings } from '../types';
-import { DEFAULT_DECK_STATE, DEFAULT_MASTER } from '../types';
+import { persist } from 'zustand/middleware';
+import type { BeatGridAnalysis, BeatGridEdit, DJStore, DeckState, MusicalKey, CrossfaderCurve, CurvePoint, DJStoreState, EQSettings, HotCue, MidiDevicePorts, MidiMapping, MidiPreset, Track, ProjectorLyricsSettings, ProjectorState, SingerTurn, SingerTurnOutcome, TrackLoudness, WaveformColorScheme } from '../types';
+import { DEFAULT_DECK_STATE, DEFAULT_MASTER, DEFAULT_PROJECTOR_LYRICS, EMPTY_SINGER_ROTATION, DEFAULT_CUT_IN, DEFAULT_CUSTOM_CURVE, DEFAULT_AUTO_GAIN_TARGET, MAX_AUTO_GAIN_TARGET, MIN_AUTO_GAIN_TARGET } from '../types';
+import { getAudioEngine, resumeAudioEngine } from '../audio/audioEngine';
+import { cueDown, cueUp, togglePlay, hotCueDown, setHotCue, editHotCue, deleteHotCue } from '../utils/cues';
+import { syncToMaster } from '../utils/beatSync';
+import {
+  loopIn,
+  loopOut,
+  autoLoop,
+  resizeLoop,
+  toggleLoop,
+  loopRollStart,
+  loopRollEnd,
+  withLoopExit,
+} from '../utils/loops';
+import { getBeatGridEdit, loadBeatGrid, scaleBeatGridTempo, setDownbeatHere, shiftBeatGrid } from '../utils/beatGrid';
+import { getAutoGain } from '../utils/autoGain';
+import { parseLyrics } from '../utils/lyrics';
+import { addRequest, addSinger, finishTurn, loadTurn, moveRequest, moveSinger, removeRequest, removeSinger } from '../utils/singerRotation';
+import { isSameControl } from '../midi/midiMapping';
+import { getBuiltinPresets, getDefaultPresetId, getInitialPreset } from '../midi/presets';
+import { persistOptions } from './persistence';
+
+/**
+ * Replace one mapping preset (no-op for unknown ids)
+ */
+function updatePreset(
+  presets: Record<string, MidiPreset>,
+  presetId: string,
+  update: (preset: MidiPreset) => Partial<MidiPreset>
+): Record<string, MidiPreset> {
+  const preset = presets[presetId];
+  return preset ? { ...presets, [presetId]: { ...preset, ...update(preset) } } : presets;
+}
+
+/**
+ * Save a deck's edited grid as the correction for its video (no-op when
+ * the edit changed nothing)
+ */
+function saveBeatGridEdit(
+  edits: Record<string, BeatGridEdit>,
+  deck: DeckState,
+  updates: Partial<DeckState>
+): Record<string, BeatGridEdit> {
+  if (!deck.videoId || Object.keys(updates).length === 0) return edits;
+  return { ...edits, [deck.videoId]: getBeatGridEdit({ ...deck, ...updates }) };
+}
+
+/**
+ * Key known for a video from either deck or the queue
+ */
+function findKnownKey(state: DJStoreState, videoId: string): MusicalKey | undefined {
+  const deck = [state.deckA, state.deckB].find((candidate) => candidate.videoId === videoId && candidate.key);
+  return deck?.key ?? state.queue.find((track) => track.videoId === videoId && track.key)?.key;
+}
+
+/**
+ * Queue with `key` stored on every entry of a video
+ */
+function withTrackKey(queue: Track[], videoId: string, key: MusicalKey): Track[] {
+  return queue.map((track) => (track.videoId === videoId ? { ...track, key } : track));
+}
 
 /**
  * Main Zustand store for YouRoke DJ application
  *
  * Manages:
- * - Crossfader position and curve type
- * - Both deck states (video, metadata, playback)
+ * - Crossfader position, curve type and curve parameters
+ * - Both deck states (video, metadata, playback, cues)
  * - EQ and gain per deck + master
- * - MIDI connection status
+ * - Beat sync master/follower
+ * - Loops and loop rolls per deck
+ * - Beat grids, with corrections saved per video
+ * - Lyrics, with synced (LRC) lyrics saved per video
+ * - Detected keys of loaded and queued tracks
+ * - Loudness normalization (auto gain) of loaded tracks
+ * - Track queue
+ * - Karaoke singer rotation and the night's history
+ * - MIDI devices (connection, enable, preset), mapping presets and learn mode
+ * - Display preferences (waveform colors, projector lyrics)
  * - Audio engine initialization state
+ *
+ * The session (queue, singer rotation, decks, mixer settings) is persisted to localStorage,
+ * see ./persistence.ts.
  */
-export const useDJStore = create<DJStore>((set) => ({
+export const useDJStore = create<DJStore>()(persist((set) => ({
   // ============================================================================
   // Initial State
   // ============================================================================
 
   crossfaderValue: 0.5,
-  crossfaderCurve: 'linear',
+  crossfaderCurve: 'center-full',
+  crossfaderCutIn: DEFAULT_CUT_IN,
+  crossfaderCustomCurve: DEFAULT_CUSTOM_CURVE.map((point) => ({ ...point })),
 
   deckA: { ...DEFAULT_DECK_STATE },
   deckB: { ...DEFAULT_DECK_STATE },
   master: { ...DEFAULT_MASTER },
 
+  syncMaster: null,
+
+  queue: [],
+
+  singerRotation: { ...EMPTY_SINGER_ROTATION },
+
+  midiDevices: {},
+  midiPresets: getBuiltinPresets(),
+  midiLearn: { active: false, target: null },
+
+  beatGridEdits: {},
+
+  syncedLyrics: {},
+
+  waveformColorScheme: 'mono',
+  projectorLyrics: { ...DEFAULT_PROJECTOR_LYRICS },
+
+  autoGainEnabled: true,
+  autoGainTarget: DEFAULT_AUTO_GAIN_TARGET,
+
   audioEngineStarted: false,
-  isMidiConnected: false,
 
   // ============================================================================
   // Crossfader Actions
@@ -40,6 +134,20 @@ export const useDJStore = create<DJStore>((set) => ({
     set({ crossfaderCurve: curve });
   },
 
+  setCrossfaderCutIn: (cutIn: number) => {
+    set({ crossfaderCutIn: Math.max(0.005, Math.min(0.5, cutIn)) });
+  },
+
+  setCrossfaderCustomCurve: (points: CurvePoint[]) => {
+    const clampedPoints = points
+      .map((point) => ({
+        x: Math.max(0, Math.min(1, point.x)),
+        y: Math.max(0, Math.min(1, point.y)),
+      }))
+      .sort((a, b) => a.x - b.x);
+    set({ crossfaderCustomCurve: clampedPoints });
+  },
+
   // ============================================================================
   // Deck Actions
   // ============================================================================
@@ -58,13 +166,13 @@ export const useDJStore = create<DJStore>((set) => ({
 
   toggleDeckAPlay: () => {
     set((state) => ({
-      deckA: { ...state.deckA, playing: !state.deckA.playing },
+      deckA: { ...state.deckA, ...togglePlay(state.deckA) },
     }));
   },
 
   toggleDeckBPlay: () => {
     set((state) => ({
-      deckB: { ...state.deckB, playing: !state.deckB.playing },
+      deckB: { ...state.deckB, ...togglePlay(state.deckB) },
     }));
   },
 
@@ -84,26 +192,13 @@ export const useDJStore = create<DJStore>((set) => ({
   // System Actions
   // ============================================================================
 
-  setMidiConnected: (connected: boolean) => {
-    set({ isMidiConnected: connected });
-  },
-
   startAudioEngine: () => {
-    // Create and resume audio context to satisfy browser autoplay policy
+    // Create the Web Audio graph and resume it to satisfy browser autoplay policy
     try {
-      const audioContext = new (window.AudioContext ||
-        (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
-
-      // Create a silent oscillator to kick-start the audio context
-      const oscillator = audioContext.createOscillator();
-      const gainNode = audioContext.createGain();
-      gainNode.gain.value = 0; // Silent
-      oscillator.connect(gainNode);
-      gainNode.connect(audioContext.destination);
-      oscillator.start();
-      oscillator.stop(audioContext.currentTime + 0.001);
-
-      audioContext.resume();
+      getAudioEngine();
+      resumeAudioEngine().catch((error) => {
+        console.error('[Audio] Failed to resume audio engine:', error);
+      });
 
       console.log('[Audio] Audio engine started');
       set({ audioEngineStarted: true });
@@ -140,6 +235,18 @@ export const useDJStore = create<DJStore>((set) => ({
     }));
   },
 
+  setDeckAFilter: (filter: number) => {
+    set((state) => ({
+      deckA: { ...state.deckA, filter: Math.max(-1, Math.min(1, filter)) },
+    }));
+  },
+
+  setDeckBFilter: (filter: number) => {
+    set((state) => ({
+      deckB: { ...state.deckB, filter: Math.max(-1, Math.min(1, filter)) },
+    }));
+  },
+
   setMasterEQ: (eq: Partial<EQSettings>) => {
     set((state) => ({
       master: { ...state.master, eq: { ...state.master.eq, ...eq } },
@@ -158,13 +265,13 @@ export const useDJStore = create<DJStore>((set) => ({
 
   seekDeckA: (time: number) => {
     set((state) => ({
-      deckA: { ...state.deckA, seekTo: time },
+      deckA: { ...state.deckA, ...withLoopExit(state.deckA, { seekTo: time }) },
     }));
   },
 
   seekDeckB: (time: number) => {
     set((state) => ({
-      deckB: { ...state.deckB, seekTo: time },
+      deckB: { ...state.deckB, ...withLoopExit(state.deckB, { seekTo: time }) },
     }));
   },
 
@@ -179,21 +286,640 @@ export const useDJStore = create<DJStore>((set) => ({
       deckB: { ...state.deckB, seekTo: null },
     }));
   },
-}));
+
+  // ============================================================================
+  // Cue Actions
+  // ============================================================================
+
+  pressDeckACue: () => {
+    set((state) => ({
+      deckA: { ...state.deckA, ...withLoopExit(state.deckA, cueDown(state.deckA)) },
+    }));
+  },
+
+  pressDeckBCue: () => {
+    set((state) => ({
+      deckB: { ...state.deckB, ...withLoopExit(state.deckB, cueDown(state.deckB)) },
+    }));
+  },
+
+  releaseDeckACue: () => {
+    set((state) => ({
+      deckA: { ...state.deckA, ...withLoopExit(state.deckA, cueUp(state.deckA)) },
+    }));
+  },
+
+  releaseDeckBCue: () => {
+    set((state) => ({
+      deckB: { ...state.deckB, ...withLoopExit(state.deckB, cueUp(state.deckB)) },
+    }));
+  },
+
+  setDeckACuePoint: (time: number) => {
+    set((state) => ({
+      deckA: { ...state.deckA, cuePoint: Math.max(0, time) },
+    }));
+  },
+
+  setDeckBCuePoint: (time: number) => {
+    set((state) => ({
+      deckB: { ...state.deckB, cuePoint: Math.max(0, time) },
+    }));
+  },
+
+  // ============================================================================
+  // Hot Cue Actions
+  // ============================================================================
+
+  pressDeckAHotCue: (index: number) => {
+    set((state) => ({
+      deckA: { ...state.deckA, ...withLoopExit(state.deckA, hotCueDown(state.deckA, index)) },
+    }));
+  },
+
+  pressDeckBHotCue: (index: number) => {
+    set((state) => ({
+      deckB: { ...state.deckB, ...withLoopExit(state.deckB, hotCueDown(state.deckB, index)) },
+    }));
+  },
+
+  releaseDeckAHotCue: () => {
+    set((state) => ({
+      deckA: { ...state.deckA, ...withLoopExit(state.deckA, cueUp(state.deckA)) },
+    }));
+  },
+
+  releaseDeckBHotCue: () => {
+    set((state) => ({
+      deckB: { ...state.deckB, ...withLoopExit(state.deckB, cueUp(state.deckB)) },
+    }));
+  },
+
+  setDeckAHotCue: (index: number, time: number) => {
+    set((state) => ({
+      deckA: { ...state.deckA, ...setHotCue(state.deckA, index, time) },
+    }));
+  },
+
+  setDeckBHotCue: (index: number, time: number) => {
+    set((state) => ({
+      deckB: { ...state.deckB, ...setHotCue(state.deckB, index, time) },
+    }));
+  },
+
+  editDeckAHotCue: (index: number, updates: Partial<Omit<HotCue, 'time'>>) => {
+    set((state) => ({
+      deckA: { ...state.deckA, ...editHotCue(state.deckA, index, updates) },
+    }));
+  },
+
+  editDeckBHotCue: (index: number, updates: Partial<Omit<HotCue, 'time'>>) => {
+    set((state) => ({
+      deckB: { ...state.deckB, ...editHotCue(state.deckB, index, updates) },
+    }));
+  },
+
+  deleteDeckAHotCue: (index: number) => {
+    set((state) => ({
+      deckA: { ...state.deckA, ...deleteHotCue(state.deckA, index) },
+    }));
+  },
+
+  deleteDeckBHotCue: (index: number) => {
+    set((state) => ({
+      deckB: { ...state.deckB, ...deleteHotCue(state.deckB, index) },
+    }));
+  },
+
+  // ============================================================================
+  // Sync Actions
+  // ============================================================================
+
+  syncDeckA: () => {
+    set((state) => {
+      if (state.deckA.syncEnabled) {
+        return {
+          deckA: { ...state.deckA, syncEnabled: false },
+          syncMaster: state.syncMaster === 'A' ? null : state.syncMaster,
+        };
+      }
+
+      const updates = syncToMaster(state.deckA, state.deckB);
+      if (!updates.syncEnabled) {
+        console.warn('[Sync] Deck A: BPM unknown on one of the decks');
+        return {};
+      }
+      return { deckA: { ...state.deckA, ...updates }, syncMaster: 'B' };
+    });
+  },
+
+  syncDeckB: () => {
+    set((state) => {
+      if (state.deckB.syncEnabled) {
+        return {
+          deckB: { ...state.deckB, syncEnabled: false },
+          syncMaster: state.syncMaster === 'B' ? null : state.syncMaster,
+        };
+      }
+
+      const updates = syncToMaster(state.deckB, state.deckA);
+      if (!updates.syncEnabled) {
+        console.warn('[Sync] Deck B: BPM unknown on one of the decks');
+        return {};
+      }
+      return { deckB: { ...state.deckB, ...updates }, syncMaster: 'A' };
+    });
+  },
+
+  setSyncMaster: (deck: 'A' | 'B' | null) => {
+    set({ syncMaster: deck });
+  },
+
+  // ============================================================================
+  // Queue Actions
+  // ============================================================================
+
+  addToQueue: (track: Track) => {
+    set((state) => ({
+      queue: [
+        ...state.queue,
+        { ...track, id: `${track.videoId}-${Date.now()}`, key: track.key ?? findKnownKey(state, track.videoId) },
+      ],
+    }));
+  },
+
+  removeFromQueue: (trackId: string) => {
+    set((state) => ({
+      queue: state.queue.filter((track) => track.id !== trackId),
+    }));
+  },
+
+  // ============================================================================
+  // Singer Rotation Actions
+  // ============================================================================
+
+  addSinger: (name: string) => {
+    if (!name.trim()) return;
+    set((state) => ({ singerRotation: addSinger(state.singerRotation, name, Date.now()) }));
+  },
+
+  removeSinger: (singerId: string) => {
+    set((state) => ({ singerRotation: removeSinger(state.singerRotation, singerId) }));
+  },
+
+  moveSinger: (from: number, to: number) => {
+    set((state) => ({ singerRotation: moveSinger(state.singerRotation, from, to) }));
+  },
+
+  addSingerRequest: (singerId: string, track: Track) => {
+    set((state) => ({
+      singerRotation: addRequest(
+        state.singerRotation,
+        singerId,
+        { ...track, key: track.key ?? findKnownKey(state, track.videoId) },
+        Date.now()
+      ),
+    }));
+  },
+
+  removeSingerRequest: (singerId: string, requestId: string) => {
+    set((state) => ({ singerRotation: removeRequest(state.singerRotation, singerId, requestId) }));
+  },
+
+  moveSingerRequest: (singerId: string, from: number, to: number) => {
+    set((state) => ({ singerRotation: moveRequest(state.singerRotation, singerId, from, to) }));
+  },
+
+  loadSingerTurn: (turn: SingerTurn) => {
+    set((state) => ({ singerRotation: loadTurn(state.singerRotation, turn) }));
+  },
+
+  finishSingerTurn: (singerId: string, requestId: string, outcome: SingerTurnOutcome) => {
+    set((state) => ({ singerRotation: finishTurn(state.singerRotation, singerId, requestId, outcome, Date.now()) }));
+  },
+
+  startNewNight: () => {
+    set({ singerRotation: { ...EMPTY_SINGER_ROTATION } });
+  },
+
+  // ============================================================================
+  // MIDI Device Actions
+  // ============================================================================
+
+  updateMidiDevicePorts: (name: string, ports: MidiDevicePorts) => {
+    set((state) => {
+      const existing = state.midiDevices[name];
+      if (existing) {
+        return { midiDevices: { ...state.midiDevices, [name]: { ...existing, ...ports } } };
+      }
+
+      // First time this device is seen: enable it on its default preset
+      const presetId = getDefaultPresetId(name);
+      return {
+        midiDevices: {
+          ...state.midiDevices,
+          [name]: {
+            name,
+            manufacturer: '',
+            inputConnected: false,
+            outputConnected: false,
+            enabled: true,
+            presetId,
+            ...ports,
+          },
+        },
+        midiPresets: state.midiPresets[presetId]
+          ? state.midiPresets
+          : { ...state.midiPresets, [presetId]: getInitialPreset(presetId, name) },
+      };
+    });
+  },
+
+  setMidiDeviceEnabled: (name: string, enabled: boolean) => {
+    set((state) => {
+      const device = state.midiDevices[name];
+      return device ? { midiDevices: { ...state.midiDevices, [name]: { ...device, enabled } } } : {};
+    });
+  },
+
+  setMidiDevicePreset: (name: string, presetId: string) => {
+    set((state) => {
+      const device = state.midiDevices[name];
+      if (!device || !state.midiPresets[presetId]) return {};
+      return { midiDevices: { ...state.midiDevices, [name]: { ...device, presetId } } };
+    });
+  },
+
+  // ============================================================================
+  // MIDI Mapping Actions
+  // ============================================================================
+
+  setMidiPreset: (presetId: string, preset: MidiPreset) => {
+    set((state) => ({ midiPresets: { ...state.midiPresets, [presetId]: preset } }));
+  },
+
+  bindMidiMapping: (presetId: string, mapping: MidiMapping) => {
+    // A hardware control drives one action; learning replaces its old binding
+    set((state) => ({
+      midiPresets: updatePreset(state.midiPresets, presetId, (preset) => ({
+        mappings: [...preset.mappings.filter((existing) => !isSameControl(existing, mapping)), mapping],
+      })),
+    }));
+  },
+
+  removeMidiMapping: (presetId: string, mappingId: string) => {
+    set((state) => ({
+      midiPresets: updatePreset(state.midiPresets, presetId, (preset) => ({
+        mappings: preset.mappings.filter((mapping) => mapping.id !== mappingId),
+      })),
+    }));
+  },
+
+  resetMidiPreset: (presetId: string) => {
+    set((state) => ({
+      midiPresets: updatePreset(state.midiPresets, presetId, (preset) => getInitialPreset(presetId, preset.name)),
+    }));
+  },
+
+  setMidiLearnActive: (active: boolean) => {
+    set({ midiLearn: { active, target: null } });
+  },
+
+  setMidiLearnTarget: (actionId: string | null) => {
+    set((state) => ({ midiLearn: { ...state.midiLearn, target: actionId } }));
+  },
+
+  // ============================================================================
+  // Display Actions
+  // ============================================================================
+
+  setWaveformColorScheme: (scheme: WaveformColorScheme) => {
+    set({ waveformColorScheme: scheme });
+  },
+
+  setProjectorLyrics: (settings: Partial<ProjectorLyricsSettings>) => {
+    set((state) => ({ projectorLyrics: { ...state.projectorLyrics, ...settings } }));
+  },
+
+  // ============================================================================
+  // Session Actions
+  // ============================================================================
+
+  discardSession: () => {
+    set({
+      deckA: { ...DEFAULT_DECK_STATE },
+      deckB: { ...DEFAULT_DECK_STATE },
+      syncMaster: null,
+    });
+  },
+
+  // ============================================================================
+  // Loop Actions
+  // ============================================================================
+
+  setDeckALoopIn: () => {
+    set((state) => ({
+      deckA: { ...state.deckA, ...loopIn(state.deckA) },
+    }));
+  },
+
+  setDeckBLoopIn: () => {
+    set((state) => ({
+      deckB: { ...state.deckB, ...loopIn(state.deckB) },
+    }));
+  },
+
+  setDeckALoopOut: () => {
+    set((state) => ({
+      deckA: { ...state.deckA, ...loopOut(state.deckA) },
+    }));
+  },
+
+  setDeckBLoopOut: () => {
+    set((state) => ({
+      deckB: { ...state.deckB, ...loopOut(state.deckB) },
+    }));
+  },
+
+  setDeckAAutoLoop: (beats: number) => {
+    set((state) => ({
+      deckA: { ...state.deckA, ...autoLoop(state.deckA, beats) },
+    }));
+  },
+
+  setDeckBAutoLoop: (beats: number) => {
+    set((state) => ({
+      deckB: { ...state.deckB, ...autoLoop(state.deckB, beats) },
+    }));
+  },
+
+  halveDeckALoop: () => {
+    set((state) => ({
+      deckA: { ...state.deckA, ...resizeLoop(state.deckA, 0.5) },
+    }));
+  },
+
+  halveDeckBLoop: () => {
+    set((state) => ({
+      deckB: { ...state.deckB, ...resizeLoop(state.deckB, 0.5) },
+    }));
+  },
+
+  doubleDeckALoop: () => {
+    set((state) => ({
+      deckA: { ...state.deckA, ...resizeLoop(state.deckA, 2) },
+    }));
+  },
+
+  doubleDeckBLoop: () => {
+    set((state) => ({
+      deckB: { ...state.deckB, ...resizeLoop(state.deckB, 2) },
+    }));
+  },
+
+  toggleDeckALoop: () => {
+    set((state) => ({
+      deckA: { ...state.deckA, ...toggleLoop(state.deckA) },
+    }));
+  },
+
+  toggleDeckBLoop: () => {
+    set((state) => ({
+      deckB: { ...state.deckB, ...toggleLoop(state.deckB) },
+    }));
+  },
+
+  startDeckALoopRoll: (beats: number) => {
+    set((state) => ({
+      deckA: { ...state.deckA, ...loopRollStart(state.deckA, beats, Date.now()) },
+    }));
+  },
+
+  startDeckBLoopRoll: (beats: number) => {
+    set((state) => ({
+      deckB: { ...state.deckB, ...loopRollStart(state.deckB, beats, Date.now()) },
+    }));
+  },
+
+  endDeckALoopRoll: () => {
+    set((state) => ({
+      deckA: { ...state.deckA, ...loopRollEnd(state.deckA, Date.now()) },
+    }));
+  },
+
+  endDeckBLoopRoll: () => {
+    set((state) => ({
+      deckB: { ...state.deckB, ...loopRollEnd(state.deckB, Date.now()) },
+    }));
+  },
+
+  // ============================================================================
+  // Beat Grid Actions
+  // ============================================================================
+
+  loadDeckABeatGrid: (analysis: BeatGridAnalysis) => {
+    set((state) => ({
+      deckA: { ...state.deckA, ...loadBeatGrid(analysis, state.beatGridEdits[state.deckA.videoId]) },
+    }));
+  },
+
+  loadDeckBBeatGrid: (analysis: BeatGridAnalysis) => {
+    set((state) => ({
+      deckB: { ...state.deckB, ...loadBeatGrid(analysis, state.beatGridEdits[state.deckB.videoId]) },
+    }));
+  },
+
+  shiftDeckABeatGrid: (seconds: number) => {
+    set((state) => {
+      const updates = shiftBeatGrid(state.deckA, seconds);
+      return {
+        deckA: { ...state.deckA, ...updates },
+        beatGridEdits: saveBeatGridEdit(state.beatGridEdits, state.deckA, updates),
+      };
+    });
+  },
+
+  shiftDeckBBeatGrid: (seconds: number) => {
+    set((state) => {
+      const updates = shiftBeatGrid(state.deckB, seconds);
+      return {
+        deckB: { ...state.deckB, ...updates },
+        beatGridEdits: saveBeatGridEdit(state.beatGridEdits, state.deckB, updates),
+      };
+    });
+  },
+
+  setDeckADownbeat: () => {
+    set((state) => {
+      const updates = setDownbeatHere(state.deckA);
+      return {
+        deckA: { ...state.deckA, ...updates },
+        beatGridEdits: saveBeatGridEdit(state.beatGridEdits, state.deckA, updates),
+      };
+    });
+  },
+
+  setDeckBDownbeat: () => {
+    set((state) => {
+      const updates = setDownbeatHere(state.deckB);
+      return {
+        deckB: { ...state.deckB, ...updates },
+        beatGridEdits: saveBeatGridEdit(state.beatGridEdits, state.deckB, updates),
+      };
+    });
+  },
+
+  doubleDeckABpm: () => {
+    set((state) => {
+      const updates = scaleBeatGridTempo(state.deckA, 2);
+      return {
+        deckA: { ...state.deckA, ...updates },
+        beatGridEdits: saveBeatGridEdit(state.beatGridEdits, state.deckA, updates),
+      };
+    });
+  },
+
+  doubleDeckBBpm: () => {
+    set((state) => {
+      const updates = scaleBeatGridTempo(state.deckB, 2);
+      return {
+        deckB: { ...state.deckB, ...updates },
+        beatGridEdits: saveBeatGridEdit(state.beatGridEdits, state.deckB, updates),
+      };
+    });
+  },
+
+  halveDeckABpm: () => {
+    set((state) => {
+      const updates = scaleBeatGridTempo(state.deckA, 0.5);
+      return {
+        deckA: { ...state.deckA, ...updates },
+        beatGridEdits: saveBeatGridEdit(state.beatGridEdits, state.deckA, updates),
+      };
+    });
+  },
+
+  halveDeckBBpm: () => {
+    set((state) => {
+      const updates = scaleBeatGridTempo(state.deckB, 0.5);
+      return {
+        deckB: { ...state.deckB, ...updates },
+        beatGridEdits: saveBeatGridEdit(state.beatGridEdits, state.deckB, updates),
+      };
+    });
+  },
+
+  // ============================================================================
+  // Lyrics Actions
+  // ============================================================================
+
+  saveDeckALyrics: (lrc: string) => {
+    set((state) => ({
+      deckA: { ...state.deckA, lyrics: parseLyrics(lrc) },
+      syncedLyrics: state.deckA.videoId ? { ...state.syncedLyrics, [state.deckA.videoId]: lrc } : state.syncedLyrics,
+    }));
+  },
+
+  saveDeckBLyrics: (lrc: string) => {
+    set((state) => ({
+      deckB: { ...state.deckB, lyrics: parseLyrics(lrc) },
+      syncedLyrics: state.deckB.videoId ? { ...state.syncedLyrics, [state.deckB.videoId]: lrc } : state.syncedLyrics,
+    }));
+  },
+
+  // ============================================================================
+  // Key Actions
+  // ============================================================================
+
+  setDeckAKey: (key: MusicalKey) => {
+    set((state) => ({
+      deckA: { ...state.deckA, key },
+      queue: withTrackKey(state.queue, state.deckA.videoId, key),
+    }));
+  },
+
+  setDeckBKey: (key: MusicalKey) => {
+    set((state) => ({
+      deckB: { ...state.deckB, key },
+      queue: withTrackKey(state.queue, state.deckB.videoId, key),
+    }));
+  },
+
+  // ============================================================================
+  // Auto Gain Actions
+  // ============================================================================
+
+  setDeckALoudness: (loudness: TrackLoudness) => {
+    set((state) => ({
+      deckA: {
+        ...state.deckA,
+        loudness,
+        autoGain: getAutoGain(loudness, state.autoGainEnabled, state.autoGainTarget),
+      },
+    }));
+  },
+
+  setDeckBLoudness: (loudness: TrackLoudness) => {
+    set((state) => ({
+      deckB: {
+        ...state.deckB,
+        loudness,
+        autoGain: getAutoGain(loudness, state.autoGainEnabled, state.autoGainTarget),
+      },
+    }));
+  },
+
+  setAutoGainEnabled: (enabled: boolean) => {
+    set((state) => ({
+      autoGainEnabled: enabled,
+      deckA: { ...state.deckA, autoGain: getAutoGain(state.deckA.loudness, enabled, state.autoGainTarget) },
+      deckB: { ...state.deckB, autoGain: getAutoGain(state.deckB.loudness, enabled, state.autoGainTarget) },
+    }));
+  },
+
+  setAutoGainTarget: (lufs: number) => {
+    const target = Math.max(MIN_AUTO_GAIN_TARGET, Math.min(MAX_AUTO_GAIN_TARGET, lufs));
+    set((state) => ({
+      autoGainTarget: target,
+      deckA: { ...state.deckA, autoGain: getAutoGain(state.deckA.loudness, state.autoGainEnabled, target) },
+      deckB: { ...state.deckB, autoGain: getAutoGain(state.deckB.loudness, state.autoGainEnabled, target) },
+    }));
+  },
+}), persistOptions));
+
+const PROJECTOR_FIELDS: (keyof ProjectorState)[] = [
+  'crossfaderValue',
+  'crossfaderCurve',
+  'crossfaderCutIn',
+  'crossfaderCustomCurve',
+  'deckA',
+  'deckB',
+  'master',
+  'projectorLyrics',
+];
+
+/**
+ * Whether a store change reaches the projector (MIDI, queue, rotation and
+ * other control-window-only changes don't need a broadcast)
+ */
+export function hasProjectorStateChanged(state: DJStoreState, previous: DJStoreState): boolean {
+  return PROJECTOR_FIELDS.some((field) => state[field] !== previous[field]);
+}
 
 /**
- * Get the current store state snapshot (for broadcasting)
+ * Get the projector's state snapshot (for broadcasting)
  */
-export function getStoreState(): DJStoreState {
+export function getProjectorState(): ProjectorState {
   const state = useDJStore.getState();
   return {
     crossfaderValue: state.crossfaderValue,
     crossfaderCurve: state.crossfaderCurve,
+    crossfaderCutIn: state.crossfaderCutIn,
+    crossfaderCustomCurve: state.crossfaderCustomCurve,
     deckA: state.deckA,
     deckB: state.deckB,
     master: state.master,
-    audioEngineStarted: state.audioEngineStarted,
-    isMidiConnected: state.isMidiConnected,
+    projectorLyrics: state.projectorLyrics,
   };
 }
 
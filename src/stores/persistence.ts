@@ -0,0 +1,214 @@
+import { createJSONStorage, type PersistOptions, type StateStorage } from 'zustand/middleware';
+import type { DJStore, DJStoreState, DeckState, MidiDevice, MidiFeedback, MidiMapping } from '../types';
+import { DEFAULT_DECK_STATE } from '../types';
+import { getBuiltinPresets } from '../midi/presets';
+import { parseLyrics } from '../utils/lyrics';
+
+/**
+ * Session persistence for the DJ store
+ *
+ * The queue, singer rotation, deck state, mixer settings, MIDI setup, beat grid corrections,
+ * synced lyrics, display preferences and auto gain settings are saved to localStorage so a browser refresh
+ * mid-set doesn't wipe everything. Transient playback fields are left out
+ * and fall back to their defaults on load.
+ */
+
+export const PERSIST_KEY = 'youroke-session';
+
+/**
+ * Schema version - bump when the persisted shape changes and add a step
+ * to migratePersistedState
+ */
+export const PERSIST_VERSION = 3;
+
+// Deck time updates arrive several times a second; coalesce writes
+const WRITE_DELAY_MS = 1000;
+
+/** Deck fields that only make sense for the running session */
+const TRANSIENT_DECK_FIELDS = ['playing', 'seekTo', 'cuePreviewReturn', 'loopRoll', 'audioSource'] as const;
+
+type TransientDeckField = (typeof TRANSIENT_DECK_FIELDS)[number];
+
+export type PersistedDeckState = Omit<DeckState, TransientDeckField>;
+
+export interface PersistedState
+  extends Pick<
+    DJStoreState,
+    'crossfaderValue' | 'crossfaderCurve' | 'crossfaderCutIn' | 'crossfaderCustomCurve' | 'master' | 'syncMaster' | 'queue' | 'singerRotation' | 'midiDevices' | 'midiPresets' | 'beatGridEdits' | 'syncedLyrics' | 'waveformColorScheme' | 'projectorLyrics' | 'autoGainEnabled' | 'autoGainTarget'
+  > {
+  deckA: PersistedDeckState;
+  deckB: PersistedDeckState;
+}
+
+/** v2 kept lyrics as a plain string */
+type PersistedDeckStateV2 = Omit<PersistedDeckState, 'lyrics'> & { lyrics?: string };
+
+interface PersistedStateV2 extends Omit<PersistedState, 'deckA' | 'deckB'> {
+  deckA: PersistedDeckStateV2;
+  deckB: PersistedDeckStateV2;
+}
+
+/** v1 kept a single mapping list for every device */
+interface PersistedStateV1 extends Omit<PersistedStateV2, 'midiDevices' | 'midiPresets'> {
+  midiMappings?: MidiMapping[];
+  midiFeedback?: MidiFeedback[];
+}
+
+/**
+ * localStorage wrapper that batches writes and flushes before the page unloads
+ */
+function createThrottledStorage(): StateStorage {
+  const pending = new Map<string, string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    pending.forEach((value, name) => {
+      try {
+        localStorage.setItem(name, value);
+      } catch (error) {
+        console.warn('[Session] Failed to save session:', error);
+      }
+    });
+    pending.clear();
+  };
+
+  window.addEventListener('pagehide', flush);
+
+  return {
+    getItem: (name) => pending.get(name) ?? localStorage.getItem(name),
+    setItem: (name, value) => {
+      pending.set(name, value);
+      if (!timer) {
+        timer = setTimeout(flush, WRITE_DELAY_MS);
+      }
+    },
+    removeItem: (name) => {
+      pending.delete(name);
+      localStorage.removeItem(name);
+    },
+  };
+}
+
+/**
+ * Strip transient fields from a deck
+ * A dropped file's object URL dies with the page, so its deck is saved
+ * empty (keeping the channel settings).
+ */
+function persistDeck(deck: DeckState): PersistedDeckState {
+  const persisted: Partial<DeckState> =
+    deck.source.type === 'file'
+      ? { ...DEFAULT_DECK_STATE, eq: deck.eq, gain: deck.gain, filter: deck.filter, playbackRate: deck.playbackRate, padMode: deck.padMode }
+      : { ...deck };
+  TRANSIENT_DECK_FIELDS.forEach((field) => delete persisted[field]);
+  return persisted as PersistedDeckState;
+}
+
+/**
+ * Devices are saved disconnected; the device manager reports them again on load
+ */
+function persistDevices(devices: Record<string, MidiDevice>): Record<string, MidiDevice> {
+  return Object.fromEntries(
+    Object.entries(devices).map(([name, device]) => [
+      name,
+      { ...device, inputConnected: false, outputConnected: false },
+    ])
+  );
+}
+
+/**
+ * Upgrade a session saved by an older version of the app
+ */
+function migratePersistedState(persisted: unknown, version: number): PersistedState {
+  if (version < PERSIST_VERSION) {
+    console.log(`[Session] Migrating saved session from v${version} to v${PERSIST_VERSION}`);
+  }
+
+  let state = persisted as PersistedStateV2;
+
+  if (version < 2) {
+    // v1 → v2: the single mapping list becomes the DDJ-200 preset
+    const { midiMappings, midiFeedback, ...v1 } = persisted as PersistedStateV1;
+    const presets = getBuiltinPresets();
+    state = {
+      ...v1,
+      midiDevices: {},
+      midiPresets: {
+        ...presets,
+        ddj200: {
+          ...presets.ddj200,
+          mappings: midiMappings ?? presets.ddj200.mappings,
+          feedback: midiFeedback ?? presets.ddj200.feedback,
+        },
+      },
+    };
+  }
+
+  if (version < 3) {
+    // v2 → v3: lyrics strings are parsed into synced lyrics (plain text stays plain)
+    const parseDeckLyrics = (deck: PersistedDeckStateV2): PersistedDeckState => ({
+      ...deck,
+      lyrics: parseLyrics(deck.lyrics ?? ''),
+    });
+    return { ...state, deckA: parseDeckLyrics(state.deckA), deckB: parseDeckLyrics(state.deckB) };
+  }
+
+  return persisted as PersistedState;
+}
+
+/**
+ * Options for zustand's persist middleware
+ */
+export const persistOptions: PersistOptions<DJStore, PersistedState> = {
+  name: PERSIST_KEY,
+  version: PERSIST_VERSION,
+  storage: createJSONStorage(createThrottledStorage),
+
+  partialize: (state) => ({
+    crossfaderValue: state.crossfaderValue,
+    crossfaderCurve: state.crossfaderCurve,
+    crossfaderCutIn: state.crossfaderCutIn,
+    crossfaderCustomCurve: state.crossfaderCustomCurve,
+    deckA: persistDeck(state.deckA),
+    deckB: persistDeck(state.deckB),
+    master: state.master,
+    syncMaster: state.syncMaster,
+    queue: state.queue,
+    singerRotation: state.singerRotation,
+    midiDevices: persistDevices(state.midiDevices),
+    midiPresets: state.midiPresets,
+    beatGridEdits: state.beatGridEdits,
+    syncedLyrics: state.syncedLyrics,
+    waveformColorScheme: state.waveformColorScheme,
+    projectorLyrics: state.projectorLyrics,
+    autoGainEnabled: state.autoGainEnabled,
+    autoGainTarget: state.autoGainTarget,
+  }),
+
+  migrate: migratePersistedState,
+
+  // Deep-merge decks, master, projector lyrics and the singer rotation so fields added since the save keep their defaults
+  merge: (persisted, current) => {
+    const saved = persisted as Partial<PersistedState> | undefined;
+    if (!saved) return current;
+
+    return {
+      ...current,
+      ...saved,
+      deckA: { ...current.deckA, ...saved.deckA },
+      deckB: { ...current.deckB, ...saved.deckB },
+      master: {
+        ...current.master,
+        ...saved.master,
+        eq: { ...current.master.eq, ...saved.master?.eq },
+      },
+      projectorLyrics: { ...current.projectorLyrics, ...saved.projectorLyrics },
+      singerRotation: { ...current.singerRotation, ...saved.singerRotation },
+      // Built-in presets added since the save are kept
+      midiPresets: { ...current.midiPresets, ...saved.midiPresets },
+    };
+  },
+};
@@ -2,12 +2,27 @@
 // YouRoke - Type Definitions
 // ============================================================================
 
+import type { SearchSort } from '../../shared/search';
+
 /**
  * Crossfader curve type for audio/visual mixing
- * - 'linear': Straight interpolation (smooth DJ mixing)
- * - 'cut': Sharp transitions near edges (scratch/cut style)
+ * - 'constant-power': Equal perceived loudness across the travel (-3dB center)
+ * - 'linear': Straight interpolation (-6dB center)
+ * - 'center-full': Both decks at 100% in the middle
+ * - 'cut': Sharp transitions near edges (scratch/cut style, adjustable cut-in)
+ * - 'custom': User-defined curve from control points
+ */
+export type CrossfaderCurve = 'constant-power' | 'linear' | 'center-full' | 'cut' | 'custom';
+
+/**
+ * Control point for a user-defined crossfader curve
+ * x = fader position (0 = full Deck A, 1 = full Deck B), y = Deck A gain (0 to 1)
+ * Deck B uses the mirrored curve.
  */
-export type CrossfaderCurve = 'linear' | 'cut';
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
 
 /**
  * EQ settings for a channel (deck or master)
@@ -19,6 +34,267 @@ export interface EQSettings {
   low: number;
 }
 
+/**
+ * Where a deck's audible output comes from
+ * - 'iframe': The deck player's own volume, YouTube embed or native media
+ *   element (no DSP, EQ/gain/filter are inaudible)
+ * - 'engine': Proxied audio routed through the Web Audio graph
+ */
+export type DeckAudioSource = 'iframe' | 'engine';
+
+/**
+ * What plays a deck's track
+ * - 'youtube': YouTube embed of the deck's videoId
+ * - 'file': Media file dropped from the user's disk (object URL, gone after a reload)
+ * - 'url': Media URL played by a native element, e.g. a provider's audio stream
+ */
+export type DeckSourceType = 'youtube' | 'file' | 'url';
+
+export type MediaKind = 'audio' | 'video';
+
+export interface DeckSource {
+  type: DeckSourceType;
+  url: string | null; // Media URL for 'file' and 'url' sources
+  mediaKind: MediaKind; // Native sources show video frames or a placeholder
+}
+
+/**
+ * A hot cue stored on a deck pad
+ */
+export interface HotCue {
+  time: number; // Position in seconds
+  color: string; // CSS color for pad and waveform marker
+  label: string; // Optional user label ('' = show pad number)
+}
+
+/**
+ * Measured BS.1770 loudness of a track
+ */
+export interface TrackLoudness {
+  integratedLufs: number; // Integrated loudness (LUFS)
+  truePeakDb: number; // True peak (dBTP)
+}
+
+/**
+ * Detected musical key of a track
+ */
+export interface MusicalKey {
+  name: string; // Standard notation, e.g. "Am", "F#"
+  camelot: string; // Camelot wheel code, e.g. "8A"
+  confidence: number; // 0-1
+}
+
+/**
+ * Source a track comes from (see server/providers)
+ */
+export type TrackProviderId = 'youtube' | 'local';
+
+/**
+ * A track in search results or the queue
+ */
+export interface Track {
+  id: string; // Unique per list entry (queue entries get their own id)
+  videoId: string;
+  title: string;
+  thumbnail: string;
+  duration: string; // Formatted duration (e.g. "3:45")
+  channel: string;
+  key?: MusicalKey; // Known once the track has been analyzed
+  provider?: TrackProviderId; // Missing on tracks saved before providers (YouTube)
+}
+
+/**
+ * A word of enhanced (word-timed) LRC lyrics
+ */
+export interface LyricsWord {
+  time: number; // Start in seconds
+  text: string; // Including its trailing space, if any
+}
+
+/**
+ * A line of lyrics
+ */
+export interface LyricsLine {
+  time: number | null; // Start in seconds (null = plain-text line)
+  text: string; // '' = instrumental break in synced lyrics
+  words: LyricsWord[]; // Word timings (empty unless the line has them)
+}
+
+/**
+ * Deck lyrics: the text as entered or fetched (plain text or LRC) and its
+ * parsed lines
+ */
+export interface Lyrics {
+  source: string;
+  lines: LyricsLine[]; // Sorted by time when synced
+  synced: boolean; // Lines carry timestamps
+}
+
+/**
+ * Where the lyrics endpoint found a track's lyrics (see server/lyrics)
+ */
+export type LyricsProviderId = 'saved' | 'local' | 'remote';
+
+/**
+ * Lyrics found by the /api/lyrics endpoint
+ */
+export interface LyricsLookup {
+  text: string; // Plain text or LRC
+  synced: boolean;
+  provider: LyricsProviderId;
+  cached: boolean; // Served from the server's on-disk cache
+}
+
+/**
+ * A singer signed up for a karaoke night (see utils/singerRotation.ts)
+ */
+export interface Singer {
+  id: string;
+  name: string;
+  requests: Track[]; // Songs they want to sing, next first (entries get their own id)
+  turns: number; // Turns had tonight, sung or skipped
+  joinedAt: number; // ms since epoch
+}
+
+export type SingerTurnOutcome = 'sung' | 'skipped';
+
+/**
+ * A finished turn in the night's history
+ */
+export interface SingerHistoryEntry {
+  id: string;
+  singerName: string;
+  track: Track;
+  outcome: SingerTurnOutcome;
+  at: number; // ms since epoch
+}
+
+/**
+ * A request loaded onto a deck for its singer
+ */
+export interface SingerTurn {
+  singerId: string;
+  requestId: string;
+  deck: 'A' | 'B';
+}
+
+/**
+ * The night's singer rotation: singers in turn order, who is singing, who
+ * is preloaded to sing next, and every finished turn
+ */
+export interface SingerRotation {
+  singers: Singer[];
+  up: SingerTurn | null; // Singing now
+  onDeck: SingerTurn | null; // Preloaded on the other deck while someone sings
+  history: SingerHistoryEntry[]; // Oldest first
+  startedAt: number | null; // ms since epoch, null until the first singer joins
+}
+
+/**
+ * Track Browser search filters (see server/providers/search.ts)
+ */
+export type SearchDurationFilter = 'any' | 'short' | 'medium' | 'long'; // short < 4 min, long >= 20 min
+export type SearchUploadDateFilter = 'any' | 'hour' | 'today' | 'week' | 'month' | 'year';
+export type SearchKeyword = 'karaoke' | 'instrumental';
+export type { SearchSort };
+
+export interface SearchFilters {
+  duration: SearchDurationFilter;
+  uploaded: SearchUploadDateFilter;
+  keywords: SearchKeyword[]; // Results must match all of them
+  sort: SearchSort;
+}
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = {
+  duration: 'any',
+  uploaded: 'any',
+  keywords: [],
+  sort: 'relevance',
+};
+
+/**
+ * One page of search results
+ */
+export interface SearchPage {
+  results: Track[];
+  nextPageToken: string | null; // null on the last page
+}
+
+/**
+ * Loop region saved while a loop roll is held, restored on release
+ */
+export interface LoopRegion {
+  loopIn: number | null;
+  loopOut: number | null;
+  loopActive: boolean;
+  loopBeats: number;
+}
+
+/**
+ * Beat grid reported by the waveform analysis
+ */
+export interface BeatGridAnalysis {
+  bpm: number; // 0 = unknown
+  firstBeat: number; // seconds
+  firstDownbeat: number; // seconds
+  confidence: number; // 0-1
+}
+
+/**
+ * User-corrected beat grid, saved per video
+ */
+export interface BeatGridEdit {
+  bpm: number;
+  firstBeatOffset: number;
+  downbeatOffset: number;
+}
+
+/**
+ * Momentary loop roll in progress
+ */
+export interface LoopRoll {
+  startTime: number; // Track position when the roll started (seconds)
+  startedAt: number; // Wall clock when the roll started (ms)
+  previous: LoopRegion; // Loop to restore when the roll ends
+}
+
+/**
+ * What a deck's performance pads trigger
+ */
+export type PadMode = 'hotCue' | 'beatLoop' | 'loopRoll';
+
+/**
+ * How deck waveforms are colored
+ * - 'mono': Deck accent color
+ * - 'rgb': One color per column mixed from band energy (red = low, green = mid, blue = high)
+ * - 'stacked': Low, mid and high bands drawn as overlaid layers
+ */
+export type WaveformColorScheme = 'mono' | 'rgb' | 'stacked';
+
+/**
+ * Font family of the projector lyrics
+ */
+export type LyricsOverlayFont = 'sans' | 'serif' | 'rounded' | 'condensed';
+
+/**
+ * Where the projector lyrics sit on screen
+ */
+export type LyricsOverlayPosition = 'top' | 'middle' | 'bottom';
+
+/**
+ * Look of the karaoke lyrics on the projector
+ */
+export interface ProjectorLyricsSettings {
+  enabled: boolean;
+  font: LyricsOverlayFont;
+  size: number; // Font size in % of the screen height
+  position: LyricsOverlayPosition;
+  outline: number; // Text outline width in px (0 = none)
+  background: number; // Opacity of the band behind the lines, 0-1
+  textColor: string; // Lines not yet sung
+  wipeColor: string; // Sung part of the current line
+}
+
 /**
  * Master channel settings
  */
@@ -31,18 +307,37 @@ export interface MasterSettings {
  * State for a single deck (A or B)
  */
 export interface DeckState {
-  videoId: string;
+  videoId: string; // Track ID (YouTube video ID, provider track ID or file-<hash>)
+  source: DeckSource;
   title: string;
   artist: string;
   playing: boolean;
-  lyrics: string;
+  lyrics: Lyrics;
   eq: EQSettings;
-  gain: number; // 0 to 1.5 (1 = unity)
+  gain: number; // Manual trim, 0 to 1.5 (1 = unity), applied on top of autoGain
+  autoGain: number; // Linear gain from loudness normalization (1 = none)
+  loudness: TrackLoudness | null; // Measured loudness (null = not analyzed yet)
   filter: number; // -1 (LPF) to 1 (HPF), 0 = off
   currentTime: number; // Current playback position in seconds
   duration: number; // Total duration in seconds
   seekTo: number | null; // Target seek time (null = no seek pending)
   playbackRate: number; // Playback speed (0.5 to 2.0, 1.0 = normal)
+  audioSource: DeckAudioSource; // Set by the audio engine once proxied audio is playable
+  cuePoint: number; // Main cue point in seconds
+  hotCues: (HotCue | null)[]; // HOT_CUE_COUNT pads, null = empty
+  cuePreviewReturn: number | null; // Where to return when a held cue is released (null = not previewing)
+  bpm: number; // Detected track BPM at playbackRate 1.0 (0 = unknown)
+  firstBeatOffset: number; // Position of the first beat in seconds
+  downbeatOffset: number; // Position of a bar's first beat in seconds; bars and phrases count from here
+  beatGridConfidence: number; // 0-1 from analysis (0 = unknown)
+  key: MusicalKey | null; // Detected key (null = unknown)
+  syncEnabled: boolean; // Tempo-locked to the sync master deck
+  loopIn: number | null; // Loop start in seconds (null = not set)
+  loopOut: number | null; // Loop end in seconds (null = not set)
+  loopActive: boolean; // Playback jumps back to loopIn when reaching loopOut
+  loopBeats: number; // Loop length in beats (0 = manual loop with unknown BPM)
+  loopRoll: LoopRoll | null; // Active loop roll (null = not rolling)
+  padMode: PadMode; // Selected pad mode (set from the controller's pad mode buttons)
 }
 
 /**
@@ -52,6 +347,8 @@ export interface DJStoreState {
   // Crossfader
   crossfaderValue: number; // 0.0 (Deck A) to 1.0 (Deck B)
   crossfaderCurve: CrossfaderCurve;
+  crossfaderCutIn: number; // 'cut' curve cut-in width (fraction of travel)
+  crossfaderCustomCurve: CurvePoint[]; // 'custom' curve control points
 
   // Decks
   deckA: DeckState;
@@ -60,9 +357,36 @@ export interface DJStoreState {
   // Master
   master: MasterSettings;
 
+  // Beat sync
+  syncMaster: 'A' | 'B' | null; // Deck whose tempo followers lock to
+
+  // Track queue
+  queue: Track[];
+
+  // Karaoke singer rotation for the night
+  singerRotation: SingerRotation;
+
+  // MIDI devices and mapping
+  midiDevices: Record<string, MidiDevice>; // Keyed by port name
+  midiPresets: Record<string, MidiPreset>; // Keyed by preset id
+  midiLearn: MidiLearnState;
+
+  // Beat grid corrections, keyed by videoId
+  beatGridEdits: Record<string, BeatGridEdit>;
+
+  // LRC saved by the lyrics sync editor, keyed by videoId
+  syncedLyrics: Record<string, string>;
+
+  // Display preferences
+  waveformColorScheme: WaveformColorScheme;
+  projectorLyrics: ProjectorLyricsSettings;
+
+  // Loudness normalization of loaded tracks
+  autoGainEnabled: boolean;
+  autoGainTarget: number; // Target integrated loudness (LUFS)
+
   // System state
   audioEngineStarted: boolean;
-  isMidiConnected: boolean;
 }
 
 /**
@@ -71,19 +395,22 @@ export interface DJStoreState {
 export interface DJStoreActions {
   setCrossfader: (value: number) => void;
   setCurve: (curve: CrossfaderCurve) => void;
+  setCrossfaderCutIn: (cutIn: number) => void;
+  setCrossfaderCustomCurve: (points: CurvePoint[]) => void;
   updateDeckA: (updates: Partial<DeckState>) => void;
   updateDeckB: (updates: Partial<DeckState>) => void;
   toggleDeckAPlay: () => void;
   toggleDeckBPlay: () => void;
   setDeckAPlaying: (playing: boolean) => void;
   setDeckBPlaying: (playing: boolean) => void;
-  setMidiConnected: (connected: boolean) => void;
   startAudioEngine: () => void;
   // EQ Actions
   setDeckAEQ: (eq: Partial<EQSettings>) => void;
   setDeckBEQ: (eq: Partial<EQSettings>) => void;
   setDeckAGain: (gain: number) => void;
   setDeckBGain: (gain: number) => void;
+  setDeckAFilter: (filter: number) => void;
+  setDeckBFilter: (filter: number) => void;
   setMasterEQ: (eq: Partial<EQSettings>) => void;
   setMasterVolume: (volume: number) => void;
   // Seek Actions
@@ -91,6 +418,96 @@ export interface DJStoreActions {
   seekDeckB: (time: number) => void;
   clearSeekA: () => void;
   clearSeekB: () => void;
+  // Cue Actions (CDJ style: hold to preview, release to return)
+  pressDeckACue: () => void;
+  pressDeckBCue: () => void;
+  releaseDeckACue: () => void;
+  releaseDeckBCue: () => void;
+  setDeckACuePoint: (time: number) => void;
+  setDeckBCuePoint: (time: number) => void;
+  // Hot Cue Actions
+  pressDeckAHotCue: (index: number) => void;
+  pressDeckBHotCue: (index: number) => void;
+  releaseDeckAHotCue: (index: number) => void;
+  releaseDeckBHotCue: (index: number) => void;
+  setDeckAHotCue: (index: number, time: number) => void;
+  setDeckBHotCue: (index: number, time: number) => void;
+  editDeckAHotCue: (index: number, updates: Partial<Omit<HotCue, 'time'>>) => void;
+  editDeckBHotCue: (index: number, updates: Partial<Omit<HotCue, 'time'>>) => void;
+  deleteDeckAHotCue: (index: number) => void;
+  deleteDeckBHotCue: (index: number) => void;
+  // Sync Actions
+  syncDeckA: () => void;
+  syncDeckB: () => void;
+  setSyncMaster: (deck: 'A' | 'B' | null) => void;
+  // Queue Actions
+  addToQueue: (track: Track) => void;
+  removeFromQueue: (trackId: string) => void;
+  // Singer Rotation Actions
+  addSinger: (name: string) => void;
+  removeSinger: (singerId: string) => void;
+  moveSinger: (from: number, to: number) => void;
+  addSingerRequest: (singerId: string, track: Track) => void;
+  removeSingerRequest: (singerId: string, requestId: string) => void;
+  moveSingerRequest: (singerId: string, from: number, to: number) => void;
+  loadSingerTurn: (turn: SingerTurn) => void;
+  finishSingerTurn: (singerId: string, requestId: string, outcome: SingerTurnOutcome) => void;
+  startNewNight: () => void;
+  // Session Actions
+  discardSession: () => void;
+  // MIDI Device Actions
+  updateMidiDevicePorts: (name: string, ports: MidiDevicePorts) => void;
+  setMidiDeviceEnabled: (name: string, enabled: boolean) => void;
+  setMidiDevicePreset: (name: string, presetId: string) => void;
+  // MIDI Mapping Actions
+  setMidiPreset: (presetId: string, preset: MidiPreset) => void;
+  bindMidiMapping: (presetId: string, mapping: MidiMapping) => void;
+  removeMidiMapping: (presetId: string, mappingId: string) => void;
+  resetMidiPreset: (presetId: string) => void;
+  setMidiLearnActive: (active: boolean) => void;
+  setMidiLearnTarget: (actionId: string | null) => void;
+  // Display Actions
+  setWaveformColorScheme: (scheme: WaveformColorScheme) => void;
+  setProjectorLyrics: (settings: Partial<ProjectorLyricsSettings>) => void;
+  // Loop Actions
+  setDeckALoopIn: () => void;
+  setDeckBLoopIn: () => void;
+  setDeckALoopOut: () => void;
+  setDeckBLoopOut: () => void;
+  setDeckAAutoLoop: (beats: number) => void;
+  setDeckBAutoLoop: (beats: number) => void;
+  halveDeckALoop: () => void;
+  halveDeckBLoop: () => void;
+  doubleDeckALoop: () => void;
+  doubleDeckBLoop: () => void;
+  toggleDeckALoop: () => void;
+  toggleDeckBLoop: () => void;
+  startDeckALoopRoll: (beats: number) => void;
+  startDeckBLoopRoll: (beats: number) => void;
+  endDeckALoopRoll: () => void;
+  endDeckBLoopRoll: () => void;
+  // Beat Grid Actions
+  loadDeckABeatGrid: (analysis: BeatGridAnalysis) => void;
+  loadDeckBBeatGrid: (analysis: BeatGridAnalysis) => void;
+  shiftDeckABeatGrid: (seconds: number) => void;
+  shiftDeckBBeatGrid: (seconds: number) => void;
+  setDeckADownbeat: () => void;
+  setDeckBDownbeat: () => void;
+  doubleDeckABpm: () => void;
+  doubleDeckBBpm: () => void;
+  halveDeckABpm: () => void;
+  halveDeckBBpm: () => void;
+  // Lyrics Actions
+  saveDeckALyrics: (lrc: string) => void;
+  saveDeckBLyrics: (lrc: string) => void;
+  // Key Actions
+  setDeckAKey: (key: MusicalKey) => void;
+  setDeckBKey: (key: MusicalKey) => void;
+  // Auto Gain Actions
+  setDeckALoudness: (loudness: TrackLoudness) => void;
+  setDeckBLoudness: (loudness: TrackLoudness) => void;
+  setAutoGainEnabled: (enabled: boolean) => void;
+  setAutoGainTarget: (lufs: number) => void;
 }
 
 /**
@@ -117,12 +534,21 @@ export interface YouTubeMetadata {
   rawTitle: string;
 }
 
+/**
+ * The part of the store the projector window shows: the mix and the lyrics
+ * look (persisted-only slices like the queue or saved lyrics stay behind)
+ */
+export type ProjectorState = Pick<
+  DJStoreState,
+  'crossfaderValue' | 'crossfaderCurve' | 'crossfaderCutIn' | 'crossfaderCustomCurve' | 'deckA' | 'deckB' | 'master' | 'projectorLyrics'
+>;
+
 /**
  * Broadcast channel message types for cross-window sync
  */
 export type BroadcastMessage =
-  | { type: 'STATE_UPDATE'; payload: Partial<DJStoreState> }
-  | { type: 'FULL_STATE'; payload: DJStoreState };
+  | { type: 'STATE_UPDATE'; payload: Partial<ProjectorState> }
+  | { type: 'FULL_STATE'; payload: ProjectorState };
 
 /**
  * MIDI message structure
@@ -135,6 +561,96 @@ export interface MidiMessage {
   type: 'noteOn' | 'noteOff' | 'controlChange' | 'unknown';
 }
 
+/**
+ * How a mapped control's value is read
+ * - button: note on/off (or CC >= 64) as press/release
+ * - absolute: 7-bit CC, 0-127 → 0-1
+ * - absolute14: 14-bit CC pair (MSB on `control`, LSB on `lsb`) → 0-1
+ * - relative: encoder/jog ticks
+ */
+export type MidiValueTransform = 'button' | 'absolute' | 'absolute14' | 'relative';
+
+/**
+ * Relative encoder value encodings
+ * - offset: 64 = no movement, 65 = +1, 63 = -1
+ * - twos-complement: 1 = +1, 127 = -1
+ */
+export type MidiRelativeEncoding = 'offset' | 'twos-complement';
+
+/**
+ * A single binding from a MIDI control to a store action
+ */
+export interface MidiMapping {
+  id: string;
+  action: string; // Action id (see src/midi/midiActions.ts)
+  type: 'note' | 'cc';
+  channel: number | null; // 0-15, null = any channel
+  control: number; // Note number or CC number (MSB for 14-bit)
+  transform: MidiValueTransform;
+  lsb?: number; // LSB CC number for 'absolute14'
+  encoding?: MidiRelativeEncoding; // For 'relative' (default 'offset')
+  invert?: boolean;
+}
+
+/**
+ * How a feedback source's state is sent to the controller
+ * - onOff: `on` value when lit, `off` otherwise
+ * - color: the source's color as a palette velocity (pads), `off` when unlit
+ */
+export type MidiFeedbackTransform = 'onOff' | 'color';
+
+/**
+ * A single binding from store state to a controller LED or pad light
+ */
+export interface MidiFeedback {
+  id: string;
+  source: string; // Feedback source id (see src/midi/midiFeedback.ts)
+  type: 'note' | 'cc';
+  channel: number; // 0-15
+  control: number; // Note number or CC number
+  transform: MidiFeedbackTransform;
+  on?: number; // Value when lit (default 127)
+  off?: number; // Value when unlit (default 0)
+  blink?: 'beat'; // While lit, goes dark on the second half of each beat
+}
+
+/**
+ * A named set of input mappings and output feedback, as imported/exported as JSON
+ */
+export interface MidiPreset {
+  name: string;
+  version: number;
+  mappings: MidiMapping[];
+  feedback: MidiFeedback[];
+}
+
+/**
+ * A MIDI controller or keyboard
+ * Input and output ports with the same name belong to the same device.
+ */
+export interface MidiDevice {
+  name: string;
+  manufacturer: string;
+  inputConnected: boolean;
+  outputConnected: boolean;
+  enabled: boolean; // Disabled devices are ignored and their lights kept off
+  presetId: string; // Mapping preset used for this device (key into midiPresets)
+}
+
+/**
+ * Port connection changes reported by the device manager
+ */
+export type MidiDevicePorts = Partial<Pick<MidiDevice, 'manufacturer' | 'inputConnected' | 'outputConnected'>>;
+
+/**
+ * MIDI learn mode: on-screen controls can be picked as the target for the
+ * next hardware control that moves
+ */
+export interface MidiLearnState {
+  active: boolean;
+  target: string | null; // Action id waiting for a binding
+}
+
 // ============================================================================
 // DDJ-200 MIDI Constants
 // ============================================================================
@@ -164,10 +680,75 @@ export const DDJ200 = {
   DEVICE_NAME_PATTERN: /DDJ-200/i,
 } as const;
 
+// ============================================================================
+// Hot Cue Constants
+// ============================================================================
+
+export const HOT_CUE_COUNT = 8;
+
+/** Default pad colors, one per hot cue slot */
+export const HOT_CUE_COLORS = [
+  '#ef4444', // red
+  '#f97316', // orange
+  '#eab308', // yellow
+  '#22c55e', // green
+  '#06b6d4', // cyan
+  '#3b82f6', // blue
+  '#a855f7', // purple
+  '#ec4899', // pink
+] as const;
+
+// ============================================================================
+// Loop Constants
+// ============================================================================
+
+/** Auto-loop and loop roll lengths in beats */
+export const LOOP_BEAT_OPTIONS = [0.25, 0.5, 1, 2, 4, 8, 16, 32] as const;
+
+export const MIN_LOOP_BEATS = 0.25;
+export const MAX_LOOP_BEATS = 32;
+
+// ============================================================================
+// Beat Grid Constants
+// ============================================================================
+
+export const BEATS_PER_BAR = 4;
+
+/** Bars per phrase; every other phrase boundary also starts a 32-bar phrase */
+export const PHRASE_BARS = 16;
+
+/** Grid shift per nudge of the shift buttons (seconds) */
+export const BEAT_GRID_SHIFT_SECONDS = 0.01;
+
+// ============================================================================
+// Auto Gain Constants
+// ============================================================================
+
+/** Default target loudness (LUFS, the common streaming reference) */
+export const DEFAULT_AUTO_GAIN_TARGET = -14;
+
+/** Selectable target range (LUFS) */
+export const MIN_AUTO_GAIN_TARGET = -23;
+export const MAX_AUTO_GAIN_TARGET = -6;
+
+/** Largest boost or cut auto gain applies (dB) */
+export const MAX_AUTO_GAIN_DB = 12;
+
+/** Auto gain never boosts a track's true peak above this (dBTP) */
+export const AUTO_GAIN_TRUE_PEAK_CEILING = -1;
+
 // ============================================================================
 // Default States
 // ============================================================================
 
+export const DEFAULT_CUT_IN = 0.05;
+
+export const DEFAULT_CUSTOM_CURVE: CurvePoint[] = [
+  { x: 0, y: 1 },
+  { x: 0.5, y: 1 },
+  { x: 1, y: 0 },
+];
+
 export const DEFAULT_EQ: EQSettings = {
   high: 0,
   mid: 0,
@@ -179,27 +760,90 @@ export const DEFAULT_MASTER: MasterSettings = {
   eq: { ...DEFAULT_EQ },
 };
 
+export const YOUTUBE_DECK_SOURCE: DeckSource = {
+  type: 'youtube',
+  url: null,
+  mediaKind: 'video',
+};
+
+export const EMPTY_LYRICS: Lyrics = {
+  source: '',
+  lines: [],
+  synced: false,
+};
+
+export const EMPTY_SINGER_ROTATION: SingerRotation = {
+  singers: [],
+  up: null,
+  onDeck: null,
+  history: [],
+  startedAt: null,
+};
+
+export const DEFAULT_PROJECTOR_LYRICS: ProjectorLyricsSettings = {
+  enabled: true,
+  font: 'sans',
+  size: 6,
+  position: 'bottom',
+  outline: 3,
+  background: 0.35,
+  textColor: '#ffffff',
+  wipeColor: '#38bdf8',
+};
+
 export const DEFAULT_DECK_STATE: DeckState = {
   videoId: '',
+  source: YOUTUBE_DECK_SOURCE,
   title: '',
   artist: '',
   playing: false,
-  lyrics: '',
+  lyrics: EMPTY_LYRICS,
   eq: { ...DEFAULT_EQ },
   gain: 1,
+  autoGain: 1,
+  loudness: null,
   filter: 0,
   currentTime: 0,
   duration: 0,
   seekTo: null,
   playbackRate: 1.0,
+  audioSource: 'iframe',
+  cuePoint: 0,
+  hotCues: Array.from({ length: HOT_CUE_COUNT }, () => null),
+  cuePreviewReturn: null,
+  bpm: 0,
+  firstBeatOffset: 0,
+  downbeatOffset: 0,
+  beatGridConfidence: 0,
+  key: null,
+  syncEnabled: false,
+  loopIn: null,
+  loopOut: null,
+  loopActive: false,
+  loopBeats: 0,
+  loopRoll: null,
+  padMode: 'hotCue',
 };
 
 export const DEFAULT_DJ_STATE: DJStoreState = {
   crossfaderValue: 0.5,
-  crossfaderCurve: 'linear',
+  crossfaderCurve: 'center-full',
+  crossfaderCutIn: DEFAULT_CUT_IN,
+  crossfaderCustomCurve: DEFAULT_CUSTOM_CURVE.map((point) => ({ ...point })),
   deckA: { ...DEFAULT_DECK_STATE },
   deckB: { ...DEFAULT_DECK_STATE },
   master: { ...DEFAULT_MASTER },
+  syncMaster: null,
+  queue: [],
+  singerRotation: { ...EMPTY_SINGER_ROTATION },
+  midiDevices: {},
+  midiPresets: {},
+  midiLearn: { active: false, target: null },
+  beatGridEdits: {},
+  syncedLyrics: {},
+  waveformColorScheme: 'mono',
+  projectorLyrics: { ...DEFAULT_PROJECTOR_LYRICS },
+  autoGainEnabled: true,
+  autoGainTarget: DEFAULT_AUTO_GAIN_TARGET,
   audioEngineStarted: false,
-  isMidiConnected: false,
 };
@@ -0,0 +1,52 @@
+import type { DeckState, TrackLoudness } from '../types';
+import { AUTO_GAIN_TRUE_PEAK_CEILING, MAX_AUTO_GAIN_DB } from '../types';
+
+/**
+ * Auto gain: loudness normalization of loaded tracks
+ *
+ * Each deck's autoGain brings the track's integrated loudness to the target,
+ * limited so the true peak stays below the ceiling. The manual trim (gain)
+ * applies on top of it.
+ */
+
+// Tracks measured below this are silent or unmeasurable and left alone (LUFS)
+const MIN_MEASURABLE_LUFS = -70;
+
+/**
+ * Convert a linear gain to dB
+ */
+export function gainToDb(gain: number): number {
+  return gain > 0 ? 20 * Math.log10(gain) : -Infinity;
+}
+
+/**
+ * Format a dB value with its sign, e.g. "+3.2 dB"
+ */
+export function formatDb(db: number): string {
+  if (!Number.isFinite(db)) return '-∞ dB';
+  return `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`;
+}
+
+/**
+ * Linear auto gain for a track (1 = none)
+ */
+export function getAutoGain(loudness: TrackLoudness | null, enabled: boolean, targetLufs: number): number {
+  if (!enabled || !loudness || loudness.integratedLufs <= MIN_MEASURABLE_LUFS) return 1;
+
+  const headroomDb = AUTO_GAIN_TRUE_PEAK_CEILING - loudness.truePeakDb;
+  const gainDb = Math.max(
+    -MAX_AUTO_GAIN_DB,
+    Math.min(MAX_AUTO_GAIN_DB, targetLufs - loudness.integratedLufs, Math.max(0, headroomDb))
+  );
+  return Math.pow(10, gainDb / 20);
+}
+
+/**
+ * Auto gain fields reset when a new track is loaded
+ */
+export function clearedLoudness(): Partial<DeckState> {
+  return {
+    autoGain: 1,
+    loudness: null,
+  };
+}
@@ -0,0 +1,127 @@
+import type { BeatGridAnalysis, BeatGridEdit, DeckState } from '../types';
+import { BEATS_PER_BAR, PHRASE_BARS } from '../types';
+
+/**
+ * Beat grid logic: loading analysis or saved corrections, grid edits and
+ * grid lines for the waveform
+ *
+ * Like ./loops.ts, deck functions are pure and return the partial update
+ * to merge into the deck.
+ */
+
+// Tempo bounds for doubling/halving the grid
+const MIN_GRID_BPM = 40;
+const MAX_GRID_BPM = 300;
+
+/** What a grid line marks, from least to most significant */
+export type GridLineKind = 'beat' | 'bar' | 'phrase16' | 'phrase32';
+
+export interface GridLine {
+  time: number;
+  kind: GridLineKind;
+}
+
+/**
+ * Position of the grid beat nearest to `time`
+ */
+function nearestBeat(deck: DeckState, time: number): number {
+  const beatLength = 60 / deck.bpm;
+  return deck.firstBeatOffset + Math.round((time - deck.firstBeatOffset) / beatLength) * beatLength;
+}
+
+/**
+ * Grid fields for a freshly analyzed track; a saved correction wins over
+ * the analysis
+ */
+export function loadBeatGrid(analysis: BeatGridAnalysis, saved: BeatGridEdit | undefined): Partial<DeckState> {
+  if (saved) {
+    return { ...saved, beatGridConfidence: analysis.confidence };
+  }
+  return {
+    bpm: analysis.bpm,
+    firstBeatOffset: analysis.firstBeat,
+    downbeatOffset: analysis.firstDownbeat,
+    beatGridConfidence: analysis.confidence,
+  };
+}
+
+/**
+ * Grid fields to save as the deck's correction
+ */
+export function getBeatGridEdit(deck: DeckState): BeatGridEdit {
+  return {
+    bpm: deck.bpm,
+    firstBeatOffset: deck.firstBeatOffset,
+    downbeatOffset: deck.downbeatOffset,
+  };
+}
+
+/**
+ * Move the whole grid (beats and downbeats) by `seconds`
+ */
+export function shiftBeatGrid(deck: DeckState, seconds: number): Partial<DeckState> {
+  if (deck.bpm <= 0) return {};
+  return {
+    firstBeatOffset: deck.firstBeatOffset + seconds,
+    downbeatOffset: deck.downbeatOffset + seconds,
+  };
+}
+
+/**
+ * Make the beat nearest the current position a downbeat (and the start of
+ * a phrase)
+ */
+export function setDownbeatHere(deck: DeckState): Partial<DeckState> {
+  if (deck.bpm <= 0) return {};
+  return { downbeatOffset: nearestBeat(deck, deck.currentTime) };
+}
+
+/**
+ * Multiply the grid tempo (2 = double, 0.5 = halve), keeping the first beat
+ * in place. The downbeat moves to the nearest beat of the new grid.
+ */
+export function scaleBeatGridTempo(deck: DeckState, factor: number): Partial<DeckState> {
+  const bpm = deck.bpm * factor;
+  if (deck.bpm <= 0 || bpm < MIN_GRID_BPM || bpm > MAX_GRID_BPM) return {};
+
+  const scaled = { ...deck, bpm };
+  return { bpm, downbeatOffset: nearestBeat(scaled, deck.downbeatOffset) };
+}
+
+/**
+ * Grid lines between `from` and `to` (seconds)
+ * Each line gets its most significant kind (a phrase start is also a bar
+ * and a beat).
+ */
+export function getGridLines(
+  grid: Pick<DeckState, 'bpm' | 'firstBeatOffset' | 'downbeatOffset'>,
+  from: number,
+  to: number
+): GridLine[] {
+  if (grid.bpm <= 0) return [];
+
+  const beatLength = 60 / grid.bpm;
+  const lines: GridLine[] = [];
+  const firstIndex = Math.ceil((Math.max(0, from) - grid.firstBeatOffset) / beatLength);
+
+  for (let index = firstIndex; ; index++) {
+    const time = grid.firstBeatOffset + index * beatLength;
+    if (time > to) break;
+
+    // Beats counted from the downbeat (which sits on the grid)
+    const fromDownbeat = Math.round((time - grid.downbeatOffset) / beatLength);
+    const beatsPerPhrase = PHRASE_BARS * BEATS_PER_BAR;
+    const kind: GridLineKind =
+      fromDownbeat % (beatsPerPhrase * 2) === 0
+        ? 'phrase32'
+        : fromDownbeat % beatsPerPhrase === 0
+          ? 'phrase16'
+          : fromDownbeat % BEATS_PER_BAR === 0
+            ? 'bar'
+            : 'beat';
+
+    lines.push({ time, kind });
+  }
+
+  return lines;
+}
@@ -0,0 +1,90 @@
+import type { DeckState } from '../types';
+
+// Playback rate bounds supported by the players
+const MIN_RATE = 0.5;
+const MAX_RATE = 2.0;
+
+/**
+ * Current tempo of a deck including its playback rate (0 = unknown)
+ */
+export function getEffectiveBpm(deck: DeckState): number {
+  return deck.bpm > 0 ? deck.bpm * deck.playbackRate : 0;
+}
+
+/**
+ * Playback rate that makes `target` play at the same tempo as `master`
+ * Tries half/double time when the straight ratio is out of range
+ * (e.g. a 70 BPM track against a 140 BPM master).
+ *
+ * @returns The new playback rate, or null if either BPM is unknown
+ */
+export function matchTempoRate(target: DeckState, master: DeckState): number | null {
+  const masterBpm = getEffectiveBpm(master);
+  if (masterBpm <= 0 || target.bpm <= 0) return null;
+
+  const candidates = [1, 2, 0.5].map((multiplier) => masterBpm / (target.bpm * multiplier));
+  const inRange = candidates.find((rate) => rate >= MIN_RATE && rate <= MAX_RATE);
+  const rate = inRange ?? candidates[0];
+
+  return Math.max(MIN_RATE, Math.min(MAX_RATE, rate));
+}
+
+/**
+ * Beat phase of a deck at its current position (0 to 1, 0 = on the beat)
+ */
+export function getBeatPhase(deck: DeckState): number {
+  if (deck.bpm <= 0) return 0;
+  const beats = ((deck.currentTime - deck.firstBeatOffset) * deck.bpm) / 60;
+  return beats - Math.floor(beats);
+}
+
+/**
+ * Position `target` should seek to so its beats line up with `master`
+ * Moves by at most half a beat in either direction.
+ *
+ * @returns The target seek time, or null if either BPM is unknown
+ */
+export function alignPhaseTime(target: DeckState, master: DeckState): number | null {
+  if (target.bpm <= 0 || master.bpm <= 0) return null;
+
+  let phaseDelta = getBeatPhase(master) - getBeatPhase(target);
+  if (phaseDelta > 0.5) phaseDelta -= 1;
+  if (phaseDelta < -0.5) phaseDelta += 1;
+
+  const beatLength = 60 / target.bpm;
+  return Math.max(0, target.currentTime + phaseDelta * beatLength);
+}
+
+/**
+ * Deck update for syncing `target` to `master`: match tempo, then line up
+ * the beat phase when the master is playing
+ */
+export function syncToMaster(target: DeckState, master: DeckState): Partial<DeckState> {
+  const rate = matchTempoRate(target, master);
+  if (rate === null) return {};
+
+  const updates: Partial<DeckState> = { playbackRate: rate, syncEnabled: true };
+
+  if (master.playing) {
+    const alignedTime = alignPhaseTime(target, master);
+    if (alignedTime !== null && Math.abs(alignedTime - target.currentTime) > 0.005) {
+      updates.seekTo = alignedTime;
+      updates.currentTime = alignedTime;
+    }
+  }
+
+  return updates;
+}
+
+/**
+ * Tempo/sync fields reset when a new track is loaded
+ */
+export function clearedSync(): Partial<DeckState> {
+  return {
+    bpm: 0,
+    firstBeatOffset: 0,
+    downbeatOffset: 0,
+    beatGridConfidence: 0,
+    syncEnabled: false,
+  };
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { applyCurve, interpolateCurvePoints } from './crossfaderCurve';
+import { DEFAULT_CUT_IN } from '../types';
+import type { CrossfaderCurve, CurvePoint } from '../types';
+
+const CURVES: CrossfaderCurve[] = ['linear', 'constant-power', 'center-full', 'cut', 'custom'];
+
+describe('applyCurve', () => {
+  describe('endpoints', () => {
+    it.each(CURVES)('%s plays only Deck A at 0', (curve) => {
+      const output = applyCurve(0, curve);
+      expect(output.deckAVolume).toBeCloseTo(1);
+      expect(output.deckBVolume).toBeCloseTo(0);
+      expect(output.deckAOpacity).toBeCloseTo(1);
+      expect(output.deckBOpacity).toBeCloseTo(0);
+    });
+
+    it.each(CURVES)('%s plays only Deck B at 1', (curve) => {
+      const output = applyCurve(1, curve);
+      expect(output.deckAVolume).toBeCloseTo(0);
+      expect(output.deckBVolume).toBeCloseTo(1);
+      expect(output.deckAOpacity).toBeCloseTo(0);
+      expect(output.deckBOpacity).toBeCloseTo(1);
+    });
+
+    it('clamps positions outside 0-1', () => {
+      expect(applyCurve(-0.5, 'linear')).toEqual(applyCurve(0, 'linear'));
+      expect(applyCurve(1.5, 'linear')).toEqual(applyCurve(1, 'linear'));
+    });
+  });
+
+  describe('center values', () => {
+    it('linear dips to 50% each', () => {
+      const output = applyCurve(0.5, 'linear');
+      expect(output.deckAVolume).toBeCloseTo(0.5);
+      expect(output.deckBVolume).toBeCloseTo(0.5);
+    });
+
+    it('constant-power keeps -3 dB each (equal power)', () => {
+      const output = applyCurve(0.5, 'constant-power');
+      expect(output.deckAVolume).toBeCloseTo(Math.SQRT1_2);
+      expect(output.deckBVolume).toBeCloseTo(Math.SQRT1_2);
+      expect(output.deckAVolume ** 2 + output.deckBVolume ** 2).toBeCloseTo(1);
+    });
+
+    it('center-full plays both decks at 100%', () => {
+      const output = applyCurve(0.5, 'center-full');
+      expect(output.deckAVolume).toBe(1);
+      expect(output.deckBVolume).toBe(1);
+    });
+
+    it('cut plays both decks at 100%', () => {
+      const output = applyCurve(0.5, 'cut');
+      expect(output.deckAVolume).toBe(1);
+      expect(output.deckBVolume).toBe(1);
+    });
+
+    it('custom follows the default points at the center', () => {
+      const output = applyCurve(0.5, 'custom');
+      expect(output.deckAVolume).toBe(1);
+      expect(output.deckBVolume).toBe(1);
+    });
+  });
+
+  describe('cut-in', () => {
+    it('reaches full volume at the cut-in width', () => {
+      expect(applyCurve(0.1, 'cut', { cutIn: 0.1 }).deckBVolume).toBeCloseTo(1);
+      expect(applyCurve(0.05, 'cut', { cutIn: 0.1 }).deckBVolume).toBeCloseTo(0.5);
+      expect(applyCurve(0.95, 'cut', { cutIn: 0.1 }).deckAVolume).toBeCloseTo(0.5);
+    });
+
+    it('defaults to DEFAULT_CUT_IN', () => {
+      expect(applyCurve(DEFAULT_CUT_IN / 2, 'cut').deckBVolume).toBeCloseTo(0.5);
+    });
+
+    it('clamps the width to 0.005-0.5', () => {
+      expect(applyCurve(0.25, 'cut', { cutIn: 2 }).deckBVolume).toBeCloseTo(0.5);
+      expect(applyCurve(0.0025, 'cut', { cutIn: 0 }).deckBVolume).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('custom points', () => {
+    const points: CurvePoint[] = [
+      { x: 0, y: 1 },
+      { x: 0.25, y: 0.8 },
+      { x: 1, y: 0 },
+    ];
+
+    it('interpolates Deck A between points', () => {
+      expect(applyCurve(0.125, 'custom', { customPoints: points }).deckAVolume).toBeCloseTo(0.9);
+      expect(applyCurve(0.625, 'custom', { customPoints: points }).deckAVolume).toBeCloseTo(0.4);
+    });
+
+    it('mirrors Deck A for Deck B', () => {
+      for (const position of [0.1, 0.3, 0.5, 0.8]) {
+        const output = applyCurve(position, 'custom', { customPoints: points });
+        const mirrored = applyCurve(1 - position, 'custom', { customPoints: points });
+        expect(output.deckBVolume).toBeCloseTo(mirrored.deckAVolume);
+      }
+    });
+  });
+
+  describe('opacity', () => {
+    it.each(CURVES)('%s opacities always sum to 100%%', (curve) => {
+      for (const position of [0, 0.1, 0.25, 0.5, 0.75, 0.9, 1]) {
+        const output = applyCurve(position, curve);
+        expect(output.deckAOpacity + output.deckBOpacity).toBeCloseTo(1);
+      }
+    });
+
+    it('normalizes opacity from the volumes', () => {
+      const output = applyCurve(0.25, 'center-full');
+      expect(output.deckAOpacity).toBeCloseTo(1 / 1.5);
+      expect(output.deckBOpacity).toBeCloseTo(0.5 / 1.5);
+    });
+
+    it('splits opacity evenly when both decks are silent', () => {
+      const silent: CurvePoint[] = [{ x: 0, y: 0 }];
+      const output = applyCurve(0.5, 'custom', { customPoints: silent });
+      expect(output.deckAOpacity).toBe(0.5);
+      expect(output.deckBOpacity).toBe(0.5);
+    });
+  });
+});
+
+describe('interpolateCurvePoints', () => {
+  it('holds the nearest point outside the covered range', () => {
+    const points: CurvePoint[] = [
+      { x: 0.2, y: 0.9 },
+      { x: 0.8, y: 0.1 },
+    ];
+    expect(interpolateCurvePoints(points, 0)).toBe(0.9);
+    expect(interpolateCurvePoints(points, 1)).toBe(0.1);
+  });
+
+  it('sorts unordered points', () => {
+    const points: CurvePoint[] = [
+      { x: 1, y: 0 },
+      { x: 0, y: 1 },
+    ];
+    expect(interpolateCurvePoints(points, 0.25)).toBeCloseTo(0.75);
+  });
+
+  it('clamps gains to 0-1', () => {
+    expect(interpolateCurvePoints([{ x: 0, y: 1.5 }], 0.5)).toBe(1);
+    expect(interpolateCurvePoints([{ x: 0, y: -1 }], 0.5)).toBe(0);
+  });
+
+  it('falls back to linear without points', () => {
+    expect(interpolateCurvePoints([], 0.3)).toBeCloseTo(0.7);
+  });
+});
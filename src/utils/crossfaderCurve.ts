@@ -1,25 +1,86 @@
-import type { CrossfaderCurve, CrossfaderOutput } from '../types';
+import type { CrossfaderCurve, CrossfaderOutput, CurvePoint } from '../types';
+import { DEFAULT_CUT_IN, DEFAULT_CUSTOM_CURVE } from '../types';
+
+/**
+ * Extra parameters used by some curve types
+ */
+export interface CurveOptions {
+  /** Cut-in width for the 'cut' curve (fraction of fader travel, 0.005-0.5) */
+  cutIn?: number;
+  /** Control points for the 'custom' curve (Deck A gain vs. position) */
+  customPoints?: CurvePoint[];
+}
 
 /**
  * Apply crossfader curve to get opacity and volume values for both decks
- * 
- * Uses a "both full in center" curve:
- * - At center (0.5): both decks at 100% volume, 50% opacity each
- * - Moving left: Deck B fades out, Deck A stays at 100%
- * - Moving right: Deck A fades out, Deck B stays at 100%
+ *
+ * Audio and opacity are shaped separately: audio follows the selected curve,
+ * while opacity always sums to 100% so the video never dips or flashes.
  *
  * @param value - Crossfader position (0.0 = full Deck A, 1.0 = full Deck B)
- * @param _curve - Curve type (ignored, always uses center-full curve)
+ * @param curve - Curve type
+ * @param options - Cut-in width and custom control points
  * @returns Opacity and volume values for both decks
  */
 export function applyCurve(
   value: number,
-  _curve: CrossfaderCurve
+  curve: CrossfaderCurve,
+  options: CurveOptions = {}
 ): CrossfaderOutput {
   // Clamp value to valid range
   const clampedValue = Math.max(0, Math.min(1, value));
 
-  return applyCenterFullCurve(clampedValue);
+  switch (curve) {
+    case 'linear':
+      return applyLinearCurve(clampedValue);
+    case 'constant-power':
+      return applyConstantPowerCurve(clampedValue);
+    case 'cut':
+      return applyCutCurve(clampedValue, options.cutIn ?? DEFAULT_CUT_IN);
+    case 'custom':
+      return applyCustomCurve(clampedValue, options.customPoints ?? DEFAULT_CUSTOM_CURVE);
+    case 'center-full':
+    default:
+      return applyCenterFullCurve(clampedValue);
+  }
+}
+
+/**
+ * Normalize two volumes into opacities that sum to 1 (100%)
+ */
+function normalizeOpacity(deckAVolume: number, deckBVolume: number) {
+  const totalVolume = deckAVolume + deckBVolume;
+  return {
+    deckAOpacity: totalVolume > 0 ? deckAVolume / totalVolume : 0.5,
+    deckBOpacity: totalVolume > 0 ? deckBVolume / totalVolume : 0.5,
+  };
+}
+
+/**
+ * Linear crossfade - volumes sum to 100%, -6dB dip in the center
+ * Opacity follows the fader position directly
+ */
+function applyLinearCurve(value: number): CrossfaderOutput {
+  return {
+    deckAOpacity: 1 - value,
+    deckBOpacity: value,
+    deckAVolume: 1 - value,
+    deckBVolume: value,
+  };
+}
+
+/**
+ * Constant-power crossfade - equal perceived loudness across the travel
+ * - Center (0.5): A=B≈70.7% volume (-3dB each)
+ * Opacity follows the fader position directly
+ */
+function applyConstantPowerCurve(value: number): CrossfaderOutput {
+  return {
+    deckAOpacity: 1 - value,
+    deckBOpacity: value,
+    deckAVolume: Math.cos((value * Math.PI) / 2),
+    deckBVolume: Math.sin((value * Math.PI) / 2),
+  };
 }
 
 /**
@@ -27,7 +88,7 @@ export function applyCurve(
  * - Center (0.5): A=100%, B=100% volume; A=50%, B=50% opacity
  * - Left (0.0): A=100%, B=0% volume; A=100%, B=0% opacity
  * - Right (1.0): A=0%, B=100% volume; A=0%, B=100% opacity
- * 
+ *
  * Opacity is normalized so total opacity = 100% (for proper blending)
  */
 function applyCenterFullCurve(value: number): CrossfaderOutput {
@@ -44,20 +105,79 @@ function applyCenterFullCurve(value: number): CrossfaderOutput {
     deckBVolume = 1;
   }
 
-  // Calculate opacity: normalize so total = 1 (100%)
-  // This ensures proper visual blending
-  const totalVolume = deckAVolume + deckBVolume;
-  const deckAOpacity = totalVolume > 0 ? deckAVolume / totalVolume : 0.5;
-  const deckBOpacity = totalVolume > 0 ? deckBVolume / totalVolume : 0.5;
+  return {
+    ...normalizeOpacity(deckAVolume, deckBVolume),
+    deckAVolume,
+    deckBVolume,
+  };
+}
+
+/**
+ * Scratch/cut crossfade - each deck cuts in within `cutIn` of its edge
+ * - Both decks at 100% across the middle of the travel
+ * - Deck B reaches 100% at position `cutIn`, Deck A drops out from `1 - cutIn`
+ *
+ * Opacity is normalized from the volumes so the picture cuts with the sound
+ */
+function applyCutCurve(value: number, cutIn: number): CrossfaderOutput {
+  const width = Math.max(0.005, Math.min(0.5, cutIn));
+
+  const deckAVolume = Math.min(1, (1 - value) / width);
+  const deckBVolume = Math.min(1, value / width);
 
   return {
-    deckAOpacity,
-    deckBOpacity,
+    ...normalizeOpacity(deckAVolume, deckBVolume),
     deckAVolume,
     deckBVolume,
   };
 }
 
+/**
+ * User-defined crossfade - Deck A gain is interpolated from control points,
+ * Deck B mirrors it (B at position x = A at position 1 - x)
+ *
+ * Opacity is normalized from the volumes
+ */
+function applyCustomCurve(value: number, points: CurvePoint[]): CrossfaderOutput {
+  const deckAVolume = interpolateCurvePoints(points, value);
+  const deckBVolume = interpolateCurvePoints(points, 1 - value);
+
+  return {
+    ...normalizeOpacity(deckAVolume, deckBVolume),
+    deckAVolume,
+    deckBVolume,
+  };
+}
+
+/**
+ * Linearly interpolate a gain (0-1) from control points at position x (0-1)
+ * Points outside the covered range hold the nearest point's value
+ */
+export function interpolateCurvePoints(points: CurvePoint[], x: number): number {
+  if (points.length === 0) return 1 - x;
+
+  const sorted = [...points].sort((a, b) => a.x - b.x);
+
+  if (x <= sorted[0].x) return clampGain(sorted[0].y);
+  if (x >= sorted[sorted.length - 1].x) return clampGain(sorted[sorted.length - 1].y);
+
+  for (let i = 1; i < sorted.length; i++) {
+    const left = sorted[i - 1];
+    const right = sorted[i];
+    if (x <= right.x) {
+      const span = right.x - left.x;
+      const t = span > 0 ? (x - left.x) / span : 1;
+      return clampGain(left.y + (right.y - left.y) * t);
+    }
+  }
+
+  return clampGain(sorted[sorted.length - 1].y);
+}
+
+function clampGain(gain: number): number {
+  return Math.max(0, Math.min(1, gain));
+}
+
 /**
  * Convert a 7-bit MIDI value (0-127) to normalized float (0.0-1.0)
  */
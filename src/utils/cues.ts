@@ -0,0 +1,142 @@
+import type { DeckState, HotCue } from '../types';
+import { HOT_CUE_COLORS, HOT_CUE_COUNT } from '../types';
+
+/**
+ * Cue point logic following CDJ conventions
+ *
+ * All functions are pure: they take the current deck state and return the
+ * partial update to merge into it.
+ */
+
+// How close (seconds) the playhead must be to count as "at the cue point"
+const AT_CUE_TOLERANCE = 0.05;
+
+/**
+ * Jump the deck to a position (optimistically updating currentTime)
+ */
+function jumpTo(time: number): Partial<DeckState> {
+  return { seekTo: time, currentTime: time };
+}
+
+/**
+ * CUE pressed
+ * - Playing: return to the cue point and pause
+ * - Paused at the cue point: play from it while held (preview)
+ * - Paused elsewhere: set a new cue point here and preview from it
+ */
+export function cueDown(deck: DeckState): Partial<DeckState> {
+  if (deck.playing && deck.cuePreviewReturn === null) {
+    return { ...jumpTo(deck.cuePoint), playing: false };
+  }
+
+  if (deck.playing) {
+    // Already previewing (e.g. from a hot cue) - ignore
+    return {};
+  }
+
+  const atCue = Math.abs(deck.currentTime - deck.cuePoint) < AT_CUE_TOLERANCE;
+  const cuePoint = atCue ? deck.cuePoint : deck.currentTime;
+
+  return {
+    cuePoint,
+    playing: true,
+    cuePreviewReturn: cuePoint,
+  };
+}
+
+/**
+ * CUE or hot cue released - end a preview by returning to where it started
+ */
+export function cueUp(deck: DeckState): Partial<DeckState> {
+  if (deck.cuePreviewReturn === null) return {};
+
+  return {
+    ...jumpTo(deck.cuePreviewReturn),
+    playing: false,
+    cuePreviewReturn: null,
+  };
+}
+
+/**
+ * PLAY pressed - pressing play during a cue preview keeps the deck playing
+ */
+export function togglePlay(deck: DeckState): Partial<DeckState> {
+  if (deck.cuePreviewReturn !== null) {
+    return { playing: true, cuePreviewReturn: null };
+  }
+  return { playing: !deck.playing };
+}
+
+/**
+ * Hot cue pad pressed
+ * - Empty pad: store a hot cue at the current position
+ * - Playing: jump to the hot cue and keep playing
+ * - Paused: jump and play while held (preview)
+ */
+export function hotCueDown(deck: DeckState, index: number): Partial<DeckState> {
+  if (index < 0 || index >= HOT_CUE_COUNT) return {};
+
+  const hotCue = deck.hotCues[index];
+  if (!hotCue) {
+    return setHotCue(deck, index, deck.currentTime);
+  }
+
+  if (deck.playing) {
+    return jumpTo(hotCue.time);
+  }
+
+  return {
+    ...jumpTo(hotCue.time),
+    playing: true,
+    cuePreviewReturn: hotCue.time,
+  };
+}
+
+/**
+ * Store a hot cue at a position (keeps existing color and label)
+ */
+export function setHotCue(deck: DeckState, index: number, time: number): Partial<DeckState> {
+  if (index < 0 || index >= HOT_CUE_COUNT) return {};
+
+  const existing = deck.hotCues[index];
+  const hotCue: HotCue = {
+    time: Math.max(0, time),
+    color: existing?.color ?? HOT_CUE_COLORS[index % HOT_CUE_COLORS.length],
+    label: existing?.label ?? '',
+  };
+
+  return { hotCues: deck.hotCues.map((cue, i) => (i === index ? hotCue : cue)) };
+}
+
+/**
+ * Change a hot cue's color or label
+ */
+export function editHotCue(
+  deck: DeckState,
+  index: number,
+  updates: Partial<Omit<HotCue, 'time'>>
+): Partial<DeckState> {
+  const existing = deck.hotCues[index];
+  if (!existing) return {};
+
+  return { hotCues: deck.hotCues.map((cue, i) => (i === index ? { ...existing, ...updates } : cue)) };
+}
+
+/**
+ * Remove a hot cue
+ */
+export function deleteHotCue(deck: DeckState, index: number): Partial<DeckState> {
+  if (!deck.hotCues[index]) return {};
+  return { hotCues: deck.hotCues.map((cue, i) => (i === index ? null : cue)) };
+}
+
+/**
+ * Cue fields reset when a new track is loaded
+ */
+export function clearedCues(): Partial<DeckState> {
+  return {
+    cuePoint: 0,
+    hotCues: Array.from({ length: HOT_CUE_COUNT }, () => null),
+    cuePreviewReturn: null,
+  };
+}
@@ -0,0 +1,97 @@
+import type { DeckSource, DeckState, MediaKind, Track } from '../types';
+import { YOUTUBE_DECK_SOURCE } from '../types';
+import { getTrackAudioUrl, isYouTubeTrack } from './trackProviders';
+
+/**
+ * Deck sources: what plays a loaded track
+ *
+ * YouTube tracks play in the embed; provider tracks stream from the server
+ * into a native element ('url'); dropped files play from an object URL
+ * ('file') without any network access, so they can't be analyzed.
+ */
+
+// Fallback for files the browser reports without a MIME type
+const MEDIA_EXTENSIONS: Record<string, MediaKind> = {
+  mp3: 'audio',
+  m4a: 'audio',
+  wav: 'audio',
+  ogg: 'audio',
+  flac: 'audio',
+  mp4: 'video',
+  m4v: 'video',
+  webm: 'video',
+  mov: 'video',
+};
+
+/**
+ * Deck source for a track from the browser
+ */
+export function getTrackSource(track: Track): DeckSource {
+  if (isYouTubeTrack(track.videoId)) return YOUTUBE_DECK_SOURCE;
+  return { type: 'url', url: getTrackAudioUrl(track.videoId), mediaKind: 'audio' };
+}
+
+/**
+ * URL the audio engine plays for a deck (null = nothing loaded)
+ */
+export function getDeckAudioUrl(deck: Pick<DeckState, 'videoId' | 'source'>): string | null {
+  if (!deck.videoId) return null;
+  return deck.source.type === 'youtube' ? getTrackAudioUrl(deck.videoId) : deck.source.url;
+}
+
+/**
+ * Whether the server can analyze a deck's track (waveform, beat grid, key, loudness)
+ */
+export function isAnalyzableSource(source: DeckSource): boolean {
+  return source.type !== 'file';
+}
+
+/**
+ * Audio or video, for a file the decks can play (null = not a media file)
+ */
+export function getFileMediaKind(file: File): MediaKind | null {
+  if (file.type.startsWith('audio/')) return 'audio';
+  if (file.type.startsWith('video/')) return 'video';
+  if (file.type) return null;
+
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return MEDIA_EXTENSIONS[extension] ?? null;
+}
+
+/**
+ * Stable ID for a file, so beat grid corrections apply when it's dropped again
+ */
+function fileTrackId(file: File): string {
+  const identity = `${file.name}:${file.size}:${file.lastModified}`;
+  let hash = 5381;
+  for (let i = 0; i < identity.length; i++) {
+    hash = ((hash << 5) + hash + identity.charCodeAt(i)) >>> 0;
+  }
+  return `file-${hash.toString(16)}`;
+}
+
+/**
+ * Track fields for a media file dropped on a deck
+ * Titles follow the "Artist - Title.mp4" naming convention when present.
+ */
+export function fileDeckState(file: File, mediaKind: MediaKind): Partial<DeckState> {
+  const name = file.name.replace(/\.[^.]+$/, '');
+  const separator = name.indexOf(' - ');
+
+  return {
+    videoId: fileTrackId(file),
+    source: { type: 'file', url: URL.createObjectURL(file), mediaKind },
+    title: separator > 0 ? name.slice(separator + 3).trim() : name,
+    artist: separator > 0 ? name.slice(0, separator).trim() : 'Local file',
+    key: null,
+  };
+}
+
+/**
+ * Free what a deck's previous source holds (the object URL of a dropped file)
+ */
+export function releaseDeckSource(source: DeckSource): void {
+  if (source.type === 'file' && source.url) {
+    URL.revokeObjectURL(source.url);
+  }
+}
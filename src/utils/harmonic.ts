@@ -0,0 +1,44 @@
+import type { MusicalKey } from '../types';
+
+/**
+ * Harmonic mixing on the Camelot wheel
+ *
+ * Keys mix cleanly when they are the same, one step apart on the wheel
+ * (a fifth up or down) or relative major/minor (same number, other letter).
+ */
+
+export type HarmonicRelation = 'same' | 'adjacent' | 'relative';
+
+export const HARMONIC_RELATION_LABELS: Record<HarmonicRelation, string> = {
+  same: 'Same key',
+  adjacent: 'Adjacent key (±1)',
+  relative: 'Relative major/minor',
+};
+
+/**
+ * Split a Camelot code ("8A") into wheel number and letter
+ */
+function parseCamelot(code: string): { number: number; letter: string } | null {
+  const match = /^(\d{1,2})([AB])$/.exec(code);
+  if (!match) return null;
+  const number = Number(match[1]);
+  return number >= 1 && number <= 12 ? { number, letter: match[2] } : null;
+}
+
+/**
+ * How `candidate` mixes into `playing` (null = not harmonically compatible)
+ */
+export function getHarmonicRelation(playing: MusicalKey, candidate: MusicalKey): HarmonicRelation | null {
+  const a = parseCamelot(playing.camelot);
+  const b = parseCamelot(candidate.camelot);
+  if (!a || !b) return null;
+
+  if (a.letter === b.letter) {
+    if (a.number === b.number) return 'same';
+    // Steps wrap around the wheel (12 → 1)
+    const steps = Math.abs(a.number - b.number);
+    return steps === 1 || steps === 11 ? 'adjacent' : null;
+  }
+
+  return a.number === b.number ? 'relative' : null;
+}
@@ -0,0 +1,31 @@
+/**
+ * Conversions between control positions and store values
+ */
+
+/**
+ * Map deck gain (0 to 1.5, 1 = unity) to a bipolar knob position (-1 to 1)
+ */
+export function gainToKnob(gain: number): number {
+  return gain < 1 ? gain - 1 : (gain - 1) * 2;
+}
+
+/**
+ * Map a bipolar knob position (-1 to 1) back to deck gain (0 to 1.5)
+ */
+export function knobToGain(value: number): number {
+  return value < 0 ? 1 + value : 1 + value / 2;
+}
+
+/**
+ * Map a unipolar control position (0 to 1) to a bipolar value (-1 to 1)
+ */
+export function unipolarToBipolar(value: number): number {
+  return value * 2 - 1;
+}
+
+/**
+ * Map a bipolar value (-1 to 1) to a unipolar control position (0 to 1)
+ */
+export function bipolarToUnipolar(value: number): number {
+  return (value + 1) / 2;
+}
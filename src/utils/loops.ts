@@ -0,0 +1,238 @@
+import type { DeckState, LoopRegion } from '../types';
+import { MAX_LOOP_BEATS, MIN_LOOP_BEATS } from '../types';
+
+/**
+ * Loop logic: manual in/out, beat-snapped auto-loops and loop rolls
+ *
+ * All functions are pure: they take the current deck state and return the
+ * partial update to merge into it.
+ */
+
+// Shortest loop allowed when the BPM is unknown (seconds)
+const MIN_LOOP_SECONDS = 0.05;
+
+/**
+ * Length of one beat in seconds at playbackRate 1.0 (null if BPM unknown)
+ */
+function getBeatLength(deck: DeckState): number | null {
+  return deck.bpm > 0 ? 60 / deck.bpm : null;
+}
+
+/**
+ * Snap a position down onto the beat grid
+ * Sub-beat loops snap to their own subdivision (e.g. 1/4 beat).
+ */
+function snapToGrid(deck: DeckState, time: number, beatLength: number, beats: number): number {
+  const unit = beatLength * Math.min(1, beats);
+  const snapped = deck.firstBeatOffset + Math.floor((time - deck.firstBeatOffset) / unit) * unit;
+  return Math.max(0, snapped);
+}
+
+/**
+ * Clamp a loop end to the track duration (when known)
+ */
+function clampToDuration(deck: DeckState, time: number): number {
+  return deck.duration > 0 ? Math.min(deck.duration, time) : time;
+}
+
+/**
+ * Current loop fields, saved while a roll overrides them
+ */
+function getLoopRegion(deck: DeckState): LoopRegion {
+  return {
+    loopIn: deck.loopIn,
+    loopOut: deck.loopOut,
+    loopActive: deck.loopActive,
+    loopBeats: deck.loopBeats,
+  };
+}
+
+/**
+ * Beat-snapped loop of `beats` starting at the current beat
+ */
+function beatLoop(deck: DeckState, beats: number): Partial<DeckState> {
+  const beatLength = getBeatLength(deck);
+  if (beatLength === null) return {};
+
+  const length = Math.max(MIN_LOOP_BEATS, Math.min(MAX_LOOP_BEATS, beats));
+  const loopIn = snapToGrid(deck, deck.currentTime, beatLength, length);
+
+  return {
+    loopIn,
+    loopOut: clampToDuration(deck, loopIn + length * beatLength),
+    loopActive: true,
+    loopBeats: length,
+  };
+}
+
+/**
+ * Format a loop length in beats for labels (0.25 → "1/4")
+ */
+export function formatBeats(beats: number): string {
+  return beats < 1 ? `1/${Math.round(1 / beats)}` : String(beats);
+}
+
+/**
+ * The region playback is currently confined to (null if no loop is active)
+ */
+export function getActiveLoop(deck: DeckState): { start: number; end: number } | null {
+  if (!deck.loopActive || deck.loopIn === null || deck.loopOut === null) return null;
+  return { start: deck.loopIn, end: deck.loopOut };
+}
+
+/**
+ * LOOP IN pressed - mark a new loop start at the playhead
+ */
+export function loopIn(deck: DeckState): Partial<DeckState> {
+  return {
+    loopIn: deck.currentTime,
+    loopOut: null,
+    loopActive: false,
+    loopBeats: 0,
+  };
+}
+
+/**
+ * LOOP OUT pressed - close the loop at the playhead and jump back to its start
+ */
+export function loopOut(deck: DeckState): Partial<DeckState> {
+  if (deck.loopIn === null || deck.currentTime - deck.loopIn < MIN_LOOP_SECONDS) return {};
+
+  const beatLength = getBeatLength(deck);
+  const length = deck.currentTime - deck.loopIn;
+
+  return {
+    loopOut: deck.currentTime,
+    loopActive: true,
+    loopBeats: beatLength !== null ? length / beatLength : 0,
+    seekTo: deck.loopIn,
+    currentTime: deck.loopIn,
+  };
+}
+
+/**
+ * Auto-loop button pressed - loop `beats` beats from the current beat
+ * Pressing the button of the running auto-loop exits it.
+ */
+export function autoLoop(deck: DeckState, beats: number): Partial<DeckState> {
+  if (deck.loopActive && deck.loopBeats === beats) {
+    return { loopActive: false };
+  }
+  return beatLoop(deck, beats);
+}
+
+/**
+ * Halve (factor 0.5) or double (factor 2) the loop length, keeping its start
+ */
+export function resizeLoop(deck: DeckState, factor: number): Partial<DeckState> {
+  if (deck.loopIn === null || deck.loopOut === null) return {};
+
+  const beatLength = getBeatLength(deck);
+  let length: number;
+  let loopBeats = 0;
+
+  if (beatLength !== null && deck.loopBeats > 0) {
+    loopBeats = Math.max(MIN_LOOP_BEATS, Math.min(MAX_LOOP_BEATS, deck.loopBeats * factor));
+    if (loopBeats === deck.loopBeats) return {};
+    length = loopBeats * beatLength;
+  } else {
+    length = Math.max(MIN_LOOP_SECONDS, (deck.loopOut - deck.loopIn) * factor);
+  }
+
+  const newOut = clampToDuration(deck, deck.loopIn + length);
+  const updates: Partial<DeckState> = { loopOut: newOut, loopBeats };
+
+  // Playhead fell outside the shorter loop - wrap it back in
+  if (deck.loopActive && deck.currentTime >= newOut) {
+    const wrapped = deck.loopIn + ((deck.currentTime - deck.loopIn) % (newOut - deck.loopIn));
+    updates.seekTo = wrapped;
+    updates.currentTime = wrapped;
+  }
+
+  return updates;
+}
+
+/**
+ * RELOOP/EXIT pressed
+ * - Looping: exit the loop and keep playing
+ * - Not looping: re-enable the last loop and jump to its start
+ */
+export function toggleLoop(deck: DeckState): Partial<DeckState> {
+  if (deck.loopActive) {
+    return { loopActive: false };
+  }
+  if (deck.loopIn === null || deck.loopOut === null) return {};
+
+  return {
+    loopActive: true,
+    seekTo: deck.loopIn,
+    currentTime: deck.loopIn,
+  };
+}
+
+/**
+ * Loop roll pressed - loop `beats` beats while the track keeps counting underneath
+ * Switching to another roll length while held keeps the original resume point.
+ */
+export function loopRollStart(deck: DeckState, beats: number, now: number): Partial<DeckState> {
+  if (!deck.playing) return {};
+
+  const loop = beatLoop(deck, beats);
+  if (!loop.loopActive) return {};
+
+  return {
+    ...loop,
+    loopRoll: deck.loopRoll ?? {
+      startTime: deck.currentTime,
+      startedAt: now,
+      previous: getLoopRegion(deck),
+    },
+  };
+}
+
+/**
+ * Loop roll released - restore the previous loop and resume where the
+ * track would have been had it never rolled
+ */
+export function loopRollEnd(deck: DeckState, now: number): Partial<DeckState> {
+  const roll = deck.loopRoll;
+  if (!roll) return {};
+
+  const elapsed = ((now - roll.startedAt) / 1000) * deck.playbackRate;
+  const resumeTime = clampToDuration(deck, roll.startTime + elapsed);
+
+  // A restored loop that no longer contains the resume point is exited
+  return withLoopExit({ ...deck, ...roll.previous }, {
+    ...roll.previous,
+    loopRoll: null,
+    seekTo: resumeTime,
+    currentTime: resumeTime,
+  });
+}
+
+/**
+ * Exit an active loop when an update jumps the playhead outside of it
+ */
+export function withLoopExit(deck: DeckState, updates: Partial<DeckState>): Partial<DeckState> {
+  const loop = getActiveLoop(deck);
+  const target = updates.seekTo;
+  if (!loop || target === null || target === undefined) return updates;
+
+  if (target < loop.start || target >= loop.end) {
+    return { ...updates, loopActive: false };
+  }
+  return updates;
+}
+
+/**
+ * Loop fields reset when a new track is loaded
+ */
+export function clearedLoop(): Partial<DeckState> {
+  return {
+    loopIn: null,
+    loopOut: null,
+    loopActive: false,
+    loopBeats: 0,
+    loopRoll: null,
+  };
+}
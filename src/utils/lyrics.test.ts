@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { getActiveLineIndex, getWipeSegments, parseLyrics } from './lyrics';
+import type { LyricsLine } from '../types';
+
+describe('parseLyrics', () => {
+  it('parses LRC line timestamps in every format', () => {
+    const lyrics = parseLyrics('[00:01]One\n[00:02.5]Two\n[00:03:25]Three\n[01:04.125]Four');
+    expect(lyrics.synced).toBe(true);
+    expect(lyrics.lines.map((line) => line.time)).toEqual([1, 2.5, 3.25, 64.125]);
+    expect(lyrics.lines.map((line) => line.text)).toEqual(['One', 'Two', 'Three', 'Four']);
+  });
+
+  it('skips ID tags and lines without timestamps', () => {
+    const lyrics = parseLyrics('[ar:Artist]\n[ti:Title]\nNot timed\n[00:05.00]Sung');
+    expect(lyrics.lines).toEqual([{ time: 5, text: 'Sung', words: [] }]);
+  });
+
+  it('keeps empty timed lines as instrumental breaks', () => {
+    const lyrics = parseLyrics('[00:01.00]Verse\n[00:04.00]');
+    expect(lyrics.lines[1]).toEqual({ time: 4, text: '', words: [] });
+  });
+
+  it('repeats a line once per timestamp, sorted by time', () => {
+    const lyrics = parseLyrics('[00:10.00][00:30.00]Chorus\n[00:20.00]Verse');
+    expect(lyrics.lines.map((line) => [line.time, line.text])).toEqual([
+      [10, 'Chorus'],
+      [20, 'Verse'],
+      [30, 'Chorus'],
+    ]);
+  });
+
+  it('shifts lines and words by the [offset:] tag', () => {
+    const earlier = parseLyrics('[offset:+500]\n[00:02.00]<00:02.00>Hi <00:03.00>there');
+    expect(earlier.lines[0].time).toBe(1.5);
+    expect(earlier.lines[0].words.map((word) => word.time)).toEqual([1.5, 2.5]);
+
+    const later = parseLyrics('[offset:-250]\n[00:02.00]Hi');
+    expect(later.lines[0].time).toBe(2.25);
+  });
+
+  it('never shifts a line before the start', () => {
+    expect(parseLyrics('[offset:2000]\n[00:01.00]Hi').lines[0].time).toBe(0);
+  });
+
+  describe('enhanced LRC', () => {
+    it('parses word timings', () => {
+      const [line] = parseLyrics('[00:12.00]<00:12.00>Never <00:12.50>gonna <00:13.25>give').lines;
+      expect(line.text).toBe('Never gonna give');
+      expect(line.words).toEqual([
+        { time: 12, text: 'Never ' },
+        { time: 12.5, text: 'gonna ' },
+        { time: 13.25, text: 'give' },
+      ]);
+    });
+
+    it('parses word timestamps with a colon before the fraction', () => {
+      const [line] = parseLyrics('[00:12:00]<00:12:50>Hi <00:13>there').lines;
+      expect(line.words.map((word) => word.time)).toEqual([12.5, 13]);
+    });
+
+    it('keeps text before the first word timestamp with the first word', () => {
+      const [line] = parseLyrics('[00:01.00]Oh <00:02.00>yeah').lines;
+      expect(line.words).toEqual([{ time: 2, text: 'Oh yeah' }]);
+      expect(line.text).toBe('Oh yeah');
+    });
+  });
+
+  describe('plain text', () => {
+    it('falls back to untimed lines without any timestamp', () => {
+      const lyrics = parseLyrics('First line  \nSecond line');
+      expect(lyrics.synced).toBe(false);
+      expect(lyrics.lines).toEqual([
+        { time: null, text: 'First line', words: [] },
+        { time: null, text: 'Second line', words: [] },
+      ]);
+      expect(getActiveLineIndex(lyrics, 10)).toBe(-1);
+    });
+
+    it('has no lines for empty text', () => {
+      expect(parseLyrics('  \n').lines).toEqual([]);
+    });
+  });
+});
+
+describe('getActiveLineIndex', () => {
+  const lyrics = parseLyrics('[00:01.00]One\n[00:05.00]Two');
+
+  it('follows the line being sung', () => {
+    expect(getActiveLineIndex(lyrics, 0.5)).toBe(-1);
+    expect(getActiveLineIndex(lyrics, 1)).toBe(0);
+    expect(getActiveLineIndex(lyrics, 7)).toBe(1);
+  });
+});
+
+describe('getWipeSegments', () => {
+  it('fills word-timed lines word by word', () => {
+    const [line] = parseLyrics('[00:10.00]<00:10.00>Hi <00:11.00>there').lines;
+    expect(getWipeSegments(line, 20, 10.5)).toEqual([
+      { text: 'Hi ', fill: 0.5 },
+      { text: 'there', fill: 0 },
+    ]);
+  });
+
+  it('fills the last word for a second at most, or until the next line', () => {
+    const [line] = parseLyrics('[00:10.00]<00:10.00>Hi').lines;
+    expect(getWipeSegments(line, null, 10.5)[0].fill).toBeCloseTo(0.5);
+    expect(getWipeSegments(line, 10.25, 10.2)[0].fill).toBeCloseTo(0.8);
+  });
+
+  it('wipes line-timed lines evenly by characters until the next line', () => {
+    const line: LyricsLine = { time: 0, text: 'ab cd', words: [] };
+    expect(getWipeSegments(line, 5, 0)).toEqual([
+      { text: 'ab ', fill: 0 },
+      { text: 'cd', fill: 0 },
+    ]);
+    const half = getWipeSegments(line, 5, 2.5);
+    expect(half[0].fill).toBeCloseTo(2.5 / 3);
+    expect(half[1].fill).toBe(0);
+    expect(getWipeSegments(line, 5, 5).map((segment) => segment.fill)).toEqual([1, 1]);
+  });
+
+  it('wipes the last line-timed line over four seconds', () => {
+    const line: LyricsLine = { time: 10, text: 'ab', words: [] };
+    expect(getWipeSegments(line, null, 12)[0].fill).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,205 @@
+import type { CrossfaderOutput, DeckState, Lyrics, LyricsLine, LyricsLookup, LyricsProviderId, LyricsWord } from '../types';
+import { EMPTY_LYRICS } from '../types';
+
+/**
+ * Lyrics parsing and timing: plain text, LRC and enhanced (word-timed) LRC
+ *
+ * LRC lines start with one or more [mm:ss.xx] timestamps; enhanced LRC adds
+ * <mm:ss.xx> before each word. Lyrics without any timestamped line are
+ * plain text, shown as-is without highlighting.
+ */
+
+// One [mm:ss], [mm:ss.xx] or [mm:ss:xx] line timestamp
+const LINE_TIMESTAMP = /\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+
+// The timestamps at the start of a line, then its text
+const TIMESTAMPED_LINE = /^((?:\[\d+:\d{1,2}(?:[.:]\d{1,3})?\])+)(.*)$/;
+
+// An ID tag such as [ar:Artist] or [offset:+250]
+const ID_TAG = /^\[([a-z#]+):(.*)\]$/i;
+
+// A <mm:ss>, <mm:ss.xx> or <mm:ss:xx> word timestamp (the capture groups
+// keep minutes, seconds and fraction in split results)
+const WORD_TIMESTAMP = /<(\d+):(\d{1,2})(?:[.:](\d{1,3}))?>/;
+
+// How long a line's last word fills for at most (seconds)
+const LAST_WORD_SECONDS = 1;
+
+// How long the last line of line-timed lyrics wipes for (seconds)
+const LAST_LINE_SECONDS = 4;
+
+const LYRICS_PROVIDER_NAMES: Record<LyricsProviderId, string> = {
+  saved: 'saved edit',
+  local: 'lyrics folder',
+  remote: 'lyrics.ovh',
+};
+
+/**
+ * Seconds of an "mm:ss.xx" timestamp
+ */
+function parseTimestamp(minutes: string, seconds: string, fraction: string | undefined): number {
+  return Number(minutes) * 60 + Number(seconds) + (fraction ? Number(`0.${fraction}`) : 0);
+}
+
+/**
+ * Text and word timings of an enhanced LRC line (no words for a plain line)
+ */
+function parseWords(text: string): Pick<LyricsLine, 'text' | 'words'> {
+  // [text before the first timestamp, minutes, seconds, fraction, word, minutes, ...]
+  const parts = text.split(WORD_TIMESTAMP);
+  if (parts.length === 1) {
+    return { text: text.trim(), words: [] };
+  }
+
+  const words: LyricsWord[] = [];
+  for (let i = 1; i < parts.length; i += 4) {
+    words.push({ time: parseTimestamp(parts[i], parts[i + 1], parts[i + 2]), text: parts[i + 3] });
+  }
+  if (parts[0].trim()) {
+    words[0] = { ...words[0], text: parts[0] + words[0].text };
+  }
+
+  return { text: words.map((word) => word.text).join('').trim(), words };
+}
+
+/**
+ * Parse lyrics as LRC when any line is timestamped, otherwise as plain text
+ * Lines with several timestamps (repeated choruses) appear once per
+ * timestamp; an [offset:ms] tag shifts every line (positive = earlier).
+ */
+export function parseLyrics(source: string): Lyrics {
+  const rawLines = source.replace(/\r\n?/g, '\n').split('\n');
+  const lines: LyricsLine[] = [];
+  let offset = 0;
+
+  for (const rawLine of rawLines) {
+    const line = rawLine.trim();
+
+    const tag = line.match(ID_TAG);
+    if (tag) {
+      if (tag[1].toLowerCase() === 'offset') offset = (Number(tag[2]) || 0) / 1000;
+      continue;
+    }
+
+    const match = line.match(TIMESTAMPED_LINE);
+    if (!match) continue;
+
+    const { text, words } = parseWords(match[2]);
+    for (const [, minutes, seconds, fraction] of match[1].matchAll(LINE_TIMESTAMP)) {
+      lines.push({ time: parseTimestamp(minutes, seconds, fraction), text, words });
+    }
+  }
+
+  if (lines.length === 0) {
+    return {
+      source,
+      lines: source.trim() ? rawLines.map((text) => ({ time: null, text: text.trimEnd(), words: [] })) : [],
+      synced: false,
+    };
+  }
+
+  const shift = (time: number) => Math.max(0, time - offset);
+  return {
+    source,
+    lines: lines
+      .map((line) => ({
+        ...line,
+        time: shift(line.time!),
+        words: line.words.map((word) => ({ ...word, time: shift(word.time) })),
+      }))
+      .sort((a, b) => a.time - b.time),
+    synced: true,
+  };
+}
+
+/**
+ * Deck lyrics for a newly loaded track: its saved synced lyrics, if any
+ */
+export function loadedLyrics(savedLrc: string | undefined): Partial<DeckState> {
+  return { lyrics: savedLrc ? parseLyrics(savedLrc) : EMPTY_LYRICS };
+}
+
+/**
+ * Index of the line being sung at a time (-1 before the first line or for
+ * plain-text lyrics)
+ */
+export function getActiveLineIndex(lyrics: Lyrics, time: number): number {
+  if (!lyrics.synced) return -1;
+
+  let active = -1;
+  for (let i = 0; i < lyrics.lines.length; i++) {
+    if (lyrics.lines[i].time! > time) break;
+    active = i;
+  }
+  return active;
+}
+
+/**
+ * Whether any line has word timings
+ */
+export function hasWordTimings(lyrics: Lyrics): boolean {
+  return lyrics.lines.some((line) => line.words.length > 0);
+}
+
+/**
+ * How far each word of a line has been sung at a time, 0-1
+ * A word fills until the next word starts; the last word for
+ * LAST_WORD_SECONDS, or until the next line (lineEnd) if that's sooner.
+ */
+export function getWordFills(line: LyricsLine, lineEnd: number | null, time: number): number[] {
+  return line.words.map((word, i) => {
+    const end = line.words[i + 1]?.time ?? Math.min(lineEnd ?? Infinity, word.time + LAST_WORD_SECONDS);
+    if (time <= word.time) return 0;
+    if (time >= end) return 1;
+    return (time - word.time) / (end - word.time);
+  });
+}
+
+/**
+ * A line split into words with how far each has been sung, 0-1, for a
+ * karaoke color wipe
+ * Word-timed lines fill word by word; line-timed lines wipe across their
+ * text evenly until the next line starts.
+ */
+export function getWipeSegments(line: LyricsLine, lineEnd: number | null, time: number): { text: string; fill: number }[] {
+  if (line.words.length > 0) {
+    const fills = getWordFills(line, lineEnd, time);
+    return line.words.map((word, i) => ({ text: word.text, fill: fills[i] })).filter((segment) => segment.text);
+  }
+
+  const start = line.time ?? 0;
+  const end = lineEnd ?? start + LAST_LINE_SECONDS;
+  const progress = Math.max(0, Math.min(1, (time - start) / (end - start || 1)));
+  const words = line.text.match(/\S+\s*/g) ?? [];
+  const totalChars = words.reduce((total, word) => total + word.length, 0);
+
+  let charsBefore = 0;
+  return words.map((text) => {
+    const fill = Math.max(0, Math.min(1, (progress * totalChars - charsBefore) / text.length));
+    charsBefore += text.length;
+    return { text, fill };
+  });
+}
+
+/**
+ * Deck whose synced lyrics belong on the projector: the louder one through
+ * the crossfader, a playing deck winning over a paused one (null when
+ * neither is audible with synced lyrics)
+ */
+export function getAudibleLyricsDeck(deckA: DeckState, deckB: DeckState, mix: CrossfaderOutput): 'A' | 'B' | null {
+  const score = (deck: DeckState, volume: number) =>
+    deck.lyrics.synced && volume > 0 ? volume + (deck.playing ? 1 : 0) : 0;
+  const scoreA = score(deckA, mix.deckAVolume);
+  const scoreB = score(deckB, mix.deckBVolume);
+
+  if (scoreA === 0 && scoreB === 0) return null;
+  return scoreA >= scoreB ? 'A' : 'B';
+}
+
+/**
+ * Short description of where looked-up lyrics came from, e.g. "Synced · lyrics folder"
+ */
+export function describeLyricsLookup(lookup: LyricsLookup): string {
+  const kind = lookup.synced ? 'Synced' : 'Plain';
+  return `${kind} · ${LYRICS_PROVIDER_NAMES[lookup.provider]}${lookup.cached ? ' (cached)' : ''}`;
+}
@@ -0,0 +1,205 @@
+import type { Lyrics } from '../types';
+
+/**
+ * Tap-to-sync lyrics editing: timestamps are tapped in while the deck
+ * plays, per line or per word, then nudged and exported as LRC
+ *
+ * All editing functions are pure: they take the lines and return new ones.
+ */
+
+export type SyncMode = 'line' | 'word';
+
+export interface SyncWord {
+  text: string; // Including its trailing space, if any
+  time: number | null; // null = not tapped yet
+}
+
+export interface SyncLine {
+  text: string;
+  time: number | null; // null = not tapped yet
+  words: SyncWord[];
+}
+
+/**
+ * Position in the lyrics: a line, or a word of it in word mode
+ */
+export interface SyncPosition {
+  line: number;
+  word: number;
+}
+
+type TapListener = () => void;
+
+const tapListeners: Record<'A' | 'B', Set<TapListener>> = { A: new Set(), B: new Set() };
+
+/**
+ * Split a line into words, each keeping its trailing whitespace
+ */
+function splitWords(text: string): SyncWord[] {
+  return (text.match(/\S+\s*/g) ?? []).map((word) => ({ text: word, time: null }));
+}
+
+/**
+ * Editable lines from deck lyrics
+ * Synced lyrics keep their timestamps; plain text becomes untimed lines
+ * (blank lines dropped).
+ */
+export function toSyncLines(lyrics: Lyrics): SyncLine[] {
+  return lyrics.lines
+    .filter((line) => lyrics.synced || line.text.trim())
+    .map((line) => {
+      const words = line.words.filter((word) => word.text);
+      return {
+        text: line.text,
+        time: line.time,
+        words: words.length > 0 ? words.map((word) => ({ text: word.text, time: word.time })) : splitWords(line.text),
+      };
+    });
+}
+
+/**
+ * Record a tap at a position and return the position of the next tap
+ * Re-tapping a line in line mode clears its word timings; tapping a line's
+ * first word also sets the line's start.
+ */
+export function tapAt(
+  lines: SyncLine[],
+  position: SyncPosition,
+  mode: SyncMode,
+  time: number
+): { lines: SyncLine[]; next: SyncPosition } {
+  const line = lines[position.line];
+  if (!line) return { lines, next: position };
+
+  const updated =
+    mode === 'line' || line.words.length === 0
+      ? { ...line, time, words: line.words.map((word) => ({ ...word, time: null })) }
+      : {
+          ...line,
+          time: position.word === 0 ? time : line.time,
+          words: line.words.map((word, i) => (i === position.word ? { ...word, time } : word)),
+        };
+
+  const nextWord = position.word + 1;
+  const next =
+    mode === 'word' && nextWord < line.words.length
+      ? { line: position.line, word: nextWord }
+      : { line: position.line + 1, word: 0 };
+
+  return { lines: lines.map((l, i) => (i === position.line ? updated : l)), next };
+}
+
+/**
+ * Step back one tap from a position, clearing that timestamp
+ */
+export function untap(lines: SyncLine[], position: SyncPosition, mode: SyncMode): { lines: SyncLine[]; previous: SyncPosition } {
+  let previous: SyncPosition;
+  if (mode === 'word' && position.word > 0) {
+    previous = { line: position.line, word: position.word - 1 };
+  } else if (position.line > 0) {
+    const line = position.line - 1;
+    previous = { line, word: mode === 'word' ? Math.max(0, lines[line].words.length - 1) : 0 };
+  } else {
+    return { lines, previous: position };
+  }
+
+  const cleared = lines.map((line, i) => {
+    if (i !== previous.line) return line;
+    if (mode === 'line') return { ...line, time: null };
+    return {
+      ...line,
+      time: previous.word === 0 ? null : line.time,
+      words: line.words.map((word, w) => (w === previous.word ? { ...word, time: null } : word)),
+    };
+  });
+  return { lines: cleared, previous };
+}
+
+/**
+ * Timestamp at a position (the line's start in line mode)
+ */
+export function getSyncTime(lines: SyncLine[], position: SyncPosition, mode: SyncMode): number | null {
+  const line = lines[position.line];
+  if (!line) return null;
+  return mode === 'word' && line.words.length > 0 ? (line.words[position.word]?.time ?? null) : line.time;
+}
+
+/**
+ * Move the timestamp at a position by some seconds
+ * A line's first word and the line's start move together.
+ */
+export function nudgeAt(lines: SyncLine[], position: SyncPosition, mode: SyncMode, seconds: number): SyncLine[] {
+  const shift = (time: number | null) => (time === null ? null : Math.max(0, time + seconds));
+
+  return lines.map((line, i) => {
+    if (i !== position.line) return line;
+    if (mode === 'line' || line.words.length === 0) {
+      return { ...line, time: shift(line.time), words: line.words.map((word, w) => (w === 0 ? { ...word, time: shift(word.time) } : word)) };
+    }
+    return {
+      ...line,
+      time: position.word === 0 ? shift(line.time) : line.time,
+      words: line.words.map((word, w) => (w === position.word ? { ...word, time: shift(word.time) } : word)),
+    };
+  });
+}
+
+/**
+ * Move every timestamp by some seconds (global offset)
+ */
+export function shiftAll(lines: SyncLine[], seconds: number): SyncLine[] {
+  const shift = (time: number | null) => (time === null ? null : Math.max(0, time + seconds));
+  return lines.map((line) => ({
+    ...line,
+    time: shift(line.time),
+    words: line.words.map((word) => ({ ...word, time: shift(word.time) })),
+  }));
+}
+
+/**
+ * Format seconds as an LRC timestamp (mm:ss.xx)
+ */
+export function formatLrcTimestamp(seconds: number): string {
+  const hundredths = Math.round(seconds * 100);
+  const mins = Math.floor(hundredths / 6000);
+  const secs = Math.floor((hundredths % 6000) / 100);
+  const fraction = hundredths % 100;
+  return `${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(fraction).padStart(2, '0')}`;
+}
+
+/**
+ * Standard LRC text of the timed lines, with artist and title tags
+ * Word timings are written as enhanced LRC when any word has one.
+ */
+export function toLrc(lines: SyncLine[], artist: string, title: string): string {
+  const tags = [artist && `[ar:${artist}]`, title && `[ti:${title}]`].filter(Boolean);
+  const body = lines
+    .filter((line) => line.time !== null)
+    .map((line) => {
+      const hasWordTimes = line.words.some((word) => word.time !== null);
+      const text = hasWordTimes
+        ? line.words.map((word) => (word.time !== null ? `<${formatLrcTimestamp(word.time)}>` : '') + word.text).join('')
+        : line.text;
+      return `[${formatLrcTimestamp(line.time!)}]${text.trim()}`;
+    });
+  return [...tags, ...body].join('\n');
+}
+
+/**
+ * Call a listener whenever a deck's lyrics tap control is pressed
+ *
+ * @returns Unsubscribe function
+ */
+export function onLyricsTap(deck: 'A' | 'B', listener: TapListener): () => void {
+  tapListeners[deck].add(listener);
+  return () => {
+    tapListeners[deck].delete(listener);
+  };
+}
+
+/**
+ * Tap the open sync editor of a deck (MIDI pads)
+ */
+export function tapLyrics(deck: 'A' | 'B'): void {
+  tapListeners[deck].forEach((listener) => listener());
+}
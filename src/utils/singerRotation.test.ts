@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { addRequest, addSinger, finishTurn, getIdleDeck, getNextTurn, loadTurn, removeRequest, removeSinger } from './singerRotation';
+import { EMPTY_SINGER_ROTATION } from '../types';
+import type { SingerRotation, Track } from '../types';
+
+function track(videoId: string): Track {
+  return { id: videoId, videoId, title: `Song ${videoId}`, thumbnail: '', duration: '3:00', channel: '' };
+}
+
+/** Alice, Bob and Carol signed up in that order, one request each */
+function nightOfThree(): SingerRotation {
+  let rotation = EMPTY_SINGER_ROTATION;
+  ['Alice', 'Bob', 'Carol'].forEach((name, index) => {
+    rotation = addSinger(rotation, name, index + 1);
+    rotation = addRequest(rotation, `singer-${index + 1}`, track(name.toLowerCase()), 10 + index);
+  });
+  return rotation;
+}
+
+/** Load the next turn onto a deck, as the LOAD button does */
+function loadNext(rotation: SingerRotation, deck: 'A' | 'B'): SingerRotation {
+  const next = getNextTurn(rotation)!;
+  return loadTurn(rotation, { singerId: next.singer.id, requestId: next.request.id, deck });
+}
+
+describe('preloading while someone sings', () => {
+  it('puts the next singer on deck without replacing the one up', () => {
+    let rotation = loadNext(nightOfThree(), 'A');
+    expect(rotation.up).toEqual({ singerId: 'singer-1', requestId: 'alice-10', deck: 'A' });
+
+    rotation = loadNext(rotation, 'B');
+    expect(rotation.up?.singerId).toBe('singer-1');
+    expect(rotation.onDeck).toEqual({ singerId: 'singer-2', requestId: 'bob-11', deck: 'B' });
+    expect(getNextTurn(rotation)?.singer.name).toBe('Carol');
+  });
+
+  it('finishes the current turn and brings the singer on deck up', () => {
+    let rotation = loadNext(loadNext(nightOfThree(), 'A'), 'B');
+    rotation = finishTurn(rotation, 'singer-1', 'alice-10', 'sung', 100);
+
+    expect(rotation.history).toHaveLength(1);
+    expect(rotation.history[0]).toMatchObject({ singerName: 'Alice', outcome: 'sung' });
+    expect(rotation.singers.map((singer) => singer.name)).toEqual(['Bob', 'Carol', 'Alice']);
+    expect(rotation.up).toEqual({ singerId: 'singer-2', requestId: 'bob-11', deck: 'B' });
+    expect(rotation.onDeck).toBeNull();
+    expect(getNextTurn(rotation)?.singer.name).toBe('Carol');
+  });
+
+  it('keeps a single singer on deck', () => {
+    const rotation = loadNext(loadNext(nightOfThree(), 'A'), 'B');
+    const carol = rotation.singers[2];
+    expect(loadTurn(rotation, { singerId: carol.id, requestId: carol.requests[0].id, deck: 'A' })).toBe(rotation);
+  });
+
+  it('clears the singer on deck when their turn is skipped early', () => {
+    let rotation = loadNext(loadNext(nightOfThree(), 'A'), 'B');
+    rotation = finishTurn(rotation, 'singer-2', 'bob-11', 'skipped', 100);
+
+    expect(rotation.up?.singerId).toBe('singer-1');
+    expect(rotation.onDeck).toBeNull();
+    expect(rotation.history[0]).toMatchObject({ singerName: 'Bob', outcome: 'skipped' });
+  });
+
+  it('brings the singer on deck up when the one up is removed', () => {
+    const rotation = removeSinger(loadNext(loadNext(nightOfThree(), 'A'), 'B'), 'singer-1');
+
+    expect(rotation.up).toEqual({ singerId: 'singer-2', requestId: 'bob-11', deck: 'B' });
+    expect(rotation.onDeck).toBeNull();
+    expect(getNextTurn(rotation)?.singer.name).toBe('Carol');
+  });
+
+  it('brings the singer on deck up when the song up is removed', () => {
+    let rotation = removeRequest(loadNext(loadNext(nightOfThree(), 'A'), 'B'), 'singer-1', 'alice-10');
+    expect(rotation.up).toEqual({ singerId: 'singer-2', requestId: 'bob-11', deck: 'B' });
+    expect(rotation.onDeck).toBeNull();
+
+    rotation = finishTurn(rotation, 'singer-2', 'bob-11', 'sung', 100);
+    expect(rotation.history[0]).toMatchObject({ singerName: 'Bob', outcome: 'sung' });
+    expect(rotation.up).toBeNull();
+  });
+
+  it('keeps the singer up when the one on deck is removed', () => {
+    const rotation = removeSinger(loadNext(loadNext(nightOfThree(), 'A'), 'B'), 'singer-2');
+
+    expect(rotation.up?.singerId).toBe('singer-1');
+    expect(rotation.onDeck).toBeNull();
+  });
+});
+
+describe('addSinger', () => {
+  it('places first-timers at the end of the current round', () => {
+    let rotation = finishTurn(loadNext(nightOfThree(), 'A'), 'singer-1', 'alice-10', 'sung', 100);
+    rotation = addSinger(rotation, 'Dave', 200);
+    expect(rotation.singers.map((singer) => singer.name)).toEqual(['Bob', 'Carol', 'Dave', 'Alice']);
+  });
+
+  it('sends returning singers to the back with their turn count', () => {
+    let rotation = finishTurn(loadNext(nightOfThree(), 'A'), 'singer-1', 'alice-10', 'sung', 100);
+    rotation = { ...rotation, singers: rotation.singers.filter((singer) => singer.name !== 'Alice') };
+    rotation = addSinger(rotation, ' alice ', 200);
+    expect(rotation.singers.at(-1)).toMatchObject({ name: 'alice', turns: 1 });
+  });
+});
+
+describe('getIdleDeck', () => {
+  const idle = { playing: false, videoId: '' };
+  const loaded = { playing: false, videoId: 'abc' };
+  const playing = { playing: true, videoId: 'abc' };
+
+  it('prefers an empty deck when both are idle', () => {
+    expect(getIdleDeck(idle, idle)).toBe('A');
+    expect(getIdleDeck(loaded, idle)).toBe('B');
+  });
+
+  it('skips playing decks', () => {
+    expect(getIdleDeck(playing, idle)).toBe('B');
+    expect(getIdleDeck(playing, playing)).toBeNull();
+  });
+
+  it('never picks the deck of the singer who is up', () => {
+    expect(getIdleDeck(idle, loaded, 'A')).toBe('B');
+    expect(getIdleDeck(idle, playing, 'A')).toBeNull();
+  });
+});
@@ -0,0 +1,175 @@
+import type { DeckState, Singer, SingerRotation, SingerTurn, SingerTurnOutcome, Track } from '../types';
+
+/**
+ * Karaoke singer rotation: who sings next, and in what order
+ *
+ * Rules:
+ * - Round-robin: after a turn (sung or skipped) a singer goes to the back
+ *   of the rotation
+ * - First-timers join at the end of the current round, ahead of anyone
+ *   who would be getting a further turn
+ * - Repeats: a singer who already had a turn tonight (matched by name, e.g.
+ *   after being removed) rejoins at the back, keeping their turn count
+ * - Singers without requests keep their place but are passed over
+ * - While a singer is up, the next one can be preloaded "on deck"; they
+ *   become up when the current turn ends or the singer up is removed
+ *
+ * All functions are pure: they take the rotation and return a new one.
+ */
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Move a list item to another index
+ */
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || from >= items.length) return items;
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(Math.max(0, Math.min(to, moved.length)), 0, item);
+  return moved;
+}
+
+/**
+ * Clear the loaded turns matching a removed singer or request; when the
+ * singer who is up goes, the one on deck comes up
+ */
+function clearTurns(rotation: SingerRotation, removed: (turn: SingerTurn) => boolean): SingerRotation {
+  if (rotation.up && removed(rotation.up)) {
+    const onDeck = rotation.onDeck && !removed(rotation.onDeck) ? rotation.onDeck : null;
+    return { ...rotation, up: onDeck, onDeck: null };
+  }
+  return { ...rotation, onDeck: rotation.onDeck && removed(rotation.onDeck) ? null : rotation.onDeck };
+}
+
+function updateSinger(rotation: SingerRotation, singerId: string, update: (singer: Singer) => Singer): SingerRotation {
+  return {
+    ...rotation,
+    singers: rotation.singers.map((singer) => (singer.id === singerId ? update(singer) : singer)),
+  };
+}
+
+/**
+ * Sign a singer up, placed by the first-timer and repeat rules
+ */
+export function addSinger(rotation: SingerRotation, name: string, now: number): SingerRotation {
+  const turns = rotation.history.filter((entry) => sameName(entry.singerName, name)).length;
+  const singer: Singer = { id: `singer-${now}`, name: name.trim(), requests: [], turns, joinedAt: now };
+
+  // End of the current round: before the first singer with more turns than the one up next
+  const roundTurns = rotation.singers[0]?.turns ?? 0;
+  const roundEnd = rotation.singers.findIndex((other) => other.turns > roundTurns);
+  const index = turns > 0 || roundEnd === -1 ? rotation.singers.length : roundEnd;
+
+  return {
+    ...rotation,
+    singers: [...rotation.singers.slice(0, index), singer, ...rotation.singers.slice(index)],
+    startedAt: rotation.startedAt ?? now,
+  };
+}
+
+export function removeSinger(rotation: SingerRotation, singerId: string): SingerRotation {
+  return clearTurns(
+    { ...rotation, singers: rotation.singers.filter((singer) => singer.id !== singerId) },
+    (turn) => turn.singerId === singerId
+  );
+}
+
+export function moveSinger(rotation: SingerRotation, from: number, to: number): SingerRotation {
+  return { ...rotation, singers: moveItem(rotation.singers, from, to) };
+}
+
+/**
+ * Add a song to a singer's requests (the entry gets its own id)
+ */
+export function addRequest(rotation: SingerRotation, singerId: string, track: Track, now: number): SingerRotation {
+  return updateSinger(rotation, singerId, (singer) => ({
+    ...singer,
+    requests: [...singer.requests, { ...track, id: `${track.videoId}-${now}` }],
+  }));
+}
+
+export function removeRequest(rotation: SingerRotation, singerId: string, requestId: string): SingerRotation {
+  const updated = updateSinger(rotation, singerId, (singer) => ({
+    ...singer,
+    requests: singer.requests.filter((request) => request.id !== requestId),
+  }));
+  return clearTurns(updated, (turn) => turn.requestId === requestId);
+}
+
+export function moveRequest(rotation: SingerRotation, singerId: string, from: number, to: number): SingerRotation {
+  return updateSinger(rotation, singerId, (singer) => ({ ...singer, requests: moveItem(singer.requests, from, to) }));
+}
+
+/**
+ * The next singer in rotation order with a request, and their next song
+ * The singers who are up and on deck are passed over, so this is who
+ * follows them.
+ */
+export function getNextTurn(rotation: SingerRotation): { singer: Singer; request: Track } | null {
+  const loaded = [rotation.up?.singerId, rotation.onDeck?.singerId];
+  const singer = rotation.singers.find((candidate) => candidate.requests.length > 0 && !loaded.includes(candidate.id));
+  return singer ? { singer, request: singer.requests[0] } : null;
+}
+
+/**
+ * Record a request loaded onto a deck: the singer is up, or on deck when
+ * someone is already singing (no-op when someone is already on deck)
+ */
+export function loadTurn(rotation: SingerRotation, turn: SingerTurn): SingerRotation {
+  if (!rotation.up) return { ...rotation, up: turn };
+  if (rotation.onDeck) return rotation;
+  return { ...rotation, onDeck: turn };
+}
+
+/**
+ * End a singer's turn on one of their requests: the song goes to the
+ * history and the singer to the back of the rotation. Ending the turn of
+ * the singer who is up brings the one on deck up.
+ */
+export function finishTurn(
+  rotation: SingerRotation,
+  singerId: string,
+  requestId: string,
+  outcome: SingerTurnOutcome,
+  now: number
+): SingerRotation {
+  const singer = rotation.singers.find((candidate) => candidate.id === singerId);
+  const request = singer?.requests.find((candidate) => candidate.id === requestId);
+  if (!singer || !request) return rotation;
+
+  const finished: Singer = {
+    ...singer,
+    requests: singer.requests.filter((candidate) => candidate.id !== requestId),
+    turns: singer.turns + 1,
+  };
+
+  return {
+    ...rotation,
+    singers: [...rotation.singers.filter((candidate) => candidate.id !== singerId), finished],
+    ...(rotation.up?.singerId === singerId
+      ? { up: rotation.onDeck, onDeck: null }
+      : { onDeck: rotation.onDeck?.singerId === singerId ? null : rotation.onDeck }),
+    history: [...rotation.history, { id: `turn-${now}`, singerName: singer.name, track: request, outcome, at: now }],
+  };
+}
+
+/**
+ * The deck to load the next singer's song onto: one not playing and not
+ * holding the singer who is up, preferring an empty deck when both are idle
+ *
+ * @param reserved - Deck of the singer who is up (never chosen)
+ * @returns The deck, or null when no deck is free
+ */
+export function getIdleDeck(
+  deckA: Pick<DeckState, 'playing' | 'videoId'>,
+  deckB: Pick<DeckState, 'playing' | 'videoId'>,
+  reserved: 'A' | 'B' | null = null
+): 'A' | 'B' | null {
+  const freeA = !deckA.playing && reserved !== 'A';
+  const freeB = !deckB.playing && reserved !== 'B';
+  if (freeA && freeB) return deckA.videoId && !deckB.videoId ? 'B' : 'A';
+  return freeA ? 'A' : freeB ? 'B' : null;
+}
@@ -0,0 +1,43 @@
+import type { Track, TrackProviderId } from '../types';
+
+/**
+ * Track providers on the client side
+ *
+ * Track IDs identify their provider: YouTube video IDs as-is, local music
+ * files prefixed with `local-` (see server/providers/local.ts).
+ */
+
+const LOCAL_TRACK_PREFIX = 'local-';
+
+export const TRACK_PROVIDER_LABELS: Record<TrackProviderId, string> = {
+  youtube: 'YouTube',
+  local: 'Local',
+};
+
+/**
+ * Provider of a track ID
+ */
+export function getTrackProviderId(videoId: string): TrackProviderId {
+  return videoId.startsWith(LOCAL_TRACK_PREFIX) ? 'local' : 'youtube';
+}
+
+/**
+ * Provider of a track, for tracks saved without one
+ */
+export function getProviderOfTrack(track: Track): TrackProviderId {
+  return track.provider ?? getTrackProviderId(track.videoId);
+}
+
+/**
+ * Whether a track ID plays in the YouTube player
+ */
+export function isYouTubeTrack(videoId: string): boolean {
+  return getTrackProviderId(videoId) === 'youtube';
+}
+
+/**
+ * URL of a track's audio, streamed through the server (same-origin, seekable)
+ */
+export function getTrackAudioUrl(videoId: string): string {
+  return `/api/tracks/audio?id=${encodeURIComponent(videoId)}`;
+}
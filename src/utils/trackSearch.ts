@@ -0,0 +1,79 @@
+import { sortResults } from '../../shared/search';
+import type {
+  SearchDurationFilter,
+  SearchFilters,
+  SearchKeyword,
+  SearchSort,
+  SearchUploadDateFilter,
+  Track,
+} from '../types';
+
+/**
+ * Track Browser search: request URLs, filter labels and page merging
+ *
+ * Filtering and sorting happen on the server (/api/tracks/search); the
+ * client only keeps the pages it has loaded in order.
+ */
+
+export const SEARCH_DURATION_LABELS: Record<SearchDurationFilter, string> = {
+  any: 'Any length',
+  short: '< 4 min',
+  medium: '4-20 min',
+  long: '> 20 min',
+};
+
+export const SEARCH_UPLOAD_DATE_LABELS: Record<SearchUploadDateFilter, string> = {
+  any: 'Any time',
+  hour: 'Last hour',
+  today: 'Today',
+  week: 'This week',
+  month: 'This month',
+  year: 'This year',
+};
+
+export const SEARCH_KEYWORD_LABELS: Record<SearchKeyword, string> = {
+  karaoke: 'Karaoke',
+  instrumental: 'Instrumental',
+};
+
+export const SEARCH_SORT_LABELS: Record<SearchSort, string> = {
+  relevance: 'Relevance',
+  views: 'Views',
+  duration: 'Duration',
+};
+
+/**
+ * URL of a search request; pageToken comes from the previous page
+ */
+export function buildSearchUrl(query: string, filters: SearchFilters, pageToken: string | null = null): string {
+  const params = new URLSearchParams({ q: query });
+  if (filters.duration !== 'any') params.set('duration', filters.duration);
+  if (filters.uploaded !== 'any') params.set('uploaded', filters.uploaded);
+  if (filters.keywords.length > 0) params.set('keywords', filters.keywords.join(','));
+  if (filters.sort !== 'relevance') params.set('sort', filters.sort);
+  if (pageToken) params.set('page', pageToken);
+  return `/api/tracks/search?${params}`;
+}
+
+/**
+ * Number of filters that differ from the defaults
+ */
+export function countActiveFilters(filters: SearchFilters): number {
+  return (
+    (filters.duration !== 'any' ? 1 : 0) +
+    (filters.uploaded !== 'any' ? 1 : 0) +
+    filters.keywords.length +
+    (filters.sort !== 'relevance' ? 1 : 0)
+  );
+}
+
+/**
+ * Append a page to the loaded results, skipping tracks already listed
+ * The server sorts each page by duration; across pages the list is sorted
+ * again so it stays in order as more pages load.
+ */
+export function appendSearchPage(loaded: Track[], page: Track[], sort: SearchSort): Track[] {
+  const seen = new Set(loaded.map((track) => track.id));
+  const merged = [...loaded, ...page.filter((track) => !seen.has(track.id))];
+  return sortResults(merged, sort);
+}
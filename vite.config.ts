@@ -1,18 +1,16 @@
 import path from 'path'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
-import { youtubeApiMiddleware, youtubeVideoMiddleware, youtubeWaveformMiddleware } from './server/youtube-api'
+import { apiMiddlewares } from './server/api'
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [
     react(),
     {
       name: 'youtube-api',
       configureServer(server) {
-        server.middlewares.use(youtubeApiMiddleware());
-        server.middlewares.use(youtubeVideoMiddleware());
-        server.middlewares.use(youtubeWaveformMiddleware());
+        apiMiddlewares().forEach((middleware) => server.middlewares.use(middleware));
       },
     },
   ],
@@ -21,4 +19,12 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
-})
+  // `vite build --ssr` bundles the production server instead of the app
+  build: isSsrBuild
+    ? {
+        outDir: 'dist-server',
+        copyPublicDir: false,
+        rollupOptions: { input: 'server/index.ts' },
+      }
+    : {},
+}))